@@ -106,6 +106,22 @@ async function main() {
     `);
     console.log("Table imported_decks créée");
 
+    // Suppressions à propager lors de la synchronisation
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sync_deletions (
+        id SERIAL PRIMARY KEY,
+        entity_type VARCHAR(32) NOT NULL,
+        external_id VARCHAR(255) NOT NULL,
+        author_id INTEGER REFERENCES users(id),
+        deleted_at TIMESTAMP DEFAULT NOW() NOT NULL
+      );
+    `);
+    // Bases créées avant l'ajout du propriétaire
+    await pool.query(`
+      ALTER TABLE sync_deletions ADD COLUMN IF NOT EXISTS author_id INTEGER REFERENCES users(id);
+    `);
+    console.log("Table sync_deletions créée");
+
     console.log("Migration terminée avec succès");
   } catch (error) {
     console.error("Erreur lors de la migration:", error);
@@ -0,0 +1,30 @@
+import { createStorage, type StorageDriver } from "./storage";
+import { runStorageConformance } from "./storageConformance";
+
+// Backends vérifiés hors ligne ; chaque vérification part d'une base vide
+const DRIVERS: StorageDriver[] = ["memory", "pglite"];
+
+async function main() {
+  let failures = 0;
+
+  for (const driver of DRIVERS) {
+    console.log(`\n${driver}`);
+    const results = await runStorageConformance(() => createStorage({ driver }));
+
+    for (const result of results) {
+      console.log(`  ${result.passed ? "✓" : "✗"} ${result.name}`);
+      if (!result.passed) {
+        failures++;
+        console.error(result.error);
+      }
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`\n${failures} vérification(s) en échec`);
+    process.exit(1);
+  }
+  console.log("\nToutes les implémentations respectent le contrat de IStorage");
+}
+
+main();
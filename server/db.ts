@@ -1,18 +1,28 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
 import ws from "ws";
 import * as schema from "../shared/schema";
 
 // Configure WebSockets for Neon database
 neonConfig.webSocketConstructor = ws;
 
-// Vérifier que DATABASE_URL est disponible
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL n'est pas défini. Assurez-vous d'avoir configuré la base de données."
-  );
-}
+// Base Drizzle commune aux pilotes PostgreSQL (Neon, PGlite)
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Crée la connexion à la base Neon.
+ * La vérification de DATABASE_URL est faite ici plutôt qu'à l'import du module,
+ * pour que les autres backends de stockage fonctionnent sans base distante.
+ * @param connectionString URL de connexion (DATABASE_URL par défaut)
+ */
+export function createNeonDatabase(connectionString = process.env.DATABASE_URL): { pool: Pool; db: Database } {
+  if (!connectionString) {
+    throw new Error(
+      "DATABASE_URL n'est pas défini. Assurez-vous d'avoir configuré la base de données."
+    );
+  }
 
-// Créer une connexion à la base de données
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle(pool, { schema });
\ No newline at end of file
+  const pool = new Pool({ connectionString });
+  return { pool, db: drizzle(pool, { schema }) };
+}
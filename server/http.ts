@@ -0,0 +1,123 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { z, ZodError } from "zod";
+
+// Corps d'erreur commun à toutes les routes de l'API :
+// { "error": { "code": "NOT_FOUND", "message": "...", "details"?: ... } }
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+    details?: unknown;
+  };
+}
+
+// Erreur HTTP levée par les routes et convertie en réponse par errorHandler
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export const notFound = (resource: string): HttpError => {
+  return new HttpError(404, "NOT_FOUND", `${resource} introuvable`);
+};
+
+// Transmet les erreurs des routes asynchrones au gestionnaire d'erreurs d'Express
+export const asyncHandler = (
+  handler: (req: Request, res: Response) => Promise<void>
+): RequestHandler => {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+};
+
+// Identifiant numérique passé dans l'URL
+export const parseId = (value: string, name = "id"): number => {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError(400, "INVALID_ID", `Le paramètre ${name} doit être un entier positif`);
+  }
+  return id;
+};
+
+// Pagination des listes : ?limit=50&offset=0
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const paginationSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export interface Page<T> {
+  data: T[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+}
+
+export const paginate = <T>(items: T[], query: Request["query"]): Page<T> => {
+  const { limit, offset } = paginationSchema.parse({
+    limit: query.limit,
+    offset: query.offset,
+  });
+
+  return {
+    data: items.slice(offset, offset + limit),
+    pagination: {
+      total: items.length,
+      limit,
+      offset,
+      hasMore: offset + limit < items.length,
+    },
+  };
+};
+
+// Routes /api inconnues
+export const apiNotFoundHandler: RequestHandler = (req, _res, next) => {
+  next(new HttpError(404, "ROUTE_NOT_FOUND", `Route inconnue : ${req.method} ${req.originalUrl}`));
+};
+
+// Gestionnaire d'erreurs final : toutes les erreurs sortent au même format
+export const errorHandler = (err: unknown, _req: Request, res: Response, next: NextFunction): void => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  let status = 500;
+  let body: ApiErrorBody = {
+    error: { code: "INTERNAL_ERROR", message: "Erreur interne du serveur" },
+  };
+
+  if (err instanceof HttpError) {
+    status = err.status;
+    body = { error: { code: err.code, message: err.message, details: err.details } };
+  } else if (err instanceof ZodError) {
+    status = 400;
+    body = {
+      error: {
+        code: "VALIDATION_ERROR",
+        message: "Les données envoyées sont invalides",
+        details: err.issues.map(issue => ({ path: issue.path.join("."), message: issue.message })),
+      },
+    };
+  } else if (err instanceof SyntaxError && "body" in err) {
+    // JSON mal formé rejeté par express.json()
+    status = 400;
+    body = { error: { code: "INVALID_JSON", message: "Le corps de la requête n'est pas un JSON valide" } };
+  } else {
+    console.error("Erreur non gérée dans l'API:", err);
+  }
+
+  res.status(status).json(body);
+};
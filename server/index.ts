@@ -0,0 +1,28 @@
+import express from "express";
+import { registerRoutes } from "./routes";
+import { errorHandler } from "./http";
+import { createStorage, type IStorage } from "./storage";
+
+const PORT = Number(process.env.PORT) || 3001;
+
+/**
+ * Crée l'application Express de l'API REST
+ * @param storage Backend de stockage choisi par STORAGE_DRIVER
+ */
+function createApp(storage: IStorage) {
+  const app = express();
+
+  // Les decks exportés contiennent des images en base64
+  app.use(express.json({ limit: "10mb" }));
+
+  registerRoutes(app, storage);
+  app.use(errorHandler);
+
+  return app;
+}
+
+const storage = await createStorage();
+
+createApp(storage).listen(PORT, () => {
+  console.log(`API REST démarrée sur http://localhost:${PORT}/api`);
+});
@@ -0,0 +1,362 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { IStorage } from "./storage";
+import type {
+  User,
+  Deck,
+  Theme,
+  Flashcard,
+  SharedCode,
+  ImportedDeck,
+  InsertUser,
+  InsertDeck,
+  InsertTheme,
+  InsertFlashcard,
+  InsertImportedDeck,
+  SyncDeletionRow
+} from "../shared/schema";
+import type { SyncEntityType } from "../shared/sync";
+
+// Table en mémoire : lignes indexées par id, avec compteur façon SERIAL
+class MemTable<T extends { id: number }> {
+  private rows = new Map<number, T>();
+  private nextId = 1;
+
+  insert(row: Omit<T, "id">): T {
+    const inserted = { ...row, id: this.nextId++ } as T;
+    this.rows.set(inserted.id, inserted);
+    return structuredClone(inserted);
+  }
+
+  get(id: number): T | undefined {
+    const row = this.rows.get(id);
+    return row ? structuredClone(row) : undefined;
+  }
+
+  find(predicate: (row: T) => boolean): T | undefined {
+    const row = [...this.rows.values()].find(predicate);
+    return row ? structuredClone(row) : undefined;
+  }
+
+  filter(predicate: (row: T) => boolean = () => true): T[] {
+    return [...this.rows.values()].filter(predicate).map(row => structuredClone(row));
+  }
+
+  some(predicate: (row: T) => boolean): boolean {
+    return [...this.rows.values()].some(predicate);
+  }
+
+  update(id: number, data: Partial<T>): T | undefined {
+    const row = this.rows.get(id);
+    if (!row) return undefined;
+
+    // Comme drizzle, les champs undefined sont ignorés ; l'id ne change pas
+    const changes = Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+    const updated = { ...row, ...changes, id };
+    this.rows.set(id, updated);
+    return structuredClone(updated);
+  }
+
+  delete(id: number): boolean {
+    return this.rows.delete(id);
+  }
+
+  deleteWhere(predicate: (row: T) => boolean): void {
+    for (const row of [...this.rows.values()]) {
+      if (predicate(row)) this.rows.delete(row.id);
+    }
+  }
+}
+
+// Reproduit les contraintes UNIQUE du schéma PostgreSQL
+const assertUnique = (exists: boolean, table: string, column: string): void => {
+  if (exists) {
+    throw new Error(`Violation de contrainte d'unicité : ${table}.${column}`);
+  }
+};
+
+// Reproduit les clés étrangères du schéma PostgreSQL
+const assertReference = (exists: boolean, table: string, column: string): void => {
+  if (!exists) {
+    throw new Error(`Violation de clé étrangère : ${table}.${column}`);
+  }
+};
+
+// Implémentation de l'interface en mémoire, pour le développement hors ligne et les vérifications
+export class MemStorage implements IStorage {
+  private users = new MemTable<User>();
+  private decks = new MemTable<Deck>();
+  private themes = new MemTable<Theme>();
+  private flashcards = new MemTable<Flashcard>();
+  private sharedCodes = new MemTable<SharedCode>();
+  private importedDecks = new MemTable<ImportedDeck>();
+  private syncDeletions = new MemTable<SyncDeletionRow>();
+
+  private recordDeletion(entityType: SyncEntityType, externalId: string, deckId: number): void {
+    const authorId = this.decks.get(deckId)?.authorId ?? null;
+    this.syncDeletions.insert({ entityType, externalId, authorId, deletedAt: new Date() });
+  }
+
+  // Utilisateurs
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByExternalId(externalId: string): Promise<User | undefined> {
+    return this.users.find(user => user.externalId === externalId);
+  }
+
+  async createUser(user: Omit<InsertUser, "id" | "createdAt" | "updatedAt">): Promise<User> {
+    assertUnique(this.users.some(row => row.externalId === user.externalId), "users", "external_id");
+    const now = new Date();
+    return this.users.insert({
+      externalId: user.externalId,
+      name: user.name,
+      email: user.email,
+      avatar: user.avatar ?? null,
+      bio: user.bio ?? null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  // Decks
+  async getDecks(): Promise<Deck[]> {
+    return this.decks.filter();
+  }
+
+  async getDecksByAuthor(authorId: number): Promise<Deck[]> {
+    return this.decks.filter(deck => deck.authorId === authorId);
+  }
+
+  async getDeck(id: number): Promise<Deck | undefined> {
+    return this.decks.get(id);
+  }
+
+  async getDeckByExternalId(externalId: string): Promise<Deck | undefined> {
+    return this.decks.find(deck => deck.externalId === externalId);
+  }
+
+  async createDeck(deck: Omit<InsertDeck, "id">): Promise<Deck> {
+    assertUnique(this.decks.some(row => row.externalId === deck.externalId), "decks", "external_id");
+    assertReference(this.users.some(row => row.id === deck.authorId), "decks", "author_id");
+    const now = new Date();
+    return this.decks.insert({
+      externalId: deck.externalId,
+      title: deck.title,
+      description: deck.description,
+      coverImage: deck.coverImage ?? null,
+      authorId: deck.authorId as number,
+      isPublic: deck.isPublic ?? false,
+      isPublished: deck.isPublished ?? false,
+      publishedAt: deck.publishedAt ?? null,
+      tags: deck.tags ?? null,
+      createdAt: deck.createdAt ?? now,
+      updatedAt: deck.updatedAt ?? now,
+    });
+  }
+
+  async updateDeck(id: number, deckData: Partial<Deck>): Promise<Deck | undefined> {
+    if (deckData.authorId !== undefined) {
+      assertReference(this.users.some(row => row.id === deckData.authorId), "decks", "author_id");
+    }
+    return this.decks.update(id, { ...deckData, updatedAt: deckData.updatedAt ?? new Date() });
+  }
+
+  async deleteDeck(id: number): Promise<boolean> {
+    // Même cascade que DatabaseStorage
+    const deck = this.decks.get(id);
+    if (!deck) return false;
+
+    for (const card of this.flashcards.filter(card => card.deckId === id)) {
+      this.recordDeletion("flashcard", card.externalId, id);
+    }
+    for (const theme of this.themes.filter(theme => theme.deckId === id)) {
+      this.recordDeletion("theme", theme.externalId, id);
+    }
+    this.flashcards.deleteWhere(card => card.deckId === id);
+    this.themes.deleteWhere(theme => theme.deckId === id);
+    this.sharedCodes.deleteWhere(shared => shared.deckId === id);
+    this.importedDecks.deleteWhere(imported => imported.localDeckId === id);
+    this.recordDeletion("deck", deck.externalId, id);
+    this.decks.delete(id);
+    return true;
+  }
+
+  // Thèmes
+  async getThemes(): Promise<Theme[]> {
+    return this.themes.filter();
+  }
+
+  async getThemesByDeck(deckId: number): Promise<Theme[]> {
+    return this.themes.filter(theme => theme.deckId === deckId);
+  }
+
+  async getTheme(id: number): Promise<Theme | undefined> {
+    return this.themes.get(id);
+  }
+
+  async getThemeByExternalId(externalId: string): Promise<Theme | undefined> {
+    return this.themes.find(theme => theme.externalId === externalId);
+  }
+
+  async createTheme(theme: Omit<InsertTheme, "id">): Promise<Theme> {
+    assertUnique(this.themes.some(row => row.externalId === theme.externalId), "themes", "external_id");
+    assertReference(this.decks.some(row => row.id === theme.deckId), "themes", "deck_id");
+    const now = new Date();
+    return this.themes.insert({
+      externalId: theme.externalId,
+      deckId: theme.deckId as number,
+      title: theme.title,
+      description: theme.description,
+      coverImage: theme.coverImage ?? null,
+      createdAt: theme.createdAt ?? now,
+      updatedAt: theme.updatedAt ?? now,
+    });
+  }
+
+  async updateTheme(id: number, themeData: Partial<Theme>): Promise<Theme | undefined> {
+    if (themeData.deckId !== undefined) {
+      assertReference(this.decks.some(row => row.id === themeData.deckId), "themes", "deck_id");
+    }
+    return this.themes.update(id, { ...themeData, updatedAt: themeData.updatedAt ?? new Date() });
+  }
+
+  async deleteTheme(id: number): Promise<boolean> {
+    const theme = this.themes.get(id);
+    if (!theme) return false;
+
+    // Les flashcards du thème restent dans le deck, sans thème
+    const now = new Date();
+    for (const card of this.flashcards.filter(card => card.themeId === id)) {
+      this.flashcards.update(card.id, { themeId: null, updatedAt: now });
+    }
+    this.themes.delete(id);
+    this.recordDeletion("theme", theme.externalId, theme.deckId);
+    return true;
+  }
+
+  // Flashcards
+  async getFlashcards(): Promise<Flashcard[]> {
+    return this.flashcards.filter();
+  }
+
+  async getFlashcardsByDeck(deckId: number): Promise<Flashcard[]> {
+    return this.flashcards.filter(card => card.deckId === deckId);
+  }
+
+  async getFlashcardsByTheme(themeId: number): Promise<Flashcard[]> {
+    return this.flashcards.filter(card => card.themeId === themeId);
+  }
+
+  async getFlashcard(id: number): Promise<Flashcard | undefined> {
+    return this.flashcards.get(id);
+  }
+
+  async getFlashcardByExternalId(externalId: string): Promise<Flashcard | undefined> {
+    return this.flashcards.find(card => card.externalId === externalId);
+  }
+
+  async createFlashcard(flashcard: Omit<InsertFlashcard, "id">): Promise<Flashcard> {
+    assertUnique(
+      this.flashcards.some(row => row.externalId === flashcard.externalId),
+      "flashcards",
+      "external_id"
+    );
+    assertReference(this.decks.some(row => row.id === flashcard.deckId), "flashcards", "deck_id");
+    if (flashcard.themeId != null) {
+      assertReference(this.themes.some(row => row.id === flashcard.themeId), "flashcards", "theme_id");
+    }
+    const now = new Date();
+    return this.flashcards.insert({
+      externalId: flashcard.externalId,
+      deckId: flashcard.deckId as number,
+      themeId: flashcard.themeId ?? null,
+      front: structuredClone(flashcard.front),
+      back: structuredClone(flashcard.back),
+      createdAt: flashcard.createdAt ?? now,
+      updatedAt: flashcard.updatedAt ?? now,
+    });
+  }
+
+  async updateFlashcard(id: number, cardData: Partial<Flashcard>): Promise<Flashcard | undefined> {
+    if (cardData.deckId !== undefined) {
+      assertReference(this.decks.some(row => row.id === cardData.deckId), "flashcards", "deck_id");
+    }
+    if (cardData.themeId != null) {
+      assertReference(this.themes.some(row => row.id === cardData.themeId), "flashcards", "theme_id");
+    }
+    return this.flashcards.update(id, { ...cardData, updatedAt: cardData.updatedAt ?? new Date() });
+  }
+
+  async deleteFlashcard(id: number): Promise<boolean> {
+    const card = this.flashcards.get(id);
+    if (!card) return false;
+    this.flashcards.delete(id);
+    this.recordDeletion("flashcard", card.externalId, card.deckId);
+    return true;
+  }
+
+  // Codes de partage
+  async getSharedDeckCodes(): Promise<SharedCode[]> {
+    return this.sharedCodes.filter();
+  }
+
+  async createShareCode(deckId: number, expiresAt?: Date): Promise<string> {
+    assertReference(this.decks.some(row => row.id === deckId), "shared_codes", "deck_id");
+    const code = uuidv4().substring(0, 8);
+    assertUnique(this.sharedCodes.some(row => row.code === code), "shared_codes", "code");
+    this.sharedCodes.insert({
+      code,
+      deckId,
+      expiresAt: expiresAt ?? null,
+      createdAt: new Date(),
+    });
+    return code;
+  }
+
+  async getSharedDeckByCode(code: string): Promise<Deck | undefined> {
+    const sharedCode = this.sharedCodes.find(row => row.code === code);
+    if (!sharedCode) return undefined;
+
+    // Vérifier si le code n'est pas expiré
+    if (sharedCode.expiresAt && sharedCode.expiresAt < new Date()) {
+      return undefined;
+    }
+
+    return this.decks.get(sharedCode.deckId);
+  }
+
+  // Decks importés
+  async getImportedDecks(): Promise<ImportedDeck[]> {
+    return this.importedDecks.filter();
+  }
+
+  async createImportedDeck(importedDeck: Omit<InsertImportedDeck, "id" | "createdAt">): Promise<ImportedDeck> {
+    assertReference(
+      this.decks.some(row => row.id === importedDeck.localDeckId),
+      "imported_decks",
+      "local_deck_id"
+    );
+    return this.importedDecks.insert({
+      originalDeckId: importedDeck.originalDeckId,
+      localDeckId: importedDeck.localDeckId as number,
+      createdAt: new Date(),
+    });
+  }
+
+  async isSharedImportedDeck(deckId: number): Promise<boolean> {
+    return this.importedDecks.some(row => row.localDeckId === deckId);
+  }
+
+  async getOriginalDeckIdForImported(deckId: number): Promise<string | null> {
+    const imported = this.importedDecks.find(row => row.localDeckId === deckId);
+    return imported ? imported.originalDeckId : null;
+  }
+
+  // Synchronisation
+  async getSyncDeletions(authorId: number, since?: Date): Promise<SyncDeletionRow[]> {
+    return this.syncDeletions.filter(row => row.authorId === authorId && (!since || row.deletedAt > since));
+  }
+}
@@ -0,0 +1,90 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "../shared/schema";
+import type { Database } from "./db";
+
+// Même schéma que db-migrate.js, appliqué à chaque ouverture de la base locale
+const SCHEMA_SQL = `
+  CREATE TABLE IF NOT EXISTS users (
+    id SERIAL PRIMARY KEY,
+    external_id VARCHAR(255) NOT NULL UNIQUE,
+    name VARCHAR(255) NOT NULL,
+    email VARCHAR(255) NOT NULL,
+    avatar TEXT,
+    bio TEXT,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS decks (
+    id SERIAL PRIMARY KEY,
+    external_id VARCHAR(255) NOT NULL UNIQUE,
+    title VARCHAR(255) NOT NULL,
+    description TEXT NOT NULL,
+    cover_image TEXT,
+    author_id INTEGER REFERENCES users(id) NOT NULL,
+    is_public BOOLEAN DEFAULT FALSE NOT NULL,
+    is_published BOOLEAN DEFAULT FALSE,
+    published_at TIMESTAMP,
+    tags TEXT[],
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS themes (
+    id SERIAL PRIMARY KEY,
+    external_id VARCHAR(255) NOT NULL UNIQUE,
+    deck_id INTEGER REFERENCES decks(id) NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    description TEXT NOT NULL,
+    cover_image TEXT,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS flashcards (
+    id SERIAL PRIMARY KEY,
+    external_id VARCHAR(255) NOT NULL UNIQUE,
+    deck_id INTEGER REFERENCES decks(id) NOT NULL,
+    theme_id INTEGER REFERENCES themes(id),
+    front JSONB NOT NULL,
+    back JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS shared_codes (
+    id SERIAL PRIMARY KEY,
+    code VARCHAR(255) NOT NULL UNIQUE,
+    deck_id INTEGER REFERENCES decks(id) NOT NULL,
+    expires_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS imported_decks (
+    id SERIAL PRIMARY KEY,
+    original_deck_id VARCHAR(255) NOT NULL,
+    local_deck_id INTEGER REFERENCES decks(id) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW() NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sync_deletions (
+    id SERIAL PRIMARY KEY,
+    entity_type VARCHAR(32) NOT NULL,
+    external_id VARCHAR(255) NOT NULL,
+    author_id INTEGER REFERENCES users(id),
+    deleted_at TIMESTAMP DEFAULT NOW() NOT NULL
+  );
+
+  ALTER TABLE sync_deletions ADD COLUMN IF NOT EXISTS author_id INTEGER REFERENCES users(id);
+`;
+
+/**
+ * Ouvre une base PostgreSQL embarquée (PGlite) et crée les tables si besoin
+ * @param dataDir Dossier de persistance ; sans valeur la base reste en mémoire
+ */
+export async function createPgliteDatabase(dataDir?: string): Promise<{ client: PGlite; db: Database }> {
+  const client = new PGlite(dataDir);
+  await client.exec(SCHEMA_SQL);
+  return { client, db: drizzle(client, { schema }) };
+}
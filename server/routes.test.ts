@@ -0,0 +1,124 @@
+import express from "express";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { registerRoutes } from "./routes";
+import { errorHandler } from "./http";
+import { MemStorage } from "./memStorage";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  registerRoutes(app, new MemStorage());
+  app.use(errorHandler);
+
+  server = app.listen(0);
+  await new Promise<void>(resolve => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+let sequence = 0;
+
+const request = async (method: string, path: string, body?: unknown) => {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: response.status, body: response.status === 204 ? null : await response.json() };
+};
+
+const create = async (path: string, body: Record<string, unknown>) => {
+  const { status, body: created } = await request("POST", path, { externalId: `${path}-${++sequence}`, ...body });
+  expect(status).toBe(201);
+  return created;
+};
+
+// Deux decks d'un même auteur, chacun avec un thème, et une carte dans le premier
+const seed = async () => {
+  const author = await create("/users", { name: "Sakura", email: "sakura@example.com" });
+  const deck = await create("/decks", { title: "Hiragana", description: "", authorId: author.id });
+  const otherDeck = await create("/decks", { title: "Katakana", description: "", authorId: author.id });
+  const theme = await create("/themes", { title: "Voyelles", description: "", deckId: deck.id });
+  const otherTheme = await create("/themes", { title: "Voyelles", description: "", deckId: otherDeck.id });
+  const card = await create("/flashcards", { deckId: deck.id, themeId: theme.id, front: { text: "あ" }, back: { text: "a" } });
+  return { author, deck, otherDeck, theme, otherTheme, card };
+};
+
+describe("PATCH /api/decks/:id", () => {
+  it("refuse un auteur inexistant", async () => {
+    const { deck, author } = await seed();
+    const response = await request("PATCH", `/decks/${deck.id}`, { authorId: 999_999 });
+    expect(response.status).toBe(404);
+    expect(response.body.error.code).toBe("NOT_FOUND");
+    expect((await request("GET", `/decks/${deck.id}`)).body.authorId).toBe(author.id);
+  });
+
+  it("met à jour un deck sans toucher à son auteur", async () => {
+    const { deck } = await seed();
+    const response = await request("PATCH", `/decks/${deck.id}`, { title: "Hiragana 2" });
+    expect(response.status).toBe(200);
+    expect(response.body.title).toBe("Hiragana 2");
+  });
+});
+
+describe("PATCH /api/themes/:id", () => {
+  it("refuse un deck inexistant", async () => {
+    const { theme } = await seed();
+    expect((await request("PATCH", `/themes/${theme.id}`, { deckId: 999_999 })).status).toBe(404);
+  });
+
+  it("renvoie 404 pour un thème inconnu", async () => {
+    expect((await request("PATCH", "/themes/999999", { title: "Inconnu" })).status).toBe(404);
+  });
+});
+
+describe("/api/flashcards", () => {
+  it("refuse à la création un thème d'un autre deck", async () => {
+    const { deck, otherTheme } = await seed();
+    const response = await request("POST", "/flashcards", {
+      externalId: `card-${++sequence}`,
+      deckId: deck.id,
+      themeId: otherTheme.id,
+      front: { text: "い" },
+      back: { text: "i" },
+    });
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("THEME_NOT_IN_DECK");
+  });
+
+  it("refuse une mise à jour vers un deck ou un thème inexistant", async () => {
+    const { card } = await seed();
+    expect((await request("PATCH", `/flashcards/${card.id}`, { deckId: 999_999 })).status).toBe(404);
+    expect((await request("PATCH", `/flashcards/${card.id}`, { themeId: 999_999 })).status).toBe(404);
+  });
+
+  it("refuse une mise à jour vers un thème d'un autre deck", async () => {
+    const { card, otherDeck, otherTheme, theme } = await seed();
+    const response = await request("PATCH", `/flashcards/${card.id}`, { themeId: otherTheme.id });
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("THEME_NOT_IN_DECK");
+
+    // Le thème actuel de la carte reste celui de son ancien deck
+    expect((await request("PATCH", `/flashcards/${card.id}`, { deckId: otherDeck.id })).status).toBe(400);
+    expect((await request("GET", `/flashcards/${card.id}`)).body.themeId).toBe(theme.id);
+  });
+
+  it("déplace une carte vers un autre deck avec un thème de ce deck, ou sans thème", async () => {
+    const { card, otherDeck, otherTheme } = await seed();
+    const moved = await request("PATCH", `/flashcards/${card.id}`, { deckId: otherDeck.id, themeId: otherTheme.id });
+    expect(moved.status).toBe(200);
+    expect(moved.body).toMatchObject({ deckId: otherDeck.id, themeId: otherTheme.id });
+
+    const detached = await request("PATCH", `/flashcards/${card.id}`, { themeId: null });
+    expect(detached.status).toBe(200);
+    expect(detached.body.themeId).toBeNull();
+  });
+});
@@ -0,0 +1,347 @@
+import { Router, type Express } from "express";
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import { asyncHandler, HttpError, notFound, paginate, parseId, apiNotFoundHandler } from "./http";
+import { syncRouter } from "./sync";
+import {
+  insertUserSchema,
+  insertDeckSchema,
+  insertThemeSchema,
+  insertFlashcardSchema,
+  insertSharedCodeSchema,
+  insertImportedDeckSchema,
+} from "../shared/schema";
+
+// Les dates de création et de mise à jour sont gérées par le serveur,
+// les autres dates arrivent en chaînes ISO dans le JSON
+const serverManaged = { createdAt: true, updatedAt: true } as const;
+
+const createUserBody = insertUserSchema.omit(serverManaged);
+
+// Les clés étrangères sont déclarées en serial dans le schéma, donc optionnelles
+// à l'insertion : on les rend obligatoires ici
+const foreignKey = z.number().int().positive();
+
+const createDeckBody = insertDeckSchema.omit(serverManaged).extend({
+  authorId: foreignKey,
+  publishedAt: z.coerce.date().nullish(),
+});
+const updateDeckBody = createDeckBody.partial();
+
+const createThemeBody = insertThemeSchema.omit(serverManaged).extend({
+  deckId: foreignKey,
+});
+const updateThemeBody = createThemeBody.partial();
+
+const createFlashcardBody = insertFlashcardSchema.omit(serverManaged).extend({
+  deckId: foreignKey,
+  themeId: foreignKey.nullish(),
+});
+const updateFlashcardBody = createFlashcardBody.partial();
+
+const createShareCodeBody = insertSharedCodeSchema.pick({ deckId: true }).extend({
+  deckId: foreignKey,
+  expiresAt: z.coerce.date().optional(),
+});
+
+const createImportedDeckBody = insertImportedDeckSchema.omit({ createdAt: true }).extend({
+  localDeckId: foreignKey,
+});
+
+// Le deck d'une flashcard doit exister, et son thème éventuel appartenir à ce deck
+const assertFlashcardLinks = async (storage: IStorage, deckId: number, themeId: number | null | undefined): Promise<void> => {
+  if (!await storage.getDeck(deckId)) throw notFound("Deck");
+  if (themeId == null) return;
+  const theme = await storage.getTheme(themeId);
+  if (!theme) throw notFound("Thème");
+  if (theme.deckId !== deckId) {
+    throw new HttpError(400, "THEME_NOT_IN_DECK", `Le thème ${themeId} n'appartient pas au deck ${deckId}`);
+  }
+};
+
+// Filtre optionnel passé en paramètre de requête (?deckId=3)
+const optionalId = (value: unknown, name: string): number | undefined => {
+  if (value === undefined) return undefined;
+  return parseId(String(value), name);
+};
+
+const usersRouter = (storage: IStorage): Router => {
+  const router = Router();
+
+  router.get("/by-external/:externalId", asyncHandler(async (req, res) => {
+    const user = await storage.getUserByExternalId(req.params.externalId);
+    if (!user) throw notFound("Utilisateur");
+    res.json(user);
+  }));
+
+  router.get("/:id", asyncHandler(async (req, res) => {
+    const user = await storage.getUser(parseId(req.params.id));
+    if (!user) throw notFound("Utilisateur");
+    res.json(user);
+  }));
+
+  router.get("/:id/decks", asyncHandler(async (req, res) => {
+    const authorId = parseId(req.params.id);
+    if (!await storage.getUser(authorId)) throw notFound("Utilisateur");
+    res.json(paginate(await storage.getDecksByAuthor(authorId), req.query));
+  }));
+
+  router.post("/", asyncHandler(async (req, res) => {
+    const data = createUserBody.parse(req.body);
+    if (await storage.getUserByExternalId(data.externalId)) {
+      throw new HttpError(409, "CONFLICT", "Un utilisateur avec cet identifiant externe existe déjà");
+    }
+    res.status(201).json(await storage.createUser(data));
+  }));
+
+  return router;
+};
+
+const decksRouter = (storage: IStorage): Router => {
+  const router = Router();
+
+  router.get("/", asyncHandler(async (req, res) => {
+    const authorId = optionalId(req.query.authorId, "authorId");
+    const decks = authorId !== undefined
+      ? await storage.getDecksByAuthor(authorId)
+      : await storage.getDecks();
+    res.json(paginate(decks, req.query));
+  }));
+
+  router.get("/by-external/:externalId", asyncHandler(async (req, res) => {
+    const deck = await storage.getDeckByExternalId(req.params.externalId);
+    if (!deck) throw notFound("Deck");
+    res.json(deck);
+  }));
+
+  router.get("/:id", asyncHandler(async (req, res) => {
+    const deck = await storage.getDeck(parseId(req.params.id));
+    if (!deck) throw notFound("Deck");
+    res.json(deck);
+  }));
+
+  router.get("/:id/themes", asyncHandler(async (req, res) => {
+    const deckId = parseId(req.params.id);
+    if (!await storage.getDeck(deckId)) throw notFound("Deck");
+    res.json(paginate(await storage.getThemesByDeck(deckId), req.query));
+  }));
+
+  router.get("/:id/flashcards", asyncHandler(async (req, res) => {
+    const deckId = parseId(req.params.id);
+    if (!await storage.getDeck(deckId)) throw notFound("Deck");
+    res.json(paginate(await storage.getFlashcardsByDeck(deckId), req.query));
+  }));
+
+  router.get("/:id/origin", asyncHandler(async (req, res) => {
+    const deckId = parseId(req.params.id);
+    if (!await storage.getDeck(deckId)) throw notFound("Deck");
+    res.json({
+      isImported: await storage.isSharedImportedDeck(deckId),
+      originalDeckId: await storage.getOriginalDeckIdForImported(deckId),
+    });
+  }));
+
+  router.post("/", asyncHandler(async (req, res) => {
+    const data = createDeckBody.parse(req.body);
+    if (!await storage.getUser(data.authorId)) throw notFound("Auteur");
+    res.status(201).json(await storage.createDeck(data));
+  }));
+
+  router.patch("/:id", asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    const data = updateDeckBody.parse(req.body);
+    if (!await storage.getDeck(id)) throw notFound("Deck");
+    if (data.authorId !== undefined && !await storage.getUser(data.authorId)) throw notFound("Auteur");
+    const deck = await storage.updateDeck(id, data);
+    if (!deck) throw notFound("Deck");
+    res.json(deck);
+  }));
+
+  router.delete("/:id", asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!await storage.getDeck(id)) throw notFound("Deck");
+    await storage.deleteDeck(id);
+    res.status(204).end();
+  }));
+
+  return router;
+};
+
+const themesRouter = (storage: IStorage): Router => {
+  const router = Router();
+
+  router.get("/", asyncHandler(async (req, res) => {
+    const deckId = optionalId(req.query.deckId, "deckId");
+    const themes = deckId !== undefined
+      ? await storage.getThemesByDeck(deckId)
+      : await storage.getThemes();
+    res.json(paginate(themes, req.query));
+  }));
+
+  router.get("/by-external/:externalId", asyncHandler(async (req, res) => {
+    const theme = await storage.getThemeByExternalId(req.params.externalId);
+    if (!theme) throw notFound("Thème");
+    res.json(theme);
+  }));
+
+  router.get("/:id", asyncHandler(async (req, res) => {
+    const theme = await storage.getTheme(parseId(req.params.id));
+    if (!theme) throw notFound("Thème");
+    res.json(theme);
+  }));
+
+  router.get("/:id/flashcards", asyncHandler(async (req, res) => {
+    const themeId = parseId(req.params.id);
+    if (!await storage.getTheme(themeId)) throw notFound("Thème");
+    res.json(paginate(await storage.getFlashcardsByTheme(themeId), req.query));
+  }));
+
+  router.post("/", asyncHandler(async (req, res) => {
+    const data = createThemeBody.parse(req.body);
+    if (!await storage.getDeck(data.deckId)) throw notFound("Deck");
+    res.status(201).json(await storage.createTheme(data));
+  }));
+
+  router.patch("/:id", asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    const data = updateThemeBody.parse(req.body);
+    if (!await storage.getTheme(id)) throw notFound("Thème");
+    if (data.deckId !== undefined && !await storage.getDeck(data.deckId)) throw notFound("Deck");
+    const theme = await storage.updateTheme(id, data);
+    if (!theme) throw notFound("Thème");
+    res.json(theme);
+  }));
+
+  router.delete("/:id", asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!await storage.getTheme(id)) throw notFound("Thème");
+    await storage.deleteTheme(id);
+    res.status(204).end();
+  }));
+
+  return router;
+};
+
+const flashcardsRouter = (storage: IStorage): Router => {
+  const router = Router();
+
+  router.get("/", asyncHandler(async (req, res) => {
+    const deckId = optionalId(req.query.deckId, "deckId");
+    const themeId = optionalId(req.query.themeId, "themeId");
+    let cards = themeId !== undefined
+      ? await storage.getFlashcardsByTheme(themeId)
+      : deckId !== undefined
+        ? await storage.getFlashcardsByDeck(deckId)
+        : await storage.getFlashcards();
+    if (themeId !== undefined && deckId !== undefined) {
+      cards = cards.filter(card => card.deckId === deckId);
+    }
+    res.json(paginate(cards, req.query));
+  }));
+
+  router.get("/by-external/:externalId", asyncHandler(async (req, res) => {
+    const card = await storage.getFlashcardByExternalId(req.params.externalId);
+    if (!card) throw notFound("Flashcard");
+    res.json(card);
+  }));
+
+  router.get("/:id", asyncHandler(async (req, res) => {
+    const card = await storage.getFlashcard(parseId(req.params.id));
+    if (!card) throw notFound("Flashcard");
+    res.json(card);
+  }));
+
+  router.post("/", asyncHandler(async (req, res) => {
+    const data = createFlashcardBody.parse(req.body);
+    await assertFlashcardLinks(storage, data.deckId, data.themeId);
+    res.status(201).json(await storage.createFlashcard(data));
+  }));
+
+  router.patch("/:id", asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    const data = updateFlashcardBody.parse(req.body);
+    const current = await storage.getFlashcard(id);
+    if (!current) throw notFound("Flashcard");
+    // Changer de deck ou de thème revérifie le couple deck / thème qui en résulte
+    if (data.deckId !== undefined || data.themeId !== undefined) {
+      await assertFlashcardLinks(
+        storage,
+        data.deckId ?? current.deckId,
+        data.themeId !== undefined ? data.themeId : current.themeId
+      );
+    }
+    const card = await storage.updateFlashcard(id, data);
+    if (!card) throw notFound("Flashcard");
+    res.json(card);
+  }));
+
+  router.delete("/:id", asyncHandler(async (req, res) => {
+    const id = parseId(req.params.id);
+    if (!await storage.getFlashcard(id)) throw notFound("Flashcard");
+    await storage.deleteFlashcard(id);
+    res.status(204).end();
+  }));
+
+  return router;
+};
+
+const shareCodesRouter = (storage: IStorage): Router => {
+  const router = Router();
+
+  router.get("/", asyncHandler(async (req, res) => {
+    res.json(paginate(await storage.getSharedDeckCodes(), req.query));
+  }));
+
+  router.get("/:code/deck", asyncHandler(async (req, res) => {
+    // Un code expiré est traité comme un code inconnu
+    const deck = await storage.getSharedDeckByCode(req.params.code);
+    if (!deck) throw notFound("Code de partage");
+    res.json(deck);
+  }));
+
+  router.post("/", asyncHandler(async (req, res) => {
+    const { deckId, expiresAt } = createShareCodeBody.parse(req.body);
+    if (!await storage.getDeck(deckId)) throw notFound("Deck");
+    const code = await storage.createShareCode(deckId, expiresAt);
+    res.status(201).json({ code, deckId, expiresAt: expiresAt ?? null });
+  }));
+
+  return router;
+};
+
+const importedDecksRouter = (storage: IStorage): Router => {
+  const router = Router();
+
+  router.get("/", asyncHandler(async (req, res) => {
+    res.json(paginate(await storage.getImportedDecks(), req.query));
+  }));
+
+  router.post("/", asyncHandler(async (req, res) => {
+    const data = createImportedDeckBody.parse(req.body);
+    if (!await storage.getDeck(data.localDeckId)) throw notFound("Deck");
+    res.status(201).json(await storage.createImportedDeck(data));
+  }));
+
+  return router;
+};
+
+/**
+ * Déclare les routes REST de l'API sous /api
+ * @param app Application Express
+ * @param storage Implémentation du stockage utilisée par les routes
+ */
+export function registerRoutes(app: Express, storage: IStorage): void {
+  app.get("/api/health", (_req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  app.use("/api/users", usersRouter(storage));
+  app.use("/api/decks", decksRouter(storage));
+  app.use("/api/themes", themesRouter(storage));
+  app.use("/api/flashcards", flashcardsRouter(storage));
+  app.use("/api/share-codes", shareCodesRouter(storage));
+  app.use("/api/imported-decks", importedDecksRouter(storage));
+  app.use("/api/sync", syncRouter(storage));
+
+  app.use("/api", apiNotFoundHandler);
+}
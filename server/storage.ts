@@ -1,5 +1,5 @@
-import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { and, eq, gt } from "drizzle-orm";
+import type { Database } from "./db";
 import { v4 as uuidv4 } from 'uuid';
 import { 
   users, 
@@ -8,27 +8,35 @@ import {
   flashcards, 
   sharedCodes,
   importedDecks,
+  syncDeletions,
   User,
   Deck,
   Theme,
   Flashcard,
   SharedCode,
-  ImportedDeck
+  ImportedDeck,
+  InsertUser,
+  InsertDeck,
+  InsertTheme,
+  InsertFlashcard,
+  InsertImportedDeck,
+  SyncDeletionRow
 } from "../shared/schema";
+import type { SyncEntityType } from "../shared/sync";
 
 // Interface de stockage
 export interface IStorage {
   // Utilisateurs
   getUser(id: number): Promise<User | undefined>;
   getUserByExternalId(externalId: string): Promise<User | undefined>;
-  createUser(user: Omit<User, "id" | "createdAt" | "updatedAt">): Promise<User>;
+  createUser(user: Omit<InsertUser, "id" | "createdAt" | "updatedAt">): Promise<User>;
   
   // Decks
   getDecks(): Promise<Deck[]>;
   getDecksByAuthor(authorId: number): Promise<Deck[]>;
   getDeck(id: number): Promise<Deck | undefined>;
   getDeckByExternalId(externalId: string): Promise<Deck | undefined>;
-  createDeck(deck: Omit<Deck, "id" | "createdAt" | "updatedAt">): Promise<Deck>;
+  createDeck(deck: Omit<InsertDeck, "id">): Promise<Deck>;
   updateDeck(id: number, deckData: Partial<Deck>): Promise<Deck | undefined>;
   deleteDeck(id: number): Promise<boolean>;
   
@@ -37,7 +45,7 @@ export interface IStorage {
   getThemesByDeck(deckId: number): Promise<Theme[]>;
   getTheme(id: number): Promise<Theme | undefined>;
   getThemeByExternalId(externalId: string): Promise<Theme | undefined>;
-  createTheme(theme: Omit<Theme, "id" | "createdAt" | "updatedAt">): Promise<Theme>;
+  createTheme(theme: Omit<InsertTheme, "id">): Promise<Theme>;
   updateTheme(id: number, themeData: Partial<Theme>): Promise<Theme | undefined>;
   deleteTheme(id: number): Promise<boolean>;
   
@@ -47,7 +55,7 @@ export interface IStorage {
   getFlashcardsByTheme(themeId: number): Promise<Flashcard[]>;
   getFlashcard(id: number): Promise<Flashcard | undefined>;
   getFlashcardByExternalId(externalId: string): Promise<Flashcard | undefined>;
-  createFlashcard(flashcard: Omit<Flashcard, "id" | "createdAt" | "updatedAt">): Promise<Flashcard>;
+  createFlashcard(flashcard: Omit<InsertFlashcard, "id">): Promise<Flashcard>;
   updateFlashcard(id: number, cardData: Partial<Flashcard>): Promise<Flashcard | undefined>;
   deleteFlashcard(id: number): Promise<boolean>;
   
@@ -58,155 +66,209 @@ export interface IStorage {
   
   // Decks importés
   getImportedDecks(): Promise<ImportedDeck[]>;
-  createImportedDeck(importedDeck: Omit<ImportedDeck, "id" | "createdAt">): Promise<ImportedDeck>;
+  createImportedDeck(importedDeck: Omit<InsertImportedDeck, "id" | "createdAt">): Promise<ImportedDeck>;
   isSharedImportedDeck(deckId: number): Promise<boolean>;
   getOriginalDeckIdForImported(deckId: number): Promise<string | null>;
+  
+  // Suppressions (decks, thèmes, flashcards) d'un utilisateur à propager lors de la synchronisation
+  getSyncDeletions(authorId: number, since?: Date): Promise<SyncDeletionRow[]>;
 }
 
-// Implémentation de l'interface avec PostgreSQL
+// Règles communes aux implémentations :
+// - une date updatedAt fournie à la mise à jour est conservée (synchronisation),
+//   sinon elle prend la date courante ;
+// - supprimer un deck supprime ses thèmes, flashcards, codes de partage et imports ;
+// - supprimer un thème détache ses flashcards, comme côté client ;
+// - chaque deck, thème ou flashcard supprimé laisse une entrée dans getSyncDeletions,
+//   rattachée à l'auteur du deck.
+
+// Entrée de sync_deletions pour une entité supprimée
+const tombstone = (entityType: SyncEntityType, externalId: string, authorId: number) => ({
+  entityType,
+  externalId,
+  authorId,
+});
+
+// Implémentation de l'interface avec PostgreSQL (Neon ou PGlite)
 export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
   // Utilisateurs
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
   
   async getUserByExternalId(externalId: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.externalId, externalId));
+    const [user] = await this.db.select().from(users).where(eq(users.externalId, externalId));
     return user;
   }
   
-  async createUser(user: Omit<User, "id" | "createdAt" | "updatedAt">): Promise<User> {
-    const [newUser] = await db.insert(users).values(user).returning();
+  async createUser(user: Omit<InsertUser, "id" | "createdAt" | "updatedAt">): Promise<User> {
+    const [newUser] = await this.db.insert(users).values(user).returning();
     return newUser;
   }
   
   // Decks
   async getDecks(): Promise<Deck[]> {
-    return await db.select().from(decks);
+    return await this.db.select().from(decks);
   }
   
   async getDecksByAuthor(authorId: number): Promise<Deck[]> {
-    return await db.select().from(decks).where(eq(decks.authorId, authorId));
+    return await this.db.select().from(decks).where(eq(decks.authorId, authorId));
   }
   
   async getDeck(id: number): Promise<Deck | undefined> {
-    const [deck] = await db.select().from(decks).where(eq(decks.id, id));
+    const [deck] = await this.db.select().from(decks).where(eq(decks.id, id));
     return deck;
   }
   
   async getDeckByExternalId(externalId: string): Promise<Deck | undefined> {
-    const [deck] = await db.select().from(decks).where(eq(decks.externalId, externalId));
+    const [deck] = await this.db.select().from(decks).where(eq(decks.externalId, externalId));
     return deck;
   }
   
-  async createDeck(deck: Omit<Deck, "id" | "createdAt" | "updatedAt">): Promise<Deck> {
-    const [newDeck] = await db.insert(decks).values(deck).returning();
+  async createDeck(deck: Omit<InsertDeck, "id">): Promise<Deck> {
+    const [newDeck] = await this.db.insert(decks).values(deck).returning();
     return newDeck;
   }
   
   async updateDeck(id: number, deckData: Partial<Deck>): Promise<Deck | undefined> {
-    const [updatedDeck] = await db
+    const [updatedDeck] = await this.db
       .update(decks)
-      .set({ ...deckData, updatedAt: new Date() })
+      .set({ ...deckData, updatedAt: deckData.updatedAt ?? new Date() })
       .where(eq(decks.id, id))
       .returning();
     return updatedDeck;
   }
   
   async deleteDeck(id: number): Promise<boolean> {
-    const result = await db.delete(decks).where(eq(decks.id, id));
-    return !!result;
+    // Les clés étrangères ne sont pas en cascade : on supprime d'abord le contenu du deck
+    return await this.db.transaction(async (tx) => {
+      const deletedCards = await tx.delete(flashcards).where(eq(flashcards.deckId, id))
+        .returning({ externalId: flashcards.externalId });
+      const deletedThemes = await tx.delete(themes).where(eq(themes.deckId, id))
+        .returning({ externalId: themes.externalId });
+      await tx.delete(sharedCodes).where(eq(sharedCodes.deckId, id));
+      await tx.delete(importedDecks).where(eq(importedDecks.localDeckId, id));
+      const deleted = await tx.delete(decks).where(eq(decks.id, id))
+        .returning({ externalId: decks.externalId, authorId: decks.authorId });
+      if (deleted.length === 0) return false;
+      
+      const { authorId } = deleted[0];
+      await tx.insert(syncDeletions).values([
+        tombstone("deck", deleted[0].externalId, authorId),
+        ...deletedThemes.map(row => tombstone("theme", row.externalId, authorId)),
+        ...deletedCards.map(row => tombstone("flashcard", row.externalId, authorId)),
+      ]);
+      return true;
+    });
   }
   
   // Thèmes
   async getThemes(): Promise<Theme[]> {
-    return await db.select().from(themes);
+    return await this.db.select().from(themes);
   }
   
   async getThemesByDeck(deckId: number): Promise<Theme[]> {
-    return await db.select().from(themes).where(eq(themes.deckId, deckId));
+    return await this.db.select().from(themes).where(eq(themes.deckId, deckId));
   }
   
   async getTheme(id: number): Promise<Theme | undefined> {
-    const [theme] = await db.select().from(themes).where(eq(themes.id, id));
+    const [theme] = await this.db.select().from(themes).where(eq(themes.id, id));
     return theme;
   }
   
   async getThemeByExternalId(externalId: string): Promise<Theme | undefined> {
-    const [theme] = await db.select().from(themes).where(eq(themes.externalId, externalId));
+    const [theme] = await this.db.select().from(themes).where(eq(themes.externalId, externalId));
     return theme;
   }
   
-  async createTheme(theme: Omit<Theme, "id" | "createdAt" | "updatedAt">): Promise<Theme> {
-    const [newTheme] = await db.insert(themes).values(theme).returning();
+  async createTheme(theme: Omit<InsertTheme, "id">): Promise<Theme> {
+    const [newTheme] = await this.db.insert(themes).values(theme).returning();
     return newTheme;
   }
   
   async updateTheme(id: number, themeData: Partial<Theme>): Promise<Theme | undefined> {
-    const [updatedTheme] = await db
+    const [updatedTheme] = await this.db
       .update(themes)
-      .set({ ...themeData, updatedAt: new Date() })
+      .set({ ...themeData, updatedAt: themeData.updatedAt ?? new Date() })
       .where(eq(themes.id, id))
       .returning();
     return updatedTheme;
   }
   
   async deleteTheme(id: number): Promise<boolean> {
-    const result = await db.delete(themes).where(eq(themes.id, id));
-    return !!result;
+    // Les flashcards du thème restent dans le deck, sans thème
+    return await this.db.transaction(async (tx) => {
+      await tx.update(flashcards)
+        .set({ themeId: null, updatedAt: new Date() })
+        .where(eq(flashcards.themeId, id));
+      const deleted = await tx.delete(themes).where(eq(themes.id, id))
+        .returning({ externalId: themes.externalId, deckId: themes.deckId });
+      if (deleted.length === 0) return false;
+      const [deck] = await tx.select({ authorId: decks.authorId }).from(decks).where(eq(decks.id, deleted[0].deckId));
+      await tx.insert(syncDeletions).values(tombstone("theme", deleted[0].externalId, deck.authorId));
+      return true;
+    });
   }
   
   // Flashcards
   async getFlashcards(): Promise<Flashcard[]> {
-    return await db.select().from(flashcards);
+    return await this.db.select().from(flashcards);
   }
   
   async getFlashcardsByDeck(deckId: number): Promise<Flashcard[]> {
-    return await db.select().from(flashcards).where(eq(flashcards.deckId, deckId));
+    return await this.db.select().from(flashcards).where(eq(flashcards.deckId, deckId));
   }
   
   async getFlashcardsByTheme(themeId: number): Promise<Flashcard[]> {
-    return await db.select().from(flashcards).where(eq(flashcards.themeId, themeId));
+    return await this.db.select().from(flashcards).where(eq(flashcards.themeId, themeId));
   }
   
   async getFlashcard(id: number): Promise<Flashcard | undefined> {
-    const [flashcard] = await db.select().from(flashcards).where(eq(flashcards.id, id));
+    const [flashcard] = await this.db.select().from(flashcards).where(eq(flashcards.id, id));
     return flashcard;
   }
   
   async getFlashcardByExternalId(externalId: string): Promise<Flashcard | undefined> {
-    const [flashcard] = await db.select().from(flashcards).where(eq(flashcards.externalId, externalId));
+    const [flashcard] = await this.db.select().from(flashcards).where(eq(flashcards.externalId, externalId));
     return flashcard;
   }
   
-  async createFlashcard(flashcard: Omit<Flashcard, "id" | "createdAt" | "updatedAt">): Promise<Flashcard> {
-    const [newFlashcard] = await db.insert(flashcards).values(flashcard).returning();
+  async createFlashcard(flashcard: Omit<InsertFlashcard, "id">): Promise<Flashcard> {
+    const [newFlashcard] = await this.db.insert(flashcards).values(flashcard).returning();
     return newFlashcard;
   }
   
   async updateFlashcard(id: number, cardData: Partial<Flashcard>): Promise<Flashcard | undefined> {
-    const [updatedFlashcard] = await db
+    const [updatedFlashcard] = await this.db
       .update(flashcards)
-      .set({ ...cardData, updatedAt: new Date() })
+      .set({ ...cardData, updatedAt: cardData.updatedAt ?? new Date() })
       .where(eq(flashcards.id, id))
       .returning();
     return updatedFlashcard;
   }
   
   async deleteFlashcard(id: number): Promise<boolean> {
-    const result = await db.delete(flashcards).where(eq(flashcards.id, id));
-    return !!result;
+    return await this.db.transaction(async (tx) => {
+      const deleted = await tx.delete(flashcards).where(eq(flashcards.id, id))
+        .returning({ externalId: flashcards.externalId, deckId: flashcards.deckId });
+      if (deleted.length === 0) return false;
+      const [deck] = await tx.select({ authorId: decks.authorId }).from(decks).where(eq(decks.id, deleted[0].deckId));
+      await tx.insert(syncDeletions).values(tombstone("flashcard", deleted[0].externalId, deck.authorId));
+      return true;
+    });
   }
   
   // Codes de partage
   async getSharedDeckCodes(): Promise<SharedCode[]> {
-    return await db.select().from(sharedCodes);
+    return await this.db.select().from(sharedCodes);
   }
   
   async createShareCode(deckId: number, expiresAt?: Date): Promise<string> {
     const code = uuidv4().substring(0, 8);
-    await db.insert(sharedCodes).values({
+    await this.db.insert(sharedCodes).values({
       code,
       deckId,
       expiresAt,
@@ -215,7 +277,7 @@ export class DatabaseStorage implements IStorage {
   }
   
   async getSharedDeckByCode(code: string): Promise<Deck | undefined> {
-    const [sharedCode] = await db
+    const [sharedCode] = await this.db
       .select()
       .from(sharedCodes)
       .where(eq(sharedCodes.code, code));
@@ -227,7 +289,7 @@ export class DatabaseStorage implements IStorage {
       return undefined;
     }
     
-    const [deck] = await db
+    const [deck] = await this.db
       .select()
       .from(decks)
       .where(eq(decks.id, sharedCode.deckId));
@@ -237,16 +299,16 @@ export class DatabaseStorage implements IStorage {
   
   // Decks importés
   async getImportedDecks(): Promise<ImportedDeck[]> {
-    return await db.select().from(importedDecks);
+    return await this.db.select().from(importedDecks);
   }
   
-  async createImportedDeck(importedDeck: Omit<ImportedDeck, "id" | "createdAt">): Promise<ImportedDeck> {
-    const [newImportedDeck] = await db.insert(importedDecks).values(importedDeck).returning();
+  async createImportedDeck(importedDeck: Omit<InsertImportedDeck, "id" | "createdAt">): Promise<ImportedDeck> {
+    const [newImportedDeck] = await this.db.insert(importedDecks).values(importedDeck).returning();
     return newImportedDeck;
   }
   
   async isSharedImportedDeck(deckId: number): Promise<boolean> {
-    const [result] = await db
+    const [result] = await this.db
       .select()
       .from(importedDecks)
       .where(eq(importedDecks.localDeckId, deckId));
@@ -255,14 +317,74 @@ export class DatabaseStorage implements IStorage {
   }
   
   async getOriginalDeckIdForImported(deckId: number): Promise<string | null> {
-    const [result] = await db
+    const [result] = await this.db
       .select({ originalDeckId: importedDecks.originalDeckId })
       .from(importedDecks)
       .where(eq(importedDecks.localDeckId, deckId));
     
     return result ? result.originalDeckId : null;
   }
+  
+  // Synchronisation
+  async getSyncDeletions(authorId: number, since?: Date): Promise<SyncDeletionRow[]> {
+    const byAuthor = eq(syncDeletions.authorId, authorId);
+    return await this.db.select().from(syncDeletions)
+      .where(since ? and(byAuthor, gt(syncDeletions.deletedAt, since)) : byAuthor);
+  }
 }
 
-// Instance de stockage à utiliser dans l'application
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// Backends disponibles, choisis par la variable STORAGE_DRIVER
+export type StorageDriver = "postgres" | "pglite" | "memory";
+
+const STORAGE_DRIVERS: StorageDriver[] = ["postgres", "pglite", "memory"];
+
+export interface StorageConfig {
+  driver: StorageDriver;
+  // URL Neon (driver postgres)
+  databaseUrl?: string;
+  // Dossier de la base PGlite ; en mémoire si absent
+  pgliteDataDir?: string;
+}
+
+/**
+ * Lit la configuration du stockage depuis l'environnement.
+ * Sans STORAGE_DRIVER : PostgreSQL si DATABASE_URL est défini, sinon PGlite.
+ */
+export const getStorageConfig = (env: NodeJS.ProcessEnv = process.env): StorageConfig => {
+  const driver = env.STORAGE_DRIVER ?? (env.DATABASE_URL ? "postgres" : "pglite");
+
+  if (!STORAGE_DRIVERS.includes(driver as StorageDriver)) {
+    throw new Error(
+      `STORAGE_DRIVER invalide : "${driver}". Valeurs possibles : ${STORAGE_DRIVERS.join(", ")}`
+    );
+  }
+
+  return {
+    driver: driver as StorageDriver,
+    databaseUrl: env.DATABASE_URL,
+    pgliteDataDir: env.PGLITE_DATA_DIR,
+  };
+};
+
+/**
+ * Instancie le stockage correspondant à la configuration.
+ * Les pilotes sont chargés à la demande pour ne pas exiger Neon hors ligne.
+ */
+export const createStorage = async (config: StorageConfig = getStorageConfig()): Promise<IStorage> => {
+  switch (config.driver) {
+    case "memory": {
+      const { MemStorage } = await import("./memStorage");
+      return new MemStorage();
+    }
+    case "pglite": {
+      const { createPgliteDatabase } = await import("./pglite");
+      const { db } = await createPgliteDatabase(config.pgliteDataDir);
+      return new DatabaseStorage(db);
+    }
+    case "postgres": {
+      const { createNeonDatabase } = await import("./db");
+      const { db } = createNeonDatabase(config.databaseUrl);
+      return new DatabaseStorage(db);
+    }
+  }
+};
\ No newline at end of file
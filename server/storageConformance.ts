@@ -0,0 +1,338 @@
+import assert from "node:assert/strict";
+import type { IStorage } from "./storage";
+
+// Contrat commun à toutes les implémentations de IStorage.
+// Chaque vérification reçoit un stockage vide, créé par la fabrique fournie.
+type ConformanceCheck = (storage: IStorage) => Promise<void>;
+
+export interface ConformanceResult {
+  name: string;
+  passed: boolean;
+  error?: unknown;
+}
+
+let sequence = 0;
+
+// Identifiants externes uniques d'une vérification à l'autre
+const uniqueId = (prefix: string): string => `${prefix}-${Date.now()}-${++sequence}`;
+
+const seedUser = (storage: IStorage) => storage.createUser({
+  externalId: uniqueId("user"),
+  name: "Sakura",
+  email: "sakura@example.com",
+});
+
+const seedDeck = async (storage: IStorage) => {
+  const author = await seedUser(storage);
+  const deck = await storage.createDeck({
+    externalId: uniqueId("deck"),
+    title: "Hiragana",
+    description: "Les 46 caractères de base",
+    authorId: author.id,
+  });
+  return { author, deck };
+};
+
+const seedTheme = (storage: IStorage, deckId: number) => storage.createTheme({
+  externalId: uniqueId("theme"),
+  deckId,
+  title: "Voyelles",
+  description: "あ い う え お",
+});
+
+const seedFlashcard = (storage: IStorage, deckId: number, themeId?: number) => storage.createFlashcard({
+  externalId: uniqueId("card"),
+  deckId,
+  themeId,
+  front: { text: "あ" },
+  back: { text: "a" },
+});
+
+const ids = (rows: { id: number }[]): number[] => rows.map(row => row.id).sort((a, b) => a - b);
+
+const CHECKS: Record<string, ConformanceCheck> = {
+  "crée un utilisateur et le retrouve par id et identifiant externe": async (storage) => {
+    const user = await seedUser(storage);
+    assert.ok(user.id > 0);
+    assert.ok(user.createdAt instanceof Date);
+    assert.ok(user.updatedAt instanceof Date);
+    assert.equal(user.avatar, null);
+    assert.deepEqual(await storage.getUser(user.id), user);
+    assert.deepEqual(await storage.getUserByExternalId(user.externalId), user);
+  },
+
+  "renvoie undefined pour un utilisateur inconnu": async (storage) => {
+    assert.equal(await storage.getUser(999_999), undefined);
+    assert.equal(await storage.getUserByExternalId("inconnu"), undefined);
+  },
+
+  "refuse deux utilisateurs avec le même identifiant externe": async (storage) => {
+    const user = await seedUser(storage);
+    await assert.rejects(storage.createUser({ externalId: user.externalId, name: "Doublon", email: "x@example.com" }));
+  },
+
+  "applique les valeurs par défaut d'un deck": async (storage) => {
+    const { author, deck } = await seedDeck(storage);
+    assert.equal(deck.authorId, author.id);
+    assert.equal(deck.isPublic, false);
+    assert.equal(deck.isPublished, false);
+    assert.equal(deck.publishedAt, null);
+    assert.equal(deck.coverImage, null);
+    assert.equal(deck.tags, null);
+    assert.deepEqual(await storage.getDeckByExternalId(deck.externalId), deck);
+  },
+
+  "refuse un deck dont l'auteur n'existe pas": async (storage) => {
+    await assert.rejects(storage.createDeck({
+      externalId: uniqueId("deck"),
+      title: "Orphelin",
+      description: "",
+      authorId: 999_999,
+    }));
+  },
+
+  "refuse une mise à jour vers un auteur, un deck ou un thème inexistant": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const theme = await seedTheme(storage, deck.id);
+    const card = await seedFlashcard(storage, deck.id, theme.id);
+
+    await assert.rejects(storage.updateDeck(deck.id, { authorId: 999_999 }));
+    await assert.rejects(storage.updateTheme(theme.id, { deckId: 999_999 }));
+    await assert.rejects(storage.updateFlashcard(card.id, { deckId: 999_999 }));
+    await assert.rejects(storage.updateFlashcard(card.id, { themeId: 999_999 }));
+    assert.equal((await storage.getFlashcard(card.id))?.themeId, theme.id);
+  },
+
+  "liste les decks et les filtre par auteur": async (storage) => {
+    const first = await seedDeck(storage);
+    const second = await seedDeck(storage);
+    const other = await storage.createDeck({
+      externalId: uniqueId("deck"),
+      title: "Katakana",
+      description: "",
+      authorId: first.author.id,
+      tags: ["japonais", "kana"],
+    });
+    assert.deepEqual(other.tags, ["japonais", "kana"]);
+    assert.deepEqual(ids(await storage.getDecks()), ids([first.deck, second.deck, other]));
+    assert.deepEqual(ids(await storage.getDecksByAuthor(first.author.id)), ids([first.deck, other]));
+    assert.deepEqual(await storage.getDecksByAuthor(999_999), []);
+  },
+
+  "met à jour un deck et sa date de modification": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const updated = await storage.updateDeck(deck.id, { title: "Hiragana avancé", isPublic: true });
+    assert.ok(updated);
+    assert.equal(updated.id, deck.id);
+    assert.equal(updated.title, "Hiragana avancé");
+    assert.equal(updated.isPublic, true);
+    assert.equal(updated.description, deck.description);
+    assert.ok(updated.updatedAt.getTime() >= deck.updatedAt.getTime());
+    assert.deepEqual(await storage.getDeck(deck.id), updated);
+    assert.equal(await storage.updateDeck(999_999, { title: "x" }), undefined);
+  },
+
+  "ne partage pas les objets renvoyés avec le stockage": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const copy = await storage.getDeck(deck.id);
+    assert.ok(copy);
+    copy.title = "Modifié hors du stockage";
+    assert.equal((await storage.getDeck(deck.id))?.title, deck.title);
+  },
+
+  "gère les thèmes d'un deck": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const theme = await seedTheme(storage, deck.id);
+    assert.equal(theme.deckId, deck.id);
+    assert.deepEqual(await storage.getTheme(theme.id), theme);
+    assert.deepEqual(await storage.getThemeByExternalId(theme.externalId), theme);
+    assert.deepEqual(ids(await storage.getThemesByDeck(deck.id)), [theme.id]);
+    assert.deepEqual(ids(await storage.getThemes()), [theme.id]);
+
+    const updated = await storage.updateTheme(theme.id, { title: "Consonnes" });
+    assert.equal(updated?.title, "Consonnes");
+    assert.equal(await storage.updateTheme(999_999, { title: "x" }), undefined);
+  },
+
+  "conserve le contenu JSON des flashcards": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const card = await storage.createFlashcard({
+      externalId: uniqueId("card"),
+      deckId: deck.id,
+      front: { text: "猫", image: "data:image/png;base64,AAAA", additionalInfo: "kanji" },
+      back: { text: "chat", audio: null },
+    });
+    assert.deepEqual(card.front, { text: "猫", image: "data:image/png;base64,AAAA", additionalInfo: "kanji" });
+    assert.deepEqual(card.back, { text: "chat", audio: null });
+    assert.deepEqual(await storage.getFlashcardByExternalId(card.externalId), card);
+  },
+
+  "filtre les flashcards par deck et par thème": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const { deck: otherDeck } = await seedDeck(storage);
+    const theme = await seedTheme(storage, deck.id);
+    const themed = await seedFlashcard(storage, deck.id, theme.id);
+    const loose = await seedFlashcard(storage, deck.id);
+    const elsewhere = await seedFlashcard(storage, otherDeck.id);
+
+    assert.deepEqual(ids(await storage.getFlashcards()), ids([themed, loose, elsewhere]));
+    assert.deepEqual(ids(await storage.getFlashcardsByDeck(deck.id)), ids([themed, loose]));
+    assert.deepEqual(ids(await storage.getFlashcardsByTheme(theme.id)), [themed.id]);
+  },
+
+  "met à jour et supprime une flashcard": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const card = await seedFlashcard(storage, deck.id);
+    const updated = await storage.updateFlashcard(card.id, { back: { text: "ah" } });
+    assert.deepEqual(updated?.back, { text: "ah" });
+    assert.deepEqual(updated?.front, card.front);
+
+    assert.equal(await storage.deleteFlashcard(card.id), true);
+    assert.equal(await storage.getFlashcard(card.id), undefined);
+    assert.equal(await storage.deleteFlashcard(card.id), false);
+  },
+
+  "supprime un thème et détache ses flashcards": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const theme = await seedTheme(storage, deck.id);
+    const themed = await seedFlashcard(storage, deck.id, theme.id);
+
+    assert.equal(await storage.deleteTheme(theme.id), true);
+    assert.equal(await storage.getTheme(theme.id), undefined);
+    const detached = await storage.getFlashcard(themed.id);
+    assert.ok(detached);
+    assert.equal(detached.themeId, null);
+    assert.deepEqual(ids(await storage.getFlashcardsByDeck(deck.id)), [themed.id]);
+    assert.equal(await storage.deleteTheme(theme.id), false);
+  },
+
+  "supprime un deck avec tout son contenu": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const { deck: kept } = await seedDeck(storage);
+    const theme = await seedTheme(storage, deck.id);
+    const card = await seedFlashcard(storage, deck.id, theme.id);
+    const code = await storage.createShareCode(deck.id);
+    await storage.createImportedDeck({ originalDeckId: "origine", localDeckId: deck.id });
+    const keptCard = await seedFlashcard(storage, kept.id);
+
+    assert.equal(await storage.deleteDeck(deck.id), true);
+    assert.equal(await storage.getDeck(deck.id), undefined);
+    assert.equal(await storage.getTheme(theme.id), undefined);
+    assert.equal(await storage.getFlashcard(card.id), undefined);
+    assert.equal(await storage.getSharedDeckByCode(code), undefined);
+    assert.equal(await storage.isSharedImportedDeck(deck.id), false);
+    assert.ok(await storage.getFlashcard(keptCard.id));
+    assert.equal(await storage.deleteDeck(deck.id), false);
+  },
+
+  "enregistre les suppressions pour la synchronisation": async (storage) => {
+    const { author, deck } = await seedDeck(storage);
+    const theme = await seedTheme(storage, deck.id);
+    const card = await seedFlashcard(storage, deck.id, theme.id);
+    const loose = await seedFlashcard(storage, deck.id);
+    const before = new Date(Date.now() - 1000);
+
+    await storage.deleteFlashcard(loose.id);
+    await storage.deleteDeck(deck.id);
+
+    const deletions = await storage.getSyncDeletions(author.id);
+    const deleted = deletions.map(row => `${row.entityType}:${row.externalId}`).sort();
+    assert.deepEqual(deleted, [
+      `deck:${deck.externalId}`,
+      `flashcard:${card.externalId}`,
+      `flashcard:${loose.externalId}`,
+      `theme:${theme.externalId}`,
+    ].sort());
+    assert.ok(deletions.every(row => row.deletedAt instanceof Date));
+    assert.equal((await storage.getSyncDeletions(author.id, before)).length, 4);
+    assert.deepEqual(await storage.getSyncDeletions(author.id, new Date(Date.now() + 60_000)), []);
+  },
+
+  "ne renvoie que les suppressions des decks de l'utilisateur": async (storage) => {
+    const { author, deck } = await seedDeck(storage);
+    const { author: other, deck: otherDeck } = await seedDeck(storage);
+    const theme = await seedTheme(storage, deck.id);
+    const otherCard = await seedFlashcard(storage, otherDeck.id);
+
+    await storage.deleteTheme(theme.id);
+    await storage.deleteFlashcard(otherCard.id);
+
+    const mine = await storage.getSyncDeletions(author.id);
+    assert.deepEqual(mine.map(row => `${row.entityType}:${row.externalId}`), [`theme:${theme.externalId}`]);
+    assert.ok(mine.every(row => row.authorId === author.id));
+    const theirs = await storage.getSyncDeletions(other.id);
+    assert.deepEqual(theirs.map(row => `${row.entityType}:${row.externalId}`), [`flashcard:${otherCard.externalId}`]);
+  },
+
+  "conserve les dates fournies par la synchronisation": async (storage) => {
+    const { author } = await seedDeck(storage);
+    const createdAt = new Date("2024-01-02T03:04:05.000Z");
+    const updatedAt = new Date("2024-02-03T04:05:06.000Z");
+    const deck = await storage.createDeck({
+      externalId: uniqueId("deck"),
+      title: "Importé",
+      description: "",
+      authorId: author.id,
+      createdAt,
+      updatedAt,
+    });
+    assert.equal(deck.createdAt.getTime(), createdAt.getTime());
+    assert.equal(deck.updatedAt.getTime(), updatedAt.getTime());
+
+    const later = new Date("2024-03-04T05:06:07.000Z");
+    const updated = await storage.updateDeck(deck.id, { title: "Renommé", updatedAt: later });
+    assert.equal(updated?.updatedAt.getTime(), later.getTime());
+  },
+
+  "crée un code de partage et retrouve le deck": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const code = await storage.createShareCode(deck.id);
+    assert.equal(code.length, 8);
+    assert.deepEqual(await storage.getSharedDeckByCode(code), deck);
+    assert.ok((await storage.getSharedDeckCodes()).some(shared => shared.code === code && shared.deckId === deck.id));
+    assert.equal(await storage.getSharedDeckByCode("inconnu"), undefined);
+  },
+
+  "ignore les codes de partage expirés": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const expired = await storage.createShareCode(deck.id, new Date(Date.now() - 60_000));
+    const valid = await storage.createShareCode(deck.id, new Date(Date.now() + 60 * 60_000));
+    assert.equal(await storage.getSharedDeckByCode(expired), undefined);
+    assert.equal((await storage.getSharedDeckByCode(valid))?.id, deck.id);
+  },
+
+  "enregistre l'origine des decks importés": async (storage) => {
+    const { deck } = await seedDeck(storage);
+    const { deck: local } = await seedDeck(storage);
+    const imported = await storage.createImportedDeck({ originalDeckId: deck.externalId, localDeckId: local.id });
+    assert.ok(imported.id > 0);
+    assert.ok(imported.createdAt instanceof Date);
+    assert.deepEqual(ids(await storage.getImportedDecks()), [imported.id]);
+    assert.equal(await storage.isSharedImportedDeck(local.id), true);
+    assert.equal(await storage.getOriginalDeckIdForImported(local.id), deck.externalId);
+    assert.equal(await storage.isSharedImportedDeck(deck.id), false);
+    assert.equal(await storage.getOriginalDeckIdForImported(deck.id), null);
+  },
+};
+
+/**
+ * Exécute le contrat de IStorage sur une implémentation
+ * @param createStorage Fabrique renvoyant un stockage vide à chaque appel
+ * @returns Résultat de chaque vérification
+ */
+export const runStorageConformance = async (
+  createStorage: () => Promise<IStorage>
+): Promise<ConformanceResult[]> => {
+  const results: ConformanceResult[] = [];
+
+  for (const [name, check] of Object.entries(CHECKS)) {
+    try {
+      await check(await createStorage());
+      results.push({ name, passed: true });
+    } catch (error) {
+      results.push({ name, passed: false, error });
+    }
+  }
+
+  return results;
+};
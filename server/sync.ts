@@ -0,0 +1,390 @@
+import { Router } from "express";
+import { z } from "zod";
+import type { IStorage } from "./storage";
+import { asyncHandler } from "./http";
+import type { Deck, Theme, Flashcard, User, InsertDeck, InsertTheme, InsertFlashcard } from "../shared/schema";
+import {
+  DELETED_FIELD,
+  compareSyncChanges,
+  mergeSyncFields,
+  syncValuesEqual,
+  type SyncChange,
+  type SyncEntityType,
+  type SyncFields,
+  type SyncPullResponse,
+  type SyncPushResponse,
+  type SyncRecord,
+  type SyncResult,
+} from "../shared/sync";
+
+const entityType = z.enum(["deck", "theme", "flashcard"]);
+const isoDate = z.string().datetime({ offset: true });
+
+const pushBody = z.object({
+  user: z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    email: z.string().nullish(),
+    avatar: z.string().nullish(),
+    bio: z.string().nullish(),
+  }),
+  changes: z.array(z.object({
+    type: entityType,
+    id: z.string().min(1),
+    base: z.object({ updatedAt: isoDate, fields: z.record(z.unknown()) }).nullable(),
+    deleted: z.boolean().optional(),
+    fields: z.record(z.unknown()).optional(),
+    createdAt: isoDate.optional(),
+    updatedAt: isoDate,
+  })),
+});
+
+const pullQuery = z.object({
+  user: z.string().min(1),
+  since: isoDate.optional(),
+});
+
+// Champs attendus pour chaque type, une fois la fusion faite
+const deckFields = z.object({
+  title: z.string().min(1).max(255),
+  description: z.string(),
+  coverImage: z.string().nullable(),
+  isPublic: z.boolean(),
+  isPublished: z.boolean().nullable(),
+  publishedAt: z.coerce.date().nullable(),
+  tags: z.array(z.string()).nullable(),
+});
+
+const themeFields = z.object({
+  deckId: z.string().min(1),
+  title: z.string().min(1).max(255),
+  description: z.string(),
+  coverImage: z.string().nullable(),
+});
+
+const flashcardFields = z.object({
+  deckId: z.string().min(1),
+  themeId: z.string().min(1).nullable(),
+  front: z.unknown().refine(value => value !== null && value !== undefined, "Recto manquant"),
+  back: z.unknown().refine(value => value !== null && value !== undefined, "Verso manquant"),
+});
+
+// Modification refusée : l'entité reste inchangée côté serveur
+class SyncRejection extends Error {}
+
+type Row = Deck | Theme | Flashcard;
+
+const deletionKey = (type: SyncEntityType, id: string): string => `${type}:${id}`;
+
+const findRow = (storage: IStorage, type: SyncEntityType, externalId: string): Promise<Row | undefined> => {
+  switch (type) {
+    case "deck": return storage.getDeckByExternalId(externalId);
+    case "theme": return storage.getThemeByExternalId(externalId);
+    case "flashcard": return storage.getFlashcardByExternalId(externalId);
+  }
+};
+
+// Refuse toute modification d'une entité dont le deck appartient à un autre utilisateur
+const assertOwner = async (storage: IStorage, type: SyncEntityType, row: Row, author: User): Promise<void> => {
+  const authorId = type === "deck"
+    ? (row as Deck).authorId
+    : (await storage.getDeck((row as Theme | Flashcard).deckId))?.authorId;
+  if (authorId !== author.id) {
+    throw new SyncRejection(`${type} ${row.externalId} appartient à un autre utilisateur`);
+  }
+};
+
+// Identifiants client déjà connus, pour éviter une requête par référence
+interface KnownExternalIds {
+  decks: Map<number, string>;
+  themes: Map<number, string>;
+}
+
+const externalIdOf = async (
+  known: Map<number, string> | undefined,
+  lookup: (id: number) => Promise<{ externalId: string } | undefined>,
+  id: number | null
+): Promise<string | null> => {
+  if (id === null) return null;
+  return known?.get(id) ?? (await lookup(id))?.externalId ?? null;
+};
+
+// Convertit une ligne de la base au format du protocole
+const toRecord = async (
+  storage: IStorage,
+  type: SyncEntityType,
+  row: Row,
+  known?: KnownExternalIds
+): Promise<SyncRecord> => {
+  let fields: SyncFields;
+
+  if (type === "deck") {
+    const deck = row as Deck;
+    fields = {
+      title: deck.title,
+      description: deck.description,
+      coverImage: deck.coverImage,
+      isPublic: deck.isPublic,
+      isPublished: deck.isPublished,
+      publishedAt: deck.publishedAt ? deck.publishedAt.toISOString() : null,
+      tags: deck.tags,
+    };
+  } else if (type === "theme") {
+    const theme = row as Theme;
+    fields = {
+      deckId: await externalIdOf(known?.decks, id => storage.getDeck(id), theme.deckId),
+      title: theme.title,
+      description: theme.description,
+      coverImage: theme.coverImage,
+    };
+  } else {
+    const card = row as Flashcard;
+    fields = {
+      deckId: await externalIdOf(known?.decks, id => storage.getDeck(id), card.deckId),
+      themeId: await externalIdOf(known?.themes, id => storage.getTheme(id), card.themeId),
+      front: card.front,
+      back: card.back,
+    };
+  }
+
+  return {
+    type,
+    id: row.externalId,
+    fields,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+};
+
+// Convertit les champs du protocole en valeurs de la base (identifiants client → ids)
+const toValues = async (
+  storage: IStorage,
+  type: SyncEntityType,
+  fields: SyncFields,
+  author: User
+): Promise<Record<string, unknown>> => {
+  const parsed = (schema: z.ZodTypeAny) => {
+    const result = schema.safeParse(fields);
+    if (!result.success) {
+      throw new SyncRejection(result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join(", "));
+    }
+    return result.data;
+  };
+
+  const resolveDeck = async (externalId: string): Promise<number> => {
+    const deck = await storage.getDeckByExternalId(externalId);
+    if (!deck) throw new SyncRejection(`Deck ${externalId} introuvable`);
+    if (deck.authorId !== author.id) throw new SyncRejection(`Deck ${externalId} appartient à un autre utilisateur`);
+    return deck.id;
+  };
+
+  if (type === "deck") {
+    return parsed(deckFields);
+  }
+
+  if (type === "theme") {
+    const { deckId, ...values } = parsed(themeFields) as z.infer<typeof themeFields>;
+    return { ...values, deckId: await resolveDeck(deckId) };
+  }
+
+  const { deckId, themeId, ...values } = parsed(flashcardFields) as z.infer<typeof flashcardFields>;
+  const deck = await resolveDeck(deckId);
+  let theme: number | null = null;
+  if (themeId !== null) {
+    const found = await storage.getThemeByExternalId(themeId);
+    if (!found) throw new SyncRejection(`Thème ${themeId} introuvable`);
+    // Le thème doit appartenir au deck de la carte, donc au même utilisateur
+    if (found.deckId !== deck) throw new SyncRejection(`Thème ${themeId} absent du deck ${deckId}`);
+    theme = found.id;
+  }
+  return { ...values, deckId: deck, themeId: theme };
+};
+
+const createRow = async (
+  storage: IStorage,
+  change: SyncChange,
+  author: User,
+  values: Record<string, unknown>
+): Promise<Row> => {
+  const row = {
+    ...values,
+    externalId: change.id,
+    createdAt: change.createdAt ? new Date(change.createdAt) : undefined,
+    updatedAt: new Date(change.updatedAt),
+  };
+
+  switch (change.type) {
+    case "deck": return storage.createDeck({ ...row, authorId: author.id } as InsertDeck);
+    case "theme": return storage.createTheme(row as InsertTheme);
+    case "flashcard": return storage.createFlashcard(row as InsertFlashcard);
+  }
+};
+
+const updateRow = async (
+  storage: IStorage,
+  type: SyncEntityType,
+  id: number,
+  values: Record<string, unknown>
+): Promise<Row | undefined> => {
+  switch (type) {
+    case "deck": return storage.updateDeck(id, values as Partial<Deck>);
+    case "theme": return storage.updateTheme(id, values as Partial<Theme>);
+    case "flashcard": return storage.updateFlashcard(id, values as Partial<Flashcard>);
+  }
+};
+
+const deleteRow = (storage: IStorage, type: SyncEntityType, id: number): Promise<boolean> => {
+  switch (type) {
+    case "deck": return storage.deleteDeck(id);
+    case "theme": return storage.deleteTheme(id);
+    case "flashcard": return storage.deleteFlashcard(id);
+  }
+};
+
+/**
+ * Applique une modification locale à la base
+ * Seules les entités des decks de `author` peuvent être modifiées, supprimées ou rattachées.
+ * @param deletions Dates de suppression connues, par type et identifiant client
+ */
+const applyChange = async (
+  storage: IStorage,
+  change: SyncChange,
+  author: User,
+  deletions: Map<string, Date>
+): Promise<SyncResult> => {
+  const { type, id } = change;
+  const existing = await findRow(storage, type, id);
+  if (existing) await assertOwner(storage, type, existing, author);
+
+  if (change.deleted) {
+    if (!existing) return { type, id, status: "deleted", conflicts: [] };
+
+    // Une modification distante faite depuis le dernier échange l'emporte sur la suppression
+    const remote = await toRecord(storage, type, existing);
+    if (change.base && Date.parse(remote.updatedAt) !== Date.parse(change.base.updatedAt)) {
+      return {
+        type, id, status: "updated", record: remote,
+        conflicts: [{ field: DELETED_FIELD, local: true, remote: false, winner: "remote" }],
+      };
+    }
+
+    await deleteRow(storage, type, existing.id);
+    return { type, id, status: "deleted", conflicts: [] };
+  }
+
+  const fields = change.fields ?? {};
+
+  if (!existing) {
+    // Supprimée sur un autre appareil après la dernière modification locale
+    const deletedAt = deletions.get(deletionKey(type, id));
+    if (change.base && deletedAt && Date.parse(change.updatedAt) <= deletedAt.getTime()) {
+      return { type, id, status: "deleted", conflicts: [] };
+    }
+
+    const created = await createRow(storage, change, author, await toValues(storage, type, fields, author));
+    return { type, id, status: "created", record: await toRecord(storage, type, created), conflicts: [] };
+  }
+
+  const remote = await toRecord(storage, type, existing);
+  const merged = mergeSyncFields(type, change.base?.fields ?? null, { fields, updatedAt: change.updatedAt }, remote);
+  const unchanged = syncValuesEqual(merged.fields, remote.fields);
+  if (unchanged) {
+    return { type, id, status: "unchanged", record: remote, conflicts: merged.conflicts };
+  }
+
+  // La version fusionnée doit être plus récente que celle du serveur, même si la modification
+  // locale est plus ancienne : les autres appareils détectent ainsi le changement
+  const updatedAt = new Date(Math.max(Date.parse(change.updatedAt), Date.parse(remote.updatedAt) + 1));
+  const values = await toValues(storage, type, merged.fields, author);
+  const updated = await updateRow(storage, type, existing.id, { ...values, updatedAt });
+  if (!updated) throw new SyncRejection(`${type} ${id} introuvable`);
+
+  return { type, id, status: "updated", record: await toRecord(storage, type, updated), conflicts: merged.conflicts };
+};
+
+/**
+ * Routes de synchronisation entre IndexedDB et la base :
+ * - POST /push envoie les modifications locales et renvoie la version retenue de chaque entité ;
+ * - GET /pull?user=&since= renvoie les decks de l'utilisateur et les suppressions depuis `since`.
+ */
+export const syncRouter = (storage: IStorage): Router => {
+  const router = Router();
+
+  router.post("/push", asyncHandler(async (req, res) => {
+    const { user, changes } = pushBody.parse(req.body);
+
+    const author = await storage.getUserByExternalId(user.id) ?? await storage.createUser({
+      externalId: user.id,
+      name: user.name,
+      email: user.email ?? "",
+      avatar: user.avatar ?? null,
+      bio: user.bio ?? null,
+    });
+
+    const deletions = new Map(
+      (await storage.getSyncDeletions(author.id)).map(row => [
+        deletionKey(row.entityType as SyncEntityType, row.externalId),
+        row.deletedAt,
+      ])
+    );
+
+    const results: SyncResult[] = [];
+    for (const change of [...changes].sort(compareSyncChanges)) {
+      try {
+        results.push(await applyChange(storage, change, author, deletions));
+      } catch (error) {
+        if (!(error instanceof SyncRejection)) {
+          console.error(`Erreur lors de la synchronisation de ${change.type} ${change.id}:`, error);
+        }
+        results.push({
+          type: change.type,
+          id: change.id,
+          status: "rejected",
+          conflicts: [],
+          message: error instanceof SyncRejection ? error.message : "Erreur interne du serveur",
+        });
+      }
+    }
+
+    const response: SyncPushResponse = { results, serverTime: new Date().toISOString() };
+    res.json(response);
+  }));
+
+  router.get("/pull", asyncHandler(async (req, res) => {
+    const { user, since } = pullQuery.parse(req.query);
+    // L'heure est relevée avant la lecture pour ne manquer aucune suppression concurrente
+    const serverTime = new Date().toISOString();
+    const records: SyncRecord[] = [];
+    const known: KnownExternalIds = { decks: new Map(), themes: new Map() };
+
+    // Toutes les entités de l'utilisateur sont renvoyées : les dates updatedAt viennent
+    // des appareils et ne permettent pas de filtrer de façon fiable
+    const author = await storage.getUserByExternalId(user);
+    if (author) {
+      for (const deck of await storage.getDecksByAuthor(author.id)) {
+        known.decks.set(deck.id, deck.externalId);
+        records.push(await toRecord(storage, "deck", deck));
+        for (const theme of await storage.getThemesByDeck(deck.id)) {
+          known.themes.set(theme.id, theme.externalId);
+          records.push(await toRecord(storage, "theme", theme, known));
+        }
+        for (const card of await storage.getFlashcardsByDeck(deck.id)) {
+          records.push(await toRecord(storage, "flashcard", card, known));
+        }
+      }
+    }
+
+    // Seules les suppressions des decks de l'utilisateur lui sont transmises
+    const tombstones = author ? await storage.getSyncDeletions(author.id, since ? new Date(since) : undefined) : [];
+    const deletions = tombstones.map(row => ({
+      type: row.entityType as SyncEntityType,
+      id: row.externalId,
+      deletedAt: row.deletedAt.toISOString(),
+    }));
+
+    const response: SyncPullResponse = { records, deletions, serverTime };
+    res.json(response);
+  }));
+
+  return router;
+};
@@ -1,5 +1,5 @@
 import { relations } from "drizzle-orm";
-import { pgTable, serial, text, timestamp, boolean, varchar, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, serial, integer, text, timestamp, boolean, varchar, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -69,7 +69,8 @@ export const flashcards = pgTable("flashcards", {
   id: serial("id").primaryKey(),
   externalId: varchar("external_id", { length: 255 }).notNull().unique(),
   deckId: serial("deck_id").references(() => decks.id).notNull(),
-  themeId: serial("theme_id").references(() => themes.id),
+  // Une carte peut ne pas avoir de thème
+  themeId: integer("theme_id").references(() => themes.id),
   front: jsonb("front").notNull(),
   back: jsonb("back").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -118,6 +119,16 @@ export const importedDecksRelations = relations(importedDecks, ({ one }) => ({
   }),
 }));
 
+// Entités supprimées, conservées pour propager les suppressions lors de la synchronisation
+export const syncDeletions = pgTable("sync_deletions", {
+  id: serial("id").primaryKey(),
+  entityType: varchar("entity_type", { length: 32 }).notNull(),
+  externalId: varchar("external_id", { length: 255 }).notNull(),
+  // Propriétaire du deck de l'entité : chaque utilisateur ne reçoit que ses suppressions
+  authorId: integer("author_id").references(() => users.id),
+  deletedAt: timestamp("deleted_at").defaultNow().notNull(),
+});
+
 // Schema types
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
@@ -141,4 +152,6 @@ export const insertSharedCodeSchema = createInsertSchema(sharedCodes).omit({ id:
 
 export type ImportedDeck = typeof importedDecks.$inferSelect;
 export type InsertImportedDeck = typeof importedDecks.$inferInsert;
-export const insertImportedDeckSchema = createInsertSchema(importedDecks).omit({ id: true });
\ No newline at end of file
+export const insertImportedDeckSchema = createInsertSchema(importedDecks).omit({ id: true });
+
+export type SyncDeletionRow = typeof syncDeletions.$inferSelect;
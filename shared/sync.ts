@@ -0,0 +1,161 @@
+// Protocole de synchronisation entre IndexedDB (client) et PostgreSQL (serveur).
+// Une entité est désignée par son identifiant client, enregistré côté serveur dans externalId ;
+// les références (deckId, themeId) voyagent elles aussi sous forme d'identifiants client.
+
+export type SyncEntityType = "deck" | "theme" | "flashcard";
+
+// Ordre de création : un parent existe toujours avant ses enfants
+export const SYNC_ENTITY_TYPES: SyncEntityType[] = ["deck", "theme", "flashcard"];
+
+// Champs synchronisés ; les autres propriétés d'une entité restent propres à l'appareil
+export const SYNC_FIELDS: Record<SyncEntityType, readonly string[]> = {
+  deck: ["title", "description", "coverImage", "isPublic", "isPublished", "publishedAt", "tags"],
+  theme: ["deckId", "title", "description", "coverImage"],
+  flashcard: ["deckId", "themeId", "front", "back"],
+};
+
+// Valeurs JSON des champs synchronisés (null pour une valeur absente, dates en ISO)
+export type SyncFields = Record<string, unknown>;
+
+// État d'une entité tel que connu par le serveur
+export interface SyncRecord {
+  type: SyncEntityType;
+  id: string;
+  fields: SyncFields;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Modification locale envoyée au serveur
+export interface SyncChange {
+  type: SyncEntityType;
+  id: string;
+  // Version reçue lors du dernier échange, null pour une entité jamais synchronisée
+  base: { updatedAt: string; fields: SyncFields } | null;
+  deleted?: boolean;
+  fields?: SyncFields;
+  createdAt?: string;
+  updatedAt: string;
+}
+
+// Champ modifié des deux côtés depuis la dernière synchronisation
+export interface FieldConflict {
+  field: string;
+  local: unknown;
+  remote: unknown;
+  winner: "local" | "remote";
+}
+
+// Champ utilisé pour signaler une suppression locale annulée par une modification distante
+export const DELETED_FIELD = "_deleted";
+
+export type SyncResultStatus = "created" | "updated" | "unchanged" | "deleted" | "rejected";
+
+export interface SyncResult {
+  type: SyncEntityType;
+  id: string;
+  status: SyncResultStatus;
+  // Version retenue par le serveur, à enregistrer localement
+  record?: SyncRecord;
+  conflicts: FieldConflict[];
+  message?: string;
+}
+
+export interface SyncUser {
+  id: string;
+  name: string;
+  email?: string | null;
+  avatar?: string | null;
+  bio?: string | null;
+}
+
+export interface SyncPushRequest {
+  user: SyncUser;
+  changes: SyncChange[];
+}
+
+export interface SyncPushResponse {
+  results: SyncResult[];
+  serverTime: string;
+}
+
+export interface SyncDeletion {
+  type: SyncEntityType;
+  id: string;
+  deletedAt: string;
+}
+
+export interface SyncPullResponse {
+  records: SyncRecord[];
+  deletions: SyncDeletion[];
+  serverTime: string;
+}
+
+// Ordre d'application : créations et modifications parent d'abord, suppressions enfant d'abord
+const changeRank = (change: SyncChange): number => {
+  const rank = SYNC_ENTITY_TYPES.indexOf(change.type);
+  return change.deleted ? SYNC_ENTITY_TYPES.length * 2 - rank : rank;
+};
+
+export const compareSyncChanges = (a: SyncChange, b: SyncChange): number => changeRank(a) - changeRank(b);
+
+// Sérialisation stable : PostgreSQL (jsonb) ne conserve pas l'ordre des clés
+const canonicalize = (value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map(key => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+};
+
+export const syncValuesEqual = (a: unknown, b: unknown): boolean => {
+  return JSON.stringify(canonicalize(a)) === JSON.stringify(canonicalize(b));
+};
+
+/**
+ * Fusion champ par champ d'une modification locale avec la version du serveur.
+ * Un champ modifié d'un seul côté garde cette modification ; un champ modifié
+ * des deux côtés avec des valeurs différentes est un conflit, résolu en faveur
+ * de la modification la plus récente (last-writer-wins).
+ * @param type Type de l'entité
+ * @param base Champs au dernier échange (null si l'entité n'a jamais été synchronisée)
+ * @param local Champs et date de modification envoyés par le client
+ * @param remote Champs et date de modification connus du serveur
+ */
+export const mergeSyncFields = (
+  type: SyncEntityType,
+  base: SyncFields | null,
+  local: { fields: SyncFields; updatedAt: string },
+  remote: { fields: SyncFields; updatedAt: string }
+): { fields: SyncFields; conflicts: FieldConflict[] } => {
+  const localWins = Date.parse(local.updatedAt) >= Date.parse(remote.updatedAt);
+  const fields: SyncFields = {};
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of SYNC_FIELDS[type]) {
+    const localValue = local.fields[field] ?? null;
+    const remoteValue = remote.fields[field] ?? null;
+
+    // Sans version de référence, toute différence est un conflit
+    const localChanged = base === null || !syncValuesEqual(localValue, base[field]);
+    const remoteChanged = base === null || !syncValuesEqual(remoteValue, base[field]);
+
+    if (!localChanged || syncValuesEqual(localValue, remoteValue)) {
+      fields[field] = remoteValue;
+    } else if (!remoteChanged) {
+      fields[field] = localValue;
+    } else {
+      const winner = localWins ? "local" : "remote";
+      conflicts.push({ field, local: localValue, remote: remoteValue, winner });
+      fields[field] = winner === "local" ? localValue : remoteValue;
+    }
+  }
+
+  return { fields, conflicts };
+};
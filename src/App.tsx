@@ -5,6 +5,8 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { HashRouter, Routes, Route, Navigate } from "react-router-dom";
 import { useEffect, useState } from "react";
 import { generateSampleData } from "./lib/localStorage";
+import { startAutoSync } from "./lib/syncEngine";
+import { maintainReviewLog } from "./lib/reviewLog";
 
 // Components
 import Navbar from "@/components/Navbar";
@@ -27,6 +29,7 @@ import LearningMethodsPage from "@/pages/LearningMethodsPage";
 import StatsPage from "@/pages/StatsPage";
 import SharePage from "@/pages/SharePage";
 import MyDecksPage from "@/pages/MyDecksPage";
+import SettingsPage from "@/pages/SettingsPage";
 import TestIndexedDBPage from "@/pages/TestIndexedDBPage";
 import BasicTestPage from "@/pages/BasicTestPage";
 
@@ -201,6 +204,20 @@ const App = () => {
     return () => clearTimeout(timeoutId);
   }, []);
 
+  // Synchronisation avec le serveur une fois les données locales prêtes
+  useEffect(() => {
+    if (!initialized) return;
+    return startAutoSync();
+  }, [initialized]);
+
+  // Entretien du journal des révisions, en arrière-plan
+  useEffect(() => {
+    if (!initialized) return;
+    maintainReviewLog().catch(error => {
+      console.error("Erreur lors de l'entretien du journal des révisions:", error);
+    });
+  }, [initialized]);
+
   // Afficher un écran de chargement pendant l'initialisation
   if (!initialized) {
     return (
@@ -393,6 +410,18 @@ const App = () => {
                 </ProtectedRoute>
               } />
               
+              <Route path="/settings" element={
+                <ProtectedRoute>
+                  <>
+                    <Navbar />
+                    <main className="flex-1">
+                      <SettingsPage />
+                    </main>
+                    <Footer />
+                  </>
+                </ProtectedRoute>
+              } />
+              
               <Route path="/test-indexeddb" element={
                 <>
                   <Navbar />
@@ -0,0 +1,90 @@
+import { useRef } from "react";
+import { Brackets } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { getClozeIndices, renderCloze, wrapCloze } from "@/lib/cloze";
+
+export interface ClozeEditorValue {
+  text: string;
+  extra: string;
+}
+
+interface ClozeEditorProps {
+  value: ClozeEditorValue;
+  onChange: (value: ClozeEditorValue) => void;
+}
+
+// Saisie d'un texte à trous : une carte est générée pour chaque numéro de trou
+const ClozeEditor = ({ value, onChange }: ClozeEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const indices = getClozeIndices(value.text);
+
+  const addCloze = () => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.text.length;
+    const end = textarea?.selectionEnd ?? value.text.length;
+    const { text, cursor } = wrapCloze(value.text, start, end);
+    onChange({ ...value, text });
+
+    // Replacer le curseur après la mise à jour du champ
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  return (
+    <div className="space-y-4 border p-4 rounded-lg">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="cloze-text">Texte à trous</Label>
+          <Button type="button" variant="outline" size="sm" onClick={addCloze}>
+            <Brackets className="mr-2 h-4 w-4" />
+            Ajouter un trou
+          </Button>
+        </div>
+        <Textarea
+          id="cloze-text"
+          ref={textareaRef}
+          placeholder="Ex: La capitale du Japon est {{c1::Tokyo}}."
+          rows={4}
+          value={value.text}
+          onChange={(e) => onChange({ ...value, text: e.target.value })}
+        />
+        <p className="text-sm text-muted-foreground">
+          Sélectionnez un passage puis cliquez sur « Ajouter un trou ». Un indice peut être ajouté
+          avec {"{{c1::réponse::indice}}"}. Les trous de même numéro sont masqués sur la même carte.
+        </p>
+      </div>
+
+      {indices.length > 0 && (
+        <div className="space-y-2">
+          <Label>
+            {indices.length} carte{indices.length > 1 ? "s" : ""} générée{indices.length > 1 ? "s" : ""}
+          </Label>
+          <ul className="space-y-1 text-sm">
+            {indices.map(index => (
+              <li key={index} className="rounded-md bg-secondary/40 px-3 py-2">
+                <span className="font-medium">c{index} :</span> {renderCloze(value.text, index, false).text}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="cloze-extra">Verso supplémentaire (optionnel)</Label>
+        <Textarea
+          id="cloze-extra"
+          placeholder="Ex: Explication, source, exemple..."
+          rows={2}
+          value={value.extra}
+          onChange={(e) => onChange({ ...value, extra: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ClozeEditor;
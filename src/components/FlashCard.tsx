@@ -3,25 +3,25 @@ import { Volume2, Info } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { sanitizeRichText, CardSide } from "@/lib/cardContent";
 
 export interface FlashCardProps {
   id: string;
-  front: {
-    text: string;
-    image?: string;
-    audio?: string;
-    additionalInfo?: string;
-  };
-  back: {
-    text: string;
-    image?: string;
-    audio?: string;
-    additionalInfo?: string;
-  };
+  front: CardSide;
+  back: CardSide;
   onCardFlip?: (id: string, isFlipped: boolean) => void;
   className?: string;
 }
 
+// Texte principal d'une face ; le texte enrichi est nettoyé avant d'être inséré
+const CardSideText = ({ side }: { side: CardSide }) => {
+  const className = "text-xl font-medium text-center text-primary dark:text-primary-foreground";
+  if (side.type === 'richText') {
+    return <div className={className} dangerouslySetInnerHTML={{ __html: sanitizeRichText(side.html) }} />;
+  }
+  return <div className={className}>{side.text}</div>;
+};
+
 const FlashCard = ({
   id,
   front,
@@ -98,9 +98,7 @@ const FlashCard = ({
               />
             </div>
           )}
-          <div className="text-xl font-medium text-center text-primary dark:text-primary-foreground">
-            {front.text}
-          </div>
+          <CardSideText side={front} />
           
           {front.additionalInfo && (
             <div className={`w-full overflow-hidden transition-all duration-300 ${showFrontInfo ? 'max-h-48' : 'max-h-0'}`}>
@@ -169,9 +167,7 @@ const FlashCard = ({
               />
             </div>
           )}
-          <div className="text-xl font-medium text-center text-primary dark:text-primary-foreground">
-            {back.text}
-          </div>
+          <CardSideText side={back} />
           
           {back.additionalInfo && (
             <div className={`w-full overflow-hidden transition-all duration-300 ${showBackInfo ? 'max-h-48' : 'max-h-0'}`}>
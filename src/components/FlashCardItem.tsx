@@ -9,8 +9,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { Edit, Trash2, Save, X } from "lucide-react";
-import { updateFlashcard, deleteFlashcard, Flashcard, getBase64 } from "@/lib/localStorage";
+import { updateFlashcard, deleteFlashcard, updateClozeNote, deleteClozeNote, Flashcard, getBase64 } from "@/lib/localStorage";
+import { updateCardSideContent, CardSide } from "@/lib/cardContent";
+import { getClozeIndices, resolveCardSides } from "@/lib/cloze";
+import { parseReadings } from "@/lib/japanese";
 import FlashCard from "./FlashCard";
+import ClozeEditor, { ClozeEditorValue } from "./ClozeEditor";
 
 interface FlashCardItemProps {
   card: Flashcard;
@@ -18,26 +22,38 @@ interface FlashCardItemProps {
   onUpdate?: (card: Flashcard) => void;
 }
 
+// La note commune à la carte s'affiche sur chaque face qui n'a pas ses propres informations
+const withCardInfo = (side: CardSide, card: Flashcard): CardSide => ({
+  ...side,
+  additionalInfo: side.additionalInfo || card.additionalInfo
+});
+
+const toEditableSide = (side: CardSide) => ({
+  text: side.text,
+  image: side.image,
+  audio: side.audio,
+  additionalInfo: side.additionalInfo || "",
+  readings: (side.readings || []).join(", ")
+});
+
 const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
   const { toast } = useToast();
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
-  // Adapter les propriétés de Flashcard pour FlashCardProps
-  const [showFrontAdditionalInfo, setShowFrontAdditionalInfo] = useState(!!card.additionalInfo);
-  const [showBackAdditionalInfo, setShowBackAdditionalInfo] = useState(!!card.additionalInfo);
+  const sides = resolveCardSides(card);
+  const front = withCardInfo(sides.front, card);
+  const back = withCardInfo(sides.back, card);
+  // Les cartes générées depuis un même texte à trous sont modifiées et supprimées ensemble
+  const clozeNoteId = card.front.type === 'cloze' ? card.front.noteId : undefined;
+  const [showFrontAdditionalInfo, setShowFrontAdditionalInfo] = useState(!!front.additionalInfo);
+  const [showBackAdditionalInfo, setShowBackAdditionalInfo] = useState(!!back.additionalInfo);
   const [editingCard, setEditingCard] = useState({
-    front: { 
-      text: card.front || "",
-      image: card.frontImage,
-      audio: card.frontAudio,
-      additionalInfo: card.additionalInfo || ""
-    },
-    back: { 
-      text: card.back || "",
-      image: card.backImage,
-      audio: card.backAudio,
-      additionalInfo: card.additionalInfo || ""
-    },
+    front: toEditableSide(withCardInfo(card.front, card)),
+    back: toEditableSide(withCardInfo(card.back, card)),
+  });
+  const [editingCloze, setEditingCloze] = useState<ClozeEditorValue>({
+    text: card.front.text,
+    extra: card.back.text,
   });
 
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>, side: 'front' | 'back') => {
@@ -145,25 +161,23 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
         text: editingCard.front.text.trim(),
         image: editingCard.front.image,
         audio: editingCard.front.audio,
-        additionalInfo: showFrontAdditionalInfo ? editingCard.front.additionalInfo.trim() : undefined
+        additionalInfo: showFrontAdditionalInfo ? editingCard.front.additionalInfo.trim() : undefined,
+        readings: parseReadings(editingCard.front.readings)
       };
 
       const updatedBack = {
         text: editingCard.back.text.trim(),
         image: editingCard.back.image,
         audio: editingCard.back.audio,
-        additionalInfo: showBackAdditionalInfo ? editingCard.back.additionalInfo.trim() : undefined
+        additionalInfo: showBackAdditionalInfo ? editingCard.back.additionalInfo.trim() : undefined,
+        readings: parseReadings(editingCard.back.readings)
       };
 
-      // Convertir de l'interface FlashCard à l'interface Flashcard de localStorage
+      // Les informations complémentaires sont désormais propres à chaque face
       const updated = await updateFlashcard(card.id, {
-        front: updatedFront.text,
-        back: updatedBack.text,
-        frontImage: updatedFront.image,
-        backImage: updatedBack.image,
-        frontAudio: updatedFront.audio,
-        backAudio: updatedBack.audio,
-        additionalInfo: updatedFront.additionalInfo || updatedBack.additionalInfo
+        front: updateCardSideContent(card.front, updatedFront),
+        back: updateCardSideContent(card.back, updatedBack),
+        additionalInfo: undefined
       });
 
       if (updated) {
@@ -184,9 +198,55 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
     }
   };
 
+  const handleUpdateCloze = async () => {
+    if (getClozeIndices(editingCloze.text).length === 0) {
+      toast({
+        title: "Trou requis",
+        description: "Ajoutez au moins un trou au format {{c1::réponse}}",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const text = editingCloze.text.trim();
+      const extra = updateCardSideContent(card.back, { ...card.back, text: editingCloze.extra.trim() });
+      let updated: Flashcard | null;
+      if (clozeNoteId) {
+        const cards = await updateClozeNote(card.deckId, clozeNoteId, { text, extra });
+        updated = cards.find(sibling => sibling.id === card.id) ?? cards[0];
+      } else {
+        updated = await updateFlashcard(card.id, {
+          front: updateCardSideContent(card.front, { ...card.front, text }),
+          back: extra,
+        });
+      }
+
+      if (updated) {
+        setShowEditDialog(false);
+        onUpdate?.(updated);
+        toast({
+          title: "Carte mise à jour",
+          description: clozeNoteId
+            ? "Toutes les cartes générées depuis ce texte ont été mises à jour"
+            : "La flashcard a été modifiée avec succès",
+        });
+      }
+    } catch (error) {
+      console.error("Error updating cloze note:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible de mettre à jour les cartes à trous",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDelete = async () => {
     try {
-      const success = await deleteFlashcard(card.id);
+      const success = clozeNoteId
+        ? (await deleteClozeNote(card.deckId, clozeNoteId)) > 0
+        : await deleteFlashcard(card.id);
       if (success) {
         setShowDeleteDialog(false);
         onDelete?.();
@@ -230,18 +290,8 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
         <CardContent className="p-0">
           <FlashCard 
             id={card.id}
-            front={{
-              text: card.front || "",
-              image: card.frontImage,
-              audio: card.frontAudio,
-              additionalInfo: card.additionalInfo
-            }}
-            back={{
-              text: card.back || "",
-              image: card.backImage,
-              audio: card.backAudio,
-              additionalInfo: card.additionalInfo
-            }}
+            front={front}
+            back={back}
           />
         </CardContent>
       </Card>
@@ -251,220 +301,260 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
           <DialogHeader>
             <DialogTitle>Modifier la flashcard</DialogTitle>
           </DialogHeader>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 py-4">
-            <div className="space-y-4 border p-4 rounded-lg">
-              <h3 className="font-medium">Recto de la carte</h3>
-              <div className="space-y-2">
-                <Label htmlFor="front-text">Texte</Label>
-                <Textarea
-                  id="front-text"
-                  rows={3}
-                  value={editingCard.front.text}
-                  onChange={(e) =>
-                    setEditingCard({
-                      ...editingCard,
-                      front: { ...editingCard.front, text: e.target.value },
-                    })
-                  }
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="front-image">Image (optionnelle)</Label>
-                <Input
-                  id="front-image"
-                  type="file"
-                  accept="image/*"
-                  onChange={(e) => handleImageUpload(e, 'front')}
-                />
-                {editingCard.front.image && (
-                  <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
-                    <img
-                      src={editingCard.front.image}
-                      alt="Front side"
-                      className="w-full h-full object-contain"
-                    />
-                    <Button
-                      variant="destructive"
-                      size="icon"
-                      className="absolute top-2 right-2 w-6 h-6 rounded-full"
-                      onClick={() => setEditingCard({
-                        ...editingCard,
-                        front: { ...editingCard.front, image: undefined },
-                      })}
-                    >
-                      <X className="h-3 w-3" />
-                    </Button>
-                  </div>
-                )}
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="front-audio">Audio (optionnel)</Label>
-                <Input
-                  id="front-audio"
-                  type="file"
-                  accept="audio/*"
-                  onChange={(e) => handleAudioUpload(e, 'front')}
-                />
-                {editingCard.front.audio && (
-                  <div className="mt-2 relative">
-                    <audio className="w-full" controls>
-                      <source src={editingCard.front.audio} />
-                      Votre navigateur ne supporte pas l'élément audio.
-                    </audio>
-                    <Button
-                      variant="destructive"
-                      size="icon"
-                      className="absolute -top-2 right-2 w-6 h-6 rounded-full"
-                      onClick={() => setEditingCard({
-                        ...editingCard,
-                        front: { ...editingCard.front, audio: undefined },
-                      })}
-                    >
-                      <X className="h-3 w-3" />
-                    </Button>
-                  </div>
-                )}
-              </div>
-
-              <div className="flex items-center space-x-2 pt-2">
-                <Checkbox 
-                  id="show-front-additional-info" 
-                  checked={showFrontAdditionalInfo}
-                  onCheckedChange={(checked) => {
-                    setShowFrontAdditionalInfo(checked as boolean);
-                  }}
-                />
-                <Label htmlFor="show-front-additional-info">Ajouter des informations supplémentaires</Label>
-              </div>
-
-              {showFrontAdditionalInfo && (
+          {card.front.type === 'cloze' ? (
+            <div className="py-4">
+              <ClozeEditor value={editingCloze} onChange={setEditingCloze} />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 py-4">
+              <div className="space-y-4 border p-4 rounded-lg">
+                <h3 className="font-medium">Recto de la carte</h3>
                 <div className="space-y-2">
-                  <Label htmlFor="front-additional-info">Informations supplémentaires</Label>
+                  <Label htmlFor="front-text">Texte</Label>
                   <Textarea
-                    id="front-additional-info"
+                    id="front-text"
                     rows={3}
-                    value={editingCard.front.additionalInfo}
+                    value={editingCard.front.text}
                     onChange={(e) =>
                       setEditingCard({
                         ...editingCard,
-                        front: { ...editingCard.front, additionalInfo: e.target.value },
+                        front: { ...editingCard.front, text: e.target.value },
                       })
                     }
-                    placeholder="Ajoutez des notes, contexte ou détails complémentaires..."
                   />
                 </div>
-              )}
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="front-readings">Lectures (optionnelles)</Label>
+                  <Input
+                    id="front-readings"
+                    value={editingCard.front.readings}
+                    onChange={(e) =>
+                      setEditingCard({
+                        ...editingCard,
+                        front: { ...editingCard.front, readings: e.target.value },
+                      })
+                    }
+                    placeholder="Ex: ねこ, neko"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Séparées par des virgules, acceptées comme bonnes réponses en mode quiz et écriture.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="front-image">Image (optionnelle)</Label>
+                  <Input
+                    id="front-image"
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => handleImageUpload(e, 'front')}
+                  />
+                  {editingCard.front.image && (
+                    <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
+                      <img
+                        src={editingCard.front.image}
+                        alt="Front side"
+                        className="w-full h-full object-contain"
+                      />
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        className="absolute top-2 right-2 w-6 h-6 rounded-full"
+                        onClick={() => setEditingCard({
+                          ...editingCard,
+                          front: { ...editingCard.front, image: undefined },
+                        })}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="front-audio">Audio (optionnel)</Label>
+                  <Input
+                    id="front-audio"
+                    type="file"
+                    accept="audio/*"
+                    onChange={(e) => handleAudioUpload(e, 'front')}
+                  />
+                  {editingCard.front.audio && (
+                    <div className="mt-2 relative">
+                      <audio className="w-full" controls>
+                        <source src={editingCard.front.audio} />
+                        Votre navigateur ne supporte pas l'élément audio.
+                      </audio>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        className="absolute -top-2 right-2 w-6 h-6 rounded-full"
+                        onClick={() => setEditingCard({
+                          ...editingCard,
+                          front: { ...editingCard.front, audio: undefined },
+                        })}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
 
-            <div className="space-y-4 border p-4 rounded-lg">
-              <h3 className="font-medium">Verso de la carte</h3>
-              <div className="space-y-2">
-                <Label htmlFor="back-text">Texte</Label>
-                <Textarea
-                  id="back-text"
-                  rows={3}
-                  value={editingCard.back.text}
-                  onChange={(e) =>
-                    setEditingCard({
-                      ...editingCard,
-                      back: { ...editingCard.back, text: e.target.value },
-                    })
-                  }
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="back-image">Image (optionnelle)</Label>
-                <Input
-                  id="back-image"
-                  type="file"
-                  accept="image/*"
-                  onChange={(e) => handleImageUpload(e, 'back')}
-                />
-                {editingCard.back.image && (
-                  <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
-                    <img
-                      src={editingCard.back.image}
-                      alt="Back side"
-                      className="w-full h-full object-contain"
+                <div className="flex items-center space-x-2 pt-2">
+                  <Checkbox 
+                    id="show-front-additional-info" 
+                    checked={showFrontAdditionalInfo}
+                    onCheckedChange={(checked) => {
+                      setShowFrontAdditionalInfo(checked as boolean);
+                    }}
+                  />
+                  <Label htmlFor="show-front-additional-info">Ajouter des informations supplémentaires</Label>
+                </div>
+
+                {showFrontAdditionalInfo && (
+                  <div className="space-y-2">
+                    <Label htmlFor="front-additional-info">Informations supplémentaires</Label>
+                    <Textarea
+                      id="front-additional-info"
+                      rows={3}
+                      value={editingCard.front.additionalInfo}
+                      onChange={(e) =>
+                        setEditingCard({
+                          ...editingCard,
+                          front: { ...editingCard.front, additionalInfo: e.target.value },
+                        })
+                      }
+                      placeholder="Ajoutez des notes, contexte ou détails complémentaires..."
                     />
-                    <Button
-                      variant="destructive"
-                      size="icon"
-                      className="absolute top-2 right-2 w-6 h-6 rounded-full"
-                      onClick={() => setEditingCard({
-                        ...editingCard,
-                        back: { ...editingCard.back, image: undefined },
-                      })}
-                    >
-                      <X className="h-3 w-3" />
-                    </Button>
                   </div>
                 )}
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="back-audio">Audio (optionnel)</Label>
-                <Input
-                  id="back-audio"
-                  type="file"
-                  accept="audio/*"
-                  onChange={(e) => handleAudioUpload(e, 'back')}
-                />
-                {editingCard.back.audio && (
-                  <div className="mt-2 relative">
-                    <audio className="w-full" controls>
-                      <source src={editingCard.back.audio} />
-                      Votre navigateur ne supporte pas l'élément audio.
-                    </audio>
-                    <Button
-                      variant="destructive"
-                      size="icon"
-                      className="absolute -top-2 right-2 w-6 h-6 rounded-full"
-                      onClick={() => setEditingCard({
-                        ...editingCard,
-                        back: { ...editingCard.back, audio: undefined },
-                      })}
-                    >
-                      <X className="h-3 w-3" />
-                    </Button>
-                  </div>
-                )}
-              </div>
-
-              <div className="flex items-center space-x-2 pt-2">
-                <Checkbox 
-                  id="show-back-additional-info" 
-                  checked={showBackAdditionalInfo}
-                  onCheckedChange={(checked) => {
-                    setShowBackAdditionalInfo(checked as boolean);
-                  }}
-                />
-                <Label htmlFor="show-back-additional-info">Ajouter des informations supplémentaires</Label>
-              </div>
 
-              {showBackAdditionalInfo && (
+              <div className="space-y-4 border p-4 rounded-lg">
+                <h3 className="font-medium">Verso de la carte</h3>
                 <div className="space-y-2">
-                  <Label htmlFor="back-additional-info">Informations supplémentaires</Label>
+                  <Label htmlFor="back-text">Texte</Label>
                   <Textarea
-                    id="back-additional-info"
+                    id="back-text"
                     rows={3}
-                    value={editingCard.back.additionalInfo}
+                    value={editingCard.back.text}
                     onChange={(e) =>
                       setEditingCard({
                         ...editingCard,
-                        back: { ...editingCard.back, additionalInfo: e.target.value },
+                        back: { ...editingCard.back, text: e.target.value },
                       })
                     }
-                    placeholder="Ajoutez des notes, contexte ou détails complémentaires..."
                   />
                 </div>
-              )}
+                <div className="space-y-2">
+                  <Label htmlFor="back-readings">Lectures (optionnelles)</Label>
+                  <Input
+                    id="back-readings"
+                    value={editingCard.back.readings}
+                    onChange={(e) =>
+                      setEditingCard({
+                        ...editingCard,
+                        back: { ...editingCard.back, readings: e.target.value },
+                      })
+                    }
+                    placeholder="Ex: ねこ, neko"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Séparées par des virgules, acceptées comme bonnes réponses en mode quiz et écriture.
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="back-image">Image (optionnelle)</Label>
+                  <Input
+                    id="back-image"
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => handleImageUpload(e, 'back')}
+                  />
+                  {editingCard.back.image && (
+                    <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
+                      <img
+                        src={editingCard.back.image}
+                        alt="Back side"
+                        className="w-full h-full object-contain"
+                      />
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        className="absolute top-2 right-2 w-6 h-6 rounded-full"
+                        onClick={() => setEditingCard({
+                          ...editingCard,
+                          back: { ...editingCard.back, image: undefined },
+                        })}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="back-audio">Audio (optionnel)</Label>
+                  <Input
+                    id="back-audio"
+                    type="file"
+                    accept="audio/*"
+                    onChange={(e) => handleAudioUpload(e, 'back')}
+                  />
+                  {editingCard.back.audio && (
+                    <div className="mt-2 relative">
+                      <audio className="w-full" controls>
+                        <source src={editingCard.back.audio} />
+                        Votre navigateur ne supporte pas l'élément audio.
+                      </audio>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        className="absolute -top-2 right-2 w-6 h-6 rounded-full"
+                        onClick={() => setEditingCard({
+                          ...editingCard,
+                          back: { ...editingCard.back, audio: undefined },
+                        })}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center space-x-2 pt-2">
+                  <Checkbox 
+                    id="show-back-additional-info" 
+                    checked={showBackAdditionalInfo}
+                    onCheckedChange={(checked) => {
+                      setShowBackAdditionalInfo(checked as boolean);
+                    }}
+                  />
+                  <Label htmlFor="show-back-additional-info">Ajouter des informations supplémentaires</Label>
+                </div>
+
+                {showBackAdditionalInfo && (
+                  <div className="space-y-2">
+                    <Label htmlFor="back-additional-info">Informations supplémentaires</Label>
+                    <Textarea
+                      id="back-additional-info"
+                      rows={3}
+                      value={editingCard.back.additionalInfo}
+                      onChange={(e) =>
+                        setEditingCard({
+                          ...editingCard,
+                          back: { ...editingCard.back, additionalInfo: e.target.value },
+                        })
+                      }
+                      placeholder="Ajoutez des notes, contexte ou détails complémentaires..."
+                    />
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
+          )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowEditDialog(false)}>
               Annuler
             </Button>
-            <Button onClick={handleUpdate}>
+            <Button onClick={card.front.type === 'cloze' ? handleUpdateCloze : handleUpdate}>
               <Save className="mr-2 h-4 w-4" />
               Enregistrer
             </Button>
@@ -477,7 +567,9 @@ const FlashCardItem = ({ card, onDelete, onUpdate }: FlashCardItemProps) => {
           <DialogHeader>
             <DialogTitle>Supprimer la carte</DialogTitle>
             <DialogDescription>
-              Êtes-vous sûr de vouloir supprimer cette flashcard ? Cette action est irréversible.
+              {clozeNoteId
+                ? "Toutes les cartes générées depuis ce texte à trous seront supprimées. Cette action est irréversible."
+                : "Êtes-vous sûr de vouloir supprimer cette flashcard ? Cette action est irréversible."}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -0,0 +1,294 @@
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { createFlashcard, Flashcard, Theme } from "@/lib/localStorage";
+import { createCardSide } from "@/lib/cardContent";
+import {
+  CardProposal,
+  DEFAULT_GENERATED_CARD_COUNT,
+  generateCards,
+  markDuplicateCards,
+  MAX_GENERATED_CARD_COUNT
+} from "@/services/cardGenerator";
+import { Sparkles, Trash2 } from "lucide-react";
+
+const NO_THEME = "none";
+
+interface GenerateCardsDialogProps {
+  deckId: string;
+  themeId?: string; // Thème imposé (page d'un thème)
+  themes?: Theme[]; // Thèmes proposés comme destination (page d'un deck)
+  existingCards: Flashcard[];
+  isOpen: boolean;
+  onClose: () => void;
+  onCardsCreated: (cards: Flashcard[]) => void;
+}
+
+// Proposition en cours de revue : éditable et désélectionnable
+interface ReviewedProposal extends CardProposal {
+  key: number;
+  selected: boolean;
+}
+
+const GenerateCardsDialog: React.FC<GenerateCardsDialogProps> = ({
+  deckId,
+  themeId,
+  themes = [],
+  existingCards,
+  isOpen,
+  onClose,
+  onCardsCreated
+}) => {
+  const { toast } = useToast();
+  const [sourceText, setSourceText] = useState("");
+  const [cardCount, setCardCount] = useState(DEFAULT_GENERATED_CARD_COUNT);
+  const [targetThemeId, setTargetThemeId] = useState(themeId ?? NO_THEME);
+  const [proposals, setProposals] = useState<ReviewedProposal[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Les doublons sont recherchés dans le thème de destination, ou dans tout le deck sans thème
+  const existingFronts = useMemo(() => {
+    const target = themeId ?? (targetThemeId === NO_THEME ? undefined : targetThemeId);
+    return existingCards
+      .filter(card => !target || card.themeId === target)
+      .map(card => card.front.text);
+  }, [existingCards, themeId, targetThemeId]);
+
+  // Recalculé après chaque modification, pour signaler un recto devenu identique à un autre
+  const reviewed = useMemo(() => {
+    const marked = markDuplicateCards(proposals, existingFronts);
+    return proposals.map((proposal, index) => ({ ...proposal, duplicate: marked[index].duplicate }));
+  }, [proposals, existingFronts]);
+
+  const selectedCount = reviewed.filter(proposal => proposal.selected).length;
+
+  const reset = () => {
+    setSourceText("");
+    setProposals([]);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const cards = await generateCards(sourceText, existingFronts, cardCount);
+      setProposals(cards.map((card, index) => ({ ...card, key: index, selected: !card.duplicate })));
+      if (cards.length === 0) {
+        setError("Le modèle n'a proposé aucune carte pour ce texte.");
+      }
+    } catch (generationError) {
+      console.error("Erreur lors de la génération des cartes:", generationError);
+      setError(generationError instanceof Error ? generationError.message : String(generationError));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const updateProposal = (key: number, changes: Partial<ReviewedProposal>) => {
+    setProposals(proposals.map(proposal => proposal.key === key ? { ...proposal, ...changes } : proposal));
+  };
+
+  const handleCreate = async () => {
+    const selected = reviewed.filter(proposal => proposal.selected);
+    if (selected.some(proposal => !proposal.front.trim() || !proposal.back.trim())) {
+      toast({
+        title: "Contenu requis",
+        description: "Chaque carte sélectionnée doit avoir un recto et un verso",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const destination = themeId ?? (targetThemeId === NO_THEME ? undefined : targetThemeId);
+      const created: Flashcard[] = [];
+      for (const proposal of selected) {
+        created.push(await createFlashcard({
+          deckId,
+          themeId: destination,
+          front: createCardSide({ text: proposal.front.trim() }),
+          back: createCardSide({ text: proposal.back.trim() }),
+          hints: proposal.hints?.map(hint => hint.trim()).filter(Boolean),
+          additionalInfo: proposal.additionalInfo?.trim() || undefined,
+        }));
+      }
+
+      onCardsCreated(created);
+      toast({
+        title: "Cartes créées",
+        description: `${created.length} carte${created.length > 1 ? "s" : ""} générée${created.length > 1 ? "s" : ""} ajoutée${created.length > 1 ? "s" : ""}`,
+      });
+      handleClose();
+    } catch (saveError) {
+      console.error("Erreur lors de l'ajout des cartes générées:", saveError);
+      toast({
+        title: "Erreur",
+        description: "Impossible d'ajouter les cartes générées",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Générer des cartes</DialogTitle>
+          <DialogDescription>
+            Collez un article, un résumé d'épisode ou vos notes : le fournisseur choisi dans
+            les <Link to="/settings" className="underline">paramètres</Link> propose des cartes
+            que vous pouvez modifier avant de les ajouter.
+          </DialogDescription>
+        </DialogHeader>
+
+        {proposals.length === 0 ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="generation-source">Texte source</Label>
+              <Textarea
+                id="generation-source"
+                value={sourceText}
+                onChange={(e) => setSourceText(e.target.value)}
+                placeholder="Collez ici le texte à transformer en flashcards"
+                className="min-h-[200px]"
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="generation-count">Nombre de cartes</Label>
+                <Input
+                  id="generation-count"
+                  type="number"
+                  min={1}
+                  max={MAX_GENERATED_CARD_COUNT}
+                  value={cardCount}
+                  onChange={(e) => setCardCount(Math.min(MAX_GENERATED_CARD_COUNT, Math.max(1, Number(e.target.value) || 1)))}
+                  className="w-24"
+                />
+              </div>
+
+              {!themeId && themes.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="generation-theme">Thème</Label>
+                  <Select value={targetThemeId} onValueChange={setTargetThemeId}>
+                    <SelectTrigger id="generation-theme" className="w-[220px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_THEME}>Aucun thème</SelectItem>
+                      {themes.map(theme => (
+                        <SelectItem key={theme.id} value={theme.id}>{theme.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {selectedCount} carte{selectedCount > 1 ? "s" : ""} sélectionnée{selectedCount > 1 ? "s" : ""} sur {reviewed.length}.
+              Les doublons des cartes existantes sont désélectionnés.
+            </p>
+            {reviewed.map(proposal => (
+              <div key={proposal.key} className="flex gap-3 rounded-md border p-3">
+                <Checkbox
+                  checked={proposal.selected}
+                  onCheckedChange={(checked) => updateProposal(proposal.key, { selected: checked === true })}
+                  className="mt-2"
+                />
+                <div className="flex-1 space-y-2">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    <Input
+                      value={proposal.front}
+                      placeholder="Recto"
+                      onChange={(e) => updateProposal(proposal.key, { front: e.target.value })}
+                    />
+                    <Input
+                      value={proposal.back}
+                      placeholder="Verso"
+                      onChange={(e) => updateProposal(proposal.key, { back: e.target.value })}
+                    />
+                  </div>
+                  <Input
+                    value={proposal.hints?.join(";") ?? ""}
+                    placeholder="Indices, séparés par « ; »"
+                    onChange={(e) => updateProposal(proposal.key, { hints: e.target.value.split(";") })}
+                  />
+                  <Textarea
+                    value={proposal.additionalInfo ?? ""}
+                    placeholder="Informations supplémentaires"
+                    onChange={(e) => updateProposal(proposal.key, { additionalInfo: e.target.value })}
+                    className="min-h-[60px]"
+                  />
+                  {proposal.duplicate && (
+                    <Badge variant="outline" className="text-amber-600 border-amber-300">
+                      Déjà présente
+                    </Badge>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setProposals(proposals.filter(other => other.key !== proposal.key))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+
+        <DialogFooter>
+          {proposals.length === 0 ? (
+            <>
+              <Button variant="outline" onClick={handleClose}>
+                Annuler
+              </Button>
+              <Button onClick={handleGenerate} disabled={isGenerating || !sourceText.trim()}>
+                <Sparkles className="mr-2 h-4 w-4" />
+                {isGenerating ? "Génération..." : "Générer"}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setProposals([])}>
+                Retour au texte
+              </Button>
+              <Button onClick={handleCreate} disabled={isSaving || selectedCount === 0}>
+                {isSaving ? "Ajout..." : `Ajouter ${selectedCount} carte${selectedCount > 1 ? "s" : ""}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GenerateCardsDialog;
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Repeat, Timer, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { CardSide } from "@/lib/cardContent";
+import {
+  buildMatchingGrid,
+  getMatchingBestTime,
+  isMatchingPair,
+  MatchingBestTime,
+  MatchingTile,
+  saveMatchingTime,
+} from "@/lib/matchingGame";
+
+interface MatchingGameProps {
+  deckId: string;
+  cards: { id: string; front: CardSide; back: CardSide }[];
+  // Premier recto associé à tort dans la partie : pickedCardId est la carte du verso choisi
+  onMiss: (cardId: string, pickedCardId: string, gridCardIds: string[]) => void;
+  // Recto associé à son verso sans erreur préalable
+  onMatch: (cardId: string) => void;
+}
+
+const formatTime = (timeMs: number) => `${(timeMs / 1000).toFixed(1)} s`;
+
+// Grille chronométrée : associer chaque recto à son verso
+const MatchingGame = ({ deckId, cards, onMiss, onMatch }: MatchingGameProps) => {
+  const [tiles, setTiles] = useState<MatchingTile[]>([]);
+  const [selected, setSelected] = useState<MatchingTile | null>(null);
+  const [matched, setMatched] = useState<Set<string>>(new Set());
+  const [wrongKeys, setWrongKeys] = useState<string[]>([]);
+  const [missedCards, setMissedCards] = useState<Set<string>>(new Set());
+  const [missCount, setMissCount] = useState(0);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [finalTimeMs, setFinalTimeMs] = useState<number | null>(null);
+  const [bestTime, setBestTime] = useState<MatchingBestTime | null>(null);
+  const [isRecord, setIsRecord] = useState(false);
+  const startedAtRef = useRef(Date.now());
+
+  const pairCount = tiles.length / 2;
+
+  const newGame = useCallback(() => {
+    setTiles(buildMatchingGrid(cards));
+    setSelected(null);
+    setMatched(new Set());
+    setWrongKeys([]);
+    setMissedCards(new Set());
+    setMissCount(0);
+    setElapsedMs(0);
+    setFinalTimeMs(null);
+    setIsRecord(false);
+    startedAtRef.current = Date.now();
+  }, [cards]);
+
+  useEffect(() => {
+    newGame();
+  }, [newGame]);
+
+  useEffect(() => {
+    if (pairCount === 0) return;
+    getMatchingBestTime(deckId, pairCount).then(setBestTime);
+  }, [deckId, pairCount]);
+
+  // Chronomètre, arrêté à la dernière paire
+  useEffect(() => {
+    if (finalTimeMs !== null || tiles.length === 0) return;
+    const interval = setInterval(() => setElapsedMs(Date.now() - startedAtRef.current), 100);
+    return () => clearInterval(interval);
+  }, [finalTimeMs, tiles]);
+
+  const finishGame = async () => {
+    const timeMs = Date.now() - startedAtRef.current;
+    setFinalTimeMs(timeMs);
+    const result = await saveMatchingTime(deckId, pairCount, timeMs);
+    setBestTime(result.best);
+    setIsRecord(result.isRecord);
+  };
+
+  const handleTileClick = (tile: MatchingTile) => {
+    if (finalTimeMs !== null || matched.has(tile.key)) return;
+
+    // Une seconde tuile du même côté remplace la sélection
+    if (!selected || selected.side === tile.side) {
+      setSelected(selected?.key === tile.key ? null : tile);
+      setWrongKeys([]);
+      return;
+    }
+
+    const front = selected.side === "front" ? selected : tile;
+    const back = selected.side === "back" ? selected : tile;
+    setSelected(null);
+
+    if (isMatchingPair(front, back, tiles)) {
+      const nextMatched = new Set(matched).add(front.key).add(back.key);
+      setMatched(nextMatched);
+      setWrongKeys([]);
+      if (!missedCards.has(front.cardId)) onMatch(front.cardId);
+      if (nextMatched.size === tiles.length) finishGame();
+      return;
+    }
+
+    setWrongKeys([front.key, back.key]);
+    setMissCount(prev => prev + 1);
+    if (!missedCards.has(front.cardId)) {
+      setMissedCards(prev => new Set(prev).add(front.cardId));
+      onMiss(front.cardId, back.cardId, tiles.filter(t => t.side === "front").map(t => t.cardId));
+    }
+  };
+
+  if (tiles.length < 4) {
+    return (
+      <Alert>
+        <AlertTitle>Pas assez de cartes</AlertTitle>
+        <AlertDescription>
+          Le jeu d'association nécessite au moins deux cartes avec du texte au recto et au verso.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Badge variant="outline" className="text-base">
+          <Timer className="mr-2 h-4 w-4" />
+          {formatTime(finalTimeMs ?? elapsedMs)}
+        </Badge>
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>{missCount} erreur{missCount > 1 ? "s" : ""}</span>
+          {bestTime && (
+            <Badge variant="secondary">
+              <Trophy className="mr-1 h-3 w-3" />
+              Record : {formatTime(bestTime.timeMs)}
+            </Badge>
+          )}
+        </div>
+      </div>
+
+      {finalTimeMs !== null ? (
+        <div className="text-center space-y-4 py-6">
+          <h2 className="text-2xl font-bold">
+            {isRecord ? "Nouveau record !" : "Partie terminée"}
+          </h2>
+          <p className="text-muted-foreground">
+            {pairCount} paires associées en {formatTime(finalTimeMs)} avec {missCount} erreur{missCount > 1 ? "s" : ""}
+          </p>
+          <Button onClick={newGame}>
+            <Repeat className="mr-2 h-4 w-4" />
+            Nouvelle partie
+          </Button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+          {tiles.map(tile => {
+            const stateClass = matched.has(tile.key)
+              ? "invisible"
+              : wrongKeys.includes(tile.key)
+                ? "border-red-500 bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300"
+                : selected?.key === tile.key
+                  ? "border-primary bg-primary/10"
+                  : tile.side === "back"
+                    ? "bg-secondary/40"
+                    : "";
+
+            return (
+              <Button
+                key={tile.key}
+                variant="outline"
+                onClick={() => handleTileClick(tile)}
+                className={`h-auto min-h-[80px] whitespace-normal p-3 text-center ${stateClass}`}
+              >
+                {tile.text}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchingGame;
@@ -1,8 +1,9 @@
 import { Link, useLocation } from "react-router-dom";
-import { Home, Plus, Search, User, Menu, X, Folder } from "lucide-react";
+import { Home, Plus, Search, User, Menu, X, Folder, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
+import SyncIndicator from "@/components/SyncIndicator";
 
 const Navbar = () => {
   const location = useLocation();
@@ -40,9 +41,14 @@ const Navbar = () => {
           <Link to="/my-decks" className={`nav-link ${location.pathname === '/my-decks' ? 'active' : ''}`}>
             Mes Decks
           </Link>
+          <Link to="/settings" className={`nav-link ${location.pathname === '/settings' ? 'active' : ''}`}>
+            Paramètres
+          </Link>
         </nav>
 
         <div className="flex items-center gap-4">
+          <SyncIndicator />
+
           <Button 
             variant="ghost" 
             size="icon"
@@ -120,6 +126,14 @@ const Navbar = () => {
               <Folder className="h-5 w-5" />
               Mes Decks
             </Link>
+            <Link 
+              to="/settings" 
+              className={`flex items-center gap-2 px-2 py-2 rounded-md ${location.pathname === '/settings' ? 'bg-primary/10 text-primary' : ''}`}
+              onClick={toggleMenu}
+            >
+              <Settings className="h-5 w-5" />
+              Paramètres
+            </Link>
           </nav>
         </div>
       )}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+import { getSyncState, subscribeToSync, syncNow, SyncState, SyncConflict } from "@/lib/syncEngine";
+
+const ENTITY_LABELS: Record<SyncConflict["type"], string> = {
+  deck: "Deck",
+  theme: "Thème",
+  flashcard: "Carte",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "titre",
+  description: "description",
+  coverImage: "image de couverture",
+  isPublic: "visibilité",
+  isPublished: "publication",
+  publishedAt: "date de publication",
+  tags: "tags",
+  deckId: "deck",
+  themeId: "thème",
+  front: "recto",
+  back: "verso",
+  _deleted: "suppression",
+};
+
+const formatTime = (iso: string): string => {
+  return new Date(iso).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" });
+};
+
+const getStatusLabel = ({ status, lastSyncedAt, error }: SyncState): string => {
+  switch (status) {
+    case "syncing":
+      return "Synchronisation en cours...";
+    case "synced":
+      return lastSyncedAt ? `Synchronisé à ${formatTime(lastSyncedAt)}` : "Synchronisé";
+    case "offline":
+      return "Hors ligne : les modifications seront envoyées au retour de la connexion";
+    case "error":
+      return `Échec de la synchronisation${error ? ` : ${error}` : ""}`;
+    default:
+      return "Synchronisation en attente";
+  }
+};
+
+// État de la synchronisation avec le serveur ; un clic relance une synchronisation
+const SyncIndicator = () => {
+  const [syncState, setSyncState] = useState<SyncState>(getSyncState());
+
+  useEffect(() => subscribeToSync(setSyncState), []);
+
+  const { status, pendingChanges, conflicts } = syncState;
+  const Icon = status === "offline" ? CloudOff : status === "error" ? AlertTriangle : status === "syncing" ? RefreshCw : Cloud;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          onClick={() => syncNow()}
+          disabled={status === "syncing"}
+          aria-label={getStatusLabel(syncState)}
+        >
+          <Icon
+            className={cn(
+              "h-5 w-5",
+              status === "syncing" && "animate-spin",
+              status === "synced" && "text-green-600",
+              status === "error" && "text-destructive",
+              status === "offline" && "text-muted-foreground"
+            )}
+          />
+          {pendingChanges > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-primary px-1 text-[10px] font-medium text-primary-foreground">
+              {pendingChanges > 99 ? "99+" : pendingChanges}
+            </span>
+          )}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        <p>{getStatusLabel(syncState)}</p>
+        {pendingChanges > 0 && (
+          <p className="text-muted-foreground">
+            {pendingChanges} modification{pendingChanges > 1 ? "s" : ""} en attente
+          </p>
+        )}
+        {conflicts.length > 0 && (
+          <div className="mt-2">
+            <p className="font-medium">Conflits résolus (dernière modification conservée)</p>
+            <ul className="text-muted-foreground">
+              {conflicts.slice(0, 5).map(conflict => (
+                <li key={`${conflict.type}:${conflict.id}:${conflict.field}:${conflict.resolvedAt}`}>
+                  {ENTITY_LABELS[conflict.type]} : {FIELD_LABELS[conflict.field] ?? conflict.field}
+                  {" — "}
+                  version {conflict.winner === "local" ? "de cet appareil" : "du serveur"} conservée
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default SyncIndicator;
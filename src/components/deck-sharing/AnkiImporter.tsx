@@ -0,0 +1,274 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { Layers, Info, AlertTriangle, Check } from "lucide-react";
+import { getUser } from "@/lib/localStorage";
+import { AnkiPackage, importAnkiPackage, parseAnkiPackage } from "@/lib/ankiImport";
+
+interface AnkiImporterProps {
+  onClose: () => void;
+}
+
+// Nombre de notes affichées dans l'aperçu
+const PREVIEW_SIZE = 5;
+
+const truncate = (text: string) => text.length > 40 ? `${text.substring(0, 40)}...` : text;
+
+/**
+ * Composant d'importation d'un paquet Anki (.apkg)
+ */
+const AnkiImporter = ({ onClose }: AnkiImporterProps) => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [file, setFile] = useState<File | null>(null);
+  const [ankiPackage, setAnkiPackage] = useState<AnkiPackage | null>(null);
+  const [deckTitle, setDeckTitle] = useState("");
+  const [deckDescription, setDeckDescription] = useState("");
+  const [isReading, setIsReading] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [importSuccess, setImportSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Lit le paquet sélectionné pour en afficher l'aperçu
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (!selectedFile) return;
+
+    setAnkiPackage(null);
+    if (!selectedFile.name.toLowerCase().endsWith('.apkg')) {
+      setError("Le fichier doit être un paquet Anki (.apkg)");
+      setFile(null);
+      return;
+    }
+
+    setFile(selectedFile);
+    setError(null);
+    setIsReading(true);
+
+    try {
+      const parsed = await parseAnkiPackage(selectedFile, selectedFile.name);
+      setAnkiPackage(parsed);
+      setDeckTitle(parsed.title);
+    } catch (error) {
+      console.error("Erreur de lecture du paquet Anki:", error);
+      setError(error instanceof Error ? error.message : "Erreur de lecture du paquet Anki");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  /**
+   * Importe le paquet comme un nouveau deck
+   */
+  const handleImport = async () => {
+    if (!ankiPackage || !deckTitle.trim()) {
+      toast({
+        title: "Champs requis",
+        description: "Veuillez choisir un paquet et donner un titre au deck",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    setProgress(0);
+
+    try {
+      const user = await getUser();
+      if (!user) {
+        throw new Error("Utilisateur non trouvé");
+      }
+
+      const result = await importAnkiPackage(ankiPackage, {
+        title: deckTitle.trim(),
+        description: deckDescription.trim(),
+        authorId: user.id,
+        onProgress: (done, total) => setProgress(Math.round((done / total) * 100)),
+      });
+
+      const skipped = [
+        result.skippedNotes > 0 && `${result.skippedNotes} note(s) ignorée(s)`,
+        result.skippedMedia > 0 && `${result.skippedMedia} média(s) non importé(s)`,
+      ].filter(Boolean).join(", ");
+
+      toast({
+        title: "Importation réussie",
+        description: `${result.cardCount} carte(s) importée(s) avec succès${skipped ? ` (${skipped})` : ""}`,
+      });
+
+      setImportSuccess(true);
+      setError(null);
+
+      setTimeout(() => {
+        navigate(`/deck/${result.deck.id}`);
+      }, 1500);
+    } catch (error) {
+      console.error("Erreur d'importation Anki:", error);
+      setError(error instanceof Error ? error.message : "Erreur lors de l'importation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const basicCount = ankiPackage?.notes.filter(note => note.kind === 'basic').length ?? 0;
+  const clozeCount = (ankiPackage?.notes.length ?? 0) - basicCount;
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="mx-auto rounded-full p-3 bg-sky-100 text-sky-600 mb-2">
+          <Layers className="h-6 w-6" />
+        </div>
+        <CardTitle className="text-center">Importer depuis Anki</CardTitle>
+        <CardDescription className="text-center">
+          Importez un deck exporté depuis Anki (.apkg)
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <Alert className="bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800/30">
+          <Info className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+          <AlertTitle>Correspondances</AlertTitle>
+          <AlertDescription className="text-sm">
+            <ul className="list-disc list-inside mt-1 space-y-1">
+              <li>Les sous-decks deviennent des thèmes</li>
+              <li>Les champs de la question forment le recto, ceux de la réponse le verso</li>
+              <li>Les images et les sons sont joints aux faces des cartes</li>
+              <li>Les étiquettes les plus utilisées deviennent les tags du deck</li>
+            </ul>
+            <p className="mt-2">
+              Dans Anki, exportez le deck au format « Paquet de decks Anki » en cochant
+              « Inclure les médias » et « Prendre en charge les anciennes versions d'Anki ».
+            </p>
+          </AlertDescription>
+        </Alert>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Erreur</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="anki-file">Paquet Anki</Label>
+          <Input
+            id="anki-file"
+            type="file"
+            accept=".apkg"
+            onChange={handleFileChange}
+            disabled={isReading || isLoading || importSuccess}
+          />
+          {isReading && (
+            <p className="text-xs text-muted-foreground">Lecture du paquet...</p>
+          )}
+        </div>
+
+        {ankiPackage && (
+          <div className="space-y-2">
+            <Label>Aperçu du paquet</Label>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{basicCount} carte(s)</Badge>
+              {clozeCount > 0 && <Badge variant="secondary">{clozeCount} note(s) à trous</Badge>}
+              <Badge variant="secondary">{ankiPackage.themes.length} thème(s)</Badge>
+              <Badge variant="secondary">{ankiPackage.mediaCount} média(s)</Badge>
+            </div>
+
+            {ankiPackage.themes.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Thèmes : {ankiPackage.themes.join(", ")}
+              </p>
+            )}
+
+            <div className="max-h-40 overflow-y-auto border rounded-md p-2 bg-muted/30">
+              <table className="w-full text-sm">
+                <tbody>
+                  {ankiPackage.notes.slice(0, PREVIEW_SIZE).map((note, index) => (
+                    <tr key={index} className="border-b border-muted last:border-0">
+                      <td className="py-1 px-2">{truncate(note.frontText)}</td>
+                      <td className="py-1 px-2">{truncate(note.backText)}</td>
+                      <td className="py-1 px-2 text-muted-foreground">{note.theme ?? ""}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Aperçu des {Math.min(PREVIEW_SIZE, ankiPackage.notes.length)} premières notes sur {ankiPackage.notes.length}
+            </p>
+
+            {ankiPackage.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {ankiPackage.tags.slice(0, 10).map(tag => (
+                  <Badge key={tag} variant="outline">{tag}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="anki-deck-title">Titre du deck</Label>
+          <Input
+            id="anki-deck-title"
+            value={deckTitle}
+            onChange={(e) => setDeckTitle(e.target.value)}
+            placeholder="Entrez un titre pour ce deck"
+            disabled={isLoading || importSuccess}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="anki-deck-description">Description (optionnelle)</Label>
+          <Input
+            id="anki-deck-description"
+            value={deckDescription}
+            onChange={(e) => setDeckDescription(e.target.value)}
+            placeholder="Décrivez ce deck de flashcards"
+            disabled={isLoading || importSuccess}
+          />
+        </div>
+
+        {isLoading && <Progress value={progress} />}
+      </CardContent>
+
+      <CardFooter className="flex justify-between">
+        <Button variant="outline" onClick={onClose} disabled={isLoading}>
+          Annuler
+        </Button>
+        <Button
+          onClick={handleImport}
+          disabled={!file || !ankiPackage || isLoading || importSuccess}
+          className={importSuccess ? "bg-green-600 hover:bg-green-700" : ""}
+        >
+          {isLoading ? (
+            <>
+              <div className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+              Importation...
+            </>
+          ) : importSuccess ? (
+            <>
+              <Check className="mr-2 h-4 w-4" />
+              Importé avec succès
+            </>
+          ) : (
+            "Importer le paquet"
+          )}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default AnkiImporter;
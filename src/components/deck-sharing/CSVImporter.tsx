@@ -1,231 +1,190 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { FileSpreadsheet, Info, AlertTriangle, Check } from "lucide-react";
-import { createDeck, createFlashcard, getUser, Flashcard, Deck } from "@/lib/localStorage";
+import { getUser } from "@/lib/localStorage";
+import {
+  ColumnRole,
+  COLUMN_ROLE_LABELS,
+  Delimiters,
+  detectDelimiters,
+  guessColumnRoles,
+  importDelimitedCards,
+  looksLikeHeader,
+  NEWLINE,
+  parseDelimitedText,
+  rowsToCards
+} from "@/lib/delimitedText";
 
 interface CSVImporterProps {
   onClose: () => void;
 }
 
+// Nombre de lignes affichées dans l'aperçu
+const PREVIEW_SIZE = 5;
+
+const ACCEPTED_EXTENSIONS = /\.(csv|tsv|txt)$/i;
+
 /**
- * Composant d'importation de cartes mémoire à partir d'un fichier CSV
+ * Composant d'importation de cartes mémoire à partir d'un texte délimité :
+ * fichier CSV ou TSV, ou texte exporté depuis Quizlet
  */
 const CSVImporter = ({ onClose }: CSVImporterProps) => {
   const { toast } = useToast();
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const [file, setFile] = useState<File | null>(null);
+  const [sourceText, setSourceText] = useState("");
   const [deckTitle, setDeckTitle] = useState("");
   const [deckDescription, setDeckDescription] = useState("");
   const [delimiter, setDelimiter] = useState<string>("auto");
-  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [rowDelimiter, setRowDelimiter] = useState<string>("auto");
+  const [hasHeader, setHasHeader] = useState(false);
+  const [roles, setRoles] = useState<ColumnRole[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [previewData, setPreviewData] = useState<string[][]>([]);
   const [importSuccess, setImportSuccess] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const delimiters = useMemo<Delimiters>(() => {
+    const detected = detectDelimiters(sourceText);
+    return {
+      field: delimiter === "auto" ? detected.field : delimiter,
+      row: rowDelimiter === "auto" ? detected.row : rowDelimiter,
+    };
+  }, [sourceText, delimiter, rowDelimiter]);
+
+  const rows = useMemo(() => parseDelimitedText(sourceText, delimiters), [sourceText, delimiters]);
+  const header = hasHeader ? rows[0] ?? null : null;
+  const dataRows = useMemo(() => hasHeader ? rows.slice(1) : rows, [rows, hasHeader]);
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headerKey = header ? JSON.stringify(header) : null;
+
+  // Correspondance proposée, recalculée quand la structure du texte change
+  const guessedRoles = useMemo(
+    () => guessColumnRoles(columnCount, headerKey === null ? null : JSON.parse(headerKey)),
+    [columnCount, headerKey]
+  );
+  useEffect(() => {
+    setRoles(guessedRoles);
+  }, [guessedRoles]);
+
+  const cards = useMemo(() => rowsToCards(dataRows, roles), [dataRows, roles]);
+  const hasFrontAndBack = roles.includes("front") && roles.includes("back");
+
   /**
-   * Gère la sélection d'un fichier CSV
+   * Charge un nouveau texte et devine s'il commence par une ligne d'en-tête
+   */
+  const loadText = (text: string) => {
+    setSourceText(text);
+    const firstRow = parseDelimitedText(text, detectDelimiters(text))[0];
+    setHasHeader(!!firstRow && looksLikeHeader(firstRow));
+    setError(null);
+  };
+
+  /**
+   * Gère la sélection d'un fichier CSV, TSV ou texte
    */
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (!selectedFile) return;
 
-    // Vérifier que c'est un fichier CSV
-    if (!selectedFile.name.endsWith('.csv') && selectedFile.type !== 'text/csv') {
-      setError("Le fichier doit être au format CSV (.csv)");
+    if (!ACCEPTED_EXTENSIONS.test(selectedFile.name) && selectedFile.type !== 'text/csv') {
+      setError("Le fichier doit être au format CSV, TSV ou texte (.csv, .tsv, .txt)");
       setFile(null);
-      setFileContent(null);
-      setPreviewData([]);
+      setSourceText("");
       return;
     }
 
     setFile(selectedFile);
-    setError(null);
-    
-    // Extraire le nom du fichier pour le titre du deck par défaut
-    const fileName = selectedFile.name.replace(/\.csv$/, '');
-    setDeckTitle(fileName);
-    
-    // Lire et prévisualiser le fichier
+    setDeckTitle(selectedFile.name.replace(ACCEPTED_EXTENSIONS, ''));
+
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        setFileContent(text);
-        const rows = parseCSV(text);
-        
-        if (rows.length === 0) {
-          setError("Le fichier CSV est vide");
-          setPreviewData([]);
-          return;
-        }
-        
-        // Afficher un aperçu des premières lignes (max 5)
-        setPreviewData(rows.slice(0, 5));
-      } catch (error) {
-        console.error("Erreur de lecture du CSV:", error);
-        setError("Erreur de lecture du fichier CSV. Vérifiez le format.");
-        setPreviewData([]);
+      const text = e.target?.result as string;
+      if (!text?.trim()) {
+        setError("Le fichier est vide");
+        setSourceText("");
+        return;
       }
+      loadText(text);
+    };
+    reader.onerror = () => {
+      console.error("Erreur de lecture du fichier:", reader.error);
+      setError("Erreur de lecture du fichier. Vérifiez le format.");
     };
-    
     reader.readAsText(selectedFile);
   };
-  
-  // Actualiser l'aperçu quand le délimiteur change
-  useEffect(() => {
-    if (fileContent) {
-      try {
-        const rows = parseCSV(fileContent);
-        if (rows.length > 0) {
-          setPreviewData(rows.slice(0, 5));
-          setError(null);
-        }
-      } catch (error) {
-        console.error("Erreur de lecture avec le nouveau délimiteur:", error);
-        setError("Erreur de lecture du CSV avec ce délimiteur.");
-      }
-    }
-  }, [delimiter, fileContent]);
-  
+
   /**
-   * Parse le contenu CSV en tableau 2D
+   * Texte collé (export Quizlet) : remplace le fichier sélectionné
    */
-  const parseCSV = (text: string): string[][] => {
-    const lines = text.split(/\r?\n/);
-    
-    // Déterminer le délimiteur si auto-détection
-    let actualDelimiter = delimiter;
-    if (delimiter === "auto") {
-      // Échantillon pour la détection automatique (première ligne non vide)
-      const sampleLine = lines.find(line => line.trim() !== '');
-      if (sampleLine) {
-        if (sampleLine.includes(';')) actualDelimiter = ';';
-        else if (sampleLine.includes('\t')) actualDelimiter = '\t';
-        else actualDelimiter = ',';
-      }
-    }
-    
-    return lines
-      .filter(line => line.trim() !== '')
-      .map(line => {
-        // Gérer les valeurs entre guillemets
-        const result: string[] = [];
-        let currentValue = '';
-        let insideQuotes = false;
-        
-        for (let i = 0; i < line.length; i++) {
-          const char = line[i];
-          
-          if (char === '"') {
-            if (insideQuotes && i + 1 < line.length && line[i + 1] === '"') {
-              // Double guillemet à l'intérieur d'une valeur entre guillemets = échappement
-              currentValue += '"';
-              i++; // Sauter le prochain guillemet
-            } else {
-              // Basculer l'état "entre guillemets"
-              insideQuotes = !insideQuotes;
-            }
-          } else if (char === actualDelimiter && !insideQuotes) {
-            // Délimiteur trouvé, ajouter la valeur actuelle au résultat
-            result.push(currentValue.trim());
-            currentValue = '';
-          } else {
-            // Ajouter le caractère à la valeur en cours
-            currentValue += char;
-          }
-        }
-        
-        // Ajouter la dernière valeur
-        result.push(currentValue.trim());
-        return result;
-      });
+  const handlePaste = (text: string) => {
+    setFile(null);
+    if (!deckTitle) setDeckTitle("Import Quizlet");
+    loadText(text);
+  };
+
+  const updateRole = (index: number, role: ColumnRole) => {
+    setRoles(roles.map((current, columnIndex) => columnIndex === index ? role : current));
   };
-  
+
   /**
-   * Importe les données CSV comme un nouveau deck de flashcards
+   * Importe les cartes comme un nouveau deck de flashcards
    */
   const handleImport = async () => {
-    if (!file || !deckTitle.trim()) {
+    if (!sourceText.trim() || !deckTitle.trim()) {
       toast({
         title: "Champs requis",
-        description: "Veuillez choisir un fichier et donner un titre au deck",
+        description: "Veuillez choisir un fichier ou coller un texte, et donner un titre au deck",
         variant: "destructive"
       });
       return;
     }
-    
+
     setIsLoading(true);
-    
+
     try {
-      if (!fileContent) {
-        throw new Error("Aucun contenu à importer");
+      if (!hasFrontAndBack) {
+        throw new Error("Associez une colonne au recto et une colonne au verso");
       }
-      
-      // Utiliser le contenu du fichier déjà stocké
-      const rows = parseCSV(fileContent);
-      
-      if (rows.length === 0) {
-        throw new Error("Le fichier CSV est vide");
+      if (cards.length === 0) {
+        throw new Error("Aucune ligne ne contient à la fois un recto et un verso");
       }
-      
-      // Créer un nouveau deck
-      const user = getUser();
+
+      const user = await getUser();
       if (!user) {
         throw new Error("Utilisateur non trouvé");
       }
-      
-      const newDeck = createDeck({
-        title: deckTitle,
-        description: deckDescription || "Importé depuis CSV",
+
+      const result = await importDelimitedCards(cards, {
+        title: deckTitle.trim(),
+        description: deckDescription || (file ? "Importé depuis CSV" : "Importé depuis Quizlet"),
         authorId: user.id,
-        isPublic: false,
-        tags: ["importé", "csv"],
+        tags: ["importé", file ? "csv" : "quizlet"],
       });
-      
-      // Compteur de cartes importées avec succès
-      let importedCount = 0;
-      
-      // Créer des flashcards à partir des lignes CSV
-      for (const row of rows) {
-        // Ignorer les lignes trop courtes
-        if (row.length < 2) continue;
-        
-        // Créer une carte avec front/back (première et deuxième colonne)
-        createFlashcard({
-          deckId: newDeck.id,
-          front: {
-            text: row[0],
-            additionalInfo: row.length > 2 ? row[2] : undefined,
-          },
-          back: {
-            text: row[1],
-            additionalInfo: row.length > 3 ? row[3] : undefined,
-          }
-        });
-        
-        importedCount++;
-      }
-      
+
+      const skippedCount = dataRows.length - result.cardCount;
       toast({
         title: "Importation réussie",
-        description: `${importedCount} carte(s) importée(s) avec succès`,
+        description: `${result.cardCount} carte(s) importée(s) avec succès`
+          + (result.themeCount > 0 ? `, ${result.themeCount} thème(s) créé(s)` : "")
+          + (skippedCount > 0 ? ` (${skippedCount} ligne(s) incomplète(s) ignorée(s))` : ""),
       });
-      
+
       setImportSuccess(true);
       setError(null);
-      
+
       // Réinitialiser le formulaire après un délai
       setTimeout(() => {
         onClose();
       }, 2000);
-    
+
     } catch (error) {
       console.error("Erreur d'importation:", error);
       setError(error instanceof Error ? error.message : "Erreur lors de l'importation");
@@ -233,34 +192,40 @@ const CSVImporter = ({ onClose }: CSVImporterProps) => {
       setIsLoading(false);
     }
   };
-  
+
+  const isDisabled = isLoading || importSuccess;
+
   return (
     <Card className="w-full">
       <CardHeader>
         <div className="mx-auto rounded-full p-3 bg-green-100 text-green-600 mb-2">
           <FileSpreadsheet className="h-6 w-6" />
         </div>
-        <CardTitle className="text-center">Importer depuis CSV</CardTitle>
+        <CardTitle className="text-center">Importer depuis CSV ou Quizlet</CardTitle>
         <CardDescription className="text-center">
-          Importez des flashcards depuis un fichier CSV
+          Importez des flashcards depuis un fichier CSV ou TSV, ou depuis un export Quizlet
         </CardDescription>
       </CardHeader>
-      
+
       <CardContent className="space-y-4">
         <Alert className="bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800/30">
           <Info className="h-4 w-4 text-blue-600 dark:text-blue-400" />
           <AlertTitle>Format attendu</AlertTitle>
           <AlertDescription className="text-sm">
-            <p>Le fichier CSV doit contenir au minimum deux colonnes :</p>
+            <p>Une carte par ligne, au moins deux colonnes. Sans ligne d'en-tête :</p>
             <ul className="list-disc list-inside mt-1 space-y-1">
               <li>1ère colonne : Recto (question)</li>
               <li>2ème colonne : Verso (réponse)</li>
               <li>3ème colonne (optionnelle) : Info supplémentaire recto</li>
               <li>4ème colonne (optionnelle) : Info supplémentaire verso</li>
             </ul>
+            <p className="mt-2">
+              Le rôle de chaque colonne (indices, thème, tags, image...) peut être modifié dans l'aperçu.
+              Depuis Quizlet, utilisez « Exporter » puis collez le texte ci-dessous.
+            </p>
           </AlertDescription>
         </Alert>
-        
+
         {error && (
           <Alert variant="destructive">
             <AlertTriangle className="h-4 w-4" />
@@ -268,27 +233,38 @@ const CSVImporter = ({ onClose }: CSVImporterProps) => {
             <AlertDescription>{error}</AlertDescription>
           </Alert>
         )}
-        
+
         <div className="space-y-2">
-          <Label htmlFor="csv-file">Fichier CSV</Label>
+          <Label htmlFor="csv-file">Fichier CSV, TSV ou texte</Label>
           <Input
             id="csv-file"
             type="file"
-            accept=".csv,text/csv"
+            accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
             onChange={handleFileChange}
-            ref={fileInputRef}
-            disabled={isLoading || importSuccess}
+            disabled={isDisabled}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="csv-paste">Ou collez le texte exporté</Label>
+          <Textarea
+            id="csv-paste"
+            value={file ? "" : sourceText}
+            onChange={(e) => handlePaste(e.target.value)}
+            placeholder={"terme\tdéfinition\nterme\tdéfinition"}
+            className="min-h-[100px] font-mono text-xs"
+            disabled={isDisabled}
           />
         </div>
-        
+
         <div className="space-y-2">
-          <Label htmlFor="delimiter">Délimiteur</Label>
-          <RadioGroup 
-            id="delimiter" 
-            value={delimiter} 
+          <Label htmlFor="delimiter">Entre les colonnes</Label>
+          <RadioGroup
+            id="delimiter"
+            value={delimiter}
             onValueChange={setDelimiter}
-            className="flex space-x-4"
-            disabled={isLoading || importSuccess}
+            className="flex flex-wrap gap-4"
+            disabled={isDisabled}
           >
             <div className="flex items-center space-x-2">
               <RadioGroupItem value="auto" id="delimiter-auto" />
@@ -303,36 +279,102 @@ const CSVImporter = ({ onClose }: CSVImporterProps) => {
               <Label htmlFor="delimiter-semicolon" className="cursor-pointer">Point-virgule (;)</Label>
             </div>
             <div className="flex items-center space-x-2">
-              <RadioGroupItem value="\t" id="delimiter-tab" />
+              <RadioGroupItem value={"\t"} id="delimiter-tab" />
               <Label htmlFor="delimiter-tab" className="cursor-pointer">Tabulation</Label>
             </div>
           </RadioGroup>
         </div>
-        
-        {previewData.length > 0 && (
+
+        <div className="space-y-2">
+          <Label htmlFor="row-delimiter">Entre les cartes</Label>
+          <RadioGroup
+            id="row-delimiter"
+            value={rowDelimiter}
+            onValueChange={setRowDelimiter}
+            className="flex flex-wrap gap-4"
+            disabled={isDisabled}
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="auto" id="row-delimiter-auto" />
+              <Label htmlFor="row-delimiter-auto" className="cursor-pointer">Auto</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value={NEWLINE} id="row-delimiter-newline" />
+              <Label htmlFor="row-delimiter-newline" className="cursor-pointer">Nouvelle ligne</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value=";" id="row-delimiter-semicolon" />
+              <Label htmlFor="row-delimiter-semicolon" className="cursor-pointer">Point-virgule (;)</Label>
+            </div>
+          </RadioGroup>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="csv-header"
+            checked={hasHeader}
+            onCheckedChange={(checked) => setHasHeader(checked === true)}
+            disabled={isDisabled}
+          />
+          <Label htmlFor="csv-header" className="cursor-pointer">
+            La première ligne contient les noms des colonnes
+          </Label>
+        </div>
+
+        {columnCount > 0 && (
           <div className="space-y-2">
-            <Label>Aperçu des données</Label>
-            <div className="max-h-40 overflow-y-auto border rounded-md p-2 bg-muted/30">
+            <Label>Aperçu et rôle des colonnes</Label>
+            <div className="max-h-72 overflow-auto border rounded-md p-2 bg-muted/30">
               <table className="w-full text-sm">
+                <thead>
+                  <tr>
+                    {roles.map((role, index) => (
+                      <th key={index} className="py-1 px-2 text-left font-normal align-top">
+                        <Select
+                          value={role}
+                          onValueChange={(value) => updateRole(index, value as ColumnRole)}
+                          disabled={isDisabled}
+                        >
+                          <SelectTrigger className="h-8 min-w-[130px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(COLUMN_ROLE_LABELS) as ColumnRole[]).map(option => (
+                              <SelectItem key={option} value={option}>{COLUMN_ROLE_LABELS[option]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {header && (
+                          <p className="mt-1 text-xs text-muted-foreground">{header[index] ?? ""}</p>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
                 <tbody>
-                  {previewData.map((row, index) => (
+                  {dataRows.slice(0, PREVIEW_SIZE).map((row, index) => (
                     <tr key={index} className="border-b border-muted last:border-0">
-                      {row.map((cell, cellIndex) => (
-                        <td key={cellIndex} className="py-1 px-2">
-                          {cell.length > 30 ? `${cell.substring(0, 30)}...` : cell}
-                        </td>
-                      ))}
+                      {roles.map((role, cellIndex) => {
+                        const cell = row[cellIndex] ?? "";
+                        return (
+                          <td key={cellIndex} className={`py-1 px-2 ${role === "ignore" ? "text-muted-foreground line-through" : ""}`}>
+                            {cell.length > 30 ? `${cell.substring(0, 30)}...` : cell}
+                          </td>
+                        );
+                      })}
                     </tr>
                   ))}
                 </tbody>
               </table>
             </div>
             <p className="text-xs text-muted-foreground">
-              Aperçu des {previewData.length} premières lignes du fichier
+              {hasFrontAndBack
+                ? `${cards.length} carte(s) sur ${dataRows.length} ligne(s) seront importées`
+                : "Associez une colonne au recto et une colonne au verso"}
             </p>
           </div>
         )}
-        
+
         <div className="space-y-2">
           <Label htmlFor="deck-title">Titre du deck</Label>
           <Input
@@ -340,10 +382,10 @@ const CSVImporter = ({ onClose }: CSVImporterProps) => {
             value={deckTitle}
             onChange={(e) => setDeckTitle(e.target.value)}
             placeholder="Entrez un titre pour ce deck"
-            disabled={isLoading || importSuccess}
+            disabled={isDisabled}
           />
         </div>
-        
+
         <div className="space-y-2">
           <Label htmlFor="deck-description">Description (optionnelle)</Label>
           <Input
@@ -351,18 +393,18 @@ const CSVImporter = ({ onClose }: CSVImporterProps) => {
             value={deckDescription}
             onChange={(e) => setDeckDescription(e.target.value)}
             placeholder="Décrivez ce deck de flashcards"
-            disabled={isLoading || importSuccess}
+            disabled={isDisabled}
           />
         </div>
       </CardContent>
-      
+
       <CardFooter className="flex justify-between">
         <Button variant="outline" onClick={onClose} disabled={isLoading}>
           Annuler
         </Button>
-        <Button 
-          onClick={handleImport} 
-          disabled={!file || isLoading || importSuccess}
+        <Button
+          onClick={handleImport}
+          disabled={!sourceText.trim() || !hasFrontAndBack || isDisabled}
           className={importSuccess ? "bg-green-600 hover:bg-green-700" : ""}
         >
           {isLoading ? (
@@ -384,4 +426,4 @@ const CSVImporter = ({ onClose }: CSVImporterProps) => {
   );
 };
 
-export default CSVImporter;
\ No newline at end of file
+export default CSVImporter;
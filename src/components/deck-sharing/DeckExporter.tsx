@@ -4,16 +4,37 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { AlertCircle, Download } from "lucide-react";
 import { exportDeckToJson, getDecks } from "@/lib/localStorage";
+import { buildAnkiPackage } from "@/lib/ankiExport";
+import { buildDeckBundle } from "@/lib/deckBundle";
+import { exportDelimitedText } from "@/lib/delimitedText";
 import { useToast } from "@/hooks/use-toast";
 
+type ExportFormat = "bundle" | "json" | "apkg" | "csv" | "tsv";
+
 interface DeckExporterProps {
   selectedDeck?: string;
   onDeckSelect: (deckId: string) => void;
 }
 
+/**
+ * Télécharge un fichier généré dans le navigateur
+ */
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 const DeckExporter = ({ selectedDeck, onDeckSelect }: DeckExporterProps) => {
+  const [format, setFormat] = useState<ExportFormat>("bundle");
   const [jsonContent, setJsonContent] = useState<string>("");
   const [isExporting, setIsExporting] = useState<boolean>(false);
   const [decks, setDecks] = useState<any[]>([]);
@@ -54,19 +75,60 @@ const DeckExporter = ({ selectedDeck, onDeckSelect }: DeckExporterProps) => {
     try {
       setIsExporting(true);
       const exportedDeck = await exportDeckToJson(selectedDeck);
+
+      if (format === "bundle") {
+        const bundle = await buildDeckBundle(exportedDeck);
+        setJsonContent("");
+        downloadBlob(bundle.blob, bundle.fileName);
+
+        toast({
+          title: "Deck exporté avec succès",
+          description: `L'archive a été téléchargée (${bundle.mediaCount} média(s))`,
+        });
+        return;
+      }
+
+      if (format === "apkg") {
+        const ankiPackage = await buildAnkiPackage(exportedDeck);
+        setJsonContent("");
+        downloadBlob(ankiPackage.blob, ankiPackage.fileName);
+
+        toast({
+          title: "Deck exporté avec succès",
+          description: `Le paquet Anki a été téléchargé (${ankiPackage.noteCount} note(s), ${ankiPackage.mediaCount} média(s))`,
+        });
+        return;
+      }
+
+      if (format === "csv" || format === "tsv") {
+        const delimited = exportDelimitedText(exportedDeck, format === "csv" ? "," : "\t");
+        setJsonContent("");
+        // Le BOM permet aux tableurs de reconnaître l'UTF-8
+        const blob = new Blob(["\uFEFF" + delimited.text], {
+          type: format === "csv" ? "text/csv;charset=utf-8" : "text/tab-separated-values;charset=utf-8"
+        });
+        downloadBlob(blob, `${exportedDeck.deck?.title?.replace(/\s+/g, '_') || 'exported'}_deck.${format}`);
+
+        if (delimited.roundTripErrors.length > 0) {
+          toast({
+            title: "Deck exporté avec des pertes",
+            description: `${delimited.roundTripErrors.length} carte(s) ne seront pas réimportées à l'identique : ${delimited.roundTripErrors.slice(0, 3).join(", ")}${delimited.roundTripErrors.length > 3 ? "..." : ""}`,
+            variant: "destructive",
+          });
+        } else {
+          toast({
+            title: "Deck exporté avec succès",
+            description: `Le fichier ${format.toUpperCase()} a été téléchargé (${delimited.rowCount} carte(s))`,
+          });
+        }
+        return;
+      }
+
       const jsonString = JSON.stringify(exportedDeck, null, 2);
       setJsonContent(jsonString);
       
-      // Create download link
       const blob = new Blob([jsonString], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${exportedDeck.deck?.title?.replace(/\s+/g, '_') || 'exported'}_deck.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `${exportedDeck.deck?.title?.replace(/\s+/g, '_') || 'exported'}_deck.json`);
       
       toast({
         title: "Deck exporté avec succès",
@@ -87,7 +149,9 @@ const DeckExporter = ({ selectedDeck, onDeckSelect }: DeckExporterProps) => {
   return (
     <div className="space-y-4">
       <p className="text-sm text-muted-foreground">
-        Exportez votre deck au format JSON pour le partager avec d'autres utilisateurs.
+        Exportez votre deck en archive pour le partager avec d'autres utilisateurs (le format JSON
+        reste proposé pour les anciennes versions), en paquet Anki pour l'emporter dans Anki sur
+        vos autres appareils, ou en CSV/TSV pour le modifier dans un tableur et le réimporter.
       </p>
       
       {decks.length > 0 ? (
@@ -105,6 +169,37 @@ const DeckExporter = ({ selectedDeck, onDeckSelect }: DeckExporterProps) => {
               ))}
             </select>
           </div>
+
+          <div className="grid w-full items-center gap-1.5">
+            <Label htmlFor="export-format">Format</Label>
+            <RadioGroup
+              id="export-format"
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+              className="flex flex-wrap gap-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="bundle" id="export-format-bundle" />
+                <Label htmlFor="export-format-bundle" className="cursor-pointer">Archive (.zip)</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="json" id="export-format-json" />
+                <Label htmlFor="export-format-json" className="cursor-pointer">JSON (1.0)</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="apkg" id="export-format-apkg" />
+                <Label htmlFor="export-format-apkg" className="cursor-pointer">Anki (.apkg)</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="csv" id="export-format-csv" />
+                <Label htmlFor="export-format-csv" className="cursor-pointer">CSV</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="tsv" id="export-format-tsv" />
+                <Label htmlFor="export-format-tsv" className="cursor-pointer">TSV</Label>
+              </div>
+            </RadioGroup>
+          </div>
           
           <Button 
             onClick={handleExport} 
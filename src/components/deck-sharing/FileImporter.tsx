@@ -5,9 +5,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { AlertCircle, FileUp, RefreshCcw } from "lucide-react";
+import { AlertCircle, FileArchive, FileUp, RefreshCcw } from "lucide-react";
 import { importDeckFromJson, updateDeckFromJson, getUser } from "@/lib/localStorage";
 import type { SharedDeckExport } from "@/lib/localStorage";
+import { parseDeckJson, readDeckFile } from "@/lib/deckBundle";
 import { useToast } from "@/hooks/use-toast";
 
 interface FileImporterProps {
@@ -16,42 +17,59 @@ interface FileImporterProps {
 
 const FileImporter = ({ onClose }: FileImporterProps) => {
   const [jsonContent, setJsonContent] = useState<string>("");
+  // Archive zip déjà vérifiée ; le contenu JSON n'est alors pas modifiable
+  const [bundleData, setBundleData] = useState<SharedDeckExport | null>(null);
+  const [isReading, setIsReading] = useState<boolean>(false);
   const [isImporting, setIsImporting] = useState<boolean>(false);
   const [isUpdating, setIsUpdating] = useState<boolean>(false);
   const [importError, setImportError] = useState<string | null>(null);
   const { toast } = useToast();
 
   const validateDeckJson = (jsonString: string): SharedDeckExport | null => {
+    if (bundleData) return bundleData;
     try {
-      const data = JSON.parse(jsonString);
-      if (!data.deck || !data.deck.id || !Array.isArray(data.themes) || !Array.isArray(data.flashcards)) {
-        setImportError("Format de deck invalide");
-        return null;
-      }
-      return data as SharedDeckExport;
+      return parseDeckJson(jsonString);
     } catch (error) {
-      setImportError("Erreur lors de l'analyse du JSON");
+      setImportError(error instanceof Error ? error.message : "Format de deck invalide");
       return null;
     }
   };
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     setImportError(null);
+    setBundleData(null);
+    setJsonContent("");
     const file = event.target.files?.[0];
     if (!file) return;
-    
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        setJsonContent(content);
-      } catch (error) {
-        setImportError("Format de fichier invalide");
-      }
-    };
-    reader.readAsText(file);
+
+    if (!file.name.toLowerCase().endsWith('.zip')) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        try {
+          const content = e.target?.result as string;
+          setJsonContent(content);
+        } catch (error) {
+          setImportError("Format de fichier invalide");
+        }
+      };
+      reader.readAsText(file);
+      return;
+    }
+
+    // L'intégrité de l'archive est vérifiée avant de proposer l'importation
+    setIsReading(true);
+    try {
+      setBundleData(await readDeckFile(file));
+    } catch (error) {
+      console.error("Erreur de lecture de l'archive:", error);
+      setImportError(error instanceof Error ? error.message : "Archive de deck invalide");
+    } finally {
+      setIsReading(false);
+    }
   };
 
+  const hasContent = !!bundleData || !!jsonContent;
+
   const handleImport = async () => {
     try {
       const user = await getUser();
@@ -118,12 +136,26 @@ const FileImporter = ({ onClose }: FileImporterProps) => {
           <Input 
             id="deck-file" 
             type="file" 
-            accept=".json" 
+            accept=".json,.zip" 
             onChange={handleFileUpload}
+            disabled={isReading}
           />
         </div>
+        {isReading && (
+          <p className="text-xs text-muted-foreground">Vérification de l'archive...</p>
+        )}
       </div>
 
+      {bundleData && (
+        <Alert>
+          <FileArchive className="h-4 w-4" />
+          <AlertDescription>
+            Archive vérifiée (format {bundleData.version}) : « {bundleData.deck.title} »,
+            {" "}{bundleData.themes.length} thème(s), {bundleData.flashcards.length} carte(s).
+          </AlertDescription>
+        </Alert>
+      )}
+
       {jsonContent && (
         <div className="mt-4">
           <Label htmlFor="import-json">Contenu JSON</Label>
@@ -151,7 +183,7 @@ const FileImporter = ({ onClose }: FileImporterProps) => {
         <Button 
           onClick={handleImport} 
           className="flex-1"
-          disabled={!jsonContent || isImporting}
+          disabled={!hasContent || isImporting}
         >
           {isImporting ? (
             <>
@@ -169,7 +201,7 @@ const FileImporter = ({ onClose }: FileImporterProps) => {
         <Button 
           onClick={handleUpdate} 
           variant="outline"
-          disabled={!jsonContent || isUpdating}
+          disabled={!hasContent || isUpdating}
         >
           {isUpdating ? (
             <>
@@ -0,0 +1,371 @@
+/**
+ * Export d'un deck en paquet Anki (.apkg)
+ *
+ * Le paquet contient une collection au schéma 11 (collection.anki2), lisible par
+ * toutes les versions d'Anki 2.1, et les médias des cartes en fichiers séparés.
+ *
+ * Correspondances :
+ * - le deck devient un deck Anki, chaque thème un sous-deck (« Deck::Thème ») ;
+ * - une carte devient une note du modèle « Otaku - Basique » : recto, verso, indices
+ *   (révélés à la demande) et note complémentaire ;
+ * - les cartes d'un même texte à trous forment une seule note du modèle « Otaku - Texte à trous » ;
+ * - les images et les sons en data URL deviennent des fichiers du paquet, les images
+ *   en URL externe restent des liens ;
+ * - les tags du deck sont posés sur chaque note.
+ * L'identifiant de la carte (ou de la note à trous) sert de guid : exporter à nouveau
+ * le même deck met à jour les notes déjà importées dans Anki au lieu de les dupliquer.
+ */
+
+import JSZip from 'jszip';
+import {
+  BASIC_MODEL_FIELDS,
+  BASIC_MODEL_NAME,
+  CLOZE_MODEL_FIELDS,
+  CLOZE_MODEL_NAME,
+  DECK_SEPARATOR,
+  FIELD_SEPARATOR,
+  loadSqlJs,
+  mediaExtension,
+  THEME_PATH_SEPARATOR
+} from './ankiPackage';
+import { htmlToPlainText } from './cardContent';
+import { CardSide, Flashcard, SharedDeckExport } from '../types/localStorage';
+
+const MODEL_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: center;
+  color: black;
+  background-color: white;
+}
+.cloze {
+  font-weight: bold;
+  color: blue;
+}
+.note {
+  font-size: 16px;
+  font-style: italic;
+  color: #666;
+}`;
+
+const SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Options de révision par défaut d'Anki, référencées par chaque deck (conf: 1)
+const DEFAULT_DECK_CONFIG = {
+  id: 1,
+  name: 'Default',
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: { bury: false, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 0], order: 1, perDay: 20 },
+  lapse: { delays: [10], leechAction: 1, leechFails: 8, minInt: 1, mult: 0 },
+  rev: { bury: false, ease4: 1.3, ivlFct: 1, maxIvl: 36500, perDay: 200, hardFactor: 1.2 }
+};
+
+export interface AnkiExportResult {
+  blob: Blob;
+  fileName: string;
+  noteCount: number;
+  mediaCount: number;
+}
+
+interface AnkiExportNote {
+  guid: string;
+  modelId: number;
+  deckId: number;
+  fields: string[];
+  cardOrds: number[]; // Un numéro par carte : 0 pour une carte basique, numéro du trou - 1 pour un texte à trous
+}
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+const textToHtml = (text: string): string => escapeHtml(text).replace(/\r?\n/g, '<br>');
+
+/**
+ * Somme de contrôle du champ de tri utilisée par Anki pour repérer les doublons :
+ * les 8 premiers chiffres hexadécimaux du SHA-1 du texte brut
+ */
+const fieldChecksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4), byte => byte.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex, 16);
+};
+
+const buildModel = (id: number, name: string, type: 0 | 1, fields: string[], qfmt: string, afmt: string, deckId: number) => ({
+  id,
+  name,
+  type,
+  mod: Math.floor(id / 1000),
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  tmpls: [{ name: type === 1 ? 'Texte à trous' : 'Carte 1', ord: 0, qfmt, afmt, bqfmt: '', bafmt: '', did: null }],
+  flds: fields.map((field, ord) => ({ name: field, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+  css: MODEL_CSS,
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  latexsvg: false,
+  req: [[0, 'any', [0]]],
+  tags: [],
+  vers: []
+});
+
+const buildDeck = (id: number, name: string, description = '') => ({
+  id,
+  name,
+  mod: Math.floor(Date.now() / 1000),
+  usn: -1,
+  desc: description,
+  dyn: 0,
+  conf: 1,
+  collapsed: false,
+  browserCollapsed: false,
+  extendNew: 0,
+  extendRev: 0,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0]
+});
+
+/**
+ * Construit un paquet Anki à partir d'un deck exporté
+ * @param data Deck, thèmes et cartes (voir exportDeckToJson)
+ * @returns L'archive .apkg et le nombre de notes et de médias qu'elle contient
+ */
+export const buildAnkiPackage = async (data: SharedDeckExport): Promise<AnkiExportResult> => {
+  const now = Date.now();
+  const nowSeconds = Math.floor(now / 1000);
+  // Les identifiants Anki sont des horodatages en millisecondes
+  let nextId = now;
+  const newId = () => nextId++;
+
+  const zip = new JSZip();
+  const mediaManifest: Record<string, string> = {};
+  const mediaNames = new Map<string, string>();
+
+  /**
+   * Ajoute au paquet un média en data URL et renvoie son nom de fichier ;
+   * une URL externe est renvoyée telle quelle
+   */
+  const addMedia = (source: string, baseName: string): string | null => {
+    const match = source.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+    if (!match) return /^https?:\/\//i.test(source) ? source : null;
+
+    const existing = mediaNames.get(source);
+    if (existing) return existing;
+
+    const extension = mediaExtension(match[1]);
+    if (!extension) return null;
+
+    const fileName = `${baseName}.${extension}`;
+    const entry = String(Object.keys(mediaManifest).length);
+    zip.file(entry, match[2] ? match[3] : decodeURIComponent(match[3]), { base64: !!match[2] });
+    mediaManifest[entry] = fileName;
+    mediaNames.set(source, fileName);
+    return fileName;
+  };
+
+  const sideToField = (side: CardSide, baseName: string): string => {
+    const parts = [side.type === 'richText' ? side.html : textToHtml(side.text)];
+    const image = side.image && addMedia(side.image, `${baseName}-image`);
+    // Anki ne lit que les sons présents dans sa collection
+    const audio = side.audio?.startsWith('data:') && addMedia(side.audio, `${baseName}-audio`);
+    if (image) parts.push(`<img src="${escapeHtml(image)}">`);
+    if (audio) parts.push(`[sound:${audio}]`);
+    return parts.filter(Boolean).join('<br>');
+  };
+
+  const noteField = (card: Flashcard): string => {
+    return [card.additionalInfo, card.front.additionalInfo, card.back.additionalInfo]
+      .filter((info): info is string => !!info?.trim())
+      .map(textToHtml)
+      .join('<br>');
+  };
+
+  // Decks : le deck racine et un sous-deck par thème
+  const rootDeckId = newId();
+  const rootName = data.deck.title.replace(/::/g, ':') || 'Deck';
+  const decks: Record<string, ReturnType<typeof buildDeck>> = {
+    '1': buildDeck(1, 'Default'),
+    [rootDeckId]: buildDeck(rootDeckId, rootName, data.deck.description)
+  };
+  const themeDeckIds = new Map<string, number>();
+  for (const theme of data.themes) {
+    const id = newId();
+    const path = theme.title.split(THEME_PATH_SEPARATOR).map(part => part.replace(/::/g, ':').trim()).filter(Boolean);
+    decks[id] = buildDeck(id, [rootName, ...path].join(DECK_SEPARATOR), theme.description);
+    themeDeckIds.set(theme.id, id);
+  }
+  const deckIdOf = (card: Flashcard) => (card.themeId && themeDeckIds.get(card.themeId)) || rootDeckId;
+
+  const basicModelId = newId();
+  const clozeModelId = newId();
+  const models = {
+    [basicModelId]: buildModel(
+      basicModelId,
+      BASIC_MODEL_NAME,
+      0,
+      BASIC_MODEL_FIELDS,
+      '{{Recto}}{{#Indices}}<br><br>{{hint:Indices}}{{/Indices}}',
+      '{{FrontSide}}\n\n<hr id=answer>\n\n{{Verso}}{{#Note}}<div class="note">{{Note}}</div>{{/Note}}',
+      rootDeckId
+    ),
+    [clozeModelId]: buildModel(
+      clozeModelId,
+      CLOZE_MODEL_NAME,
+      1,
+      CLOZE_MODEL_FIELDS,
+      '{{cloze:Texte}}',
+      '{{cloze:Texte}}<br>\n{{Verso supplémentaire}}{{#Note}}<div class="note">{{Note}}</div>{{/Note}}',
+      rootDeckId
+    )
+  };
+
+  // Notes : une par carte basique, une par texte à trous
+  const notes: AnkiExportNote[] = [];
+  const clozeNotes = new Map<string, AnkiExportNote>();
+  for (const card of data.flashcards) {
+    if (card.front.type === 'cloze') {
+      const noteId = card.front.noteId ?? card.id;
+      const ord = Math.max(0, (card.front.index ?? 1) - 1);
+      const existing = clozeNotes.get(noteId);
+      if (existing) {
+        if (!existing.cardOrds.includes(ord)) existing.cardOrds.push(ord);
+        continue;
+      }
+      const note: AnkiExportNote = {
+        guid: noteId,
+        modelId: clozeModelId,
+        deckId: deckIdOf(card),
+        fields: [escapeHtml(card.front.text), sideToField(card.back, noteId), noteField(card)],
+        cardOrds: [ord]
+      };
+      clozeNotes.set(noteId, note);
+      notes.push(note);
+    } else {
+      notes.push({
+        guid: card.id,
+        modelId: basicModelId,
+        deckId: deckIdOf(card),
+        fields: [
+          sideToField(card.front, `${card.id}-recto`),
+          sideToField(card.back, `${card.id}-verso`),
+          textToHtml((card.hints ?? []).filter(hint => hint.trim()).join('\n')),
+          noteField(card)
+        ],
+        cardOrds: [0]
+      });
+    }
+  }
+
+  const tags = (data.deck.tags ?? []).map(tag => tag.trim().replace(/\s+/g, '_')).filter(Boolean);
+  const noteTags = tags.length > 0 ? ` ${tags.join(' ')} ` : '';
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    db.exec(SCHEMA);
+    db.run(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [
+        nowSeconds,
+        now,
+        now,
+        JSON.stringify({
+          nextPos: notes.length + 1,
+          estTimes: true,
+          activeDecks: [1],
+          sortType: 'noteFld',
+          timeLim: 0,
+          sortBackwards: false,
+          addToCur: true,
+          curDeck: 1,
+          newSpread: 0,
+          dueCounts: true,
+          curModel: basicModelId,
+          collapseTime: 1200
+        }),
+        JSON.stringify(models),
+        JSON.stringify(decks),
+        JSON.stringify({ '1': DEFAULT_DECK_CONFIG }),
+        JSON.stringify(Object.fromEntries(tags.map(tag => [tag, 0])))
+      ]
+    );
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+    try {
+      for (const [position, note] of notes.entries()) {
+        const noteId = newId();
+        const sortField = htmlToPlainText(note.fields[0]);
+        insertNote.run([
+          noteId,
+          note.guid,
+          note.modelId,
+          nowSeconds,
+          noteTags,
+          note.fields.join(FIELD_SEPARATOR),
+          sortField,
+          await fieldChecksum(sortField)
+        ]);
+        for (const ord of note.cardOrds.sort((a, b) => a - b)) {
+          insertCard.run([newId(), noteId, note.deckId, ord, nowSeconds, position + 1]);
+        }
+      }
+    } finally {
+      insertNote.free();
+      insertCard.free();
+    }
+
+    zip.file('collection.anki2', db.export());
+  } finally {
+    db.close();
+  }
+
+  zip.file('media', JSON.stringify(mediaManifest));
+
+  return {
+    blob: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }),
+    fileName: `${data.deck.title.replace(/\s+/g, '_') || 'exported'}.apkg`,
+    noteCount: notes.length,
+    mediaCount: Object.keys(mediaManifest).length
+  };
+};
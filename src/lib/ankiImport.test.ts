@@ -0,0 +1,137 @@
+import { createRequire } from 'node:module';
+import JSZip from 'jszip';
+import { describe, expect, it, vi } from 'vitest';
+import { buildAnkiPackage } from './ankiExport';
+import { parseAnkiPackage } from './ankiImport';
+import { FIELD_SEPARATOR, loadSqlJs } from './ankiPackage';
+import { SharedDeckExport } from '../types/localStorage';
+
+// Sous Node, sql.js charge sa version WebAssembly pour Node plutôt que celle du navigateur
+vi.mock('sql.js/dist/sql-wasm-browser.wasm?url', () => ({
+  default: createRequire(import.meta.url).resolve('sql.js/dist/sql-wasm.wasm')
+}));
+
+const DATES = { createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' };
+
+const fixture: SharedDeckExport = {
+  deck: {
+    id: 'deck',
+    authorId: 'auteur',
+    title: 'Japonais',
+    description: '',
+    isPublic: false,
+    tags: ['vocabulaire'],
+    ...DATES
+  },
+  themes: [{ id: 'animaux', deckId: 'deck', title: 'Animaux', description: '', ...DATES }],
+  flashcards: [
+    {
+      id: 'chat',
+      deckId: 'deck',
+      themeId: 'animaux',
+      front: { type: 'text', text: '猫' },
+      back: { type: 'text', text: 'chat' },
+      hints: ['miaou', 'félin'],
+      additionalInfo: 'Se lit neko',
+      ...DATES
+    },
+    {
+      id: 'chien',
+      deckId: 'deck',
+      front: { type: 'text', text: '犬' },
+      back: { type: 'text', text: 'chien' },
+      ...DATES
+    },
+    ...[1, 2].map(index => ({
+      id: `tokyo-${index}`,
+      deckId: 'deck',
+      front: { type: 'cloze' as const, text: '{{c1::Tokyo}} est la capitale du {{c2::Japon}}', index, noteId: 'tokyo' },
+      back: { type: 'text' as const, text: 'Géographie' },
+      additionalInfo: 'Depuis 1868',
+      ...DATES
+    }))
+  ],
+  exportDate: DATES.createdAt,
+  version: '1.0'
+};
+
+const roundTrip = async (data: SharedDeckExport) => {
+  const { blob, fileName } = await buildAnkiPackage(data);
+  return parseAnkiPackage(await blob.arrayBuffer(), fileName);
+};
+
+/**
+ * Remplace le modèle des notes basiques d'un paquet par un modèle Anki courant
+ * (Front, Back, Extra) et donne à chaque note les champs fournis
+ */
+const withStockModel = async (data: SharedDeckExport, fields: string[][]) => {
+  const { blob, fileName } = await buildAnkiPackage(data);
+  const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(await zip.file('collection.anki2')!.async('uint8array'));
+
+  const models = JSON.parse(String(db.exec('SELECT models FROM col')[0].values[0][0]));
+  const basic = Object.values<{ type: number; name: string; flds: unknown[]; tmpls: { qfmt: string; afmt: string }[] }>(models)
+    .find(model => model.type === 0)!;
+  basic.name = 'Basic';
+  basic.flds = ['Front', 'Back', 'Extra'].map((name, ord) => ({ name, ord }));
+  basic.tmpls[0].qfmt = '{{Front}}';
+  basic.tmpls[0].afmt = '{{FrontSide}}<hr id=answer>{{Back}}<br>{{Extra}}';
+  db.run('UPDATE col SET models = ?', [JSON.stringify(models)]);
+  const noteIds = db.exec('SELECT id FROM notes ORDER BY id')[0].values.map(([id]) => id);
+  noteIds.forEach((id, index) => db.run('UPDATE notes SET flds = ? WHERE id = ?', [fields[index].join(FIELD_SEPARATOR), id]));
+
+  zip.file('collection.anki2', db.export());
+  db.close();
+  return parseAnkiPackage(await zip.generateAsync({ type: 'arraybuffer' }), fileName);
+};
+
+describe('parseAnkiPackage', () => {
+  it("relit un paquet exporté par l'application sans mêler la note ni les indices au verso", async () => {
+    const pkg = await roundTrip(fixture);
+
+    expect(pkg.title).toBe('Japonais');
+    expect(pkg.themes).toEqual(['Animaux']);
+    expect(pkg.tags).toEqual(['vocabulaire']);
+    expect(pkg.notes).toEqual([
+      expect.objectContaining({
+        kind: 'basic',
+        theme: 'Animaux',
+        frontText: '猫',
+        backText: 'chat',
+        hints: ['miaou', 'félin'],
+        additionalInfo: 'Se lit neko',
+        extraInfo: undefined
+      }),
+      expect.objectContaining({
+        kind: 'basic',
+        theme: undefined,
+        frontText: '犬',
+        backText: 'chien',
+        hints: [],
+        additionalInfo: undefined,
+        extraInfo: undefined
+      }),
+      expect.objectContaining({
+        kind: 'cloze',
+        frontText: '{{c1::Tokyo}} est la capitale du {{c2::Japon}}',
+        backText: 'Géographie',
+        hints: [],
+        additionalInfo: 'Depuis 1868',
+        extraInfo: undefined
+      })
+    ]);
+  });
+
+  it("ne garde que le premier champ ajouté par la réponse comme verso d'un modèle Anki", async () => {
+    const basicCards = { ...fixture, flashcards: fixture.flashcards.slice(0, 2) };
+    const pkg = await withStockModel(basicCards, [['猫', 'chat', 'Se lit neko'], ['犬', 'chien', '']]);
+
+    expect(pkg.notes.map(({ frontText, backText, hints, additionalInfo, extraInfo }) => ({
+      frontText, backText, hints, additionalInfo, extraInfo
+    }))).toEqual([
+      { frontText: '猫', backText: 'chat', hints: [], additionalInfo: undefined, extraInfo: 'Extra : Se lit neko' },
+      { frontText: '犬', backText: 'chien', hints: [], additionalInfo: undefined, extraInfo: undefined }
+    ]);
+  });
+});
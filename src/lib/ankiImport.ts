@@ -0,0 +1,442 @@
+/**
+ * Import des paquets Anki (.apkg)
+ *
+ * Le paquet est lu entièrement dans le navigateur : l'archive est ouverte avec JSZip
+ * et la collection SQLite interrogée avec sql.js. La lecture (parseAnkiPackage) ne
+ * modifie rien et sert à l'aperçu ; importAnkiPackage crée ensuite le deck, en une seule transaction.
+ *
+ * Correspondances :
+ * - le deck racine commun devient le deck, ses sous-decks deviennent des thèmes
+ *   (« Parent::Enfant::Petit-enfant » → thème « Enfant › Petit-enfant ») ;
+ *   si le paquet contient plusieurs decks racines, chacun devient un thème ;
+ * - les champs affichés par la question du premier modèle de carte forment le recto,
+ *   le premier champ ajouté par la réponse le verso ; les autres champs, affichés ou non,
+ *   deviennent l'information complémentaire du verso, pour ne pas compter dans la réponse attendue ;
+ * - les champs révélés à la demande ({{hint:Champ}}) deviennent les indices, un par ligne ;
+ * - dans les modèles exportés par l'application (« Otaku - Basique », « Otaku - Texte à trous »),
+ *   le champ Note devient la note de la carte ;
+ * - les notes à trous deviennent des notes à trous ;
+ * - la première image et le premier son d'un champ deviennent l'image et l'audio de la face ;
+ * - les étiquettes les plus fréquentes des notes deviennent les tags du deck.
+ */
+
+import JSZip from 'jszip';
+import { buildClozeNote, buildDeck, buildFlashcard, buildTheme, createDeckWithContent } from './localStorage';
+import { CLOZE_MARKER, createCardSide, htmlToPlainText, sanitizeRichText } from './cardContent';
+import {
+  BASIC_MODEL_NAME,
+  CLOZE_MODEL_NAME,
+  DECK_SEPARATOR,
+  FIELD_SEPARATOR,
+  loadSqlJs,
+  MAX_AUDIO_SIZE,
+  MAX_IMAGE_SIZE,
+  mediaMimeType,
+  NOTE_FIELD,
+  THEME_PATH_SEPARATOR
+} from './ankiPackage';
+import { CardSide, CardSideAttachments, Deck, Flashcard } from '../types/localStorage';
+
+// Nombre maximal d'étiquettes Anki reprises comme tags du deck
+const MAX_DECK_TAGS = 10;
+
+// Étiquettes posées par Anki lui-même, sans intérêt hors d'Anki
+const INTERNAL_TAGS = new Set(['leech', 'marked']);
+
+// Références de la syntaxe des modèles qui ne sont pas des champs
+const SPECIAL_FIELDS = new Set(['FrontSide', 'Tags', 'Deck', 'Subdeck', 'Type', 'Card', 'CardFlag']);
+
+const SOUND_TAG = /\[sound:([^\]]+)\]/g;
+const IMAGE_TAG = /<img\b[^>]*?\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>/gi;
+// Balises de mise en forme qui justifient une face en texte enrichi
+const FORMATTING_TAG = /<(b|strong|i|em|u|s|sub|sup|mark|code|ul|ol|ruby)\b/i;
+
+export type AnkiNoteKind = 'basic' | 'cloze';
+
+export interface AnkiNote {
+  kind: AnkiNoteKind;
+  theme?: string; // Titre du thème de destination ; absent pour le deck racine
+  frontHtml: string; // Texte à trous pour une note à trous
+  backHtml: string; // Verso supplémentaire pour une note à trous
+  hints: string[]; // Champs révélés à la demande, une ligne par indice
+  additionalInfo?: string; // Champ Note des modèles de l'application
+  extraInfo?: string; // Autres champs, en texte brut
+  frontText: string; // Version brute, pour l'aperçu
+  backText: string;
+  tags: string[];
+}
+
+export interface AnkiPackage {
+  title: string; // Titre proposé pour le deck
+  themes: string[];
+  notes: AnkiNote[];
+  tags: string[]; // Étiquettes des notes, de la plus fréquente à la moins fréquente
+  mediaCount: number;
+  media: Map<string, JSZip.JSZipObject>; // Fichiers médias par nom d'origine
+}
+
+export interface AnkiImportOptions {
+  title: string;
+  description: string;
+  authorId: string;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface AnkiImportResult {
+  deck: Deck;
+  cardCount: number;
+  skippedNotes: number; // Notes à trous sans trou valide
+  skippedMedia: number; // Médias absents du paquet, de format inconnu ou trop lourds
+}
+
+interface AnkiModel {
+  isCloze: boolean;
+  fieldNames: string[];
+  frontFields: number[];
+  backField?: number; // Premier champ ajouté par la réponse
+  hintFields: number[];
+  noteField?: number; // Champ Note des modèles de l'application
+}
+
+/**
+ * Noms des champs utilisés par un gabarit de carte ({{Champ}}, {{furigana:Champ}}, {{cloze:Texte}}...)
+ * @param template Gabarit de la question ou de la réponse
+ * @param hints Ne renvoie que les champs masqués derrière un lien « indice » ({{hint:Champ}}),
+ *   qui sont sinon ignorés
+ */
+const templateFields = (template: string, hints = false): string[] => {
+  const names: string[] = [];
+  for (const match of template.matchAll(/\{\{([^}]+)\}\}/g)) {
+    const reference = match[1].trim();
+    // Début et fin de section conditionnelle
+    if (/^[#/^]/.test(reference) || /^hint:/.test(reference) !== hints) continue;
+    const name = reference.split(':').pop()?.trim() ?? '';
+    if (name && !SPECIAL_FIELDS.has(name) && !names.includes(name)) names.push(name);
+  }
+  return names;
+};
+
+/**
+ * Lit un modèle de note de la collection
+ * Sans gabarit exploitable, le premier champ sert de recto et le suivant de verso.
+ */
+const parseModel = (raw: {
+  name?: string;
+  type?: number;
+  flds?: { name: string; ord: number }[];
+  tmpls?: { qfmt?: string; afmt?: string }[];
+}): AnkiModel => {
+  const fieldNames = [...(raw.flds ?? [])].sort((a, b) => a.ord - b.ord).map(field => field.name);
+  const indexOf = (names: string[]) => names
+    .map(name => fieldNames.indexOf(name))
+    .filter(index => index >= 0);
+
+  const template = raw.tmpls?.[0];
+  const templates = `${template?.qfmt ?? ''}${template?.afmt ?? ''}`;
+  const hintFields = indexOf(templateFields(templates, true));
+  const isOwnModel = raw.name === BASIC_MODEL_NAME || raw.name === CLOZE_MODEL_NAME;
+  const noteField = isOwnModel && fieldNames.includes(NOTE_FIELD) ? fieldNames.indexOf(NOTE_FIELD) : undefined;
+  const reserved = (index: number) => hintFields.includes(index) || index === noteField;
+
+  let frontFields = indexOf(templateFields(template?.qfmt ?? '')).filter(index => !reserved(index));
+  if (frontFields.length === 0) frontFields = [0];
+  const isBack = (index: number) => !frontFields.includes(index) && !reserved(index);
+  const backField = indexOf(templateFields(template?.afmt ?? '')).find(isBack)
+    ?? fieldNames.findIndex((_, index) => isBack(index));
+
+  return {
+    isCloze: raw.type === 1,
+    fieldNames,
+    frontFields,
+    backField: backField >= 0 ? backField : undefined,
+    hintFields,
+    noteField
+  };
+};
+
+/**
+ * Nom de fichier d'une image référencée dans un champ (attribut HTML, parfois encodé en URL)
+ */
+const decodeImageName = (name: string): string => {
+  const unescaped = name.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&#39;/g, "'");
+  try {
+    return decodeURIComponent(unescaped);
+  } catch {
+    return unescaped;
+  }
+};
+
+/**
+ * Médias référencés par un champ, dans leur ordre d'apparition
+ */
+const fieldMedia = (html: string): { images: string[]; sounds: string[] } => ({
+  images: Array.from(html.matchAll(IMAGE_TAG), match => decodeImageName(match[1] ?? match[2] ?? match[3])),
+  sounds: Array.from(html.matchAll(SOUND_TAG), match => match[1].trim())
+});
+
+const stripMedia = (html: string): string => html.replace(IMAGE_TAG, '').replace(SOUND_TAG, '');
+
+const plainText = (html: string): string => htmlToPlainText(stripMedia(html));
+
+const joinFields = (fields: string[], indices: number[]): string => {
+  return indices
+    .map(index => fields[index] ?? '')
+    .filter(html => html.trim())
+    .join('<br>');
+};
+
+/**
+ * Place chaque note dans le deck racine ou un thème.
+ * Le deck racine est le premier niveau commun à toutes les notes ; s'il n'y en a pas,
+ * le deck prend le nom du fichier et chaque deck Anki devient un thème.
+ * @param deckPaths Chemin du deck Anki de chaque note
+ * @param fileName Nom du fichier importé
+ */
+const mapDeckHierarchy = (deckPaths: string[][], fileName: string): { title: string; themes: (string | undefined)[] } => {
+  const roots = new Set(deckPaths.map(path => path[0]));
+  const fallbackTitle = fileName.replace(/\.(apkg|colpkg)$/i, '') || 'Import Anki';
+
+  if (roots.size === 1) {
+    return {
+      title: deckPaths[0]?.[0] || fallbackTitle,
+      themes: deckPaths.map(path => path.length > 1 ? path.slice(1).join(THEME_PATH_SEPARATOR) : undefined)
+    };
+  }
+
+  return {
+    title: fallbackTitle,
+    themes: deckPaths.map(path => path.join(THEME_PATH_SEPARATOR))
+  };
+};
+
+/**
+ * Lit un paquet Anki sans rien enregistrer
+ * @param data Contenu du fichier .apkg
+ * @param fileName Nom du fichier, utilisé comme titre si le paquet a plusieurs decks racines
+ * @throws Error si l'archive ou la collection est illisible, ou si le paquet ne contient aucune note
+ */
+export const parseAnkiPackage = async (data: ArrayBuffer | Blob, fileName: string): Promise<AnkiPackage> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    throw new Error("Le fichier n'est pas un paquet Anki valide (archive illisible)");
+  }
+
+  // collection.anki2 est alors une collection factice demandant de mettre Anki à jour
+  const collectionFile = zip.file('collection.anki21')
+    ?? (zip.file('collection.anki21b') ? null : zip.file('collection.anki2'));
+  if (!collectionFile) {
+    throw new Error(zip.file('collection.anki21b')
+      ? "Ce paquet utilise le format compressé des versions récentes d'Anki. Exportez-le à nouveau en cochant « Prendre en charge les anciennes versions d'Anki »."
+      : "Le paquet ne contient pas de collection Anki");
+  }
+
+  let mediaNames: Record<string, string> = {};
+  const mediaManifest = zip.file('media');
+  if (mediaManifest) {
+    try {
+      mediaNames = JSON.parse(await mediaManifest.async('string'));
+    } catch (error) {
+      console.error("Liste des médias du paquet Anki illisible:", error);
+    }
+  }
+  const media = new Map<string, JSZip.JSZipObject>();
+  for (const [entry, name] of Object.entries(mediaNames)) {
+    const file = zip.file(entry);
+    if (file) media.set(name, file);
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(await collectionFile.async('uint8array'));
+
+  try {
+    const [col] = db.exec('SELECT decks, models FROM col LIMIT 1');
+    if (!col) {
+      throw new Error("La collection Anki est vide");
+    }
+    const decks: Record<string, { name: string }> = JSON.parse(String(col.values[0][0]));
+    const models: Record<string, Parameters<typeof parseModel>[0]> = JSON.parse(String(col.values[0][1]));
+    const parsedModels = new Map(Object.entries(models).map(([id, model]) => [id, parseModel(model)]));
+
+    // Deck de chaque note : celui de sa première carte (deck d'origine si la carte est dans un deck filtré)
+    const noteDecks = new Map<string, string>();
+    const [cards] = db.exec('SELECT nid, CASE WHEN odid != 0 THEN odid ELSE did END FROM cards ORDER BY nid, ord');
+    for (const [noteId, deckId] of cards?.values ?? []) {
+      if (!noteDecks.has(String(noteId))) noteDecks.set(String(noteId), String(deckId));
+    }
+
+    const [notes] = db.exec('SELECT id, mid, flds, tags FROM notes ORDER BY id');
+    const rows = notes?.values ?? [];
+    if (rows.length === 0) {
+      throw new Error("Le paquet ne contient aucune note");
+    }
+
+    const deckPaths = rows.map(([noteId]) => {
+      const deckName = decks[noteDecks.get(String(noteId)) ?? '']?.name ?? 'Default';
+      return deckName.split(DECK_SEPARATOR).map(part => part.trim()).filter(Boolean);
+    });
+    const hierarchy = mapDeckHierarchy(deckPaths, fileName);
+
+    const tagCounts = new Map<string, number>();
+    const parsedNotes = rows.map(([, modelId, rawFields, rawTags], index): AnkiNote => {
+      const model = parsedModels.get(String(modelId)) ?? parseModel({});
+      const fields = String(rawFields).split(FIELD_SEPARATOR);
+      const tags = String(rawTags ?? '').split(/\s+/).filter(tag => tag && !INTERNAL_TAGS.has(tag.toLowerCase()));
+      tags.forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1));
+
+      const mapped = new Set([...model.frontFields, model.backField, ...model.hintFields, model.noteField]);
+      const extraInfo = fields
+        .map((html, fieldIndex) => ({ name: model.fieldNames[fieldIndex], text: mapped.has(fieldIndex) ? '' : plainText(html) }))
+        .filter(field => field.text)
+        .map(field => field.name ? `${field.name} : ${field.text}` : field.text)
+        .join('\n');
+      const hints = model.hintFields.flatMap(fieldIndex => plainText(fields[fieldIndex] ?? '').split('\n'))
+        .map(hint => hint.trim())
+        .filter(Boolean);
+      const additionalInfo = model.noteField !== undefined ? plainText(fields[model.noteField] ?? '') : '';
+
+      let frontHtml = joinFields(fields, model.frontFields);
+      let backHtml = model.backField !== undefined ? fields[model.backField] ?? '' : '';
+      let kind: AnkiNoteKind = 'basic';
+
+      if (model.isCloze) {
+        const clozeText = plainText(frontHtml);
+        if (new RegExp(CLOZE_MARKER.source).test(clozeText)) {
+          kind = 'cloze';
+          // Les médias du texte à trous sont déplacés dans le verso supplémentaire
+          const { images, sounds } = fieldMedia(frontHtml);
+          backHtml = [backHtml, ...images.map(name => `<img src="${name}">`), ...sounds.map(name => `[sound:${name}]`)]
+            .filter(Boolean)
+            .join('<br>');
+          frontHtml = clozeText;
+        }
+      }
+
+      return {
+        kind,
+        theme: hierarchy.themes[index],
+        frontHtml,
+        backHtml,
+        hints,
+        additionalInfo: additionalInfo || undefined,
+        extraInfo: extraInfo || undefined,
+        frontText: kind === 'cloze' ? frontHtml : plainText(frontHtml),
+        backText: plainText(backHtml),
+        tags
+      };
+    });
+
+    const referenced = new Set(parsedNotes.flatMap(note => {
+      const front = fieldMedia(note.frontHtml);
+      const back = fieldMedia(note.backHtml);
+      return [...front.images, ...front.sounds, ...back.images, ...back.sounds];
+    }));
+
+    return {
+      title: hierarchy.title,
+      themes: Array.from(new Set(hierarchy.themes.filter((theme): theme is string => !!theme))),
+      notes: parsedNotes,
+      tags: Array.from(tagCounts.entries()).sort((a, b) => b[1] - a[1]).map(([tag]) => tag),
+      mediaCount: Array.from(referenced).filter(name => media.has(name)).length,
+      media
+    };
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Crée un deck, ses thèmes et ses cartes à partir d'un paquet lu par parseAnkiPackage
+ * @param pkg Paquet Anki
+ * @param options Titre, description et auteur du deck ; suivi de la progression
+ */
+export const importAnkiPackage = async (pkg: AnkiPackage, options: AnkiImportOptions): Promise<AnkiImportResult> => {
+  const dataUrls = new Map<string, string | null>();
+  let skippedMedia = 0;
+
+  // Chaque média est converti en data URL une seule fois, même s'il est utilisé par plusieurs cartes
+  const loadMedia = async (name: string, kind: 'image' | 'audio'): Promise<string | undefined> => {
+    if (!dataUrls.has(name)) {
+      const file = pkg.media.get(name);
+      const mimeType = mediaMimeType(name);
+      let dataUrl: string | null = null;
+      if (file && mimeType?.startsWith(`${kind}/`)) {
+        const bytes = await file.async('uint8array');
+        if (bytes.length <= (kind === 'image' ? MAX_IMAGE_SIZE : MAX_AUDIO_SIZE)) {
+          dataUrl = `data:${mimeType};base64,${await file.async('base64')}`;
+        }
+      }
+      if (!dataUrl) skippedMedia++;
+      dataUrls.set(name, dataUrl);
+    }
+    return dataUrls.get(name) ?? undefined;
+  };
+
+  const toSide = async (html: string, additionalInfo?: string): Promise<CardSide> => {
+    const { images, sounds } = fieldMedia(html);
+    const attachments: CardSideAttachments = {};
+    const image = images[0] && await loadMedia(images[0], 'image');
+    const audio = sounds[0] && await loadMedia(sounds[0], 'audio');
+    if (image) attachments.image = image;
+    if (audio) attachments.audio = audio;
+    if (additionalInfo) attachments.additionalInfo = additionalInfo;
+
+    const richHtml = sanitizeRichText(stripMedia(html)).trim();
+    const text = htmlToPlainText(richHtml);
+    if (text && FORMATTING_TAG.test(richHtml)) {
+      return { type: 'richText', html: richHtml, text, ...attachments };
+    }
+    return createCardSide({ text, ...attachments });
+  };
+
+  // Tous les enregistrements sont préparés avant d'être écrits ensemble
+  const deck = buildDeck({
+    title: options.title,
+    description: options.description || "Importé depuis Anki",
+    authorId: options.authorId,
+    isPublic: false,
+    tags: ["importé", "anki", ...pkg.tags.slice(0, MAX_DECK_TAGS)],
+  });
+  const themes = pkg.themes.map(title => buildTheme({ deckId: deck.id, title, description: "" }));
+  const themeIds = new Map(themes.map(theme => [theme.title, theme.id]));
+
+  const flashcards: Flashcard[] = [];
+  let skippedNotes = 0;
+  for (const [index, note] of pkg.notes.entries()) {
+    const themeId = note.theme ? themeIds.get(note.theme) : undefined;
+
+    if (note.kind === 'cloze') {
+      try {
+        const extra = (note.backHtml.trim() || note.extraInfo) ? await toSide(note.backHtml, note.extraInfo) : undefined;
+        flashcards.push(...buildClozeNote({
+          deckId: deck.id,
+          themeId,
+          text: note.frontHtml,
+          extra,
+          hints: note.hints.length > 0 ? note.hints : undefined,
+          additionalInfo: note.additionalInfo
+        }));
+      } catch (error) {
+        console.error("Note à trous Anki ignorée:", error);
+        skippedNotes++;
+      }
+    } else {
+      flashcards.push(buildFlashcard({
+        deckId: deck.id,
+        themeId,
+        front: await toSide(note.frontHtml),
+        back: await toSide(note.backHtml, note.extraInfo),
+        hints: note.hints.length > 0 ? note.hints : undefined,
+        additionalInfo: note.additionalInfo,
+      }));
+    }
+
+    options.onProgress?.(index + 1, pkg.notes.length);
+  }
+
+  // Une seule transaction : un échec (quota dépassé par les médias...) n'enregistre rien
+  await createDeckWithContent(deck, themes, flashcards);
+
+  return { deck, cardCount: flashcards.length, skippedNotes, skippedMedia };
+};
@@ -0,0 +1,82 @@
+/**
+ * Format des paquets Anki (.apkg)
+ *
+ * Un paquet est une archive zip contenant :
+ * - la collection, une base SQLite (collection.anki2, ou collection.anki21 depuis Anki 2.1) ;
+ * - un fichier « media », objet JSON qui associe chaque fichier numéroté de l'archive
+ *   (« 0 », « 1 »...) à son nom d'origine, utilisé dans les champs des notes.
+ * Les champs d'une note sont enregistrés dans une seule colonne, séparés par le caractère 0x1f.
+ *
+ * Ce module regroupe ce que l'import et l'export ont en commun.
+ */
+
+import initSqlJs, { SqlJsStatic } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+
+// Séparateur des champs d'une note et des noms de sous-decks
+export const FIELD_SEPARATOR = '\x1f';
+export const DECK_SEPARATOR = '::';
+// Séparateur des niveaux de sous-decks dans le titre d'un thème
+export const THEME_PATH_SEPARATOR = ' › ';
+
+// Modèles de note des paquets exportés par l'application, reconnus à l'import
+export const BASIC_MODEL_NAME = 'Otaku - Basique';
+export const CLOZE_MODEL_NAME = 'Otaku - Texte à trous';
+export const BASIC_MODEL_FIELDS = ['Recto', 'Verso', 'Indices', 'Note'];
+export const CLOZE_MODEL_FIELDS = ['Texte', 'Verso supplémentaire', 'Note'];
+// Champ de la note commune aux deux faces dans ces modèles
+export const NOTE_FIELD = 'Note';
+
+// Tailles maximales des médias, identiques à celles des fichiers ajoutés depuis l'application
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+export const MAX_AUDIO_SIZE = 10 * 1024 * 1024;
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  bmp: 'image/bmp',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  webm: 'audio/webm'
+};
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Charge sql.js (SQLite compilé en WebAssembly) une seule fois
+ */
+export const loadSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJsPromise) {
+    sqlJsPromise = initSqlJs({ locateFile: () => sqlWasmUrl }).catch(error => {
+      sqlJsPromise = null;
+      throw error;
+    });
+  }
+  return sqlJsPromise;
+};
+
+/**
+ * Type MIME d'un fichier média d'après son extension
+ * @param fileName Nom du fichier
+ */
+export const mediaMimeType = (fileName: string): string | undefined => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension];
+};
+
+/**
+ * Extension de fichier correspondant à un type MIME
+ * @param mimeType Type MIME d'une data URL
+ */
+export const mediaExtension = (mimeType: string): string | undefined => {
+  return Object.keys(MIME_TYPES).find(extension => MIME_TYPES[extension] === mimeType);
+};
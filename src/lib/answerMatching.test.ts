@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_IGNORED_ARTICLES,
+  damerauLevenshtein,
+  matchAnswer,
+  normalizeAnswer,
+  splitAlternatives
+} from './answerMatching';
+
+describe('normalizeAnswer', () => {
+  it('ignore la casse, les accents, la ponctuation et les espaces superflus', () => {
+    expect(normalizeAnswer('  Éléphant, ÇA   va ! ')).toBe('elephant ca va');
+    expect(normalizeAnswer('Noël')).toBe(normalizeAnswer('noel'));
+  });
+
+  it('retire les articles en début de réponse', () => {
+    expect(normalizeAnswer('Le chat', DEFAULT_IGNORED_ARTICLES)).toBe('chat');
+    expect(normalizeAnswer("L'école", DEFAULT_IGNORED_ARTICLES)).toBe('ecole');
+    expect(normalizeAnswer('the cat', DEFAULT_IGNORED_ARTICLES)).toBe('cat');
+  });
+
+  it("conserve un article qui compose toute la réponse ou n'est pas en tête", () => {
+    expect(normalizeAnswer('La', DEFAULT_IGNORED_ARTICLES)).toBe('la');
+    expect(normalizeAnswer('chat le', DEFAULT_IGNORED_ARTICLES)).toBe('chat le');
+    expect(normalizeAnswer('Le chat')).toBe('le chat');
+  });
+});
+
+describe('damerauLevenshtein', () => {
+  it('compte une inversion de deux caractères voisins comme une seule faute', () => {
+    expect(damerauLevenshtein('chat', 'chta')).toBe(1);
+    expect(damerauLevenshtein('maison', 'miason')).toBe(1);
+  });
+
+  it('compte insertions, suppressions et substitutions', () => {
+    expect(damerauLevenshtein('', 'abc')).toBe(3);
+    expect(damerauLevenshtein('chat', 'chat')).toBe(0);
+    expect(damerauLevenshtein('kitten', 'sitting')).toBe(3);
+  });
+
+  it("n'édite pas deux fois une sous-chaîne inversée (alignement optimal)", () => {
+    expect(damerauLevenshtein('ca', 'abc')).toBe(3);
+  });
+});
+
+describe('splitAlternatives', () => {
+  it('découpe les alternatives séparées par « ; » ou « / »', () => {
+    expect(splitAlternatives('Tokyo ; Edo')).toEqual(['Tokyo', 'Edo']);
+    expect(splitAlternatives('chat / chatte')).toEqual(['chat', 'chatte']);
+    expect(splitAlternatives('chat/chatte')).toEqual(['chat', 'chatte']);
+  });
+
+  it('garde entière une fraction', () => {
+    expect(splitAlternatives('1/2')).toEqual(['1/2']);
+    expect(splitAlternatives('1/2 ; 0,5')).toEqual(['1/2', '0,5']);
+  });
+
+  it('renvoie la réponse telle quelle sans alternative', () => {
+    expect(splitAlternatives(' chat ')).toEqual(['chat']);
+    expect(splitAlternatives(' ; ')).toEqual([';']);
+  });
+});
+
+describe('matchAnswer', () => {
+  it('accepte une réponse identique après normalisation', () => {
+    expect(matchAnswer('ELEPHANT!', 'éléphant')).toEqual({ outcome: 'correct', similarity: 1, expected: 'éléphant' });
+    expect(matchAnswer('chat', 'Le chat', { ignoredWords: DEFAULT_IGNORED_ARTICLES }).outcome).toBe('correct');
+  });
+
+  it("accepte chacune des alternatives et la réponse complète", () => {
+    expect(matchAnswer('edo', 'Tokyo ; Edo')).toMatchObject({ outcome: 'correct', expected: 'Edo' });
+    expect(matchAnswer('1/2', '1/2').outcome).toBe('correct');
+    expect(matchAnswer('km/h', 'km/h').outcome).toBe('correct');
+  });
+
+  it("ne tolère aucune faute jusqu'à 3 caractères", () => {
+    expect(matchAnswer('cta', 'cat').outcome).toBe('incorrect');
+  });
+
+  it("tolère une faute de 4 à 15 caractères", () => {
+    expect(matchAnswer('chta', 'chat').outcome).toBe('typo');
+    expect(matchAnswer('maisno', 'maison').outcome).toBe('typo');
+    expect(matchAnswer('miasno', 'maison').outcome).toBe('incorrect');
+  });
+
+  it('tolère deux fautes à partir de 16 caractères', () => {
+    expect(matchAnswer('anticonstitutionel', 'anticonstitutionnel').outcome).toBe('typo');
+    expect(matchAnswer('anticonstittuionel', 'anticonstitutionnel').outcome).toBe('typo');
+    expect(matchAnswer('antikonstittuionel', 'anticonstitutionnel').outcome).toBe('incorrect');
+  });
+
+  it('exige la similarité minimale pour signaler une faute de frappe', () => {
+    expect(matchAnswer('chta', 'chat').similarity).toBe(0.75);
+    expect(matchAnswer('chta', 'chat', { typoSimilarity: 0.8 }).outcome).toBe('incorrect');
+  });
+
+  it('préfère une faute de frappe à une réponse fausse', () => {
+    expect(matchAnswer('chta', 'chien ; chat')).toMatchObject({ outcome: 'typo', expected: 'chat' });
+  });
+
+  it('refuse une réponse vide', () => {
+    expect(matchAnswer('', 'chat').outcome).toBe('incorrect');
+    expect(matchAnswer('   ', 'chat').outcome).toBe('incorrect');
+  });
+
+  describe('japonais', () => {
+    it('compare kana et romaji', () => {
+      expect(matchAnswer('neko', 'ねこ').outcome).toBe('correct');
+      expect(matchAnswer('ネコ', 'ねこ').outcome).toBe('correct');
+      expect(matchAnswer('syatu', 'シャツ').outcome).toBe('correct');
+    });
+
+    it('accepte les graphies équivalentes des voyelles longues', () => {
+      for (const answer of ['toukyou', 'tōkyō', 'tôkyô', 'tookyoo']) {
+        expect(matchAnswer(answer, 'とうきょう').outcome).toBe('correct');
+      }
+      expect(matchAnswer('kōhī', 'コーヒー').outcome).toBe('correct');
+      expect(matchAnswer('sūgaku', 'すうがく').outcome).toBe('correct');
+    });
+
+    it('ne confond pas voyelles longues et brèves', () => {
+      expect(matchAnswer('kyo', 'きょう').outcome).not.toBe('correct');
+      expect(matchAnswer('ojisan', 'おじいさん').outcome).not.toBe('correct');
+      expect(matchAnswer('biru', 'ビール').outcome).not.toBe('correct');
+    });
+
+    it('accepte « nn » pour ん sans confondre ん et な', () => {
+      expect(matchAnswer('konnnichiha', 'こんにちは').outcome).toBe('correct');
+      expect(matchAnswer("kin'you", 'きんよう').outcome).toBe('correct');
+      expect(matchAnswer('kinyou', 'きんよう').outcome).not.toBe('correct');
+      expect(matchAnswer('ana', 'あんな').outcome).not.toBe('correct');
+    });
+
+    it('accepte les lectures de la carte comme alternatives', () => {
+      expect(matchAnswer('neko', '猫', { readings: ['ねこ'] })).toMatchObject({ outcome: 'correct', expected: 'ねこ' });
+      expect(matchAnswer('inu', '猫', { readings: ['ねこ'] }).outcome).toBe('incorrect');
+    });
+  });
+});
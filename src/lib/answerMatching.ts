@@ -0,0 +1,159 @@
+/**
+ * Vérification locale des réponses saisies
+ *
+ * Compare la réponse de l'utilisateur à la réponse attendue sans appel à un LLM :
+ * normalisation Unicode (casse, accents, ponctuation, espaces), articles initiaux
+ * facultatifs, réponses alternatives séparées par « ; » ou « / » au verso, et
+ * tolérance aux fautes de frappe mesurée par la distance de Damerau-Levenshtein.
+ * Les réponses en japonais sont aussi comparées par leur lecture (kana ou romaji,
+ * voir japanese.ts), et les lectures d'une face sont acceptées comme alternatives.
+ *
+ * Une réponse proche sans être exacte n'est ni juste ni fausse : elle est signalée
+ * comme une faute de frappe, que l'utilisateur peut accepter.
+ *
+ * Ce module est purement fonctionnel.
+ */
+
+import { containsJapanese, japaneseKey } from './japanese';
+
+export type AnswerOutcome = 'correct' | 'typo' | 'incorrect';
+
+export interface AnswerMatch {
+  outcome: AnswerOutcome;
+  similarity: number; // Similarité avec la réponse la plus proche, de 0 à 1
+  expected: string; // Réponse alternative la plus proche, telle qu'écrite au verso
+}
+
+export interface AnswerMatchingOptions {
+  ignoredWords?: string[]; // Mots ignorés en début de réponse (articles)
+  typoSimilarity?: number; // Similarité minimale pour proposer d'accepter une faute de frappe
+  readings?: string[]; // Lectures de la réponse attendue (kana ou romaji), acceptées comme alternatives
+  japanese?: boolean; // Comparer aussi les lectures ; détecté par défaut (kana, kanji ou lectures présents)
+}
+
+// Articles ignorés par défaut en début de réponse
+export const DEFAULT_IGNORED_ARTICLES = ['le', 'la', 'les', 'l', 'un', 'une', 'des', 'du', 'the', 'a', 'an'];
+
+const DEFAULT_TYPO_SIMILARITY = 0.75;
+
+// Séparateurs des réponses alternatives au verso d'une carte ; une barre entre deux
+// chiffres fait partie de la réponse (« 1/2 »)
+const ALTERNATIVE_SEPARATOR = /;|\/(?!\d)|(?<!\d)\//;
+
+/**
+ * Forme comparable d'une réponse : casse, accents, ponctuation et espaces superflus ignorés
+ * @param text Réponse saisie ou attendue
+ * @param ignoredWords Mots retirés en début de réponse, sauf s'ils la composent entièrement
+ */
+export const normalizeAnswer = (text: string, ignoredWords: string[] = []): string => {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  let start = 0;
+  while (start < words.length - 1 && ignoredWords.includes(words[start])) start++;
+  return words.slice(start).join(' ');
+};
+
+/**
+ * Distance de Damerau-Levenshtein (variante « alignement optimal ») :
+ * insertions, suppressions, substitutions et inversions de deux caractères voisins
+ */
+export const damerauLevenshtein = (a: string, b: string): number => {
+  const rows: number[][] = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+  for (let i = 1; i <= a.length; i++) {
+    rows[i] = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+/**
+ * Similarité entre deux réponses normalisées, de 0 (différentes) à 1 (identiques)
+ */
+export const answerSimilarity = (a: string, b: string): number => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - damerauLevenshtein(a, b) / length;
+};
+
+/**
+ * Nombre de fautes de frappe tolérées selon la longueur de la réponse attendue :
+ * aucune jusqu'à 3 caractères, une jusqu'à 8, puis une tous les 8 caractères
+ */
+const allowedTypos = (length: number): number => {
+  if (length <= 3) return 0;
+  return Math.max(1, Math.floor(length / 8));
+};
+
+/**
+ * Réponses alternatives écrites au verso d'une carte (« Tokyo ; Edo », « chat / chatte »)
+ * @param expected Texte du verso
+ */
+export const splitAlternatives = (expected: string): string[] => {
+  const alternatives = expected.split(ALTERNATIVE_SEPARATOR).map(answer => answer.trim()).filter(Boolean);
+  return alternatives.length > 0 ? alternatives : [expected.trim()];
+};
+
+/**
+ * Compare une réponse saisie à la réponse attendue
+ * @param answer Réponse de l'utilisateur
+ * @param expected Texte du verso, éventuellement composé de réponses alternatives
+ * @param options Articles ignorés et seuil de tolérance aux fautes de frappe
+ */
+export const matchAnswer = (
+  answer: string,
+  expected: string,
+  { ignoredWords = [], typoSimilarity = DEFAULT_TYPO_SIMILARITY, readings = [], japanese }: AnswerMatchingOptions = {}
+): AnswerMatch => {
+  const compareReadings = japanese ?? (readings.length > 0 || containsJapanese(answer) || containsJapanese(expected));
+  // Formes comparées deux à deux : texte normalisé, puis lecture pour le japonais
+  const forms = (text: string) => compareReadings
+    ? [normalizeAnswer(text, ignoredWords), japaneseKey(text)]
+    : [normalizeAnswer(text, ignoredWords)];
+
+  const given = forms(answer);
+  const matches: AnswerMatch[] = [];
+
+  // La réponse complète est aussi essayée : un « / » peut faire partie de la réponse (« km/h »)
+  const candidates = Array.from(new Set([...splitAlternatives(expected), expected.trim(), ...readings]));
+
+  for (const candidate of candidates) {
+    const targets = forms(candidate);
+
+    for (let i = 0; i < targets.length; i++) {
+      const target = targets[i];
+      if (!target) continue;
+
+      if (given[i] === target) {
+        return { outcome: 'correct', similarity: 1, expected: candidate };
+      }
+
+      const similarity = answerSimilarity(given[i], target);
+      const isTypo = given[i].length > 0
+        && damerauLevenshtein(given[i], target) <= allowedTypos(target.length)
+        && similarity >= typoSimilarity;
+      matches.push({ outcome: isTypo ? 'typo' : 'incorrect', similarity, expected: candidate });
+    }
+  }
+
+  // Une faute de frappe l'emporte sur une réponse fausse, puis la réponse la plus proche
+  const [best] = matches.sort((a, b) =>
+    Number(b.outcome === 'typo') - Number(a.outcome === 'typo') || b.similarity - a.similarity
+  );
+  return best ?? { outcome: 'incorrect', similarity: 0, expected: expected.trim() };
+};
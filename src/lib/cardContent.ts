@@ -0,0 +1,275 @@
+/**
+ * Modèle de contenu des faces de carte
+ *
+ * Chaque face est un CardSide discriminé par son type (texte, texte enrichi,
+ * image, audio, texte à trous). Les anciennes versions de l'application
+ * enregistraient plusieurs formes différentes :
+ * - une simple chaîne, avec l'image et l'audio à la racine de la carte
+ *   (frontImage, backImage, frontAudio, backAudio) ;
+ * - un objet { text, image?, audio?, additionalInfo? } sans type.
+ * Ce module les convertit vers le modèle typé et valide les faces avec zod.
+ */
+
+import { z } from "zod";
+import { CardSide, CardSideAttachments, CardSideType, Flashcard } from '../types/localStorage';
+
+export type { CardSide, CardSideType } from '../types/localStorage';
+
+// Marqueur de trou : {{c1::réponse}} ou {{c1::réponse::indice}}
+export const CLOZE_MARKER = /\{\{c(\d+)::([\s\S]+?)(?:::([\s\S]*?))?\}\}/g;
+
+// Balises conservées dans le texte enrichi, sans aucun attribut
+const RICH_TEXT_TAGS = new Set([
+  'b', 'strong', 'i', 'em', 'u', 's', 'sub', 'sup', 'mark', 'code', 'br', 'p', 'div', 'span',
+  'ul', 'ol', 'li', 'ruby', 'rt', 'rp'
+]);
+
+const attachmentShape = {
+  image: z.string().min(1).optional(),
+  audio: z.string().min(1).optional(),
+  additionalInfo: z.string().optional(),
+  readings: z.array(z.string().min(1)).optional()
+};
+
+export const cardSideSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), text: z.string(), ...attachmentShape }),
+  z.object({ type: z.literal('richText'), html: z.string(), text: z.string(), ...attachmentShape }),
+  z.object({
+    type: z.literal('image'),
+    text: z.string(),
+    ...attachmentShape,
+    image: z.string({ required_error: "Image manquante" }).min(1, "Image manquante")
+  }),
+  z.object({
+    type: z.literal('audio'),
+    text: z.string(),
+    ...attachmentShape,
+    audio: z.string({ required_error: "Audio manquant" }).min(1, "Audio manquant")
+  }),
+  z.object({
+    type: z.literal('cloze'),
+    text: z.string().refine(text => new RegExp(CLOZE_MARKER.source).test(text), "Le texte à trous ne contient aucun trou"),
+    index: z.number().int().positive().optional(),
+    noteId: z.string().min(1).optional(),
+    ...attachmentShape
+  })
+]);
+
+// Propriétés des anciennes cartes, retirées lors de la normalisation
+export interface LegacyCardFields {
+  front?: unknown;
+  back?: unknown;
+  frontImage?: string;
+  backImage?: string;
+  frontAudio?: string;
+  backAudio?: string;
+}
+
+type NormalizedCard<T> = Omit<T, keyof LegacyCardFields> & { front: CardSide; back: CardSide };
+
+export const CARD_SIDE_TYPES: CardSideType[] = ['text', 'richText', 'image', 'audio', 'cloze'];
+
+const optionalString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+};
+
+const isTypedSide = (value: unknown): value is { type: unknown } => {
+  return typeof value === 'object' && value !== null && 'type' in value;
+};
+
+/**
+ * Crée une face de texte brut
+ * @param text Contenu de la face
+ * @param attachments Image, audio ou informations complémentaires
+ */
+export const textSide = (text: string, attachments: CardSideAttachments = {}): CardSide => {
+  return { type: 'text', text, ...attachments };
+};
+
+/**
+ * Convertit une face sans type (chaîne ou objet { text, image, audio, additionalInfo })
+ * La face prend le type de son contenu principal : le texte s'il existe, sinon l'image, sinon l'audio.
+ * @param value Ancienne valeur de la face
+ * @param legacyMedia Image et audio enregistrés à la racine de la carte
+ */
+const fromLegacySide = (value: unknown, legacyMedia: { image?: string; audio?: string }): CardSide => {
+  const source: Record<string, unknown> = typeof value === 'object' && value !== null
+    ? value as Record<string, unknown>
+    : { text: value };
+
+  const text = source.text === undefined || source.text === null ? '' : String(source.text);
+  const attachments: CardSideAttachments = {};
+  const image = optionalString(source.image) ?? optionalString(legacyMedia.image);
+  const audio = optionalString(source.audio) ?? optionalString(legacyMedia.audio);
+  const additionalInfo = optionalString(source.additionalInfo);
+  const readings = Array.isArray(source.readings)
+    ? source.readings.filter((reading): reading is string => typeof reading === 'string' && reading.trim().length > 0)
+    : [];
+  if (image) attachments.image = image;
+  if (audio) attachments.audio = audio;
+  if (additionalInfo) attachments.additionalInfo = additionalInfo;
+  if (readings.length > 0) attachments.readings = readings.map(reading => reading.trim());
+
+  if (!text.trim() && image) return { type: 'image', text, ...attachments, image };
+  if (!text.trim() && audio) return { type: 'audio', text, ...attachments, audio };
+  return { type: 'text', text, ...attachments };
+};
+
+/**
+ * Crée une face à partir du contenu saisi dans un formulaire
+ * @param content Texte et pièces jointes saisis
+ */
+export const createCardSide = (content: { text: string } & CardSideAttachments): CardSide => {
+  return fromLegacySide(content, {});
+};
+
+/**
+ * Convertit une face enregistrée vers le modèle typé, sans jamais échouer.
+ * Utilisé à la lecture : une face typée invalide est reconstruite à partir de ses champs.
+ * @param value Face enregistrée, dans n'importe quelle forme connue
+ * @param legacyMedia Image et audio enregistrés à la racine de la carte
+ */
+export const normalizeCardSide = (value: unknown, legacyMedia: { image?: string; audio?: string } = {}): CardSide => {
+  if (isTypedSide(value)) {
+    const result = cardSideSchema.safeParse(value);
+    if (result.success) return result.data as CardSide;
+  }
+  return fromLegacySide(value, legacyMedia);
+};
+
+/**
+ * Valide une face avant son enregistrement.
+ * Les anciennes formes sans type sont converties ; une face typée doit être valide.
+ * @param value Face reçue (création, modification ou importation)
+ * @param legacyMedia Image et audio enregistrés à la racine de la carte
+ * @throws Error si la face typée est invalide
+ */
+export const parseCardSide = (value: unknown, legacyMedia: { image?: string; audio?: string } = {}): CardSide => {
+  if (!isTypedSide(value)) return fromLegacySide(value, legacyMedia);
+
+  if (!CARD_SIDE_TYPES.includes(value.type as CardSideType)) {
+    throw new Error(`Type de face inconnu : ${String(value.type)}`);
+  }
+  const result = cardSideSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Face de carte invalide : ${result.error.issues.map(issue => issue.message).join(', ')}`);
+  }
+  return result.data as CardSide;
+};
+
+const convertCard = <T extends LegacyCardFields>(
+  card: T,
+  convertSide: (value: unknown, legacyMedia: { image?: string; audio?: string }) => CardSide
+): NormalizedCard<T> => {
+  const { front, back, frontImage, backImage, frontAudio, backAudio, ...rest } = card;
+  return {
+    ...rest,
+    front: convertSide(front, { image: frontImage, audio: frontAudio }),
+    back: convertSide(back, { image: backImage, audio: backAudio })
+  };
+};
+
+/**
+ * Convertit une carte enregistrée (IndexedDB, copie localStorage, sauvegarde) vers le modèle typé
+ * @param card Carte dans n'importe quelle forme connue
+ */
+export const normalizeFlashcard = <T extends LegacyCardFields>(card: T): NormalizedCard<T> => {
+  return convertCard(card, normalizeCardSide);
+};
+
+/**
+ * Valide le contenu d'une carte avant son enregistrement
+ * @param card Données de la carte (création, modification ou importation)
+ * @throws Error si l'une des faces est invalide
+ */
+export const parseFlashcardContent = <T extends LegacyCardFields>(card: T): NormalizedCard<T> => {
+  return convertCard(card, parseCardSide);
+};
+
+/**
+ * Valide les faces présentes dans une modification partielle de carte
+ * @param changes Champs modifiés
+ * @throws Error si l'une des faces est invalide
+ */
+export const parseFlashcardChanges = (changes: Partial<Flashcard> & LegacyCardFields): Partial<Flashcard> => {
+  const { front, back, frontImage, backImage, frontAudio, backAudio, ...rest } = changes;
+  return {
+    ...rest,
+    ...(front !== undefined && { front: parseCardSide(front, { image: frontImage, audio: frontAudio }) }),
+    ...(back !== undefined && { back: parseCardSide(back, { image: backImage, audio: backAudio }) })
+  };
+};
+
+/**
+ * Applique le contenu saisi dans un formulaire d'édition à une face existante.
+ * Un texte enrichi non modifié garde son HTML et un texte à trous garde son type
+ * tant qu'il contient un trou ; sinon la face prend le type de son contenu principal.
+ * @param original Face avant modification
+ * @param edited Texte et pièces jointes saisis
+ */
+export const updateCardSideContent = (
+  original: CardSide,
+  edited: { text: string } & CardSideAttachments
+): CardSide => {
+  const side = fromLegacySide(edited, {});
+  const attachments: CardSideAttachments = {
+    ...(side.image && { image: side.image }),
+    ...(side.audio && { audio: side.audio }),
+    ...(side.additionalInfo && { additionalInfo: side.additionalInfo }),
+    ...(side.readings && { readings: side.readings })
+  };
+
+  if (original.type === 'richText' && edited.text === original.text) {
+    return { type: 'richText', html: original.html, text: original.text, ...attachments };
+  }
+  if (original.type === 'cloze' && new RegExp(CLOZE_MARKER.source).test(edited.text)) {
+    return {
+      type: 'cloze',
+      text: edited.text,
+      ...(original.index && { index: original.index }),
+      ...(original.noteId && { noteId: original.noteId }),
+      ...attachments
+    };
+  }
+  return side;
+};
+
+/**
+ * Retire du HTML toutes les balises non autorisées et tous les attributs
+ * @param html Texte enrichi à afficher
+ */
+export const sanitizeRichText = (html: string): string => {
+  if (typeof DOMParser === 'undefined') return '';
+
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  const clean = (node: Element) => {
+    for (const child of Array.from(node.children)) {
+      const tag = child.tagName.toLowerCase();
+      if (tag === 'script' || tag === 'style') {
+        child.remove();
+        continue;
+      }
+      clean(child);
+      if (RICH_TEXT_TAGS.has(tag)) {
+        for (const attribute of Array.from(child.attributes)) child.removeAttribute(attribute.name);
+      } else {
+        child.replaceWith(...Array.from(child.childNodes));
+      }
+    }
+  };
+  clean(document.body);
+  return document.body.innerHTML;
+};
+
+/**
+ * Extrait le texte brut d'un texte enrichi
+ * @param html Texte enrichi
+ */
+export const htmlToPlainText = (html: string): string => {
+  const withBreaks = html.replace(/<br\s*\/?>/gi, '\n').replace(/<\/(p|div|li)>/gi, '\n');
+  if (typeof DOMParser === 'undefined') {
+    return withBreaks.replace(/<[^>]*>/g, '').trim();
+  }
+  const document = new DOMParser().parseFromString(withBreaks, 'text/html');
+  return (document.body.textContent ?? '').trim();
+};
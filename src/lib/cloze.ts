@@ -0,0 +1,158 @@
+/**
+ * Cartes à trous
+ *
+ * L'auteur écrit un texte une seule fois avec des trous numérotés
+ * ({{c1::réponse}} ou {{c1::réponse::indice}}). Chaque numéro donne une carte :
+ * au recto, les trous de ce numéro sont masqués et les autres affichent leur réponse ;
+ * au verso, la réponse est mise en évidence, suivie du verso supplémentaire.
+ *
+ * Ce module est purement fonctionnel ; la création et la mise à jour des cartes
+ * sont assurées par localStorage.ts.
+ */
+
+import { CLOZE_MARKER, CardSide } from './cardContent';
+import type { Flashcard } from '../types/localStorage';
+
+interface ClozeMatch {
+  index: number;
+  answer: string;
+  hint?: string;
+  start: number;
+  end: number;
+}
+
+const findClozes = (text: string): ClozeMatch[] => {
+  return Array.from(text.matchAll(new RegExp(CLOZE_MARKER.source, 'g')), match => ({
+    index: Number(match[1]),
+    answer: match[2],
+    hint: match[3] || undefined,
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+};
+
+const textToHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br>');
+};
+
+/**
+ * Numéros de trous présents dans un texte, triés et sans doublon
+ * @param text Texte à trous
+ */
+export const getClozeIndices = (text: string): number[] => {
+  return Array.from(new Set(findClozes(text).map(cloze => cloze.index))).sort((a, b) => a - b);
+};
+
+/**
+ * Numéro à utiliser pour le prochain trou ajouté au texte
+ * @param text Texte à trous
+ */
+export const getNextClozeIndex = (text: string): number => {
+  const indices = getClozeIndices(text);
+  return indices.length > 0 ? indices[indices.length - 1] + 1 : 1;
+};
+
+/**
+ * Réponse attendue pour un numéro de trou (plusieurs trous du même numéro sont séparés par des virgules)
+ * @param text Texte à trous
+ * @param index Numéro du trou
+ */
+export const getClozeAnswer = (text: string, index: number): string => {
+  return findClozes(text)
+    .filter(cloze => cloze.index === index)
+    .map(cloze => cloze.answer)
+    .join(', ');
+};
+
+/**
+ * Rend le texte à trous pour un numéro de trou
+ * @param text Texte à trous
+ * @param index Numéro du trou masqué
+ * @param reveal false pour le recto (trou masqué), true pour le verso (réponse mise en évidence)
+ * @returns Le rendu HTML et sa version texte brut
+ */
+export const renderCloze = (text: string, index: number, reveal: boolean): { html: string; text: string } => {
+  let html = '';
+  let plain = '';
+  let position = 0;
+
+  for (const cloze of findClozes(text)) {
+    const before = text.slice(position, cloze.start);
+    html += textToHtml(before);
+    plain += before;
+
+    if (cloze.index !== index) {
+      html += textToHtml(cloze.answer);
+      plain += cloze.answer;
+    } else if (reveal) {
+      html += `<mark>${textToHtml(cloze.answer)}</mark>`;
+      plain += cloze.answer;
+    } else {
+      const gap = `[${cloze.hint ?? '...'}]`;
+      html += `<b>${textToHtml(gap)}</b>`;
+      plain += gap;
+    }
+    position = cloze.end;
+  }
+
+  const rest = text.slice(position);
+  return { html: html + textToHtml(rest), text: plain + rest };
+};
+
+/**
+ * Faces à afficher pour une carte. Une carte à trous est rendue en texte enrichi :
+ * le recto avec le trou masqué, le verso avec la réponse puis le verso supplémentaire.
+ * Le texte brut du verso est la réponse attendue, utilisée par les modes quiz et écriture.
+ * @param card Carte enregistrée
+ */
+export const resolveCardSides = (card: Pick<Flashcard, 'front' | 'back'>): { front: CardSide; back: CardSide } => {
+  const { front, back } = card;
+  if (front.type !== 'cloze') return { front, back };
+
+  const index = front.index ?? getClozeIndices(front.text)[0] ?? 1;
+  const question = renderCloze(front.text, index, false);
+  const answer = renderCloze(front.text, index, true);
+  const extraHtml = back.type === 'richText' ? back.html : textToHtml(back.text);
+
+  return {
+    front: {
+      type: 'richText',
+      html: question.html,
+      text: question.text,
+      image: front.image,
+      audio: front.audio,
+      additionalInfo: front.additionalInfo
+    },
+    back: {
+      type: 'richText',
+      html: extraHtml.trim() ? `${answer.html}<br><br>${extraHtml}` : answer.html,
+      text: getClozeAnswer(front.text, index),
+      image: back.image,
+      audio: back.audio,
+      additionalInfo: back.additionalInfo
+    }
+  };
+};
+
+/**
+ * Entoure une partie du texte d'un nouveau trou
+ * @param text Texte à trous
+ * @param start Début de la sélection
+ * @param end Fin de la sélection
+ * @returns Le nouveau texte et la position du curseur après le trou
+ */
+export const wrapCloze = (text: string, start: number, end: number): { text: string; cursor: number } => {
+  const index = getNextClozeIndex(text);
+  const selection = text.slice(start, end);
+  const marker = `{{c${index}::${selection}}}`;
+  return {
+    text: text.slice(0, start) + marker + text.slice(end),
+    // Sans sélection, le curseur se place à l'emplacement de la réponse
+    cursor: selection ? start + marker.length : start + marker.length - 2
+  };
+};
@@ -0,0 +1,123 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import {
+  BUNDLE_VERSION,
+  buildDeckBundle,
+  LEGACY_JSON_VERSION,
+  parseDeckJson,
+  readDeckBundle,
+  readDeckFile,
+  sha256Hex
+} from './deckBundle';
+import { SharedDeckExport } from '../types/localStorage';
+
+const DATES = { createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' };
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+const AUDIO = 'data:audio/mpeg;base64,SUQzBAAAAAAA';
+
+const fixture: SharedDeckExport = {
+  deck: {
+    id: 'deck',
+    authorId: 'auteur',
+    title: 'Japonais',
+    description: 'Vocabulaire',
+    coverImage: IMAGE,
+    isPublic: false,
+    tags: ['japonais'],
+    ...DATES
+  },
+  themes: [{ id: 'animaux', deckId: 'deck', title: 'Animaux', description: '', ...DATES }],
+  flashcards: [
+    {
+      id: 'chat',
+      deckId: 'deck',
+      themeId: 'animaux',
+      front: { type: 'image', image: IMAGE, text: '猫' },
+      back: { type: 'text', text: 'chat', audio: AUDIO },
+      hints: ['miaou'],
+      ...DATES
+    },
+    {
+      id: 'chien',
+      deckId: 'deck',
+      front: { type: 'text', text: '犬' },
+      back: { type: 'text', text: 'chien' },
+      ...DATES
+    }
+  ],
+  exportDate: DATES.createdAt,
+  version: LEGACY_JSON_VERSION
+};
+
+const bundleBytes = async (data = fixture): Promise<ArrayBuffer> => {
+  const { blob } = await buildDeckBundle(data);
+  return blob.arrayBuffer();
+};
+
+/**
+ * Archive dont un fichier est remplacé ; les sommes CRC du zip restent valides,
+ * seule l'empreinte SHA-256 peut révéler la modification
+ */
+const tamper = async (path: string, edit: (text: string) => string, options: { updateChecksum?: boolean } = {}) => {
+  const zip = await JSZip.loadAsync(await bundleBytes());
+  const text = edit(await zip.file(path)!.async('string'));
+  zip.file(path, text);
+  if (options.updateChecksum) {
+    zip.file('manifest.sha256', `${await sha256Hex(new TextEncoder().encode(text))}  manifest.json\n`);
+  }
+  return zip.generateAsync({ type: 'arraybuffer' });
+};
+
+describe('readDeckBundle', () => {
+  it("redonne le deck exporté, médias compris, en ne stockant qu'une fois un média répété", async () => {
+    const { mediaCount } = await buildDeckBundle(fixture);
+    expect(mediaCount).toBe(2);
+
+    const zip = await JSZip.loadAsync(await bundleBytes());
+    expect(await zip.file('cards.json')!.async('string')).not.toContain('data:');
+
+    expect(await readDeckBundle(await bundleBytes())).toEqual({ ...fixture, version: BUNDLE_VERSION });
+  });
+
+  it('refuse des cartes modifiées', async () => {
+    const bytes = await tamper('cards.json', text => text.replace('chien', 'chat'));
+    await expect(readDeckBundle(bytes)).rejects.toThrow('Les cartes de l\'archive sont endommagées');
+  });
+
+  it('refuse un manifeste modifié', async () => {
+    const bytes = await tamper('manifest.json', text => text.replace('Japonais', 'Coréen'));
+    await expect(readDeckBundle(bytes)).rejects.toThrow('Somme de contrôle invalide');
+  });
+
+  it('refuse une archive tronquée', async () => {
+    const bytes = await bundleBytes();
+    await expect(readDeckBundle(bytes.slice(0, Math.floor(bytes.byteLength / 2)))).rejects.toThrow('Archive illisible');
+  });
+
+  it("refuse une archive d'une version plus récente", async () => {
+    const bytes = await tamper('manifest.json', text => text.replace(`"version": "${BUNDLE_VERSION}"`, '"version": "3.0"'), {
+      updateChecksum: true
+    });
+    await expect(readDeckBundle(bytes)).rejects.toThrow('Archive au format 3.0');
+  });
+});
+
+describe('fichiers JSON au format 1.0', () => {
+  const legacyJson = JSON.stringify({ ...fixture, version: undefined });
+
+  it('lit un deck JSON et lui attribue la version 1.0', async () => {
+    expect(parseDeckJson(legacyJson)).toEqual(fixture);
+    expect(await readDeckFile(new Blob([legacyJson]))).toEqual(fixture);
+  });
+
+  it('accepte les faces dans leur ancienne forme', () => {
+    const legacy = { ...fixture, flashcards: [{ id: 'ancienne', deckId: 'deck', front: 'Bonjour', back: { text: 'Hello' } }] };
+    expect(parseDeckJson(JSON.stringify(legacy)).flashcards).toHaveLength(1);
+  });
+
+  it("indique l'emplacement d'un champ manquant et refuse un JSON tronqué", () => {
+    const missingBack = { ...fixture, flashcards: [{ id: 'sans-verso', front: 'Bonjour' }] };
+    expect(() => parseDeckJson(JSON.stringify(missingBack))).toThrow('flashcards[0].back');
+    expect(() => parseDeckJson(legacyJson.slice(0, 50))).toThrow("Le fichier n'est pas un JSON valide");
+  });
+});
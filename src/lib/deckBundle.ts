@@ -0,0 +1,346 @@
+/**
+ * Archive de deck autonome (format 2.0)
+ *
+ * L'ancien export (format 1.0) est un seul fichier JSON dans lequel les images et les sons
+ * sont des data URL en base64, ce qui alourdit fortement le fichier. L'archive zip contient :
+ * - manifest.json : format, version, deck, thèmes et index des fichiers avec leur empreinte SHA-256 ;
+ * - cards.json : les cartes, dont les médias sont remplacés par une référence « bundle:media/... » ;
+ * - media/ : un fichier par média, nommé d'après son empreinte (un média utilisé plusieurs fois
+ *   n'est stocké qu'une fois) ;
+ * - manifest.sha256 : l'empreinte SHA-256 du manifeste, au format de sha256sum.
+ *
+ * À la lecture, l'empreinte du manifeste puis celle de chaque fichier sont vérifiées avant
+ * toute importation : un téléchargement corrompu ou tronqué est refusé avec un message clair.
+ * Les fichiers JSON au format 1.0 restent acceptés.
+ */
+
+import JSZip from 'jszip';
+import { z } from 'zod';
+import { mediaExtension } from './ankiPackage';
+import { cardSideSchema } from './cardContent';
+import { Flashcard, SharedDeckExport } from '../types/localStorage';
+
+export const BUNDLE_FORMAT = 'otaku-deck-bundle';
+export const BUNDLE_VERSION = '2.0';
+export const LEGACY_JSON_VERSION = '1.0';
+
+const MANIFEST_FILE = 'manifest.json';
+const CHECKSUM_FILE = 'manifest.sha256';
+const CARDS_FILE = 'cards.json';
+const MEDIA_REFERENCE_PREFIX = 'bundle:';
+
+const SHA256 = /^[0-9a-f]{64}$/;
+const MEDIA_PATH = /^media\/[0-9a-f]{64}\.[a-z0-9]+$/;
+const DATA_URL = /^data:([^;,]+)(;base64)?,(.*)$/s;
+
+const optionalText = z.string().optional().nullable();
+
+const deckSchema = z.object({
+  id: z.string({ required_error: "Identifiant manquant" }).min(1, "Identifiant manquant"),
+  title: z.string({ required_error: "Titre manquant" }),
+  description: optionalText,
+  coverImage: optionalText,
+  tags: z.array(z.string()).optional().nullable()
+}).passthrough();
+
+const themeSchema = z.object({
+  id: z.string({ required_error: "Identifiant manquant" }).min(1, "Identifiant manquant"),
+  title: z.string({ required_error: "Titre manquant" }),
+  description: optionalText,
+  coverImage: optionalText
+}).passthrough();
+
+// Format 1.0 : les faces peuvent encore être dans l'ancienne forme (chaîne ou objet sans type)
+const legacyCardSchema = z.object({
+  id: z.string({ required_error: "Identifiant manquant" }).min(1, "Identifiant manquant"),
+  themeId: optionalText,
+  front: z.unknown().refine(value => value !== undefined && value !== null, "Recto manquant"),
+  back: z.unknown().refine(value => value !== undefined && value !== null, "Verso manquant")
+}).passthrough();
+
+const legacyExportSchema = z.object({
+  deck: deckSchema,
+  themes: z.array(themeSchema, { required_error: "Liste des thèmes manquante" }),
+  flashcards: z.array(legacyCardSchema, { required_error: "Liste des cartes manquante" }),
+  exportDate: z.string().optional(),
+  version: z.string().optional()
+});
+
+// Format 2.0 : les cartes sont enregistrées au modèle typé actuel
+const bundleCardSchema = z.object({
+  id: z.string().min(1, "Identifiant manquant"),
+  themeId: optionalText,
+  front: cardSideSchema,
+  back: cardSideSchema,
+  hints: z.array(z.string()).optional(),
+  additionalInfo: z.string().optional()
+}).passthrough();
+
+const mediaEntrySchema = z.object({
+  path: z.string().regex(MEDIA_PATH, "Chemin de média invalide"),
+  sha256: z.string().regex(SHA256, "Empreinte SHA-256 invalide"),
+  size: z.number().int().nonnegative(),
+  mimeType: z.string().min(1)
+});
+
+const manifestSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT, { errorMap: () => ({ message: "Ce fichier n'est pas une archive de deck" }) }),
+  version: z.string().regex(/^\d+\.\d+$/, "Version invalide"),
+  exportDate: z.string(),
+  deck: deckSchema,
+  themes: z.array(themeSchema),
+  cards: z.object({
+    path: z.literal(CARDS_FILE),
+    sha256: z.string().regex(SHA256, "Empreinte SHA-256 invalide"),
+    count: z.number().int().nonnegative()
+  }),
+  media: z.array(mediaEntrySchema)
+});
+
+export type DeckBundleManifest = z.infer<typeof manifestSchema>;
+
+export interface DeckBundleExport {
+  blob: Blob;
+  fileName: string;
+  mediaCount: number;
+}
+
+/**
+ * Message lisible pour la première erreur de validation : « flashcards[3].front : Recto manquant »
+ * @param error Erreur zod
+ * @param context Fichier ou partie du fichier concernée
+ */
+const validationMessage = (error: z.ZodError, context: string): string => {
+  const issue = error.issues[0];
+  const path = issue.path
+    .map((part, index) => typeof part === 'number' ? `[${part}]` : `${index > 0 ? '.' : ''}${part}`)
+    .join('');
+  return `${context} invalide${path ? ` (${path})` : ''} : ${issue.message}`;
+};
+
+/**
+ * Empreinte SHA-256 en hexadécimal
+ */
+export const sha256Hex = async (data: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const decodeDataUrl = (match: RegExpMatchArray): Uint8Array => {
+  if (!match[2]) return new TextEncoder().encode(decodeURIComponent(match[3]));
+  const binary = atob(match[3]);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const encodeDataUrl = (mimeType: string, bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+/**
+ * Remplace chaque chaîne d'une valeur JSON (objets et tableaux compris)
+ */
+const mapStrings = <T>(value: T, replace: (text: string) => Promise<string>): Promise<T> => {
+  const visit = async (node: unknown): Promise<unknown> => {
+    if (typeof node === 'string') return replace(node);
+    if (Array.isArray(node)) return Promise.all(node.map(visit));
+    if (node && typeof node === 'object') {
+      const entries = await Promise.all(Object.entries(node).map(async ([key, child]) => [key, await visit(child)]));
+      return Object.fromEntries(entries);
+    }
+    return node;
+  };
+  return visit(value) as Promise<T>;
+};
+
+/**
+ * Valide un deck exporté au format JSON 1.0
+ * @param text Contenu du fichier
+ * @throws Error avec un message indiquant l'emplacement de la première erreur
+ */
+export const parseDeckJson = (text: string): SharedDeckExport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Le fichier n'est pas un JSON valide (fichier tronqué ou modifié ?)");
+  }
+
+  if (data && typeof data === 'object' && (data as { format?: unknown }).format === BUNDLE_FORMAT) {
+    throw new Error("Ce manifeste appartient à une archive de deck : importez le fichier .zip complet");
+  }
+
+  const result = legacyExportSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(validationMessage(result.error, "Deck"));
+  }
+  return {
+    ...(data as SharedDeckExport),
+    version: result.data.version ?? LEGACY_JSON_VERSION
+  };
+};
+
+/**
+ * Construit l'archive d'un deck : les data URL (cartes, couvertures) deviennent des fichiers
+ * @param data Deck, thèmes et cartes (voir exportDeckToJson)
+ */
+export const buildDeckBundle = async (data: SharedDeckExport): Promise<DeckBundleExport> => {
+  const zip = new JSZip();
+  const media = new Map<string, z.infer<typeof mediaEntrySchema>>();
+
+  const externalize = async (text: string): Promise<string> => {
+    const match = text.match(DATA_URL);
+    const extension = match && mediaExtension(match[1]);
+    if (!match || !extension) return text;
+
+    const bytes = decodeDataUrl(match);
+    const sha256 = await sha256Hex(bytes);
+    const path = `media/${sha256}.${extension}`;
+    if (!media.has(path)) {
+      zip.file(path, bytes, { compression: 'STORE' });
+      media.set(path, { path, sha256, size: bytes.length, mimeType: match[1] });
+    }
+    return `${MEDIA_REFERENCE_PREFIX}${path}`;
+  };
+
+  const deck = await mapStrings(data.deck, externalize);
+  const themes = await mapStrings(data.themes, externalize);
+  const cards = await mapStrings(data.flashcards, externalize);
+
+  const cardsBytes = new TextEncoder().encode(JSON.stringify(cards));
+  zip.file(CARDS_FILE, cardsBytes);
+
+  const manifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportDate: data.exportDate ?? new Date().toISOString(),
+    deck,
+    themes,
+    cards: { path: CARDS_FILE, sha256: await sha256Hex(cardsBytes), count: cards.length },
+    media: Array.from(media.values())
+  };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+  zip.file(MANIFEST_FILE, manifestBytes);
+  zip.file(CHECKSUM_FILE, `${await sha256Hex(manifestBytes)}  ${MANIFEST_FILE}\n`);
+
+  return {
+    // Les médias, déjà compressés, sont stockés tels quels ; seuls les fichiers JSON sont compressés
+    blob: await zip.generateAsync({ type: 'blob', compression: 'DEFLATE' }),
+    fileName: `${data.deck.title.replace(/\s+/g, '_') || 'exported'}_deck.zip`,
+    mediaCount: media.size
+  };
+};
+
+/**
+ * Lit une archive de deck après avoir vérifié son intégrité
+ * @param data Contenu du fichier .zip
+ * @returns Le deck au format d'import, médias remis en data URL
+ * @throws Error si l'archive est illisible, corrompue, tronquée, d'une version non prise en charge ou invalide
+ */
+export const readDeckBundle = async (data: ArrayBuffer | Blob): Promise<SharedDeckExport> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data, { checkCRC32: true });
+  } catch {
+    throw new Error("Archive illisible : le fichier est corrompu ou le téléchargement est incomplet");
+  }
+
+  const readBytes = async (path: string): Promise<Uint8Array> => {
+    const file = zip.file(path);
+    if (!file) throw new Error(`Fichier manquant dans l'archive : ${path}`);
+    try {
+      return await file.async('uint8array');
+    } catch {
+      throw new Error(`Fichier corrompu dans l'archive : ${path}`);
+    }
+  };
+
+  const manifestBytes = await readBytes(MANIFEST_FILE);
+  const checksum = new TextDecoder().decode(await readBytes(CHECKSUM_FILE)).trim().split(/\s+/)[0]?.toLowerCase();
+  if (!checksum || !SHA256.test(checksum)) {
+    throw new Error("Somme de contrôle de l'archive illisible");
+  }
+  if (await sha256Hex(manifestBytes) !== checksum) {
+    throw new Error("Somme de contrôle invalide : le manifeste a été modifié ou endommagé");
+  }
+
+  let rawManifest: unknown;
+  try {
+    rawManifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new Error("Manifeste illisible");
+  }
+  const version = (rawManifest as { version?: unknown })?.version;
+  if (typeof version === 'string' && Number.parseInt(version, 10) > Number.parseInt(BUNDLE_VERSION, 10)) {
+    throw new Error(`Archive au format ${version}, plus récent que celui pris en charge (${BUNDLE_VERSION}) : mettez l'application à jour`);
+  }
+  const manifestResult = manifestSchema.safeParse(rawManifest);
+  if (!manifestResult.success) {
+    throw new Error(validationMessage(manifestResult.error, "Manifeste"));
+  }
+  const manifest = manifestResult.data;
+
+  const cardsBytes = await readBytes(manifest.cards.path);
+  if (await sha256Hex(cardsBytes) !== manifest.cards.sha256) {
+    throw new Error("Les cartes de l'archive sont endommagées (empreinte SHA-256 différente)");
+  }
+  let rawCards: unknown;
+  try {
+    rawCards = JSON.parse(new TextDecoder().decode(cardsBytes));
+  } catch {
+    throw new Error("Cartes de l'archive illisibles");
+  }
+
+  // Médias vérifiés puis remis en data URL, comme dans le format 1.0
+  const dataUrls = new Map<string, string>();
+  for (const entry of manifest.media) {
+    const bytes = await readBytes(entry.path);
+    if (bytes.length !== entry.size || await sha256Hex(bytes) !== entry.sha256) {
+      throw new Error(`Média endommagé dans l'archive : ${entry.path}`);
+    }
+    dataUrls.set(`${MEDIA_REFERENCE_PREFIX}${entry.path}`, encodeDataUrl(entry.mimeType, bytes));
+  }
+
+  const inline = async (text: string): Promise<string> => {
+    if (!text.startsWith(MEDIA_REFERENCE_PREFIX) || !MEDIA_PATH.test(text.slice(MEDIA_REFERENCE_PREFIX.length))) {
+      return text;
+    }
+    const dataUrl = dataUrls.get(text);
+    if (!dataUrl) throw new Error(`Média référencé mais absent du manifeste : ${text.slice(MEDIA_REFERENCE_PREFIX.length)}`);
+    return dataUrl;
+  };
+
+  const cardsResult = z.array(bundleCardSchema).safeParse(await mapStrings(rawCards, inline));
+  if (!cardsResult.success) {
+    throw new Error(validationMessage(cardsResult.error, "Cartes"));
+  }
+  if (cardsResult.data.length !== manifest.cards.count) {
+    throw new Error(`L'archive annonce ${manifest.cards.count} carte(s) mais en contient ${cardsResult.data.length}`);
+  }
+
+  return {
+    deck: await mapStrings(manifest.deck, inline) as unknown as SharedDeckExport['deck'],
+    themes: await mapStrings(manifest.themes, inline) as unknown as SharedDeckExport['themes'],
+    flashcards: cardsResult.data as unknown as Flashcard[],
+    exportDate: manifest.exportDate,
+    version: manifest.version
+  };
+};
+
+/**
+ * Lit un fichier de deck : archive zip (format 2.0) ou JSON (format 1.0)
+ * @param file Fichier choisi par l'utilisateur
+ * @throws Error avec un message destiné à l'utilisateur
+ */
+export const readDeckFile = async (file: Blob): Promise<SharedDeckExport> => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  // Signature « PK » des archives zip
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+    return readDeckBundle(buffer);
+  }
+  return parseDeckJson(new TextDecoder().decode(bytes));
+};
@@ -0,0 +1,216 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  detectDelimiters,
+  exportDelimitedText,
+  guessColumnRoles,
+  importDelimitedCards,
+  NEWLINE,
+  parseDelimitedText,
+  rowsToCards
+} from './delimitedText';
+import { createDeckWithContent } from './localStorage';
+import { Deck, Flashcard, SharedDeckExport, Theme } from '../types/localStorage';
+
+// L'import prépare deck, thèmes et cartes puis les confie à createDeckWithContent, seule écriture en base
+vi.mock('./localStorage', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./localStorage')>(),
+  createDeckWithContent: vi.fn(async () => undefined)
+}));
+
+const DATES = { createdAt: '2026-01-01T00:00:00.000Z', updatedAt: '2026-01-01T00:00:00.000Z' };
+const IMAGE = 'data:image/png;base64,iVBORw0KGgo=';
+const AUDIO = 'data:audio/mpeg;base64,SUQzBAAAAAAA';
+
+const card = (id: string, fields: Partial<Flashcard> & Pick<Flashcard, 'front' | 'back'>): Flashcard => ({
+  id,
+  deckId: 'deck',
+  ...DATES,
+  ...fields
+});
+
+const fixture: SharedDeckExport = {
+  deck: {
+    id: 'deck',
+    authorId: 'auteur',
+    title: 'Japonais',
+    description: '',
+    isPublic: false,
+    tags: ['japonais', 'vocabulaire'],
+    ...DATES
+  },
+  themes: [
+    { id: 'animaux', deckId: 'deck', title: 'Animaux', description: '', ...DATES },
+    { id: 'phrases', deckId: 'deck', title: 'Phrases, « expressions »', description: '', ...DATES }
+  ],
+  flashcards: [
+    card('texte', {
+      themeId: 'animaux',
+      front: { type: 'text', text: '猫', readings: ['ねこ', 'neko'], additionalInfo: 'Kanji N5' },
+      back: { type: 'text', text: 'chat', image: IMAGE, additionalInfo: 'Animal "domestique"' },
+      hints: ['miaou', 'félin'],
+      additionalInfo: 'Note\nsur deux lignes'
+    }),
+    card('enrichi', {
+      themeId: 'phrases',
+      front: { type: 'richText', html: '<p><strong>おはよう</strong>, ござい</p>', text: 'おはよう, ござい' },
+      back: { type: 'richText', html: '<em>bonjour</em>', text: 'bonjour', audio: AUDIO }
+    }),
+    card('image', {
+      front: { type: 'image', image: IMAGE, text: 'Légende ; avec point-virgule' },
+      back: { type: 'audio', audio: AUDIO, text: '' }
+    }),
+    card('image-sans-legende', {
+      front: { type: 'image', image: IMAGE, text: '' },
+      back: { type: 'text', text: 'chien' }
+    }),
+    card('trou-1', {
+      front: { type: 'cloze', text: '{{c1::東京}} est la capitale du {{c2::Japon}}', index: 1, noteId: 'note' },
+      back: { type: 'text', text: '' }
+    }),
+    card('trou-2', {
+      front: { type: 'cloze', text: '{{c1::東京}} est la capitale du {{c2::Japon}}', index: 2, noteId: 'note' },
+      back: { type: 'text', text: 'Géographie' }
+    })
+  ],
+  exportDate: DATES.createdAt,
+  version: '1.0'
+};
+
+/**
+ * Relit un export comme le fait CSVImporter : découpage, rôles devinés d'après l'en-tête, cartes
+ */
+const reimport = (text: string, field: string) => {
+  const [header, ...rows] = parseDelimitedText(text, { field, row: NEWLINE });
+  return rowsToCards(rows, guessColumnRoles(header.length, header));
+};
+
+describe('exportDelimitedText', () => {
+  for (const [format, field] of [['CSV', ','], ['TSV', '\t']] as const) {
+    it(`redonne les mêmes cartes après export ${format} puis import`, () => {
+      const { text, rowCount, roundTripErrors } = exportDelimitedText(fixture, field);
+      expect(rowCount).toBe(fixture.flashcards.length);
+      expect(roundTripErrors).toEqual([]);
+
+      const themes = new Map(fixture.themes.map(theme => [theme.id, theme.title]));
+      expect(reimport(text, field)).toEqual(fixture.flashcards.map(original => ({
+        front: original.front,
+        back: original.back,
+        hints: original.hints ?? [],
+        additionalInfo: original.additionalInfo,
+        theme: original.themeId ? themes.get(original.themeId) : undefined,
+        tags: fixture.deck.tags
+      })));
+    });
+  }
+
+  it('met entre guillemets les valeurs qui le demandent (RFC 4180)', () => {
+    const { text } = exportDelimitedText(fixture, ',');
+    expect(text).toContain('"Phrases, « expressions »"');
+    expect(text).toContain('"Animal ""domestique"""');
+    expect(text).toContain('"Note\nsur deux lignes"');
+    expect(text.endsWith('\r\n')).toBe(true);
+  });
+
+  it("signale les cartes que l'import ne redonnerait pas à l'identique", () => {
+    const lossy: SharedDeckExport = {
+      ...fixture,
+      flashcards: [
+        card('indice', { front: { type: 'text', text: 'indice' }, back: { type: 'text', text: 'a' }, hints: ['un ; deux'] }),
+        card('espaces', { front: { type: 'text', text: ' espaces ' }, back: { type: 'text', text: 'b' } }),
+        card('media', { front: { type: 'text', text: 'media', image: 'images/chat.png' }, back: { type: 'text', text: 'c' } })
+      ]
+    };
+    expect(exportDelimitedText(lossy, ',').roundTripErrors).toEqual(['indice', ' espaces ', 'media']);
+  });
+});
+
+/**
+ * Importe des cartes comme CSVImporter et renvoie ce qui serait enregistré
+ */
+const importCards = async (text: string, field: string) => {
+  vi.mocked(createDeckWithContent).mockClear();
+  await importDelimitedCards(reimport(text, field), {
+    title: fixture.deck.title,
+    description: fixture.deck.description,
+    authorId: fixture.deck.authorId,
+    tags: ['importé', 'csv']
+  });
+  const [deck, themes, flashcards] = vi.mocked(createDeckWithContent).mock.calls[0] as [Deck, Theme[], Flashcard[]];
+  return { deck, themes, flashcards };
+};
+
+// Contenu d'une carte, sans identifiants ni dates ; le thème est désigné par son titre
+const cardContent = (card: Flashcard, themes: Theme[]) => ({
+  theme: themes.find(theme => theme.id === card.themeId)?.title,
+  front: card.front,
+  back: card.back,
+  hints: card.hints,
+  additionalInfo: card.additionalInfo
+});
+
+describe('importDelimitedCards', () => {
+  it('recrée le deck exporté : deck, thèmes et cartes', async () => {
+    const { text } = exportDelimitedText(fixture, ',');
+    const { deck, themes, flashcards } = await importCards(text, ',');
+
+    expect(deck).toMatchObject({
+      title: fixture.deck.title,
+      description: fixture.deck.description,
+      authorId: fixture.deck.authorId,
+      tags: ['importé', 'csv', ...fixture.deck.tags]
+    });
+    expect(themes.map(theme => ({ deckId: theme.deckId, title: theme.title, description: theme.description })))
+      .toEqual(fixture.themes.map(theme => ({ deckId: deck.id, title: theme.title, description: theme.description })));
+    expect(flashcards.every(card => card.deckId === deck.id)).toBe(true);
+    expect(flashcards.map(card => cardContent(card, themes)))
+      .toEqual(fixture.flashcards.map(card => cardContent(card, fixture.themes)));
+  });
+
+  it('réunit les thèmes qui ne diffèrent que par la casse ou les espaces', async () => {
+    const text = 'Recto,Verso,Thème,Tags\r\nchat,cat,Animaux,anglais\r\nchien,dog, animaux ,anglais; bases\r\n';
+    const { deck, themes, flashcards } = await importCards(text, ',');
+
+    expect(themes.map(theme => theme.title)).toEqual(['Animaux']);
+    expect(flashcards.map(card => card.themeId)).toEqual([themes[0].id, themes[0].id]);
+    expect(deck.tags).toEqual(['importé', 'csv', 'anglais', 'bases']);
+  });
+});
+
+describe('rowsToCards', () => {
+  it('déduit le type des faces sans colonne de type', () => {
+    const [cardFromRow] = rowsToCards([['', 'chat', IMAGE]], ['front', 'back', 'image']);
+    expect(cardFromRow.front).toEqual({ type: 'image', image: IMAGE, text: '' });
+    expect(cardFromRow.back).toEqual({ type: 'text', text: 'chat' });
+  });
+
+  it('ignore un type incompatible avec le contenu de la face', () => {
+    const [cardFromRow] = rowsToCards([['recto', 'verso', 'cloze', 'richText']], ['front', 'back', 'frontType', 'backType']);
+    expect(cardFromRow.front).toEqual({ type: 'text', text: 'recto' });
+    expect(cardFromRow.back).toEqual({ type: 'text', text: 'verso' });
+  });
+
+  it('ignore les lignes sans recto et celles sans verso hors texte à trous', () => {
+    const rows = [['', 'verso', 'text'], ['recto', '', 'text'], ['{{c1::trou}}', '', 'cloze']];
+    expect(rowsToCards(rows, ['front', 'back', 'frontType'])).toEqual([
+      { front: { type: 'cloze', text: '{{c1::trou}}' }, back: { type: 'text', text: '' }, hints: [], tags: [] }
+    ]);
+  });
+});
+
+describe('detectDelimiters', () => {
+  it('reconnaît CSV, TSV et points-virgules', () => {
+    expect(detectDelimiters('recto,verso\nchat,cat')).toEqual({ field: ',', row: NEWLINE });
+    expect(detectDelimiters('recto;verso\nchat;cat')).toEqual({ field: ';', row: NEWLINE });
+    expect(detectDelimiters('recto\tverso\nchat\tcat; chatte')).toEqual({ field: '\t', row: NEWLINE });
+  });
+
+  it('reconnaît un export Quizlet sur une seule ligne', () => {
+    expect(detectDelimiters('chat\tcat;chien\tdog;')).toEqual({ field: '\t', row: ';' });
+  });
+
+  it("garde entière une carte TSV dont la définition contient « ; »", () => {
+    const text = 'chat\tcat; chatte';
+    expect(detectDelimiters(text)).toEqual({ field: '\t', row: NEWLINE });
+    expect(parseDelimitedText(text, detectDelimiters(text))).toEqual([['chat', 'cat; chatte']]);
+  });
+});
@@ -0,0 +1,514 @@
+/**
+ * Import de texte délimité (CSV, TSV, export Quizlet)
+ *
+ * Le texte est découpé en lignes et en colonnes, puis chaque colonne reçoit un rôle
+ * (recto, verso, indices, thème...) choisi par l'utilisateur. Sans ligne d'en-tête,
+ * les colonnes gardent l'ordre historique de l'import CSV : recto, verso,
+ * information du recto, information du verso.
+ *
+ * Quizlet exporte un terme et sa définition par ligne, séparés par une tabulation
+ * (ou une virgule), et les lignes par un saut de ligne ou un point-virgule :
+ * « terme<TAB>définition;terme<TAB>définition ».
+ *
+ * L'export écrit une colonne par champ, avec une ligne d'en-tête que l'import reconnaît :
+ * texte, type, HTML, image, son, information et lectures de chaque face, numéro de trou
+ * et note des textes à trous, indices, note, thème et tags. Un fichier exporté puis importé
+ * redonne les mêmes cartes, à quelques exceptions près signalées à l'export : espaces en
+ * bordure des textes, indices contenant « ; ». Les identifiants et les dates sont recréés
+ * à l'import, et seuls les titres des thèmes sont exportés.
+ */
+
+import { buildDeck, buildFlashcard, buildTheme, createDeckWithContent } from './localStorage';
+import { CARD_SIDE_TYPES, CLOZE_MARKER, createCardSide } from './cardContent';
+import { normalizeAnswer } from './answerMatching';
+import { parseReadings } from './japanese';
+import { CardSide, CardSideAttachments, Deck, Flashcard, SharedDeckExport, Theme } from '../types/localStorage';
+
+// Séparateur de lignes valant « saut de ligne » (\n ou \r\n)
+export const NEWLINE = '\n';
+
+export type ColumnRole =
+  | 'front'
+  | 'back'
+  | 'hints'
+  | 'additionalInfo'
+  | 'frontInfo'
+  | 'backInfo'
+  | 'theme'
+  | 'tags'
+  | 'image'
+  | 'backImage'
+  | 'frontAudio'
+  | 'backAudio'
+  | 'frontType'
+  | 'backType'
+  | 'frontHtml'
+  | 'backHtml'
+  | 'frontReadings'
+  | 'backReadings'
+  | 'clozeIndex'
+  | 'noteId'
+  | 'ignore';
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  front: 'Recto',
+  back: 'Verso',
+  hints: 'Indices',
+  additionalInfo: 'Note de la carte',
+  frontInfo: 'Info recto',
+  backInfo: 'Info verso',
+  theme: 'Thème',
+  tags: 'Tags',
+  image: "URL d'image (recto)",
+  backImage: "URL d'image (verso)",
+  frontAudio: 'Audio recto',
+  backAudio: 'Audio verso',
+  frontType: 'Type du recto',
+  backType: 'Type du verso',
+  frontHtml: 'HTML du recto',
+  backHtml: 'HTML du verso',
+  frontReadings: 'Lectures recto',
+  backReadings: 'Lectures verso',
+  clozeIndex: 'N° de trou',
+  noteId: 'Note à trous',
+  ignore: 'Ignorer'
+};
+
+// Noms d'en-tête reconnus pour chaque rôle, comparés sans accents ni casse
+const HEADER_NAMES: Partial<Record<ColumnRole, string[]>> = {
+  front: ['recto', 'front', 'terme', 'term', 'question', 'mot'],
+  back: ['verso', 'back', 'definition', 'reponse', 'answer', 'sens'],
+  hints: ['indices', 'indice', 'hints', 'hint'],
+  additionalInfo: ['note', 'notes', 'additionalinfo', 'informations', 'info'],
+  frontInfo: ['info recto', 'front info', 'frontinfo'],
+  backInfo: ['info verso', 'back info', 'backinfo'],
+  theme: ['theme', 'themes', 'categorie', 'category', 'deck'],
+  tags: ['tags', 'tag', 'etiquettes'],
+  image: ['image', 'images', 'url image', 'image url', 'imageurl', 'image recto', 'front image'],
+  backImage: ['image verso', 'back image'],
+  frontAudio: ['audio recto', 'audio', 'front audio'],
+  backAudio: ['audio verso', 'back audio'],
+  frontType: ['type recto', 'front type'],
+  backType: ['type verso', 'back type'],
+  frontHtml: ['html recto', 'front html'],
+  backHtml: ['html verso', 'back html'],
+  frontReadings: ['lectures recto', 'lectures', 'readings', 'front readings'],
+  backReadings: ['lectures verso', 'back readings'],
+  clozeIndex: ['trou', 'cloze index'],
+  noteId: ['id note', 'note id']
+};
+
+// Colonnes qui décrivent chaque face
+const SIDE_ROLES = {
+  front: { text: 'front', type: 'frontType', html: 'frontHtml', image: 'image', audio: 'frontAudio', info: 'frontInfo', readings: 'frontReadings' },
+  back: { text: 'back', type: 'backType', html: 'backHtml', image: 'backImage', audio: 'backAudio', info: 'backInfo', readings: 'backReadings' }
+} as const satisfies Record<'front' | 'back', Record<string, ColumnRole>>;
+
+const DEFAULT_ROLES: ColumnRole[] = ['front', 'back', 'frontInfo', 'backInfo'];
+
+export interface Delimiters {
+  field: string;
+  row: string;
+}
+
+export interface DelimitedCard {
+  front: CardSide;
+  back: CardSide;
+  hints: string[];
+  additionalInfo?: string;
+  theme?: string;
+  tags: string[];
+}
+
+export interface DelimitedExport {
+  text: string;
+  rowCount: number;
+  roundTripErrors: string[]; // Recto des cartes que l'import ne redonnerait pas à l'identique
+}
+
+// Contenu d'une face lu dans les colonnes d'une ligne
+interface SideColumns {
+  text: string;
+  type?: string;
+  html?: string;
+  image?: string;
+  audio?: string;
+  additionalInfo?: string;
+  readings: string[];
+}
+
+export interface DelimitedImportOptions {
+  title: string;
+  description: string;
+  authorId: string;
+  tags?: string[]; // Tags ajoutés au deck en plus de ceux des cartes
+}
+
+export interface DelimitedImportResult {
+  deck: Deck;
+  cardCount: number;
+  themeCount: number;
+}
+
+/**
+ * Devine les séparateurs d'un texte à partir de sa première ligne.
+ * Une seule ligne contenant des tabulations et des points-virgules est un export Quizlet
+ * dont les lignes sont séparées par des points-virgules, si ce découpage donne au moins
+ * deux paires terme / définition : sinon c'est une seule carte dont un champ contient « ; ».
+ * @param text Texte à importer
+ */
+export const detectDelimiters = (text: string): Delimiters => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const sampleLine = lines[0] ?? '';
+
+  if (sampleLine.includes('\t')) {
+    const quizletPairs = lines.length === 1 && sampleLine.includes(';')
+      ? parseDelimitedText(sampleLine, { field: '\t', row: ';' })
+        .filter(([term, definition]) => term?.trim() && definition?.trim())
+      : [];
+    return { field: '\t', row: quizletPairs.length >= 2 ? ';' : NEWLINE };
+  }
+  if (sampleLine.includes(';')) return { field: ';', row: NEWLINE };
+  return { field: ',', row: NEWLINE };
+};
+
+/**
+ * Découpe un texte délimité en lignes et en colonnes.
+ * Une valeur entre guillemets peut contenir les séparateurs et des sauts de ligne ;
+ * un guillemet doublé à l'intérieur vaut un guillemet. Les lignes vides sont ignorées.
+ * @param text Texte à découper
+ * @param delimiters Séparateurs des colonnes et des lignes
+ */
+export const parseDelimitedText = (text: string, delimiters: Delimiters): string[][] => {
+  const { field, row: rowDelimiter } = delimiters;
+  const source = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = '';
+  let insideQuotes = false;
+  let quoted = false;
+
+  const endValue = () => {
+    row.push(quoted ? value : value.trim());
+    value = '';
+    quoted = false;
+  };
+  const endRow = () => {
+    endValue();
+    rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (insideQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        insideQuotes = false;
+      } else {
+        value += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && value.trim() === '' && !quoted) {
+      // Les espaces avant le guillemet ouvrant ne font pas partie de la valeur
+      insideQuotes = true;
+      quoted = true;
+      value = '';
+    } else if (source.startsWith(field, i)) {
+      endValue();
+      i += field.length - 1;
+    } else if (rowDelimiter === NEWLINE && (char === '\n' || char === '\r')) {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else if (rowDelimiter !== NEWLINE && source.startsWith(rowDelimiter, i)) {
+      endRow();
+      i += rowDelimiter.length - 1;
+    } else if (!quoted) {
+      value += char;
+    }
+  }
+  if (value !== '' || quoted || row.length > 0) endRow();
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * Indique si une ligne ressemble à une ligne d'en-tête (au moins un nom de colonne reconnu)
+ * @param row Première ligne du texte
+ */
+export const looksLikeHeader = (row: string[]): boolean => {
+  const names = Object.values(HEADER_NAMES).flat();
+  return row.some(cell => names.includes(normalizeAnswer(cell)));
+};
+
+/**
+ * Rôle proposé pour chaque colonne, d'après la ligne d'en-tête si elle existe
+ * @param columnCount Nombre de colonnes
+ * @param header Noms des colonnes, ou null sans ligne d'en-tête
+ */
+export const guessColumnRoles = (columnCount: number, header: string[] | null): ColumnRole[] => {
+  const roles: ColumnRole[] = Array.from({ length: columnCount }, (_, index) => header ? 'ignore' : DEFAULT_ROLES[index] ?? 'ignore');
+  if (!header) return roles;
+
+  const used = new Set<ColumnRole>();
+  header.forEach((name, index) => {
+    const normalized = normalizeAnswer(name);
+    const role = (Object.keys(HEADER_NAMES) as ColumnRole[])
+      .find(candidate => !used.has(candidate) && HEADER_NAMES[candidate]?.includes(normalized));
+    if (role && index < columnCount) {
+      roles[index] = role;
+      used.add(role);
+    }
+  });
+
+  // En-tête non reconnu : les deux premières colonnes restent le recto et le verso
+  if (!used.has('front') && !used.has('back') && columnCount >= 2 && roles[0] === 'ignore' && roles[1] === 'ignore') {
+    roles[0] = 'front';
+    roles[1] = 'back';
+  }
+  return roles;
+};
+
+const splitList = (value: string, separator: RegExp): string[] => {
+  return value.split(separator).map(item => item.trim()).filter(Boolean);
+};
+
+/**
+ * Face décrite par les colonnes d'une ligne. Sans colonne de type, la face prend le type
+ * de son contenu principal, comme à la saisie ; un type incompatible avec le contenu
+ * (texte enrichi sans HTML, texte à trous sans trou...) est ignoré de la même façon.
+ * @param columns Texte et pièces jointes de la face
+ * @param cloze Numéro de trou et note des textes à trous
+ */
+const buildSide = (columns: SideColumns, cloze: { index?: number; noteId?: string }): CardSide => {
+  const { text, html, image, audio, additionalInfo, readings } = columns;
+  const attachments: CardSideAttachments = {
+    ...(image && { image }),
+    ...(audio && { audio }),
+    ...(additionalInfo && { additionalInfo }),
+    ...(readings.length > 0 && { readings })
+  };
+  const type = CARD_SIDE_TYPES.find(candidate => candidate.toLowerCase() === columns.type?.toLowerCase());
+
+  switch (type) {
+    case 'text':
+      return { type, text, ...attachments };
+    case 'richText':
+      if (html) return { type, html, text, ...attachments };
+      break;
+    case 'image':
+      if (image) return { type, text, ...attachments, image };
+      break;
+    case 'audio':
+      if (audio) return { type, text, ...attachments, audio };
+      break;
+    case 'cloze':
+      if (new RegExp(CLOZE_MARKER.source).test(text)) {
+        return {
+          type,
+          text,
+          ...(cloze.index && { index: cloze.index }),
+          ...(cloze.noteId && { noteId: cloze.noteId }),
+          ...attachments
+        };
+      }
+      break;
+  }
+  return createCardSide({ text, ...attachments });
+};
+
+const isEmptySide = (side: CardSide): boolean => {
+  return !side.text.trim() && !side.image && !side.audio && !(side.type === 'richText' && side.html.trim());
+};
+
+/**
+ * Convertit les lignes en cartes selon le rôle de chaque colonne.
+ * Plusieurs colonnes de recto, de verso ou de note sont réunies ligne par ligne ;
+ * les indices sont séparés par « ; », les tags par « , » ou « ; » et les lectures par « , ».
+ * Les lignes sans recto, ou sans verso hors texte à trous, sont ignorées.
+ * @param rows Lignes de données, sans l'en-tête
+ * @param roles Rôle de chaque colonne
+ */
+export const rowsToCards = (rows: string[][], roles: ColumnRole[]): DelimitedCard[] => {
+  const cards: DelimitedCard[] = [];
+
+  for (const row of rows) {
+    const valuesOf = (role: ColumnRole) => roles
+      .map((columnRole, index) => columnRole === role ? (row[index] ?? '').trim() : '')
+      .filter(Boolean);
+    const joined = (role: ColumnRole) => valuesOf(role).join('\n') || undefined;
+    const url = (role: ColumnRole, kind: 'image' | 'audio') => valuesOf(role)
+      .find(value => new RegExp(`^(https?://|data:${kind}/)`, 'i').test(value));
+
+    const side = (roleOf: typeof SIDE_ROLES.front | typeof SIDE_ROLES.back) => buildSide({
+      text: joined(roleOf.text) ?? '',
+      type: valuesOf(roleOf.type)[0],
+      html: valuesOf(roleOf.html)[0],
+      image: url(roleOf.image, 'image'),
+      audio: url(roleOf.audio, 'audio'),
+      additionalInfo: joined(roleOf.info),
+      readings: valuesOf(roleOf.readings).flatMap(parseReadings)
+    }, {
+      index: Number.parseInt(valuesOf('clozeIndex')[0], 10) || undefined,
+      noteId: valuesOf('noteId')[0]
+    });
+
+    const front = side(SIDE_ROLES.front);
+    const back = side(SIDE_ROLES.back);
+    // Le verso d'un texte à trous est facultatif
+    if (isEmptySide(front) || (isEmptySide(back) && front.type !== 'cloze')) continue;
+
+    cards.push({
+      front,
+      back,
+      hints: valuesOf('hints').flatMap(value => splitList(value, /;/)),
+      additionalInfo: joined('additionalInfo'),
+      theme: valuesOf('theme')[0],
+      tags: valuesOf('tags').flatMap(value => splitList(value, /[,;]/))
+    });
+  }
+
+  return cards;
+};
+
+/**
+ * Crée un deck à partir des cartes lues, avec un thème par nom de la colonne « Thème »
+ * @param cards Cartes produites par rowsToCards
+ * @param options Titre, description, auteur et tags du deck
+ */
+export const importDelimitedCards = async (
+  cards: DelimitedCard[],
+  options: DelimitedImportOptions
+): Promise<DelimitedImportResult> => {
+  const cardTags = cards.flatMap(card => card.tags);
+  const deck = buildDeck({
+    title: options.title,
+    description: options.description,
+    authorId: options.authorId,
+    isPublic: false,
+    tags: Array.from(new Set([...(options.tags ?? []), ...cardTags])),
+  });
+
+  // Les noms de thème qui ne diffèrent que par la casse ou les espaces désignent le même thème
+  const themes = new Map<string, Theme>();
+  for (const card of cards) {
+    const key = card.theme?.trim().toLowerCase();
+    if (!key || themes.has(key)) continue;
+    themes.set(key, buildTheme({ deckId: deck.id, title: card.theme.trim(), description: "" }));
+  }
+
+  const flashcards = cards.map(card => buildFlashcard({
+    deckId: deck.id,
+    themeId: card.theme ? themes.get(card.theme.trim().toLowerCase())?.id : undefined,
+    front: card.front,
+    back: card.back,
+    hints: card.hints.length > 0 ? card.hints : undefined,
+    additionalInfo: card.additionalInfo,
+  }));
+
+  // Deck, thèmes et cartes sont écrits ensemble : un échec n'enregistre rien
+  await createDeckWithContent(deck, Array.from(themes.values()), flashcards);
+
+  return { deck, cardCount: flashcards.length, themeCount: themes.size };
+};
+
+// Colonnes de l'export, dans l'ordre ; les identifiants sont ignorés à l'import
+const EXPORT_COLUMNS = [
+  'Recto', 'Verso', 'Indices', 'Note', 'Info recto', 'Info verso', 'Thème', 'Tags',
+  'Image recto', 'Image verso', 'Audio recto', 'Audio verso', 'Type recto', 'Type verso',
+  'HTML recto', 'HTML verso', 'Lectures recto', 'Lectures verso', 'Trou', 'ID note', 'ID carte', 'ID thème'
+];
+
+/**
+ * Met une valeur entre guillemets si nécessaire (RFC 4180) : séparateur, guillemet,
+ * saut de ligne ou espaces en bordure ; les guillemets intérieurs sont doublés
+ * @param value Valeur de la cellule
+ * @param field Séparateur des colonnes
+ */
+export const quoteDelimitedValue = (value: string, field: string): string => {
+  const needsQuotes = value.includes(field) || /["\r\n]/.test(value) || value !== value.trim();
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Assemble des lignes en texte délimité, avec des fins de ligne CRLF (RFC 4180)
+ * @param rows Lignes de cellules
+ * @param field Séparateur des colonnes
+ */
+export const formatDelimitedText = (rows: string[][], field: string): string => {
+  return rows.map(row => row.map(value => quoteDelimitedValue(value, field)).join(field)).join('\r\n') + '\r\n';
+};
+
+// Représentation comparable d'une valeur : clés triées, champs vides retirés
+const isBlank = (value: unknown) => value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+const canonicalJson = (value: unknown): string => JSON.stringify(value, (_key, child) => {
+  if (!child || typeof child !== 'object' || Array.isArray(child)) return child;
+  return Object.fromEntries(Object.entries(child).filter(([, item]) => !isBlank(item)).sort(([a], [b]) => a.localeCompare(b)));
+});
+
+/**
+ * Exporte les cartes d'un deck en CSV ou TSV.
+ * Le texte produit est relu comme le ferait l'import et comparé aux cartes d'origine :
+ * celles qui n'en reviendraient pas identiques (espaces en bordure, indice contenant « ; »,
+ * média qui n'est pas une URL...) sont signalées.
+ * @param data Deck, thèmes et cartes (voir exportDeckToJson)
+ * @param field Séparateur des colonnes : « , » pour CSV, tabulation pour TSV
+ */
+export const exportDelimitedText = (data: SharedDeckExport, field: ',' | '\t'): DelimitedExport => {
+  const themeTitles = new Map(data.themes.map(theme => [theme.id, theme.title]));
+  const tags = data.deck.tags ?? [];
+  const themeOf = (card: Flashcard) => card.themeId ? themeTitles.get(card.themeId) : undefined;
+  const cloze = (card: Flashcard) => card.front.type === 'cloze' ? card.front : undefined;
+
+  const rows = data.flashcards.map(card => [
+    card.front.text,
+    card.back.text,
+    (card.hints ?? []).join('; '),
+    card.additionalInfo ?? '',
+    card.front.additionalInfo ?? '',
+    card.back.additionalInfo ?? '',
+    themeOf(card) ?? '',
+    tags.join(', '),
+    card.front.image ?? '',
+    card.back.image ?? '',
+    card.front.audio ?? '',
+    card.back.audio ?? '',
+    card.front.type,
+    card.back.type,
+    card.front.type === 'richText' ? card.front.html : '',
+    card.back.type === 'richText' ? card.back.html : '',
+    (card.front.readings ?? []).join(', '),
+    (card.back.readings ?? []).join(', '),
+    cloze(card)?.index?.toString() ?? '',
+    cloze(card)?.noteId ?? '',
+    card.id,
+    card.themeId ?? ''
+  ]);
+
+  const text = formatDelimitedText([EXPORT_COLUMNS, ...rows], field);
+
+  // Relecture avec le même découpage et la même correspondance des colonnes que l'import
+  const parsed = parseDelimitedText(text, { field, row: NEWLINE });
+  const roles = guessColumnRoles(EXPORT_COLUMNS.length, parsed[0]);
+  const roundTripErrors = data.flashcards
+    .filter((card, index) => {
+      const [reimported] = rowsToCards([parsed[index + 1] ?? []], roles);
+      const original: DelimitedCard = {
+        front: card.front,
+        back: card.back,
+        hints: card.hints ?? [],
+        additionalInfo: card.additionalInfo || undefined,
+        theme: themeOf(card),
+        tags
+      };
+      return !reimported || canonicalJson(reimported) !== canonicalJson(original);
+    })
+    .map(card => card.front.text || card.id);
+
+  return { text, rowCount: rows.length, roundTripErrors };
+};
@@ -8,20 +8,181 @@
 
 // Import du système de sauvegarde
 import { backupData, getBackupData, hasBackup } from './storageBackup';
+import { normalizeFlashcard } from './cardContent';
 
 // Constantes pour la base de données
-const DB_NAME = 'cds-flashcard-db';
-const DB_VERSION = 1;
+export const DB_NAME = 'cds-flashcard-db';
+export const DB_VERSION = 5;
 const STORE_NAME = 'app-data';
+// Journal des révisions (une entrée par réponse, en ajout seul)
+export const REVIEW_LOG_STORE = 'review-log';
+
+// Dernier état échangé avec le serveur pour chaque entité synchronisée
+export const SYNC_META_STORE = 'sync-meta';
+
+// Object stores dédiés aux entités de l'application (un enregistrement par entité)
+export const STORES = {
+  USERS: 'users',
+  DECKS: 'decks',
+  THEMES: 'themes',
+  FLASHCARDS: 'flashcards',
+  SHARE_CODES: 'share-codes',
+  REVIEWS: 'reviews'
+} as const;
+
+// Object store clé-valeur utilisé par loadData/saveData
+export const APP_DATA_STORE = STORE_NAME;
+
+// Clé de 'app-data' contenant l'identifiant de l'utilisateur courant
+export const CURRENT_USER_KEY = 'currentUserId';
 
 // Indication si IndexedDB est disponible et fonctionnel
 let isIndexedDBAvailable = true;
 
 /**
- * Initialise la base de données IndexedDB avec la structure nécessaire.
+ * Migration du schéma de la base de données
+ * Chaque migration est exécutée une seule fois, dans l'ordre des versions,
+ * à l'intérieur de la transaction de mise à niveau.
+ */
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Anciennes clés de 'app-data' contenant des tableaux complets, et l'object store qui les remplace
+const LEGACY_ARRAY_KEYS: { key: string; storeName: string; keyPath: string }[] = [
+  { key: 'decks', storeName: STORES.DECKS, keyPath: 'id' },
+  { key: 'themes', storeName: STORES.THEMES, keyPath: 'id' },
+  { key: 'flashcards', storeName: STORES.FLASHCARDS, keyPath: 'id' },
+  { key: 'sharedCodes', storeName: STORES.SHARE_CODES, keyPath: 'code' },
+  { key: 'reviewStates', storeName: STORES.REVIEWS, keyPath: 'cardId' }
+];
+
+/**
+ * Lit une ancienne valeur de 'app-data' (ou sa sauvegarde localStorage) puis la supprime
+ * @param transaction Transaction de mise à niveau
+ * @param key Clé de l'ancienne valeur
+ * @param onValue Fonction appelée avec la valeur trouvée
+ */
+const takeLegacyValue = (transaction: IDBTransaction, key: string, onValue: (value: unknown) => void): void => {
+  const legacyStore = transaction.objectStore(STORE_NAME);
+  const request = legacyStore.get(key);
+
+  request.onsuccess = () => {
+    const record = request.result;
+    const value = record ? record.value : getBackupData<unknown>(key, null);
+    if (value) onValue(value);
+    if (record) legacyStore.delete(key);
+  };
+};
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Stockage clé-valeur 'app-data'",
+    migrate: (db) => {
+      db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    }
+  },
+  {
+    version: 2,
+    description: "Journal des révisions",
+    migrate: (db) => {
+      const reviewStore = db.createObjectStore(REVIEW_LOG_STORE, { keyPath: 'id', autoIncrement: true });
+      reviewStore.createIndex('cardId', 'cardId', { unique: false });
+      reviewStore.createIndex('deckId', 'deckId', { unique: false });
+      reviewStore.createIndex('timestamp', 'timestamp', { unique: false });
+      reviewStore.createIndex('deckId_timestamp', ['deckId', 'timestamp'], { unique: false });
+    }
+  },
+  {
+    version: 3,
+    description: "Object stores dédiés aux utilisateurs, decks, thèmes, flashcards, codes de partage et révisions",
+    migrate: (db, transaction) => {
+      db.createObjectStore(STORES.USERS, { keyPath: 'id' });
+
+      const deckStore = db.createObjectStore(STORES.DECKS, { keyPath: 'id' });
+      deckStore.createIndex('authorId', 'authorId', { unique: false });
+
+      const themeStore = db.createObjectStore(STORES.THEMES, { keyPath: 'id' });
+      themeStore.createIndex('deckId', 'deckId', { unique: false });
+
+      const flashcardStore = db.createObjectStore(STORES.FLASHCARDS, { keyPath: 'id' });
+      flashcardStore.createIndex('deckId', 'deckId', { unique: false });
+      flashcardStore.createIndex('themeId', 'themeId', { unique: false });
+
+      const shareCodeStore = db.createObjectStore(STORES.SHARE_CODES, { keyPath: 'code' });
+      shareCodeStore.createIndex('deckId', 'deckId', { unique: false });
+
+      const reviewStore = db.createObjectStore(STORES.REVIEWS, { keyPath: 'cardId' });
+      reviewStore.createIndex('deckId', 'deckId', { unique: false });
+      reviewStore.createIndex('themeId', 'themeId', { unique: false });
+      reviewStore.createIndex('due', 'due', { unique: false });
+
+      // Déplacement des tableaux complets vers leurs object stores
+      for (const { key, storeName, keyPath } of LEGACY_ARRAY_KEYS) {
+        takeLegacyValue(transaction, key, (items) => {
+          if (!Array.isArray(items)) return;
+          const store = transaction.objectStore(storeName);
+          for (const item of items) {
+            // Un élément sans identifiant ferait échouer toute la mise à niveau
+            if (!item || item[keyPath] === undefined) {
+              console.warn(`Élément ignoré lors de la migration de ${key}:`, item);
+              continue;
+            }
+            store.put(item);
+          }
+        });
+      }
+
+      // L'utilisateur unique devient un enregistrement référencé par CURRENT_USER_KEY
+      takeLegacyValue(transaction, 'user', (value) => {
+        const user = value as { id?: string };
+        if (!user.id) return;
+        transaction.objectStore(STORES.USERS).put(user);
+        transaction.objectStore(STORE_NAME).put({
+          key: CURRENT_USER_KEY,
+          value: user.id,
+          lastUpdated: new Date().toISOString()
+        });
+      });
+    }
+  },
+  {
+    version: 4,
+    description: "Métadonnées de synchronisation avec le serveur",
+    migrate: (db) => {
+      const syncStore = db.createObjectStore(SYNC_META_STORE, { keyPath: 'key' });
+      syncStore.createIndex('type', 'type', { unique: false });
+    }
+  },
+  {
+    version: 5,
+    description: "Faces de carte typées (CardSide)",
+    migrate: (_db, transaction) => {
+      // Placé derrière les requêtes des migrations précédentes : les cartes déplacées par la version 3 sont incluses
+      const flashcardStore = transaction.objectStore(STORES.FLASHCARDS);
+      flashcardStore.count().onsuccess = () => {
+        flashcardStore.openCursor().onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          cursor.update(normalizeFlashcard(cursor.value));
+          cursor.continue();
+        };
+      };
+    }
+  }
+];
+
+// Connexion partagée par toutes les opérations, ouverte au premier accès
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Ouvre la base de données IndexedDB avec la structure nécessaire.
  * Retourne une promesse qui se résout lorsque la base de données est prête.
  */
-const initDB = (): Promise<IDBDatabase> => {
+const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
     
@@ -30,32 +191,217 @@ const initDB = (): Promise<IDBDatabase> => {
       reject("Impossible d'ouvrir la base de données IndexedDB");
     };
     
+    request.onblocked = () => {
+      console.warn("Mise à niveau d'IndexedDB bloquée par un autre onglet encore ouvert");
+    };
+    
     request.onsuccess = (event) => {
       const db = request.result;
+      
+      // Un autre onglet demande une version plus récente : libérer la connexion
+      // pour ne pas bloquer sa mise à niveau, elle sera rouverte au prochain accès
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      
+      // Fermeture inattendue (stockage effacé par le navigateur, etc.)
+      db.onclose = () => {
+        dbPromise = null;
+      };
+      
       resolve(db);
     };
     
     request.onupgradeneeded = (event) => {
       const db = request.result;
+      const transaction = request.transaction!;
       
-      // Créer un object store pour stocker les données
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      // Exécuter dans l'ordre les migrations postérieures à la version installée
+      for (const migration of MIGRATIONS) {
+        if (migration.version > event.oldVersion && migration.version <= DB_VERSION) {
+          console.log(`Migration IndexedDB v${migration.version}: ${migration.description}`);
+          migration.migrate(db, transaction);
+        }
       }
     };
   });
 };
 
+/**
+ * Retourne la connexion partagée, en l'ouvrant si nécessaire
+ */
+const getDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDB().catch(error => {
+      // Permettre une nouvelle tentative au prochain accès
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Transforme une requête IndexedDB en promesse
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Opérations disponibles à l'intérieur d'une transaction ouverte par withTransaction
+ * Seules ces opérations peuvent être attendues (await) dans le callback : attendre
+ * une autre promesse (réseau, minuteur...) laisserait IndexedDB valider la transaction.
+ */
+export interface TransactionScope {
+  transaction: IDBTransaction;
+  get<T>(storeName: string, key: IDBValidKey): Promise<T | undefined>;
+  getAll<T>(storeName: string, indexName?: string, query?: IDBValidKey | IDBKeyRange): Promise<T[]>;
+  put<T>(storeName: string, record: T): Promise<IDBValidKey>;
+  delete(storeName: string, key: IDBValidKey): Promise<void>;
+  /** Supprime les enregistrements correspondant à une clé d'index et retourne leur nombre */
+  deleteByIndex(storeName: string, indexName: string, key: IDBValidKey): Promise<number>;
+  /** Équivalents de loadData/saveData pour les valeurs de 'app-data' (sans sauvegarde localStorage) */
+  loadData<T>(key: string, defaultValue: T): Promise<T>;
+  saveData<T>(key: string, data: T): Promise<void>;
+}
+
+const createTransactionScope = (transaction: IDBTransaction): TransactionScope => ({
+  transaction,
+  get: <T>(storeName: string, key: IDBValidKey) => {
+    return requestToPromise<T | undefined>(transaction.objectStore(storeName).get(key));
+  },
+  getAll: <T>(storeName: string, indexName?: string, query?: IDBValidKey | IDBKeyRange) => {
+    const store = transaction.objectStore(storeName);
+    const source = indexName ? store.index(indexName) : store;
+    return requestToPromise<T[]>(source.getAll(query));
+  },
+  put: <T>(storeName: string, record: T) => {
+    return requestToPromise(transaction.objectStore(storeName).put(record));
+  },
+  delete: async (storeName: string, key: IDBValidKey) => {
+    await requestToPromise(transaction.objectStore(storeName).delete(key));
+  },
+  deleteByIndex: async (storeName: string, indexName: string, key: IDBValidKey) => {
+    const store = transaction.objectStore(storeName);
+    const keys = await requestToPromise(store.index(indexName).getAllKeys(IDBKeyRange.only(key)));
+    await Promise.all(keys.map(primaryKey => requestToPromise(store.delete(primaryKey))));
+    return keys.length;
+  },
+  loadData: async <T>(key: string, defaultValue: T) => {
+    const record = await requestToPromise<{ key: string, value: T } | undefined>(
+      transaction.objectStore(STORE_NAME).get(key)
+    );
+    return record ? record.value : defaultValue;
+  },
+  saveData: async <T>(key: string, data: T) => {
+    await requestToPromise(transaction.objectStore(STORE_NAME).put({
+      key,
+      value: data,
+      lastUpdated: new Date().toISOString()
+    }));
+  }
+});
+
+/**
+ * Exécute plusieurs opérations dans une seule transaction
+ * Si le callback échoue, la transaction est annulée et aucune écriture n'est conservée.
+ * @param storeNames Object store(s) concernés
+ * @param mode Mode de la transaction
+ * @param work Fonction qui effectue les opérations via le TransactionScope reçu
+ * @returns Le résultat du callback, une fois la transaction validée
+ */
+export async function withTransaction<T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (scope: TransactionScope) => Promise<T> | T
+): Promise<T> {
+  const db = await getDB();
+  const transaction = db.transaction(storeNames, mode);
+  
+  const completion = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error || "Transaction IndexedDB annulée");
+  });
+  
+  let result: T;
+  try {
+    result = await work(createTransactionScope(transaction));
+  } catch (error) {
+    try {
+      transaction.abort();
+    } catch {
+      // La transaction a déjà été annulée par l'échec d'une requête
+    }
+    // L'erreur d'origine est plus parlante que celle de l'annulation
+    completion.catch(() => undefined);
+    console.error("Transaction IndexedDB annulée:", error);
+    throw error;
+  }
+  
+  await completion;
+  return result;
+}
+
+/**
+ * Lot d'écritures validées ensemble par commit()
+ */
+export interface Batch {
+  put<T>(storeName: string, record: T): Batch;
+  delete(storeName: string, key: IDBValidKey): Batch;
+  deleteByIndex(storeName: string, indexName: string, key: IDBValidKey): Batch;
+  commit(): Promise<void>;
+}
+
+/**
+ * Prépare un lot d'écritures exécutées dans l'ordre, en une seule transaction
+ * Exemple : batch().put(STORES.DECKS, deck).deleteByIndex(STORES.THEMES, 'deckId', deck.id).commit()
+ */
+export function batch(): Batch {
+  const storeNames = new Set<string>();
+  const operations: ((scope: TransactionScope) => Promise<unknown>)[] = [];
+  
+  const enqueue = (storeName: string, operation: (scope: TransactionScope) => Promise<unknown>): Batch => {
+    storeNames.add(storeName);
+    operations.push(operation);
+    return lot;
+  };
+  
+  const lot: Batch = {
+    put: (storeName, record) => enqueue(storeName, scope => scope.put(storeName, record)),
+    delete: (storeName, key) => enqueue(storeName, scope => scope.delete(storeName, key)),
+    deleteByIndex: (storeName, indexName, key) => enqueue(storeName, scope => scope.deleteByIndex(storeName, indexName, key)),
+    commit: async () => {
+      if (operations.length === 0) return;
+      await withTransaction(Array.from(storeNames), 'readwrite', async scope => {
+        for (const operation of operations) {
+          await operation(scope);
+        }
+      });
+    }
+  };
+  
+  return lot;
+}
+
 /**
  * Effectue une transaction en lecture seule sur la base de données.
  * @param callback Fonction qui reçoit l'object store et effectue des opérations
+ * @param storeName Object store visé (par défaut: 'app-data')
  * @returns Une promesse qui se résout avec le résultat de la fonction callback
  */
-const readTransaction = async <T>(callback: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
-  const db = await initDB();
+const readTransaction = async <T>(
+  callback: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = STORE_NAME
+): Promise<T> => {
+  const db = await getDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
+    const transaction = db.transaction(storeName, 'readonly');
+    const store = transaction.objectStore(storeName);
     
     const request = callback(store);
     
@@ -67,40 +413,154 @@ const readTransaction = async <T>(callback: (store: IDBObjectStore) => IDBReques
       console.error("Erreur lors de la lecture depuis IndexedDB:", event);
       reject("Erreur de lecture IndexedDB");
     };
-    
-    transaction.oncomplete = () => {
-      db.close();
-    };
   });
 };
 
 /**
  * Effectue une transaction en écriture sur la base de données.
  * @param callback Fonction qui reçoit l'object store et effectue des opérations
+ * @param storeName Object store visé (par défaut: 'app-data')
  * @returns Une promesse qui se résout quand la transaction est terminée
  */
-const writeTransaction = async <T>(callback: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
-  const db = await initDB();
+const writeTransaction = async <T>(
+  callback: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = STORE_NAME
+): Promise<T> => {
+  return await withTransaction(storeName, 'readwrite', scope => {
+    return requestToPromise(callback(scope.transaction.objectStore(storeName)));
+  });
+};
+
+/**
+ * Ajoute un enregistrement dans un object store dédié
+ * @param storeName Nom de l'object store
+ * @param record Enregistrement à ajouter
+ * @returns La clé générée pour l'enregistrement
+ */
+export async function addRecord<T>(storeName: string, record: T): Promise<IDBValidKey> {
+  return await writeTransaction(store => store.add(record), storeName);
+}
+
+/**
+ * Récupère les enregistrements d'un object store, éventuellement via un index
+ * @param storeName Nom de l'object store
+ * @param indexName Nom de l'index à interroger (optionnel)
+ * @param query Clé ou intervalle de clés recherché (optionnel)
+ * @returns Les enregistrements trouvés
+ */
+export async function getRecords<T>(
+  storeName: string,
+  indexName?: string,
+  query?: IDBValidKey | IDBKeyRange
+): Promise<T[]> {
+  return await readTransaction<T[]>(store => {
+    const source = indexName ? store.index(indexName) : store;
+    return source.getAll(query);
+  }, storeName);
+}
+
+/**
+ * Parcourt les enregistrements d'un object store avec un curseur
+ * La fonction visitor peut modifier (cursor.update) ou supprimer (cursor.delete)
+ * l'enregistrement courant lorsque le mode est 'readwrite'.
+ * @param storeName Nom de l'object store
+ * @param visitor Fonction appelée pour chaque enregistrement
+ * @param options Index, intervalle de clés, sens de parcours et mode de transaction
+ * @returns Une promesse qui se résout quand la transaction est terminée
+ */
+export async function iterateRecords(
+  storeName: string,
+  visitor: (cursor: IDBCursorWithValue) => void,
+  options: {
+    indexName?: string;
+    range?: IDBKeyRange;
+    direction?: IDBCursorDirection;
+    mode?: IDBTransactionMode;
+  } = {}
+): Promise<void> {
+  const db = await getDB();
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    
-    const request = callback(store);
+    const transaction = db.transaction(storeName, options.mode || 'readonly');
+    const store = transaction.objectStore(storeName);
+    const source = options.indexName ? store.index(options.indexName) : store;
+    const request = source.openCursor(options.range, options.direction);
     
     request.onsuccess = () => {
-      resolve(request.result);
+      const cursor = request.result;
+      if (cursor) {
+        visitor(cursor);
+        cursor.continue();
+      }
     };
     
     request.onerror = (event) => {
-      console.error("Erreur lors de l'écriture dans IndexedDB:", event);
-      reject("Erreur d'écriture IndexedDB");
+      console.error(`Erreur lors du parcours de ${storeName}:`, event);
+      reject(`Erreur de parcours IndexedDB (${storeName})`);
     };
     
     transaction.oncomplete = () => {
-      db.close();
+      resolve();
+    };
+    
+    transaction.onerror = (event) => {
+      console.error(`Erreur de transaction sur ${storeName}:`, event);
+      reject(`Erreur de transaction IndexedDB (${storeName})`);
     };
   });
-};
+}
+
+/**
+ * Récupère un enregistrement par sa clé
+ * @param storeName Nom de l'object store
+ * @param key Clé de l'enregistrement
+ * @returns L'enregistrement ou undefined
+ */
+export async function getRecord<T>(storeName: string, key: IDBValidKey): Promise<T | undefined> {
+  return await readTransaction<T | undefined>(store => store.get(key), storeName);
+}
+
+/**
+ * Ajoute ou remplace un enregistrement
+ * @param storeName Nom de l'object store
+ * @param record Enregistrement à écrire
+ */
+export async function putRecord<T>(storeName: string, record: T): Promise<void> {
+  await writeTransaction(store => store.put(record), storeName);
+}
+
+/**
+ * Ajoute ou remplace plusieurs enregistrements dans une seule transaction
+ * @param storeName Nom de l'object store
+ * @param records Enregistrements à écrire
+ */
+export async function putRecords<T>(storeName: string, records: T[]): Promise<void> {
+  if (records.length === 0) return;
+  await withTransaction(storeName, 'readwrite', scope => {
+    return Promise.all(records.map(record => scope.put(storeName, record)));
+  });
+}
+
+/**
+ * Supprime un enregistrement par sa clé
+ * @param storeName Nom de l'object store
+ * @param key Clé de l'enregistrement
+ */
+export async function deleteRecord(storeName: string, key: IDBValidKey): Promise<void> {
+  await writeTransaction(store => store.delete(key), storeName);
+}
+
+/**
+ * Remplace tout le contenu d'un object store
+ * @param storeName Nom de l'object store
+ * @param records Nouveaux enregistrements
+ */
+export async function replaceRecords<T>(storeName: string, records: T[]): Promise<void> {
+  await withTransaction(storeName, 'readwrite', scope => {
+    const store = scope.transaction.objectStore(storeName);
+    store.clear();
+    return Promise.all(records.map(record => scope.put(storeName, record)));
+  });
+}
 
 /**
  * Sauvegarde des données
@@ -332,7 +792,7 @@ export async function removeData(key: string): Promise<void> {
  */
 export async function getAllKeys(): Promise<string[]> {
   try {
-    const db = await initDB();
+    const db = await getDB();
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(STORE_NAME, 'readonly');
       const store = transaction.objectStore(STORE_NAME);
@@ -346,10 +806,6 @@ export async function getAllKeys(): Promise<string[]> {
         console.error("Erreur lors de la récupération des clés depuis IndexedDB:", event);
         reject("Erreur de lecture des clés IndexedDB");
       };
-      
-      transaction.oncomplete = () => {
-        db.close();
-      };
     });
   } catch (error) {
     console.error("Erreur lors de la récupération des clés:", error);
@@ -0,0 +1,112 @@
+/**
+ * Indices progressifs des modes quiz et écriture
+ *
+ * Les indices sont révélés un par un : d'abord ceux écrits sur la carte, puis la note
+ * de la question, puis des indices générés à partir de la réponse (première lettre
+ * et longueur, puis initiale de chaque mot). Chaque indice utilisé abaisse la note
+ * d'une réponse juste et réduit sa part dans le score de la séance.
+ *
+ * Ce module est purement fonctionnel.
+ */
+
+import { CardDirection, CardSide, ReviewGrade } from '../types/localStorage';
+import { splitAlternatives } from './answerMatching';
+
+export type HintKind = 'card' | 'note' | 'firstLetter' | 'wordMask';
+
+export interface HintStep {
+  kind: HintKind;
+  text: string;
+}
+
+// Part du score retirée à une réponse juste pour chaque indice utilisé
+export const HINT_SCORE_PENALTY = 0.25;
+// Une réponse juste garde au moins cette part du score, quel que soit le nombre d'indices
+export const MIN_HINTED_SCORE = 0.25;
+
+const GRADE_ORDER: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+const LETTER = /[\p{L}\p{N}]/u;
+
+interface HintableCard {
+  front: CardSide;
+  back: CardSide;
+  hints?: string[];
+  direction?: CardDirection;
+}
+
+/**
+ * Réponse dont les lettres sont masquées, sauf l'initiale de chaque mot
+ * (espaces et ponctuation conservés) : « One Piece » → « O__ P____ »
+ * @param answer Réponse attendue
+ */
+export const maskAnswer = (answer: string): string => {
+  let atWordStart = true;
+  return Array.from(answer).map(char => {
+    if (!LETTER.test(char)) {
+      atWordStart = true;
+      return char;
+    }
+    const shown = atWordStart;
+    atWordStart = false;
+    return shown ? char : '_';
+  }).join('');
+};
+
+/**
+ * Indices d'une carte, dans l'ordre de révélation
+ * Les indices écrits sur la carte portent sur le recto : ils ne sont pas proposés en sens inverse.
+ * @param card Carte présentée, déjà orientée dans le sens d'étude
+ */
+export const buildHintSteps = (card: HintableCard): HintStep[] => {
+  const steps: HintStep[] = [];
+
+  if (card.direction !== 'reverse') {
+    (card.hints ?? [])
+      .map(hint => hint.trim())
+      .filter(Boolean)
+      .forEach(text => steps.push({ kind: 'card', text }));
+  }
+
+  const note = card.front.additionalInfo?.trim();
+  if (note) {
+    steps.push({ kind: 'note', text: note });
+  }
+
+  // Les indices générés portent sur la première réponse acceptée
+  const answer = splitAlternatives(card.back.text)[0];
+  const letters = Array.from(answer).filter(char => LETTER.test(char));
+  if (letters.length > 1) {
+    steps.push({
+      kind: 'firstLetter',
+      text: `Commence par « ${letters[0]} » (${letters.length} caractères)`
+    });
+    const mask = maskAnswer(answer);
+    // Inutile si chaque mot ne fait qu'une lettre
+    if (mask.includes('_')) {
+      steps.push({ kind: 'wordMask', text: mask });
+    }
+  }
+
+  return steps;
+};
+
+/**
+ * Note d'une réponse après utilisation d'indices : un cran de moins par indice,
+ * sans descendre sous « difficile » pour une réponse juste
+ * @param grade Note sans indice
+ * @param hintsUsed Nombre d'indices révélés avant la réponse
+ */
+export const applyHintPenalty = (grade: ReviewGrade, hintsUsed: number): ReviewGrade => {
+  if (grade === 'again' || hintsUsed <= 0) return grade;
+  const index = Math.max(GRADE_ORDER.indexOf('hard'), GRADE_ORDER.indexOf(grade) - hintsUsed);
+  return GRADE_ORDER[index];
+};
+
+/**
+ * Part du score accordée à une réponse juste selon le nombre d'indices utilisés
+ * @param hintsUsed Nombre d'indices révélés avant la réponse
+ */
+export const hintedScore = (hintsUsed: number): number => {
+  return Math.max(MIN_HINTED_SCORE, 1 - Math.max(0, hintsUsed) * HINT_SCORE_PENALTY);
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { containsJapanese, japaneseKey, kanaToRomaji, katakanaToHiragana, parseReadings } from './japanese';
+
+describe('kanaToRomaji', () => {
+  it('translittère hiragana et katakana en Hepburn', () => {
+    expect(kanaToRomaji('しんぶん')).toBe('shinbun');
+    expect(kanaToRomaji('きゃく')).toBe('kyaku');
+    expect(kanaToRomaji('ちゃ')).toBe('cha');
+    expect(kanaToRomaji('ファン')).toBe('fan');
+  });
+
+  it('double la consonne suivant un petit tsu', () => {
+    expect(kanaToRomaji('がっこう')).toBe('gakkou');
+    expect(kanaToRomaji('まっちゃ')).toBe('matcha');
+  });
+
+  it('répète la voyelle devant le trait d\'allongement', () => {
+    expect(kanaToRomaji('コーヒー')).toBe('koohii');
+  });
+
+  it('note n\' un ん suivi d\'une voyelle ou d\'un y', () => {
+    expect(kanaToRomaji('きんよう')).toBe("kin'you");
+    expect(kanaToRomaji('きにょう')).toBe('kinyou');
+    expect(kanaToRomaji('ほん')).toBe('hon');
+  });
+});
+
+describe('japaneseKey', () => {
+  it('donne la même clé aux différentes écritures d\'un mot', () => {
+    expect(japaneseKey('ねこ')).toBe(japaneseKey('ネコ'));
+    expect(japaneseKey('ﾈｺ')).toBe(japaneseKey('neko'));
+    expect(japaneseKey('しゃしん')).toBe(japaneseKey('syasin'));
+    expect(japaneseKey('しんぶん')).toBe(japaneseKey('shimbun'));
+  });
+
+  it('unifie les graphies d\'une même voyelle longue', () => {
+    const key = japaneseKey('とうきょう');
+    for (const spelling of ['toukyou', 'tōkyō', 'TŌKYŌ', 'tôkyô', 'tookyoo']) {
+      expect(japaneseKey(spelling)).toBe(key);
+    }
+    expect(japaneseKey('おおの')).toBe(japaneseKey('Ohno'));
+    expect(japaneseKey('おおきい')).toBe(japaneseKey('ōkii'));
+    expect(japaneseKey('すうがく')).toBe(japaneseKey('sūgaku'));
+    expect(japaneseKey('おねえさん')).toBe(japaneseKey('onēsan'));
+  });
+
+  it('distingue voyelles longues et brèves', () => {
+    expect(japaneseKey('おじいさん')).not.toBe(japaneseKey('おじさん'));
+    expect(japaneseKey('ビール')).not.toBe(japaneseKey('ビル'));
+    expect(japaneseKey('きょう')).not.toBe(japaneseKey('kyo'));
+    expect(japaneseKey('ゆうき')).not.toBe(japaneseKey('ゆき'));
+  });
+
+  it('réduit « nn » à ん seulement devant une consonne ou en fin de mot', () => {
+    expect(japaneseKey('こんにちは')).toBe(japaneseKey('konnnichiha'));
+    expect(japaneseKey('ほん')).toBe(japaneseKey('honn'));
+    expect(japaneseKey('きんよう')).toBe(japaneseKey('kinnyou'));
+    expect(japaneseKey('あんな')).not.toBe(japaneseKey('あな'));
+    expect(japaneseKey('きんよう')).not.toBe(japaneseKey('きにょう'));
+  });
+
+  it('conserve les kanji', () => {
+    expect(japaneseKey('猫')).toBe('猫');
+  });
+});
+
+describe('utilitaires', () => {
+  it('détecte les kana et les kanji', () => {
+    expect(containsJapanese('chat')).toBe(false);
+    expect(containsJapanese('ねこ')).toBe(true);
+    expect(containsJapanese('猫')).toBe(true);
+  });
+
+  it('convertit les katakana en hiragana', () => {
+    expect(katakanaToHiragana('カタカナ')).toBe('かたかな');
+  });
+
+  it('découpe les lectures saisies', () => {
+    expect(parseReadings('ねこ, neko、ネコ ; ')).toEqual(['ねこ', 'neko', 'ネコ']);
+  });
+});
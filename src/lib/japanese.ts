@@ -0,0 +1,158 @@
+/**
+ * Normalisation des réponses en japonais
+ *
+ * Ramène une réponse écrite en hiragana, en katakana ou en romaji (Hepburn ou
+ * Kunrei) à une même clé en romaji Hepburn simplifié : graphies d'une même voyelle
+ * longue unifiées (ō, ô, oo, oh, ou → ou ; ū → uu ; ā → aa…), « nn » saisi pour ん
+ * réduit à n, espaces et ponctuation retirés. Voyelles longues et brèves restent
+ * distinctes (おじいさん ≠ おじさん). Deux réponses de même clé se prononcent de la
+ * même façon. Les kanji sont conservés tels quels : leurs lectures
+ * doivent être fournies à part (champ « lectures » d'une face).
+ *
+ * Ce module est purement fonctionnel.
+ */
+
+// Hiragana, katakana (y compris demi-chasse) et kanji
+const JAPANESE_CHARACTERS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uff66-\uff9f]/;
+
+const KANA_ROMAJI: Record<string, string> = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+  'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+  'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+  'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+  'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+  'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+  'わ': 'wa', 'ゐ': 'i', 'ゑ': 'e', 'を': 'o', 'ん': 'n', 'ゔ': 'vu'
+};
+
+// Petits kana : ils modifient la syllabe qui les précède
+const SMALL_KANA: Record<string, string> = {
+  'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo',
+  'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o', 'ゎ': 'wa'
+};
+
+// Conversions Kunrei-shiki → Hepburn, appliquées dans l'ordre
+const KUNREI_TO_HEPBURN: [RegExp, string][] = [
+  [/sy([auo])/g, 'sh$1'],
+  [/ty([auo])/g, 'ch$1'],
+  [/[zdj]y([auo])/g, 'j$1'],
+  [/si/g, 'shi'],
+  [/ti/g, 'chi'],
+  [/tu/g, 'tsu'],
+  [/(?<![sc])hu/g, 'fu'],
+  [/[zd]i/g, 'ji'],
+  [/du/g, 'zu']
+];
+
+// Voyelles longues notées par un macron ou un accent circonflexe
+const LONG_VOWELS: Record<string, string> = {
+  'ā': 'aa', 'â': 'aa', 'ī': 'ii', 'î': 'ii', 'ū': 'uu', 'û': 'uu',
+  'ē': 'ee', 'ê': 'ee', 'ō': 'ou', 'ô': 'ou'
+};
+
+// Variantes d'écriture ramenées à une seule forme
+const ROMAJI_VARIANTS: [RegExp, string][] = [
+  [/wo/g, 'o'], // を
+  [/m([bpm])/g, 'n$1'], // shimbun → shinbun
+  [/cch/g, 'tch'], // maccha → matcha
+  [/nn(?![aeiouy])/g, 'n'], // ん saisi « nn » au clavier, devant une consonne ou en fin de mot
+  [/oo|oh(?![aeiouy])/g, 'ou'] // おお, Ohno → ou
+];
+
+/**
+ * Indique si un texte contient des kana ou des kanji
+ */
+export const containsJapanese = (text: string): boolean => JAPANESE_CHARACTERS.test(text);
+
+/**
+ * Convertit les katakana en hiragana (les katakana demi-chasse sont d'abord élargis)
+ */
+export const katakanaToHiragana = (text: string): string => {
+  return text.normalize('NFKC').replace(/[\u30a1-\u30f6]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+};
+
+/**
+ * Translittère les kana en romaji Hepburn ; les autres caractères sont conservés
+ * @param text Texte en hiragana ou katakana
+ */
+export const kanaToRomaji = (text: string): string => {
+  const chars = Array.from(katakanaToHiragana(text));
+  let result = '';
+  let doubleNext = false;
+  let afterN = false;
+
+  for (const char of chars) {
+    if (char === 'っ') {
+      doubleNext = true;
+      continue;
+    }
+
+    const small = SMALL_KANA[char];
+    const previous = result.match(/[a-z]+$/)?.[0] ?? '';
+    if (small && previous.length > 1) {
+      // きゃ → kya, しゃ → sha, ふぁ → fa
+      const stem = previous.slice(0, -1);
+      const syllable = small.startsWith('y') && /(sh|ch|j)$/.test(stem) ? small.slice(1) : small;
+      result = result.slice(0, -previous.length) + stem + syllable;
+      continue;
+    }
+
+    if (char === 'ー') {
+      // Le trait d'allongement répète la voyelle précédente
+      result += result.match(/[aeiou]$/)?.[0] ?? '';
+      continue;
+    }
+
+    let romaji = KANA_ROMAJI[char] ?? small ?? char;
+    if (doubleNext && /^[a-z]/.test(romaji)) {
+      romaji = (romaji.startsWith('ch') ? 't' : romaji[0]) + romaji;
+    }
+    if (afterN && /^[aeiouy]/.test(romaji)) {
+      // ん devant une voyelle ou un y : きんよう → kin'you, distinct de きにょう
+      romaji = `'${romaji}`;
+    }
+    doubleNext = false;
+    afterN = char === 'ん';
+    result += romaji;
+  }
+
+  return result;
+};
+
+/**
+ * Clé de comparaison d'une réponse en japonais : deux réponses de même clé
+ * se lisent de la même façon, qu'elles soient écrites en kana ou en romaji
+ * @param text Réponse en kana, en romaji ou mixte
+ */
+export const japaneseKey = (text: string): string => {
+  let key = kanaToRomaji(text)
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[āâīîūûēêōô]/g, vowel => LONG_VOWELS[vowel])
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // ん noté n' devant une voyelle, équivalent à la saisie « nn » au clavier
+    .replace(/n['’]/g, 'nn')
+    .replace(/[^\p{L}\p{N}]+/gu, '');
+
+  for (const [pattern, replacement] of [...KUNREI_TO_HEPBURN, ...ROMAJI_VARIANTS]) {
+    key = key.replace(pattern, replacement);
+  }
+  return key;
+};
+
+/**
+ * Découpe les lectures saisies dans un formulaire (séparées par des virgules)
+ * @param text Lectures saisies, par exemple « ねこ, neko »
+ */
+export const parseReadings = (text: string): string[] => {
+  return text.split(/[,、，;]/).map(reading => reading.trim()).filter(Boolean);
+};
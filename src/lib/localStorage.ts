@@ -3,6 +3,8 @@
  * 
  * TOUTES les fonctions utilisent IndexedDB à la place de localStorage
  * Les appels synchrones sont remplacés par des appels asynchrones
+ * Chaque entité (utilisateur, deck, thème, flashcard, code de partage, état de révision)
+ * est un enregistrement de son propre object store : une modification n'écrit qu'elle-même.
  * 
  * IMPORTANT: Lors de la migration d'un composant, vous devez:
  * 1. Ajouter async/await aux fonctions qui utilisent ces méthodes
@@ -12,15 +14,50 @@
 import { v4 as uuidv4 } from "uuid";
 import * as IndexedDB from "./enhancedIndexedDB";
 import { generateSessionKey } from "./sessionManager";
-import { User, Deck, Theme, Flashcard, SharedDeckExport } from '../types/localStorage';
+import { createInitialReviewState, getScheduler, DEFAULT_SCHEDULER } from "./scheduler";
+import { DEFAULT_STUDY_DIRECTION, getReviewItemId } from "./studyDirection";
+import { normalizeFlashcard, parseFlashcardContent, parseFlashcardChanges, textSide, LegacyCardFields, CardSide } from "./cardContent";
+import { getClozeIndices } from "./cloze";
+import { User, Deck, Theme, Flashcard, SharedDeckExport, CardReviewState, ReviewGrade, SchedulerAlgorithm, StudyDirection } from '../types/localStorage';
 
 // Interface pour les autres parties de l'application qui n'utilisent pas 
 // encore les types étendus
-export type { User, Deck, Theme, Flashcard, SharedDeckExport } from '../types/localStorage';
+export type { User, Deck, Theme, Flashcard, SharedDeckExport, CardReviewState, ReviewGrade, ReviewHistoryEntry, SchedulerAlgorithm, StudyDirection } from '../types/localStorage';
+
+const { STORES } = IndexedDB;
+
+type ShareCode = { code: string, deckId: string, expiresAt?: string };
+
+// Lectures tolérantes aux erreurs : une page affiche une liste vide plutôt que de planter
+const readRecords = async <T>(storeName: string, indexName?: string, query?: IDBValidKey | IDBKeyRange): Promise<T[]> => {
+  try {
+    return await IndexedDB.getRecords<T>(storeName, indexName, query);
+  } catch (error) {
+    console.error(`Erreur lors de la lecture de ${storeName}:`, error);
+    return [];
+  }
+};
+
+const readRecord = async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  try {
+    return await IndexedDB.getRecord<T>(storeName, key);
+  } catch (error) {
+    console.error(`Erreur lors de la lecture de ${storeName} (${String(key)}):`, error);
+    return undefined;
+  }
+};
+
+// Enregistre l'utilisateur et le désigne comme utilisateur courant
+const saveCurrentUser = async (user: User): Promise<void> => {
+  await IndexedDB.putRecord(STORES.USERS, user);
+  await IndexedDB.saveData(IndexedDB.CURRENT_USER_KEY, user.id);
+};
 
 // Fonctions liées aux utilisateurs
 export const getUser = async (): Promise<User | null> => {
-  return await IndexedDB.loadData("user", null);
+  const userId = await IndexedDB.loadData<string | null>(IndexedDB.CURRENT_USER_KEY, null);
+  if (!userId) return null;
+  return await readRecord<User>(STORES.USERS, userId) || null;
 };
 
 export const getUserSync = (): User | null => {
@@ -99,7 +136,7 @@ export const initializeDefaultUser = async (): Promise<User> => {
     preferredLanguage: "fr"
   };
   
-  await IndexedDB.saveData("user", defaultUser);
+  await saveCurrentUser(defaultUser);
   return defaultUser;
 };
 
@@ -116,7 +153,7 @@ export const createUser = async (userData: Partial<User>): Promise<User> => {
     ...userData
   };
   
-  await IndexedDB.saveData("user", user);
+  await saveCurrentUser(user);
   return user;
 };
 
@@ -130,13 +167,13 @@ export const updateUser = async (userData: Partial<User>): Promise<User | null>
     updatedAt: new Date().toISOString()
   };
   
-  await IndexedDB.saveData("user", updatedUser);
+  await IndexedDB.putRecord(STORES.USERS, updatedUser);
   return updatedUser;
 };
 
 // Fonctions liées aux decks
 export const getDecks = async (): Promise<Deck[]> => {
-  return await IndexedDB.loadData("decks", []);
+  return await readRecords<Deck>(STORES.DECKS);
 };
 
 // Fonction pour récupérer uniquement les decks créés par l'utilisateur (non exemples)
@@ -152,13 +189,11 @@ export const getExampleDecks = async (): Promise<Deck[]> => {
 };
 
 export const getDecksByAuthor = async (authorId: string): Promise<Deck[]> => {
-  const decks = await getDecks();
-  return decks.filter(deck => deck.authorId === authorId);
+  return await readRecords<Deck>(STORES.DECKS, 'authorId', authorId);
 };
 
 export const getDeck = async (id: string): Promise<Deck | null> => {
-  const decks = await getDecks();
-  return decks.find(deck => deck.id === id) || null;
+  return await readRecord<Deck>(STORES.DECKS, id) || null;
 };
 
 export const getDeckSync = (id: string): Deck | null => {
@@ -221,39 +256,49 @@ export const getDeckSync = (id: string): Deck | null => {
   return tempDeck;
 };
 
+// Nouveau deck avec identifiant et dates, sans l'enregistrer
+export const buildDeck = (deckData: Omit<Deck, "id" | "createdAt" | "updatedAt">): Deck => ({
+  id: uuidv4(),
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  ...deckData
+});
+
 export const createDeck = async (deckData: Omit<Deck, "id" | "createdAt" | "updatedAt">): Promise<Deck> => {
-  const decks = await getDecks();
-  
-  const newDeck: Deck = {
-    id: uuidv4(),
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    ...deckData
-  };
+  const newDeck = buildDeck(deckData);
   
-  await IndexedDB.saveData("decks", [...decks, newDeck]);
+  await IndexedDB.putRecord(STORES.DECKS, newDeck);
   return newDeck;
 };
 
+/**
+ * Enregistre un nouveau deck, ses thèmes et ses cartes en une seule transaction
+ * Utilisé par les importations : en cas d'échec (quota dépassé...), aucun deck à moitié importé ne subsiste.
+ */
+export const createDeckWithContent = async (deck: Deck, themes: Theme[], flashcards: Flashcard[]): Promise<void> => {
+  const updates = IndexedDB.batch().put(STORES.DECKS, deck);
+  themes.forEach(theme => updates.put(STORES.THEMES, theme));
+  flashcards.forEach(card => updates.put(STORES.FLASHCARDS, card));
+  await updates.commit();
+};
+
 export const updateDeck = async (id: string, deckData: Partial<Deck>): Promise<Deck | null> => {
-  const decks = await getDecks();
-  const deckIndex = decks.findIndex(deck => deck.id === id);
+  const deck = await getDeck(id);
   
-  if (deckIndex === -1) return null;
+  if (!deck) return null;
   
   // Conserver le flag isExample s'il existe
-  let isExample = decks[deckIndex].isExample;
+  let isExample = deck.isExample;
   
   const updatedDeck = {
-    ...decks[deckIndex],
+    ...deck,
     ...deckData,
     updatedAt: new Date().toISOString(),
     // S'assurer que la mise à jour ne retire pas la propriété isExample si elle était déjà présente
     ...(isExample !== undefined && { isExample })
   };
   
-  decks[deckIndex] = updatedDeck;
-  await IndexedDB.saveData("decks", decks);
+  await IndexedDB.putRecord(STORES.DECKS, updatedDeck);
   
   // Mettre à jour également localStorage pour un accès immédiat
   try {
@@ -326,16 +371,25 @@ export const updateDeckSync = (id: string, deckData: Partial<Deck>): Deck | null
 };
 
 export const deleteDeck = async (id: string): Promise<boolean> => {
-  const decks = await getDecks();
-  const deckToDelete = decks.find(deck => deck.id === id);
+  const deckToDelete = await getDeck(id);
   
   if (!deckToDelete) return false;
   
   // Permettre la suppression même si c'est un deck d'exemple
-  const newDecks = decks.filter(deck => deck.id !== id);
-  
-  // Mettre à jour IndexedDB
-  await IndexedDB.saveData("decks", newDecks);
+  // Le deck, ses thèmes, ses flashcards et leurs états de révision disparaissent ensemble ou pas du tout
+  const { deletedThemes, deletedCards } = await IndexedDB.withTransaction(
+    [STORES.DECKS, STORES.THEMES, STORES.FLASHCARDS, STORES.REVIEWS],
+    'readwrite',
+    async scope => {
+      await scope.delete(STORES.DECKS, id);
+      const [deletedThemes, deletedCards] = await Promise.all([
+        scope.deleteByIndex(STORES.THEMES, 'deckId', id),
+        scope.deleteByIndex(STORES.FLASHCARDS, 'deckId', id),
+        scope.deleteByIndex(STORES.REVIEWS, 'deckId', id)
+      ]);
+      return { deletedThemes, deletedCards };
+    }
+  );
   
   // Mettre à jour également localStorage pour un accès immédiat
   try {
@@ -346,14 +400,6 @@ export const deleteDeck = async (id: string): Promise<boolean> => {
     console.error("Error updating localStorage during deck deletion:", error);
   }
   
-  // Supprimer aussi les thèmes associés
-  const themes = await getThemes();
-  const themesToDelete = themes.filter(theme => theme.deckId === id);
-  const newThemes = themes.filter(theme => theme.deckId !== id);
-  
-  // Mettre à jour IndexedDB pour les thèmes
-  await IndexedDB.saveData("themes", newThemes);
-  
   // Mettre à jour localStorage pour les thèmes
   try {
     const localThemes = JSON.parse(localStorage.getItem('themes') || '[]');
@@ -363,14 +409,6 @@ export const deleteDeck = async (id: string): Promise<boolean> => {
     console.error("Error updating localStorage during theme deletion:", error);
   }
   
-  // Supprimer aussi les flashcards associées
-  const flashcards = await getFlashcards();
-  const cardsToDelete = flashcards.filter(card => card.deckId === id);
-  const newFlashcards = flashcards.filter(card => card.deckId !== id);
-  
-  // Mettre à jour IndexedDB pour les flashcards
-  await IndexedDB.saveData("flashcards", newFlashcards);
-  
   // Mettre à jour localStorage pour les flashcards
   try {
     const localFlashcards = JSON.parse(localStorage.getItem('flashcards') || '[]');
@@ -380,13 +418,13 @@ export const deleteDeck = async (id: string): Promise<boolean> => {
     console.error("Error updating localStorage during flashcard deletion:", error);
   }
   
-  console.log(`Suppression complète du deck ${id}: ${themesToDelete.length} thèmes et ${cardsToDelete.length} flashcards supprimés`);
+  console.log(`Suppression complète du deck ${id}: ${deletedThemes} thèmes et ${deletedCards} flashcards supprimés`);
   return true;
 };
 
 // Fonctions liées aux thèmes
 export const getThemes = async (): Promise<Theme[]> => {
-  return await IndexedDB.loadData("themes", []);
+  return await readRecords<Theme>(STORES.THEMES);
 };
 
 // Fonction pour récupérer uniquement les thèmes créés par l'utilisateur (non exemples)
@@ -402,8 +440,7 @@ export const getExampleThemes = async (): Promise<Theme[]> => {
 };
 
 export const getThemesByDeck = async (deckId: string): Promise<Theme[]> => {
-  const themes = await getThemes();
-  return themes.filter(theme => theme.deckId === deckId);
+  return await readRecords<Theme>(STORES.THEMES, 'deckId', deckId);
 };
 
 // Fonction pour récupérer uniquement les thèmes non-exemples d'un deck spécifique
@@ -487,21 +524,21 @@ export const getThemesByDeckSync = (deckId: string): Theme[] => {
 };
 
 export const getTheme = async (id: string): Promise<Theme | undefined> => {
-  const themes = await getThemes();
-  return themes.find(theme => theme.id === id);
+  return await readRecord<Theme>(STORES.THEMES, id);
 };
 
+// Nouveau thème avec identifiant et dates, sans l'enregistrer
+export const buildTheme = (themeData: Omit<Theme, "id" | "createdAt" | "updatedAt">): Theme => ({
+  id: uuidv4(),
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  ...themeData
+});
+
 export const createTheme = async (themeData: Omit<Theme, "id" | "createdAt" | "updatedAt">): Promise<Theme> => {
-  const themes = await getThemes();
-  
-  const newTheme: Theme = {
-    id: uuidv4(),
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    ...themeData
-  };
+  const newTheme = buildTheme(themeData);
   
-  await IndexedDB.saveData("themes", [...themes, newTheme]);
+  await IndexedDB.putRecord(STORES.THEMES, newTheme);
   return newTheme;
 };
 
@@ -536,24 +573,22 @@ export const createThemeSync = (themeData: Omit<Theme, "id" | "createdAt" | "upd
 };
 
 export const updateTheme = async (id: string, themeData: Partial<Theme>): Promise<Theme | null> => {
-  const themes = await getThemes();
-  const themeIndex = themes.findIndex(theme => theme.id === id);
+  const theme = await getTheme(id);
   
-  if (themeIndex === -1) return null;
+  if (!theme) return null;
   
   // Conserver le flag isExample s'il existe
-  let isExample = themes[themeIndex].isExample;
+  let isExample = theme.isExample;
   
   const updatedTheme = {
-    ...themes[themeIndex],
+    ...theme,
     ...themeData,
     updatedAt: new Date().toISOString(),
     // S'assurer que la mise à jour ne retire pas la propriété isExample si elle était déjà présente
     ...(isExample !== undefined && { isExample })
   };
   
-  themes[themeIndex] = updatedTheme;
-  await IndexedDB.saveData("themes", themes);
+  await IndexedDB.putRecord(STORES.THEMES, updatedTheme);
   
   // Mettre à jour également localStorage pour un accès immédiat
   try {
@@ -626,13 +661,11 @@ export const updateThemeSync = (id: string, themeData: Partial<Theme>): Theme |
 };
 
 export const deleteTheme = async (id: string): Promise<boolean> => {
-  const themes = await getThemes();
-  const themeToDelete = themes.find(theme => theme.id === id);
+  const themeToDelete = await getTheme(id);
   
   if (!themeToDelete) return false;
   
   // Permettre la suppression même si c'est un thème d'exemple (id commence par 'temp-')
-  const newThemes = themes.filter(theme => theme.id !== id);
   
   // Supprimer aussi de localStorage pour un accès immédiat
   try {
@@ -643,15 +676,16 @@ export const deleteTheme = async (id: string): Promise<boolean> => {
     console.error("Error updating themes in localStorage during deletion:", error);
   }
   
-  await IndexedDB.saveData("themes", newThemes);
+  await IndexedDB.deleteRecord(STORES.THEMES, id);
   
   // Mettre à jour les flashcards associées - elles ne sont plus liées au thème supprimé
-  const flashcards = await getFlashcards();
-  const updatedFlashcards = flashcards.map(card => {
-    if (card.themeId === id) {
-      return { ...card, themeId: undefined };
-    }
-    return card;
+  await IndexedDB.iterateRecords(STORES.FLASHCARDS, cursor => {
+    const { themeId, ...card } = cursor.value as Flashcard;
+    cursor.update(card);
+  }, {
+    indexName: 'themeId',
+    range: IDBKeyRange.only(id),
+    mode: 'readwrite'
   });
   
   // Mettre également à jour les flashcards dans localStorage
@@ -668,14 +702,12 @@ export const deleteTheme = async (id: string): Promise<boolean> => {
     console.error("Error updating flashcards in localStorage during theme deletion:", error);
   }
   
-  await IndexedDB.saveData("flashcards", updatedFlashcards);
-  
   return true;
 };
 
 // Fonctions liées aux cartes
 export const getFlashcards = async (): Promise<Flashcard[]> => {
-  return await IndexedDB.loadData("flashcards", []);
+  return await readRecords<Flashcard>(STORES.FLASHCARDS);
 };
 
 // Fonction pour récupérer uniquement les flashcards créées par l'utilisateur (non exemples)
@@ -691,8 +723,7 @@ export const getExampleFlashcards = async (): Promise<Flashcard[]> => {
 };
 
 export const getFlashcardsByDeck = async (deckId: string): Promise<Flashcard[]> => {
-  const flashcards = await getFlashcards();
-  return flashcards.filter(card => card.deckId === deckId);
+  return await readRecords<Flashcard>(STORES.FLASHCARDS, 'deckId', deckId);
 };
 
 // Fonction pour récupérer uniquement les flashcards non-exemples d'un deck spécifique
@@ -717,7 +748,8 @@ export const getFlashcardsByDeckSync = (deckId: string): Flashcard[] => {
         const deckFlashcards = flashcards.filter((c: Flashcard) => c.deckId === deckId);
         if (deckFlashcards.length > 0) {
           console.log(`getFlashcardsByDeckSync: Found ${deckFlashcards.length} flashcards in localStorage`);
-          return deckFlashcards;
+          // La copie localStorage peut dater d'avant les faces typées
+          return deckFlashcards.map((card: Flashcard) => normalizeFlashcard(card));
         }
       }
     }
@@ -731,7 +763,7 @@ export const getFlashcardsByDeckSync = (deckId: string): Flashcard[] => {
           const deckFlashcards = backupFlashcards.filter((c: Flashcard) => c.deckId === deckId);
           if (deckFlashcards.length > 0) {
             console.log(`getFlashcardsByDeckSync: Found ${deckFlashcards.length} flashcards in backup system`);
-            return deckFlashcards;
+            return deckFlashcards.map((card: Flashcard) => normalizeFlashcard(card));
           }
         }
       } catch (parseError) {
@@ -747,8 +779,8 @@ export const getFlashcardsByDeckSync = (deckId: string): Flashcard[] => {
     {
       id: 'example-temp-' + Date.now(),
       deckId: deckId,
-      front: "Exemple de question",
-      back: "Exemple de réponse",
+      front: textSide("Exemple de question"),
+      back: textSide("Exemple de réponse"),
       hints: ["Ceci est un exemple"],
       additionalInfo: "Exemple de carte - Cliquez pour voir le verso",
       createdAt: new Date().toISOString(),
@@ -758,8 +790,8 @@ export const getFlashcardsByDeckSync = (deckId: string): Flashcard[] => {
     {
       id: 'example-temp-' + (Date.now() + 1),
       deckId: deckId,
-      front: "Qu'est-ce qu'une flashcard?",
-      back: "Une carte avec une question au recto et une réponse au verso.",
+      front: textSide("Qu'est-ce qu'une flashcard?"),
+      back: textSide("Une carte avec une question au recto et une réponse au verso."),
       hints: ["Pensez aux outils d'apprentissage"],
       additionalInfo: "Exemple de carte - Cliquez pour voir le verso",
       createdAt: new Date().toISOString(),
@@ -783,8 +815,8 @@ export const getFlashcardsByDeckSync = (deckId: string): Flashcard[] => {
           // Créer des exemples de flashcards clairement identifiés comme tels
           await createFlashcard({
             deckId: deckId,
-            front: "Comment utiliser les flashcards?",
-            back: "Lisez la question, réfléchissez à la réponse, puis retournez la carte pour vérifier.",
+            front: textSide("Comment utiliser les flashcards?"),
+            back: textSide("Lisez la question, réfléchissez à la réponse, puis retournez la carte pour vérifier."),
             hints: ["Pensez à la méthode d'apprentissage active"],
             additionalInfo: "Technique d'apprentissage fondamentale - Exemple",
             isExample: true
@@ -792,8 +824,8 @@ export const getFlashcardsByDeckSync = (deckId: string): Flashcard[] => {
           
           await createFlashcard({
             deckId: deckId,
-            front: "Quels sont les avantages des flashcards?",
-            back: "Apprentissage actif, répétition espacée, mémorisation efficace, et apprentissage mobile.",
+            front: textSide("Quels sont les avantages des flashcards?"),
+            back: textSide("Apprentissage actif, répétition espacée, mémorisation efficace, et apprentissage mobile."),
             hints: ["Pensez aux bénéfices pour la mémoire"],
             additionalInfo: "Technique d'apprentissage fondamentale - Exemple",
             isExample: true
@@ -809,27 +841,26 @@ export const getFlashcardsByDeckSync = (deckId: string): Flashcard[] => {
 };
 
 export const getFlashcardsByTheme = async (themeId: string): Promise<Flashcard[]> => {
-  const flashcards = await getFlashcards();
-  return flashcards.filter(card => card.themeId === themeId);
+  return await readRecords<Flashcard>(STORES.FLASHCARDS, 'themeId', themeId);
 };
 
 export const getFlashcard = async (id: string): Promise<Flashcard | undefined> => {
-  const flashcards = await getFlashcards();
-  return flashcards.find(card => card.id === id);
+  return await readRecord<Flashcard>(STORES.FLASHCARDS, id);
 };
 
+// Nouvelle carte avec identifiant et dates, sans l'enregistrer ; les faces sont validées
+export const buildFlashcard = (cardData: Omit<Flashcard, "id" | "createdAt" | "updatedAt">): Flashcard => ({
+  id: uuidv4(),
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+  // Thème optionnel (peut être undefined)
+  ...parseFlashcardContent(cardData)
+});
+
 export const createFlashcard = async (cardData: Omit<Flashcard, "id" | "createdAt" | "updatedAt">): Promise<Flashcard> => {
-  const flashcards = await getFlashcards();
-  
-  const newCard: Flashcard = {
-    id: uuidv4(),
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
-    // Thème optionnel (peut être undefined)
-    ...cardData
-  };
+  const newCard = buildFlashcard(cardData);
   
-  await IndexedDB.saveData("flashcards", [...flashcards, newCard]);
+  await IndexedDB.putRecord(STORES.FLASHCARDS, newCard);
   return newCard;
 };
 
@@ -837,6 +868,8 @@ export const createFlashcardSync = (cardData: Omit<Flashcard, "id" | "createdAt"
   // Version synchrone qui initialise une opération asynchrone en arrière-plan
   const newCardId = uuidv4();
   const now = new Date().toISOString();
+  // Valider les faces avant toute écriture : une carte invalide lève une erreur immédiatement
+  const content = parseFlashcardContent(cardData);
   
   // Le thème est désormais optionnel
   const defaultCard: Flashcard = {
@@ -846,14 +879,10 @@ export const createFlashcardSync = (cardData: Omit<Flashcard, "id" | "createdAt"
     deckId: cardData.deckId,
     // Seul le themeId est optionnel, donc on vérifie s'il existe avant de l'ajouter
     ...(cardData.themeId && { themeId: cardData.themeId }),
-    front: cardData.front,
-    back: cardData.back,
+    front: content.front,
+    back: content.back,
     hints: cardData.hints || [],
     additionalInfo: cardData.additionalInfo,
-    frontImage: cardData.frontImage,
-    backImage: cardData.backImage,
-    frontAudio: cardData.frontAudio,
-    backAudio: cardData.backAudio,
     // Préserve le flag isExample si présent
     ...(cardData as any).isExample && { isExample: true }
   };
@@ -881,24 +910,24 @@ export const createFlashcardSync = (cardData: Omit<Flashcard, "id" | "createdAt"
 };
 
 export const updateFlashcard = async (id: string, cardData: Partial<Flashcard>): Promise<Flashcard | null> => {
-  const flashcards = await getFlashcards();
-  const cardIndex = flashcards.findIndex(card => card.id === id);
+  const card = await getFlashcard(id);
+  
+  if (!card) return null;
   
-  if (cardIndex === -1) return null;
+  const changes = parseFlashcardChanges(cardData);
   
   // Conserver le flag isExample s'il existe
-  let isExample = flashcards[cardIndex].isExample;
+  let isExample = card.isExample;
   
   const updatedCard = {
-    ...flashcards[cardIndex],
-    ...cardData,
+    ...card,
+    ...changes,
     updatedAt: new Date().toISOString(),
     // S'assurer que la mise à jour ne retire pas la propriété isExample si elle était déjà présente
     ...(isExample !== undefined && { isExample })
   };
   
-  flashcards[cardIndex] = updatedCard;
-  await IndexedDB.saveData("flashcards", flashcards);
+  await IndexedDB.putRecord(STORES.FLASHCARDS, updatedCard);
   
   // Mettre à jour également localStorage pour un accès immédiat
   try {
@@ -926,12 +955,14 @@ export const updateFlashcardSync = (id: string, cardData: Partial<Flashcard>): F
       if (Array.isArray(flashcards)) {
         const cardIndex = flashcards.findIndex((c: Flashcard) => c.id === id);
         if (cardIndex !== -1) {
+          const changes = parseFlashcardChanges(cardData);
+          
           // Conserver le flag isExample s'il existe
           let isExample = flashcards[cardIndex].isExample;
           
           const updatedCard: Flashcard = {
-            ...flashcards[cardIndex],
-            ...cardData,
+            ...normalizeFlashcard(flashcards[cardIndex] as Flashcard),
+            ...changes,
             updatedAt: new Date().toISOString(),
             // S'assurer que la mise à jour ne retire pas la propriété isExample
             ...(isExample !== undefined && { isExample })
@@ -971,13 +1002,11 @@ export const updateFlashcardSync = (id: string, cardData: Partial<Flashcard>): F
 };
 
 export const deleteFlashcard = async (id: string): Promise<boolean> => {
-  const flashcards = await getFlashcards();
-  const cardToDelete = flashcards.find(card => card.id === id);
+  const cardToDelete = await getFlashcard(id);
   
   if (!cardToDelete) return false;
   
   // Permettre la suppression même si c'est une flashcard d'exemple (id commence par 'temp-')
-  const newFlashcards = flashcards.filter(card => card.id !== id);
   
   // Supprimer aussi de localStorage pour un accès immédiat
   try {
@@ -988,30 +1017,278 @@ export const deleteFlashcard = async (id: string): Promise<boolean> => {
     console.error("Error updating flashcards in localStorage during deletion:", error);
   }
   
-  await IndexedDB.saveData("flashcards", newFlashcards);
+  await IndexedDB.deleteRecord(STORES.FLASHCARDS, id);
+  
+  // Supprimer les états de révision de la carte, dans les deux sens
+  await IndexedDB.deleteRecord(STORES.REVIEWS, id);
+  await IndexedDB.deleteRecord(STORES.REVIEWS, getReviewItemId(id, 'reverse'));
+  
   return true;
 };
 
+// Cartes à trous : une carte par numéro de trou, reliées par le noteId de leur recto
+interface ClozeNoteData {
+  deckId: string;
+  themeId?: string;
+  text: string; // Texte à trous, au format {{c1::réponse}}
+  extra?: CardSide; // Verso supplémentaire, affiché sous la réponse
+  hints?: string[];
+  additionalInfo?: string; // Note commune aux deux faces
+}
+
+// Supprime une carte et ses états de révision, dans les deux sens
+const deleteCardInBatch = (updates: IndexedDB.Batch, cardId: string): void => {
+  updates
+    .delete(STORES.FLASHCARDS, cardId)
+    .delete(STORES.REVIEWS, cardId)
+    .delete(STORES.REVIEWS, getReviewItemId(cardId, 'reverse'));
+};
+
+const clozeIndexOf = (card: Flashcard): number | undefined => {
+  return card.front.type === 'cloze' ? card.front.index : undefined;
+};
+
+const buildClozeCard = (noteId: string, index: number, noteData: ClozeNoteData, now: string): Flashcard => ({
+  id: uuidv4(),
+  deckId: noteData.deckId,
+  ...(noteData.themeId && { themeId: noteData.themeId }),
+  ...parseFlashcardContent({
+    front: { type: 'cloze', text: noteData.text, index, noteId },
+    back: noteData.extra ?? textSide("")
+  }),
+  ...(noteData.hints && { hints: noteData.hints }),
+  ...(noteData.additionalInfo && { additionalInfo: noteData.additionalInfo }),
+  createdAt: now,
+  updatedAt: now
+});
+
+/**
+ * Remplace les cartes d'une note à trous dans la copie localStorage
+ * @param removedIds Cartes à retirer
+ * @param cards Cartes à ajouter
+ */
+const replaceLocalClozeCards = (removedIds: string[], cards: Flashcard[]): void => {
+  try {
+    const localFlashcards = JSON.parse(localStorage.getItem('flashcards') || '[]');
+    const keptFlashcards = localFlashcards.filter((card: Flashcard) => !removedIds.includes(card.id));
+    localStorage.setItem('flashcards', JSON.stringify([...keptFlashcards, ...cards]));
+  } catch (error) {
+    console.error("Error updating cloze cards in localStorage:", error);
+  }
+};
+
+/**
+ * Cartes générées depuis le même texte à trous, dans l'ordre des numéros de trou
+ * @param deckId Deck des cartes
+ * @param noteId Identifiant commun aux cartes
+ */
+export const getClozeSiblings = async (deckId: string, noteId: string): Promise<Flashcard[]> => {
+  const flashcards = await getFlashcardsByDeck(deckId);
+  return flashcards
+    .filter(card => card.front.type === 'cloze' && card.front.noteId === noteId)
+    .sort((a, b) => (clozeIndexOf(a) ?? 0) - (clozeIndexOf(b) ?? 0));
+};
+
+/**
+ * Prépare une carte par numéro de trou à partir d'un texte à trous, sans les enregistrer
+ * @throws Error si le texte ne contient aucun trou
+ */
+export const buildClozeNote = (noteData: ClozeNoteData): Flashcard[] => {
+  const indices = getClozeIndices(noteData.text);
+  if (indices.length === 0) {
+    throw new Error("Le texte à trous ne contient aucun trou");
+  }
+  
+  const noteId = uuidv4();
+  const now = new Date().toISOString();
+  return indices.map(index => buildClozeCard(noteId, index, noteData, now));
+};
+
+/**
+ * Crée une carte par numéro de trou à partir d'un texte à trous
+ * @param noteData Texte, verso supplémentaire et emplacement des cartes
+ * @returns Les cartes créées, dans l'ordre des numéros de trou
+ * @throws Error si le texte ne contient aucun trou
+ */
+export const createClozeNote = async (noteData: ClozeNoteData): Promise<Flashcard[]> => {
+  const cards = buildClozeNote(noteData);
+  
+  await IndexedDB.putRecords(STORES.FLASHCARDS, cards);
+  replaceLocalClozeCards([], cards);
+  
+  return cards;
+};
+
+/**
+ * Modifie le texte d'une note à trous et met à jour toutes ses cartes.
+ * La carte d'un trou conservé garde son identifiant et son état de révision ;
+ * un nouveau trou crée une carte et un trou retiré supprime la sienne.
+ * @param deckId Deck des cartes
+ * @param noteId Identifiant commun aux cartes
+ * @param changes Nouveau texte et nouveau verso supplémentaire
+ * @returns Les cartes de la note après modification
+ * @throws Error si le texte ne contient aucun trou ou si la note n'existe pas
+ */
+export const updateClozeNote = async (
+  deckId: string,
+  noteId: string,
+  changes: { text: string; extra?: CardSide }
+): Promise<Flashcard[]> => {
+  const siblings = await getClozeSiblings(deckId, noteId);
+  if (siblings.length === 0) {
+    throw new Error("Note à trous introuvable");
+  }
+  
+  const indices = getClozeIndices(changes.text);
+  if (indices.length === 0) {
+    throw new Error("Le texte à trous ne contient aucun trou");
+  }
+  
+  const [first] = siblings;
+  const noteData: ClozeNoteData = {
+    deckId,
+    themeId: first.themeId,
+    text: changes.text,
+    extra: changes.extra ?? first.back,
+    hints: first.hints
+  };
+  const now = new Date().toISOString();
+  const updates = IndexedDB.batch();
+  
+  const cards = indices.map(index => {
+    const existing = siblings.find(card => clozeIndexOf(card) === index);
+    if (!existing) return buildClozeCard(noteId, index, noteData, now);
+    return {
+      ...existing,
+      ...parseFlashcardContent({
+        front: { ...existing.front, type: 'cloze', text: changes.text, index, noteId },
+        back: noteData.extra
+      }),
+      updatedAt: now
+    };
+  });
+  const removed = siblings.filter(card => !cards.some(kept => kept.id === card.id));
+  
+  cards.forEach(card => updates.put(STORES.FLASHCARDS, card));
+  removed.forEach(card => deleteCardInBatch(updates, card.id));
+  await updates.commit();
+  
+  replaceLocalClozeCards(siblings.map(card => card.id), cards);
+  
+  return cards;
+};
+
+/**
+ * Supprime toutes les cartes générées depuis un même texte à trous
+ * @param deckId Deck des cartes
+ * @param noteId Identifiant commun aux cartes
+ * @returns Le nombre de cartes supprimées
+ */
+export const deleteClozeNote = async (deckId: string, noteId: string): Promise<number> => {
+  const siblings = await getClozeSiblings(deckId, noteId);
+  if (siblings.length === 0) return 0;
+  
+  const updates = IndexedDB.batch();
+  siblings.forEach(card => deleteCardInBatch(updates, card.id));
+  await updates.commit();
+  
+  replaceLocalClozeCards(siblings.map(card => card.id), []);
+  
+  return siblings.length;
+};
+
+// Répétition espacée
+export const getReviewStates = async (): Promise<CardReviewState[]> => {
+  return await readRecords<CardReviewState>(STORES.REVIEWS);
+};
+
+export const getReviewStatesByDeck = async (deckId: string): Promise<CardReviewState[]> => {
+  return await readRecords<CardReviewState>(STORES.REVIEWS, 'deckId', deckId);
+};
+
+// États de révision dont l'échéance est atteinte à la date donnée, du plus en retard au plus récent
+export const getDueReviewStates = async (until: Date = new Date()): Promise<CardReviewState[]> => {
+  return await readRecords<CardReviewState>(STORES.REVIEWS, 'due', IDBKeyRange.upperBound(until.toISOString()));
+};
+
+export const getReviewState = async (cardId: string): Promise<CardReviewState | undefined> => {
+  return await readRecord<CardReviewState>(STORES.REVIEWS, cardId);
+};
+
+export const saveReviewState = async (reviewState: CardReviewState): Promise<CardReviewState> => {
+  await IndexedDB.putRecord(STORES.REVIEWS, reviewState);
+  return reviewState;
+};
+
+export const getSchedulerAlgorithm = async (): Promise<SchedulerAlgorithm> => {
+  return await IndexedDB.loadData<SchedulerAlgorithm>("schedulerAlgorithm", DEFAULT_SCHEDULER);
+};
+
+export const setSchedulerAlgorithm = async (algorithm: SchedulerAlgorithm): Promise<void> => {
+  await IndexedDB.saveData("schedulerAlgorithm", algorithm);
+};
+
+// Sens d'étude choisi pour chaque deck, indexé par identifiant de deck
+export const getDeckStudyDirection = async (deckId: string): Promise<StudyDirection> => {
+  const directions = await IndexedDB.loadData<Record<string, StudyDirection>>("studyDirections", {});
+  return directions[deckId] ?? DEFAULT_STUDY_DIRECTION;
+};
+
+export const setDeckStudyDirection = async (deckId: string, direction: StudyDirection): Promise<void> => {
+  const directions = await IndexedDB.loadData<Record<string, StudyDirection>>("studyDirections", {});
+  await IndexedDB.saveData("studyDirections", { ...directions, [deckId]: direction });
+};
+
+// Nombre maximal de révisions conservées dans l'historique d'une carte
+const REVIEW_HISTORY_LIMIT = 50;
+
+/**
+ * Enregistre la révision d'une carte et calcule sa prochaine échéance
+ * @param card Carte révisée
+ * @param grade Note donnée par l'utilisateur
+ * @param now Date de la révision
+ * @returns Le nouvel état de révision de la carte
+ */
+export const reviewFlashcard = async (
+  card: Pick<Flashcard, "id" | "deckId" | "themeId">,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): Promise<CardReviewState> => {
+  const currentState = await getReviewState(card.id)
+    || createInitialReviewState(card.id, card.deckId, card.themeId, now);
+  const scheduler = getScheduler(await getSchedulerAlgorithm());
+  
+  const nextState = scheduler.schedule({
+    ...currentState,
+    // Le thème de la carte a pu changer depuis la dernière révision
+    themeId: card.themeId
+  }, grade, now);
+  
+  nextState.history = [
+    ...(currentState.history || []),
+    { grade, reviewedAt: now.toISOString(), interval: nextState.interval }
+  ].slice(-REVIEW_HISTORY_LIMIT);
+  
+  return await saveReviewState(nextState);
+};
+
 // Partage et exportation
-export const getSharedDeckCodes = async (): Promise<{ code: string, deckId: string, expiresAt?: string }[]> => {
-  return await IndexedDB.loadData("sharedCodes", []);
+export const getSharedDeckCodes = async (): Promise<ShareCode[]> => {
+  return await readRecords<ShareCode>(STORES.SHARE_CODES);
 };
 
 export const createShareCode = async (deckId: string): Promise<string> => {
-  const codes = await getSharedDeckCodes();
   const code = Math.random().toString(36).substring(2, 10).toUpperCase();
   
   // Expiration dans 7 jours
   const expiresAt = new Date();
   expiresAt.setDate(expiresAt.getDate() + 7);
   
-  const newCodes = [...codes, { 
+  await IndexedDB.putRecord<ShareCode>(STORES.SHARE_CODES, { 
     code, 
     deckId, 
     expiresAt: expiresAt.toISOString() 
-  }];
-  
-  await IndexedDB.saveData("sharedCodes", newCodes);
+  });
   return code;
 };
 
@@ -1033,8 +1310,7 @@ export const createShareCodeSync = (deckId: string): string => {
 };
 
 export const getSharedDeck = async (code: string): Promise<Deck | undefined> => {
-  const codes = await getSharedDeckCodes();
-  const sharedCode = codes.find(c => c.code === code);
+  const sharedCode = await readRecord<ShareCode>(STORES.SHARE_CODES, code);
   
   if (!sharedCode) return undefined;
   
@@ -1078,55 +1354,91 @@ export const getOriginalDeckIdForImported = async (deckId: string): Promise<stri
   return imported ? imported.originalId : null;
 };
 
+/**
+ * Copie les thèmes et flashcards d'un deck partagé avec de nouveaux identifiants
+ * @param deckId Deck local qui les reçoit
+ */
+const copySharedDeckContent = (
+  deckId: string,
+  themes: Theme[],
+  flashcards: Flashcard[]
+): { themes: Theme[], flashcards: Flashcard[] } => {
+  const now = new Date().toISOString();
+  const themeIdMap = new Map<string, string>();
+  
+  const newThemes: Theme[] = themes.map(theme => {
+    const newTheme: Theme = {
+      id: uuidv4(),
+      deckId,
+      title: theme.title,
+      description: theme.description,
+      coverImage: theme.coverImage,
+      createdAt: now,
+      updatedAt: now
+    };
+    themeIdMap.set(theme.id, newTheme.id);
+    return newTheme;
+  });
+  
+  // Les fichiers exportés par d'anciennes versions contiennent des faces sans type
+  const newFlashcards: Flashcard[] = (flashcards as (Flashcard & LegacyCardFields)[]).map(card => ({
+    id: uuidv4(),
+    deckId,
+    themeId: card.themeId ? themeIdMap.get(card.themeId) : undefined,
+    ...parseFlashcardContent({
+      front: card.front,
+      back: card.back,
+      frontImage: card.frontImage,
+      backImage: card.backImage,
+      frontAudio: card.frontAudio,
+      backAudio: card.backAudio
+    }),
+    hints: card.hints,
+    additionalInfo: card.additionalInfo,
+    createdAt: now,
+    updatedAt: now
+  }));
+  
+  return { themes: newThemes, flashcards: newFlashcards };
+};
+
 export const importDeckFromJson = async (sharedDeckData: SharedDeckExport, authorId: string): Promise<string> => {
   try {
     const { deck, themes, flashcards } = sharedDeckData;
+    const now = new Date().toISOString();
     
-    // Créer le deck
-    const newDeck = await createDeck({
+    const newDeck: Deck = {
+      id: uuidv4(),
       authorId,
       title: deck.title,
       description: deck.description,
       coverImage: deck.coverImage,
       isPublic: false, // Par défaut privé
-      tags: deck.tags
-    });
-    
-    // Créer les thèmes
-    const themeIdMap = new Map<string, string>();
-    for (const theme of themes) {
-      const newTheme = await createTheme({
-        deckId: newDeck.id,
-        title: theme.title,
-        description: theme.description,
-        coverImage: theme.coverImage
-      });
-      
-      themeIdMap.set(theme.id, newTheme.id);
-    }
-    
-    // Créer les flashcards
-    for (const card of flashcards) {
-      await createFlashcard({
-        deckId: newDeck.id,
-        themeId: card.themeId ? themeIdMap.get(card.themeId) : undefined,
-        front: card.front,
-        back: card.back,
-        hints: card.hints,
-        additionalInfo: card.additionalInfo,
-        frontImage: card.frontImage,
-        backImage: card.backImage,
-        frontAudio: card.frontAudio,
-        backAudio: card.backAudio
-      });
-    }
+      tags: deck.tags,
+      createdAt: now,
+      updatedAt: now
+    };
+    const content = copySharedDeckContent(newDeck.id, themes, flashcards);
     
-    // Enregistrer l'importation
-    const importedDecks = await getSharedImportedDecks();
-    await IndexedDB.saveData("importedDecks", [
-      ...importedDecks,
-      { originalId: deck.id, localDeckId: newDeck.id }
-    ]);
+    // Une seule transaction : en cas d'échec, aucun deck à moitié importé ne subsiste
+    await IndexedDB.withTransaction(
+      [STORES.DECKS, STORES.THEMES, STORES.FLASHCARDS, IndexedDB.APP_DATA_STORE],
+      'readwrite',
+      async scope => {
+        await Promise.all([
+          scope.put(STORES.DECKS, newDeck),
+          ...content.themes.map(theme => scope.put(STORES.THEMES, theme)),
+          ...content.flashcards.map(card => scope.put(STORES.FLASHCARDS, card))
+        ]);
+        
+        // Enregistrer l'importation
+        const importedDecks = await scope.loadData<{originalId: string, localDeckId: string}[]>("importedDecks", []);
+        await scope.saveData("importedDecks", [
+          ...importedDecks,
+          { originalId: deck.id, localDeckId: newDeck.id }
+        ]);
+      }
+    );
     
     return newDeck.id;
   } catch (error) {
@@ -1148,55 +1460,34 @@ export const updateDeckFromJson = async (sharedDeckData: SharedDeckExport): Prom
     const localDeck = await getDeck(importInfo.localDeckId);
     if (!localDeck) return false;
     
-    // Mettre à jour le deck
-    await updateDeck(localDeck.id, {
-      title: deck.title,
-      description: deck.description,
-      coverImage: deck.coverImage,
-      tags: deck.tags
-    });
-    
-    // Récupérer les thèmes et flashcards existants
-    const existingThemes = await getThemesByDeck(localDeck.id);
-    const existingCards = await getFlashcardsByDeck(localDeck.id);
+    const content = copySharedDeckContent(localDeck.id, themes, flashcards);
     
-    // Supprimer les thèmes existants
-    for (const theme of existingThemes) {
-      await deleteTheme(theme.id);
-    }
-    
-    // Supprimer les cartes existantes
-    for (const card of existingCards) {
-      await deleteFlashcard(card.id);
-    }
+    // Remplacer le contenu du deck en un seul lot : l'ancien contenu est conservé si l'écriture échoue
+    const updates = IndexedDB.batch()
+      .put(STORES.DECKS, {
+        ...localDeck,
+        title: deck.title,
+        description: deck.description,
+        coverImage: deck.coverImage,
+        tags: deck.tags,
+        updatedAt: new Date().toISOString()
+      })
+      .deleteByIndex(STORES.THEMES, 'deckId', localDeck.id)
+      .deleteByIndex(STORES.FLASHCARDS, 'deckId', localDeck.id)
+      .deleteByIndex(STORES.REVIEWS, 'deckId', localDeck.id);
     
-    // Créer les nouveaux thèmes
-    const themeIdMap = new Map<string, string>();
-    for (const theme of themes) {
-      const newTheme = await createTheme({
-        deckId: localDeck.id,
-        title: theme.title,
-        description: theme.description,
-        coverImage: theme.coverImage
-      });
-      
-      themeIdMap.set(theme.id, newTheme.id);
-    }
+    content.themes.forEach(theme => updates.put(STORES.THEMES, theme));
+    content.flashcards.forEach(card => updates.put(STORES.FLASHCARDS, card));
+    await updates.commit();
     
-    // Créer les nouvelles flashcards
-    for (const card of flashcards) {
-      await createFlashcard({
-        deckId: localDeck.id,
-        themeId: card.themeId ? themeIdMap.get(card.themeId) : undefined,
-        front: card.front,
-        back: card.back,
-        hints: card.hints,
-        additionalInfo: card.additionalInfo,
-        frontImage: card.frontImage,
-        backImage: card.backImage,
-        frontAudio: card.frontAudio,
-        backAudio: card.backAudio
-      });
+    // Retirer les anciens thèmes et cartes de la copie localStorage
+    try {
+      const localThemes = JSON.parse(localStorage.getItem('themes') || '[]');
+      localStorage.setItem('themes', JSON.stringify(localThemes.filter((theme: Theme) => theme.deckId !== localDeck.id)));
+      const localFlashcards = JSON.parse(localStorage.getItem('flashcards') || '[]');
+      localStorage.setItem('flashcards', JSON.stringify(localFlashcards.filter((card: Flashcard) => card.deckId !== localDeck.id)));
+    } catch (error) {
+      console.error("Error updating localStorage during imported deck update:", error);
     }
     
     return true;
@@ -1346,8 +1637,7 @@ async function createDefaultDeck(): Promise<string> {
   };
   
   // Sauvegarder directement dans le storage
-  const decks = await getDecks();
-  await IndexedDB.saveData("decks", [...decks, deck]);
+  await IndexedDB.putRecord(STORES.DECKS, deck);
   
   // Également sauvegarder dans localStorage pour un accès immédiat
   try {
@@ -1377,8 +1667,7 @@ async function createDefaultTheme(deckId: string): Promise<string> {
   };
   
   // Sauvegarder directement dans le storage
-  const themes = await getThemes();
-  await IndexedDB.saveData("themes", [...themes, theme]);
+  await IndexedDB.putRecord(STORES.THEMES, theme);
   
   // Également sauvegarder dans localStorage pour un accès immédiat
   try {
@@ -1409,7 +1698,6 @@ async function createDefaultFlashcards(deckId: string, themeId: string): Promise
   ];
   
   // Créer directement les flashcards avec des IDs identifiables comme exemples
-  const flashcards = await getFlashcards();
   const newFlashcards: Flashcard[] = [];
   
   for (let i = 0; i < sampleCards.length; i++) {
@@ -1422,8 +1710,8 @@ async function createDefaultFlashcards(deckId: string, themeId: string): Promise
       id: exampleCardId,
       deckId,
       themeId,
-      front: cardData.front,
-      back: cardData.back,
+      front: textSide(cardData.front),
+      back: textSide(cardData.back),
       hints: ["Réfléchissez aux concepts de base de la programmation"],
       additionalInfo: "Concept fondamental de programmation - Exemple",
       createdAt: now,
@@ -1435,7 +1723,7 @@ async function createDefaultFlashcards(deckId: string, themeId: string): Promise
   }
   
   // Sauvegarder toutes les flashcards d'exemple en une seule opération
-  await IndexedDB.saveData("flashcards", [...flashcards, ...newFlashcards]);
+  await IndexedDB.putRecords(STORES.FLASHCARDS, newFlashcards);
   
   // Également sauvegarder dans localStorage pour un accès immédiat
   try {
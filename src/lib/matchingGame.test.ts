@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as IndexedDB from './enhancedIndexedDB';
+import { saveMatchingTime } from './matchingGame';
+import { MatchingBestTime } from '../types/localStorage';
+
+vi.mock('./enhancedIndexedDB', () => ({
+  loadData: vi.fn(),
+  saveData: vi.fn()
+}));
+
+const previous: MatchingBestTime = { deckId: 'deck', pairCount: 6, timeMs: 20_000, achievedAt: '2026-01-01T00:00:00.000Z' };
+
+describe('saveMatchingTime', () => {
+  beforeEach(() => {
+    vi.mocked(IndexedDB.loadData).mockReset().mockResolvedValue({ 'deck:6': previous });
+    vi.mocked(IndexedDB.saveData).mockReset().mockResolvedValue(undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('enregistre un temps qui bat le record', async () => {
+    const result = await saveMatchingTime('deck', 6, 15_000);
+    expect(result).toMatchObject({ isRecord: true, best: { timeMs: 15_000 } });
+    expect(IndexedDB.saveData).toHaveBeenCalledOnce();
+  });
+
+  it('garde le record quand le temps ne le bat pas', async () => {
+    expect(await saveMatchingTime('deck', 6, 25_000)).toEqual({ best: previous, isRecord: false });
+    expect(IndexedDB.saveData).not.toHaveBeenCalled();
+  });
+
+  it("n'annonce pas de record quand l'enregistrement échoue", async () => {
+    vi.mocked(IndexedDB.saveData).mockRejectedValue(new Error('QuotaExceededError'));
+    expect(await saveMatchingTime('deck', 6, 15_000)).toEqual({ best: previous, isRecord: false });
+
+    vi.mocked(IndexedDB.loadData).mockRejectedValue(new Error('Base indisponible'));
+    expect(await saveMatchingTime('deck', 6, 15_000)).toEqual({ best: null, isRecord: false });
+  });
+});
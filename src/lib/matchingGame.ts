@@ -0,0 +1,129 @@
+/**
+ * Jeu d'association
+ *
+ * Une partie présente une grille mélangée de rectos et de versos pour un lot
+ * de cartes ; l'utilisateur associe chaque recto à son verso le plus vite possible.
+ * Le meilleur temps est conservé par deck et par nombre de paires, pour ne
+ * comparer que des parties de même taille.
+ */
+
+import * as IndexedDB from './enhancedIndexedDB';
+import { CardSide, Flashcard, MatchingBestTime } from '../types/localStorage';
+
+export type { MatchingBestTime } from '../types/localStorage';
+
+export const MATCHING_PAIR_COUNT = 6;
+
+const BEST_TIMES_KEY = 'matchingBestTimes';
+
+export interface MatchingTile {
+  key: string;
+  cardId: string;
+  side: 'front' | 'back';
+  text: string;
+}
+
+type MatchingCard = Pick<Flashcard, 'id'> & { front: CardSide; back: CardSide };
+
+const sameAnswer = (a: string, b: string): boolean => {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Tire un lot de cartes et construit la grille mélangée de leurs rectos et versos.
+ * Les cartes sans texte sur l'une des faces (image ou audio seuls) sont ignorées.
+ * @param cards Cartes disponibles (thème sélectionné ou deck entier)
+ * @param pairCount Nombre maximal de paires
+ * @param random Générateur aléatoire
+ */
+export const buildMatchingGrid = (
+  cards: MatchingCard[],
+  pairCount = MATCHING_PAIR_COUNT,
+  random: () => number = Math.random
+): MatchingTile[] => {
+  const batch = shuffle(cards.filter(card => card.front.text.trim() && card.back.text.trim()), random).slice(0, pairCount);
+
+  return shuffle(batch.flatMap(card => [
+    { key: `${card.id}:front`, cardId: card.id, side: 'front' as const, text: card.front.text },
+    { key: `${card.id}:back`, cardId: card.id, side: 'back' as const, text: card.back.text }
+  ]), random);
+};
+
+/**
+ * Indique si deux tuiles forment une paire : un recto et un verso de la même carte,
+ * ou un verso identique à la réponse du recto (deux cartes peuvent partager une réponse)
+ * @param a Première tuile sélectionnée
+ * @param b Seconde tuile sélectionnée
+ * @param tiles Grille de la partie
+ */
+export const isMatchingPair = (a: MatchingTile, b: MatchingTile, tiles: MatchingTile[]): boolean => {
+  if (a.side === b.side) return false;
+
+  const front = a.side === 'front' ? a : b;
+  const back = a.side === 'back' ? a : b;
+  if (front.cardId === back.cardId) return true;
+
+  const expected = tiles.find(tile => tile.cardId === front.cardId && tile.side === 'back');
+  return !!expected && sameAnswer(expected.text, back.text);
+};
+
+const loadBestTimes = async (): Promise<Record<string, MatchingBestTime>> => {
+  return await IndexedDB.loadData<Record<string, MatchingBestTime>>(BEST_TIMES_KEY, {});
+};
+
+/**
+ * Meilleur temps enregistré pour un deck
+ * @param deckId Identifiant du deck
+ * @param pairCount Nombre de paires de la partie
+ */
+export const getMatchingBestTime = async (deckId: string, pairCount: number): Promise<MatchingBestTime | null> => {
+  try {
+    const bestTimes = await loadBestTimes();
+    return bestTimes[`${deckId}:${pairCount}`] ?? null;
+  } catch (error) {
+    console.error("Erreur lors du chargement du meilleur temps:", error);
+    return null;
+  }
+};
+
+/**
+ * Enregistre le temps d'une partie terminée s'il bat le meilleur temps du deck
+ * @param deckId Identifiant du deck
+ * @param pairCount Nombre de paires de la partie
+ * @param timeMs Durée de la partie
+ * @returns Le meilleur temps après la partie et s'il vient d'être battu ; si l'enregistrement
+ *   échoue, le meilleur temps précédent (null s'il est inconnu) sans record
+ */
+export const saveMatchingTime = async (
+  deckId: string,
+  pairCount: number,
+  timeMs: number
+): Promise<{ best: MatchingBestTime | null; isRecord: boolean }> => {
+  const key = `${deckId}:${pairCount}`;
+  const result: MatchingBestTime = { deckId, pairCount, timeMs, achievedAt: new Date().toISOString() };
+  let previous: MatchingBestTime | undefined;
+
+  try {
+    const bestTimes = await loadBestTimes();
+    previous = bestTimes[key];
+    if (previous && previous.timeMs <= timeMs) {
+      return { best: previous, isRecord: false };
+    }
+
+    await IndexedDB.saveData(BEST_TIMES_KEY, { ...bestTimes, [key]: result });
+  } catch (error) {
+    console.error("Erreur lors de l'enregistrement du meilleur temps:", error);
+    // Un temps qui n'a pas été enregistré n'est pas annoncé comme record
+    return { best: previous ?? null, isRecord: false };
+  }
+  return { best: result, isRecord: true };
+};
@@ -0,0 +1,77 @@
+/**
+ * Questions à choix multiples
+ *
+ * Construit une question à partir d'une carte : la bonne réponse est son verso,
+ * les distracteurs sont les versos d'autres cartes, pris d'abord dans le même
+ * thème puis dans le reste du deck. Les distracteurs identiques ou trop proches
+ * de la bonne réponse (ou entre eux) sont écartés pour qu'une seule option soit juste.
+ *
+ * Ce module est purement fonctionnel : il ne lit ni n'écrit rien dans IndexedDB.
+ */
+
+import { answerSimilarity, normalizeAnswer } from './answerMatching';
+import type { Flashcard } from '../types/localStorage';
+
+export const MIN_CHOICE_COUNT = 2;
+export const MAX_CHOICE_COUNT = 6;
+export const DEFAULT_CHOICE_COUNT = 4;
+
+// Au-delà de cette similarité (0 à 1), deux réponses sont considérées comme interchangeables
+const MAX_DISTRACTOR_SIMILARITY = 0.8;
+
+export interface MultipleChoiceOption {
+  cardId: string; // Carte dont le verso fournit l'option
+  text: string;
+  correct: boolean;
+}
+
+export interface MultipleChoiceQuestion {
+  cardId: string;
+  options: MultipleChoiceOption[];
+}
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Construit une question à choix multiples pour une carte
+ * @param card Carte interrogée
+ * @param pool Cartes dans lesquelles choisir les distracteurs (la carte elle-même est ignorée)
+ * @param options choiceCount : nombre total d'options (2 à 6) ; random : générateur aléatoire
+ * @returns La question ; elle compte moins d'options que demandé si le deck n'a pas assez de réponses distinctes
+ */
+export const buildMultipleChoiceQuestion = (
+  card: Pick<Flashcard, 'id' | 'themeId' | 'back'>,
+  pool: Pick<Flashcard, 'id' | 'themeId' | 'back'>[],
+  { choiceCount = DEFAULT_CHOICE_COUNT, random = Math.random }: { choiceCount?: number; random?: () => number } = {}
+): MultipleChoiceQuestion => {
+  const count = Math.min(MAX_CHOICE_COUNT, Math.max(MIN_CHOICE_COUNT, Math.round(choiceCount)));
+  const answer: MultipleChoiceOption = { cardId: card.id, text: card.back.text, correct: true };
+  const chosen = [normalizeAnswer(answer.text)];
+  const distractors: MultipleChoiceOption[] = [];
+
+  // Les cartes du même thème d'abord : leurs réponses sont les plus plausibles
+  const others = shuffle(pool.filter(other => other.id !== card.id), random);
+  const candidates = card.themeId
+    ? [...others.filter(other => other.themeId === card.themeId), ...others.filter(other => other.themeId !== card.themeId)]
+    : others;
+
+  for (const candidate of candidates) {
+    if (distractors.length >= count - 1) break;
+
+    const normalized = normalizeAnswer(candidate.back.text);
+    if (!normalized) continue;
+    if (chosen.some(existing => answerSimilarity(existing, normalized) >= MAX_DISTRACTOR_SIMILARITY)) continue;
+
+    chosen.push(normalized);
+    distractors.push({ cardId: candidate.id, text: candidate.back.text, correct: false });
+  }
+
+  return { cardId: card.id, options: shuffle([answer, ...distractors], random) };
+};
@@ -0,0 +1,274 @@
+/**
+ * Journal des révisions
+ *
+ * Conserve chaque réponse donnée pendant l'étude (carte, deck, thème, date, mode,
+ * note, temps de réponse, texte saisi) dans un object store IndexedDB dédié.
+ * Le journal est en ajout seul : les entrées ne sont jamais modifiées, seulement
+ * allégées (compaction) ou supprimées (élagage).
+ *
+ * Ces données brutes alimentent les statistiques, la détection des cartes
+ * difficiles et les algorithmes de répétition espacée.
+ */
+
+import * as IndexedDB from './enhancedIndexedDB';
+import { ReviewLogEntry } from '../types/localStorage';
+
+export type { ReviewLogEntry, ReviewMode, ReviewChoice } from '../types/localStorage';
+
+const { REVIEW_LOG_STORE } = IndexedDB;
+
+/**
+ * Trie des entrées par date croissante
+ */
+const sortByTimestamp = (entries: ReviewLogEntry[]): ReviewLogEntry[] => {
+  return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+/**
+ * Ajoute une révision au journal
+ * @param entry Révision à enregistrer (la date est celle de l'appel si elle est absente)
+ * @returns L'entrée enregistrée avec son identifiant
+ */
+export const logReview = async (
+  entry: Omit<ReviewLogEntry, "id" | "timestamp"> & { timestamp?: string }
+): Promise<ReviewLogEntry | null> => {
+  const record: ReviewLogEntry = {
+    ...entry,
+    timestamp: entry.timestamp || new Date().toISOString()
+  };
+
+  try {
+    const id = await IndexedDB.addRecord(REVIEW_LOG_STORE, record);
+    return { ...record, id: id as number };
+  } catch (error) {
+    console.error("Erreur lors de l'enregistrement de la révision:", error);
+    return null;
+  }
+};
+
+/**
+ * Récupère toutes les révisions du journal, de la plus ancienne à la plus récente
+ */
+export const getAllReviews = async (): Promise<ReviewLogEntry[]> => {
+  try {
+    // L'index sur la date renvoie les entrées déjà triées
+    return await IndexedDB.getRecords<ReviewLogEntry>(REVIEW_LOG_STORE, 'timestamp');
+  } catch (error) {
+    console.error("Erreur lors de la lecture du journal des révisions:", error);
+    return [];
+  }
+};
+
+/**
+ * Récupère les révisions d'une carte, de la plus ancienne à la plus récente
+ * @param cardId Identifiant de la carte
+ */
+export const getReviewsByCard = async (cardId: string): Promise<ReviewLogEntry[]> => {
+  try {
+    return sortByTimestamp(await IndexedDB.getRecords<ReviewLogEntry>(REVIEW_LOG_STORE, 'cardId', cardId));
+  } catch (error) {
+    console.error(`Erreur lors de la lecture des révisions de la carte ${cardId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Récupère les révisions d'un deck, éventuellement limitées à une période
+ * @param deckId Identifiant du deck
+ * @param from Début de la période (inclus, optionnel)
+ * @param to Fin de la période (incluse, optionnelle)
+ */
+export const getReviewsByDeck = async (deckId: string, from?: Date, to?: Date): Promise<ReviewLogEntry[]> => {
+  try {
+    // L'index composé [deckId, timestamp] renvoie les entrées déjà triées par date
+    const range = IDBKeyRange.bound(
+      [deckId, from ? from.toISOString() : ''],
+      [deckId, to ? to.toISOString() : '\uffff']
+    );
+    return await IndexedDB.getRecords<ReviewLogEntry>(REVIEW_LOG_STORE, 'deckId_timestamp', range);
+  } catch (error) {
+    console.error(`Erreur lors de la lecture des révisions du deck ${deckId}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Récupère les révisions comprises dans une période, tous decks confondus
+ * @param from Début de la période (inclus)
+ * @param to Fin de la période (incluse, par défaut maintenant)
+ */
+export const getReviewsByDateRange = async (from: Date, to: Date = new Date()): Promise<ReviewLogEntry[]> => {
+  try {
+    const range = IDBKeyRange.bound(from.toISOString(), to.toISOString());
+    return await IndexedDB.getRecords<ReviewLogEntry>(REVIEW_LOG_STORE, 'timestamp', range);
+  } catch (error) {
+    console.error("Erreur lors de la lecture des révisions sur la période:", error);
+    return [];
+  }
+};
+
+// Paire de cartes confondue en QCM : le verso de confusedWithCardId a été choisi pour cardId
+export interface ConfusedPair {
+  cardId: string;
+  confusedWithCardId: string;
+  count: number;
+  lastConfusedAt: string;
+}
+
+/**
+ * Paires de cartes confondues dans les questions à choix multiples d'un deck,
+ * de la plus fréquente à la plus rare
+ * @param deckId Identifiant du deck
+ */
+export const getConfusedPairs = async (deckId: string): Promise<ConfusedPair[]> => {
+  const pairs = new Map<string, ConfusedPair>();
+
+  for (const entry of await getReviewsByDeck(deckId)) {
+    if (!entry.choice || entry.choice.pickedCardId === entry.cardId) continue;
+
+    const key = `${entry.cardId}:${entry.choice.pickedCardId}`;
+    const pair = pairs.get(key);
+    if (pair) {
+      pair.count++;
+      pair.lastConfusedAt = entry.timestamp;
+    } else {
+      pairs.set(key, {
+        cardId: entry.cardId,
+        confusedWithCardId: entry.choice.pickedCardId,
+        count: 1,
+        lastConfusedAt: entry.timestamp
+      });
+    }
+  }
+
+  return Array.from(pairs.values()).sort((a, b) => b.count - a.count || b.lastConfusedAt.localeCompare(a.lastConfusedAt));
+};
+
+/**
+ * Supprime les révisions anciennes ou en surnombre
+ * @param options olderThan : supprime les entrées antérieures à cette date ;
+ *                maxEntriesPerCard : ne conserve que les N révisions les plus récentes de chaque carte
+ * @returns Le nombre d'entrées supprimées
+ */
+export const pruneReviewLog = async (options: {
+  olderThan?: Date;
+  maxEntriesPerCard?: number;
+}): Promise<number> => {
+  let removed = 0;
+
+  try {
+    if (options.olderThan) {
+      await IndexedDB.iterateRecords(REVIEW_LOG_STORE, cursor => {
+        cursor.delete();
+        removed++;
+      }, {
+        indexName: 'timestamp',
+        range: IDBKeyRange.upperBound(options.olderThan.toISOString(), true),
+        mode: 'readwrite'
+      });
+    }
+
+    if (options.maxEntriesPerCard !== undefined) {
+      // Parcours du plus récent au plus ancien : tout ce qui dépasse le quota d'une carte est supprimé
+      const keptPerCard = new Map<string, number>();
+      await IndexedDB.iterateRecords(REVIEW_LOG_STORE, cursor => {
+        const entry = cursor.value as ReviewLogEntry;
+        const kept = keptPerCard.get(entry.cardId) || 0;
+        if (kept >= options.maxEntriesPerCard!) {
+          cursor.delete();
+          removed++;
+        } else {
+          keptPerCard.set(entry.cardId, kept + 1);
+        }
+      }, {
+        indexName: 'timestamp',
+        direction: 'prev',
+        mode: 'readwrite'
+      });
+    }
+  } catch (error) {
+    console.error("Erreur lors de l'élagage du journal des révisions:", error);
+  }
+
+  return removed;
+};
+
+/**
+ * Allège les révisions anciennes en retirant le texte des réponses saisies
+ * La note, la date et le temps de réponse sont conservés pour les statistiques.
+ * @param olderThan Les entrées antérieures à cette date sont compactées
+ * @returns Le nombre d'entrées compactées
+ */
+export const compactReviewLog = async (olderThan: Date): Promise<number> => {
+  let compacted = 0;
+
+  try {
+    await IndexedDB.iterateRecords(REVIEW_LOG_STORE, cursor => {
+      const entry = cursor.value as ReviewLogEntry;
+      if (entry.answer !== undefined) {
+        const { answer, ...compactEntry } = entry;
+        cursor.update(compactEntry);
+        compacted++;
+      }
+    }, {
+      indexName: 'timestamp',
+      range: IDBKeyRange.upperBound(olderThan.toISOString(), true),
+      mode: 'readwrite'
+    });
+  } catch (error) {
+    console.error("Erreur lors de la compaction du journal des révisions:", error);
+  }
+
+  return compacted;
+};
+
+/**
+ * Supprime toutes les révisions d'une carte ou d'un deck
+ * @param filter Identifiant de carte ou de deck
+ * @returns Le nombre d'entrées supprimées
+ */
+export const deleteReviews = async (filter: { cardId?: string; deckId?: string }): Promise<number> => {
+  const indexName = filter.cardId ? 'cardId' : 'deckId';
+  const key = filter.cardId || filter.deckId;
+  if (!key) return 0;
+
+  let removed = 0;
+  try {
+    await IndexedDB.iterateRecords(REVIEW_LOG_STORE, cursor => {
+      cursor.delete();
+      removed++;
+    }, {
+      indexName,
+      range: IDBKeyRange.only(key),
+      mode: 'readwrite'
+    });
+  } catch (error) {
+    console.error("Erreur lors de la suppression des révisions:", error);
+  }
+
+  return removed;
+};
+
+// Entretien du journal : texte des réponses retiré après 30 jours, 200 révisions conservées par carte
+const COMPACT_AFTER_DAYS = 30;
+const MAX_ENTRIES_PER_CARD = 200;
+const MAINTENANCE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const MAINTENANCE_KEY = 'reviewLogMaintainedAt';
+
+/**
+ * Compacte puis élague le journal, au plus une fois par jour
+ * Appelée au démarrage de l'application pour que le journal ne grossisse pas indéfiniment.
+ */
+export const maintainReviewLog = async (): Promise<void> => {
+  const now = Date.now();
+  const lastRun = Number(localStorage.getItem(MAINTENANCE_KEY) || 0);
+  if (now - lastRun < MAINTENANCE_INTERVAL_MS) return;
+
+  const compacted = await compactReviewLog(new Date(now - COMPACT_AFTER_DAYS * 24 * 60 * 60 * 1000));
+  const removed = await pruneReviewLog({ maxEntriesPerCard: MAX_ENTRIES_PER_CARD });
+  localStorage.setItem(MAINTENANCE_KEY, String(now));
+
+  if (compacted > 0 || removed > 0) {
+    console.log(`Journal des révisions : ${compacted} entrée(s) compactée(s), ${removed} supprimée(s)`);
+  }
+};
@@ -0,0 +1,306 @@
+/**
+ * Module de répétition espacée
+ *
+ * Calcule l'état de révision de chaque carte (facilité, intervalle, échéance,
+ * oublis, répétitions) à partir de la note donnée par l'utilisateur.
+ * Deux algorithmes sont disponibles et interchangeables : SM-2 et FSRS.
+ *
+ * Ce module est purement fonctionnel : il ne lit ni n'écrit rien dans IndexedDB.
+ * La persistance des états est assurée par localStorage.ts.
+ */
+
+import { CardReviewState, ReviewGrade, SchedulerAlgorithm } from '../types/localStorage';
+
+export type { CardReviewState, ReviewGrade, SchedulerAlgorithm } from '../types/localStorage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SCHEDULER: SchedulerAlgorithm = 'sm2';
+
+// Facilité initiale de SM-2 (250 %)
+const SM2_INITIAL_EASE = 2.5;
+const SM2_MIN_EASE = 1.3;
+
+/**
+ * Interface commune à tous les algorithmes de planification
+ */
+export interface Scheduler {
+  name: SchedulerAlgorithm;
+  label: string;
+  /**
+   * Calcule le nouvel état d'une carte après une révision
+   * @param state État actuel de la carte
+   * @param grade Note donnée par l'utilisateur
+   * @param now Date de la révision
+   * @returns Le nouvel état de la carte
+   */
+  schedule(state: CardReviewState, grade: ReviewGrade, now: Date): CardReviewState;
+}
+
+/**
+ * Crée l'état de révision d'une carte jamais étudiée
+ * @param cardId Identifiant de la carte
+ * @param deckId Identifiant du deck
+ * @param themeId Identifiant du thème (optionnel)
+ * @param now Date de création de l'état
+ */
+export const createInitialReviewState = (
+  cardId: string,
+  deckId: string,
+  themeId?: string,
+  now: Date = new Date()
+): CardReviewState => ({
+  cardId,
+  deckId,
+  ...(themeId && { themeId }),
+  ease: SM2_INITIAL_EASE,
+  interval: 0,
+  due: now.toISOString(),
+  lapses: 0,
+  reps: 0,
+  createdAt: now.toISOString(),
+  updatedAt: now.toISOString()
+});
+
+/**
+ * Ajoute un nombre de jours (éventuellement fractionnaire) à une date
+ */
+const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getTime() + days * DAY_MS);
+};
+
+/**
+ * Nombre de jours écoulés depuis la dernière révision
+ */
+const elapsedDays = (state: CardReviewState, now: Date): number => {
+  if (!state.lastReviewed) return 0;
+  return Math.max(0, (now.getTime() - new Date(state.lastReviewed).getTime()) / DAY_MS);
+};
+
+const clamp = (value: number, min: number, max: number): number => {
+  return Math.min(max, Math.max(min, value));
+};
+
+// ---------------------------------------------------------------------------
+// SM-2
+// ---------------------------------------------------------------------------
+
+// Correspondance entre les notes de l'application et la qualité 0-5 de SM-2
+const SM2_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+export const sm2Scheduler: Scheduler = {
+  name: 'sm2',
+  label: 'SM-2 (SuperMemo)',
+  schedule(state, grade, now) {
+    const quality = SM2_QUALITY[grade];
+    let { ease, interval, reps, lapses } = state;
+
+    if (quality < 3) {
+      // Carte oubliée : on recommence la séquence
+      reps = 0;
+      interval = 1;
+      lapses += 1;
+    } else {
+      reps += 1;
+      if (reps === 1) {
+        interval = 1;
+      } else if (reps === 2) {
+        interval = 6;
+      } else {
+        interval = Math.round(interval * ease);
+      }
+      // Une carte facile est repoussée un peu plus loin
+      if (grade === 'easy') {
+        interval = Math.round(interval * 1.3);
+      }
+    }
+
+    ease = Math.max(SM2_MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+    return {
+      ...state,
+      ease,
+      interval,
+      reps,
+      lapses,
+      due: addDays(now, interval).toISOString(),
+      lastReviewed: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+  }
+};
+
+// ---------------------------------------------------------------------------
+// FSRS (Free Spaced Repetition Scheduler, version 4.5)
+// ---------------------------------------------------------------------------
+
+// Paramètres par défaut publiés pour FSRS-4.5
+const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755
+];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+// Probabilité de rappel visée au moment de l'échéance
+const FSRS_REQUEST_RETENTION = 0.9;
+const FSRS_MAX_INTERVAL = 36500;
+
+const FSRS_RATING: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4
+};
+
+const fsrsInitialStability = (rating: number): number => {
+  return Math.max(FSRS_WEIGHTS[rating - 1], 0.1);
+};
+
+const fsrsInitialDifficulty = (rating: number): number => {
+  return clamp(FSRS_WEIGHTS[4] - (rating - 3) * FSRS_WEIGHTS[5], 1, 10);
+};
+
+const fsrsRetrievability = (elapsed: number, stability: number): number => {
+  return Math.pow(1 + FSRS_FACTOR * elapsed / stability, FSRS_DECAY);
+};
+
+const fsrsNextInterval = (stability: number): number => {
+  const interval = stability / FSRS_FACTOR * (Math.pow(FSRS_REQUEST_RETENTION, 1 / FSRS_DECAY) - 1);
+  return clamp(Math.round(interval), 1, FSRS_MAX_INTERVAL);
+};
+
+const fsrsNextDifficulty = (difficulty: number, rating: number): number => {
+  const next = difficulty - FSRS_WEIGHTS[6] * (rating - 3);
+  // Retour progressif vers la difficulté d'une carte notée « Bien »
+  const reverted = FSRS_WEIGHTS[7] * fsrsInitialDifficulty(3) + (1 - FSRS_WEIGHTS[7]) * next;
+  return clamp(reverted, 1, 10);
+};
+
+const fsrsRecallStability = (difficulty: number, stability: number, retrievability: number, rating: number): number => {
+  const hardPenalty = rating === 2 ? FSRS_WEIGHTS[15] : 1;
+  const easyBonus = rating === 4 ? FSRS_WEIGHTS[16] : 1;
+  return stability * (
+    Math.exp(FSRS_WEIGHTS[8]) *
+    (11 - difficulty) *
+    Math.pow(stability, -FSRS_WEIGHTS[9]) *
+    (Math.exp(FSRS_WEIGHTS[10] * (1 - retrievability)) - 1) *
+    hardPenalty *
+    easyBonus +
+    1
+  );
+};
+
+const fsrsForgetStability = (difficulty: number, stability: number, retrievability: number): number => {
+  return FSRS_WEIGHTS[11] *
+    Math.pow(difficulty, -FSRS_WEIGHTS[12]) *
+    (Math.pow(stability + 1, FSRS_WEIGHTS[13]) - 1) *
+    Math.exp(FSRS_WEIGHTS[14] * (1 - retrievability));
+};
+
+export const fsrsScheduler: Scheduler = {
+  name: 'fsrs',
+  label: 'FSRS',
+  schedule(state, grade, now) {
+    const rating = FSRS_RATING[grade];
+    let stability: number;
+    let difficulty: number;
+
+    if (state.stability === undefined || state.difficulty === undefined) {
+      // Première révision de la carte avec FSRS
+      stability = fsrsInitialStability(rating);
+      difficulty = fsrsInitialDifficulty(rating);
+    } else {
+      const retrievability = fsrsRetrievability(elapsedDays(state, now), state.stability);
+      difficulty = fsrsNextDifficulty(state.difficulty, rating);
+      stability = rating === 1
+        ? fsrsForgetStability(state.difficulty, state.stability, retrievability)
+        : fsrsRecallStability(state.difficulty, state.stability, retrievability, rating);
+    }
+
+    const lapses = rating === 1 && state.reps > 0 ? state.lapses + 1 : state.lapses;
+    const reps = rating === 1 ? 0 : state.reps + 1;
+    // Une carte oubliée est revue le lendemain
+    const interval = rating === 1 ? 1 : fsrsNextInterval(stability);
+
+    return {
+      ...state,
+      stability,
+      difficulty,
+      // La facilité n'est pas utilisée par FSRS, on en donne un équivalent lisible
+      ease: clamp(3.5 - difficulty * 0.2, SM2_MIN_EASE, SM2_INITIAL_EASE + 0.5),
+      interval,
+      reps,
+      lapses,
+      due: addDays(now, interval).toISOString(),
+      lastReviewed: now.toISOString(),
+      updatedAt: now.toISOString()
+    };
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Registre des algorithmes et file de révision
+// ---------------------------------------------------------------------------
+
+export const SCHEDULERS: Record<SchedulerAlgorithm, Scheduler> = {
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler
+};
+
+/**
+ * Retourne l'algorithme correspondant au nom donné (SM-2 par défaut)
+ * @param name Nom de l'algorithme
+ */
+export const getScheduler = (name?: SchedulerAlgorithm | null): Scheduler => {
+  return (name && SCHEDULERS[name]) || SCHEDULERS[DEFAULT_SCHEDULER];
+};
+
+/**
+ * Indique si une carte doit être révisée à la date donnée
+ * @param state État de révision de la carte (undefined pour une carte nouvelle)
+ * @param now Date de référence
+ */
+export const isDue = (state: CardReviewState | undefined, now: Date = new Date()): boolean => {
+  if (!state) return true;
+  // Une carte est due pour toute la journée de son échéance
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+  return new Date(state.due).getTime() <= endOfDay.getTime();
+};
+
+/**
+ * Construit la file des cartes à réviser aujourd'hui
+ * Les cartes en retard passent en premier (de la plus ancienne échéance à la plus récente),
+ * suivies des cartes jamais étudiées dans leur ordre d'origine.
+ * @param cards Cartes candidates (déjà filtrées par thème si nécessaire)
+ * @param states États de révision connus, indexés par identifiant de carte
+ * @param now Date de référence
+ */
+export const buildDueQueue = <T extends { id: string }>(
+  cards: T[],
+  states: Map<string, CardReviewState>,
+  now: Date = new Date()
+): T[] => {
+  const reviewCards: T[] = [];
+  const newCards: T[] = [];
+
+  for (const card of cards) {
+    const state = states.get(card.id);
+    if (!state) {
+      newCards.push(card);
+    } else if (isDue(state, now)) {
+      reviewCards.push(card);
+    }
+  }
+
+  reviewCards.sort((a, b) =>
+    new Date(states.get(a.id)!.due).getTime() - new Date(states.get(b.id)!.due).getTime()
+  );
+
+  return [...reviewCards, ...newCards];
+};
@@ -7,12 +7,14 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import * as IndexedDB from './enhancedIndexedDB';
+import { parseFlashcardContent } from './cardContent';
+import type { ReviewGrade } from '../types/localStorage';
 
-// Configuration exportée pour l'accès global
+// Configuration exportée pour l'accès global, reprise de enhancedIndexedDB
 export const DB_CONFIG = {
-  NAME: 'cds-flashcard-db',
-  VERSION: 1,
-  STORE_NAME: 'app-data',
+  NAME: IndexedDB.DB_NAME,
+  VERSION: IndexedDB.DB_VERSION,
+  STORE_NAME: IndexedDB.APP_DATA_STORE,
 };
 
 export const KEYS = {
@@ -82,9 +84,9 @@ export const exportSessionData = async (): Promise<string> => {
     const userData = await IndexedDB.loadData(KEYS.USER_DATA_KEY, {});
     
     // Récupérer les données de decks, thèmes et flashcards
-    const decks = await IndexedDB.loadData("decks", []);
-    const themes = await IndexedDB.loadData("themes", []);
-    const flashcards = await IndexedDB.loadData("flashcards", []);
+    const decks = await IndexedDB.getRecords(IndexedDB.STORES.DECKS);
+    const themes = await IndexedDB.getRecords(IndexedDB.STORES.THEMES);
+    const flashcards = await IndexedDB.getRecords(IndexedDB.STORES.FLASHCARDS);
     
     // Créer le package de données
     const exportData = {
@@ -114,6 +116,11 @@ export const importSessionData = async (data: string): Promise<boolean> => {
       throw new Error("Données invalides");
     }
     
+    // Valider les cartes avant toute écriture ; les sauvegardes d'anciennes versions contiennent des faces sans type
+    const flashcards = Array.isArray(importedData.flashcards)
+      ? importedData.flashcards.map(parseFlashcardContent)
+      : undefined;
+    
     // Sauvegarder la clé de session
     await saveSessionKey(importedData.sessionKey);
     
@@ -124,15 +131,15 @@ export const importSessionData = async (data: string): Promise<boolean> => {
     
     // Sauvegarder les decks, thèmes et flashcards
     if (importedData.decks) {
-      await IndexedDB.saveData("decks", importedData.decks);
+      await IndexedDB.replaceRecords(IndexedDB.STORES.DECKS, importedData.decks);
     }
     
     if (importedData.themes) {
-      await IndexedDB.saveData("themes", importedData.themes);
+      await IndexedDB.replaceRecords(IndexedDB.STORES.THEMES, importedData.themes);
     }
     
-    if (importedData.flashcards) {
-      await IndexedDB.saveData("flashcards", importedData.flashcards);
+    if (flashcards) {
+      await IndexedDB.replaceRecords(IndexedDB.STORES.FLASHCARDS, flashcards);
     }
     
     return true;
@@ -402,9 +409,21 @@ export const verifySessionSync = (key: string): boolean => {
 };
 
 // Fonctions d'étude et de statistiques
-export const recordCardStudy = async (correct: boolean): Promise<void> => {
+interface StudyStats {
+  cardsStudied: number;
+  correctAnswers: number;
+  incorrectAnswers: number;
+  gradeCounts?: Record<ReviewGrade, number>;
+}
+
+/**
+ * Met à jour les compteurs d'étude de l'utilisateur
+ * @param correct Réponse correcte ou non
+ * @param grade Note à quatre niveaux, comptée dans la répartition des notes si elle est fournie
+ */
+const updateStudyStats = async (correct: boolean, grade?: ReviewGrade): Promise<void> => {
   try {
-    const userData = await IndexedDB.loadData(KEYS.USER_DATA_KEY, {
+    const userData = await IndexedDB.loadData<{ stats: StudyStats }>(KEYS.USER_DATA_KEY, {
       stats: {
         cardsStudied: 0,
         correctAnswers: 0,
@@ -430,6 +449,13 @@ export const recordCardStudy = async (correct: boolean): Promise<void> => {
       userData.stats.incorrectAnswers = (userData.stats.incorrectAnswers || 0) + 1;
     }
     
+    // Répartition des notes
+    if (grade) {
+      const gradeCounts = userData.stats.gradeCounts || { again: 0, hard: 0, good: 0, easy: 0 };
+      gradeCounts[grade] = (gradeCounts[grade] || 0) + 1;
+      userData.stats.gradeCounts = gradeCounts;
+    }
+    
     // Sauvegarder les modifications
     await IndexedDB.saveData(KEYS.USER_DATA_KEY, userData);
   } catch (error) {
@@ -437,6 +463,16 @@ export const recordCardStudy = async (correct: boolean): Promise<void> => {
   }
 };
 
+export const recordCardStudy = (correct: boolean): Promise<void> => updateStudyStats(correct);
+
+/**
+ * Enregistre l'étude d'une carte avec une note à quatre niveaux
+ * Une carte notée « À revoir » compte comme une réponse incorrecte, les autres notes comme correctes.
+ * @param grade Note donnée par l'utilisateur
+ */
+export const recordGradedCardStudy = (grade: ReviewGrade): Promise<void> =>
+  updateStudyStats(grade !== 'again', grade);
+
 export const updateSessionStats = async (stats: Partial<{ 
   studySessions: number;
   totalStudyTime: number;
@@ -491,6 +527,7 @@ export const getSessionStats = async (): Promise<{
   studySessions: number;
   totalStudyTime: number;
   lastStudyDate: string;
+  gradeCounts?: Record<ReviewGrade, number>;
 }> => {
   try {
     const userData = await IndexedDB.loadData(KEYS.USER_DATA_KEY, {
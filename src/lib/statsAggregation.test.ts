@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import {
+  aggregateByDay,
+  aggregateByDeck,
+  aggregateByTheme,
+  buildAccuracySeries,
+  buildActivitySeries,
+  computeStreaks
+} from './statsAggregation';
+import { Deck, ReviewLogEntry, Theme } from '../types/localStorage';
+
+// Dimanche 15 mars 2026, 18 h (heure locale)
+const NOW = new Date(2026, 2, 15, 18);
+
+const at = (month: number, day: number, hour = 10) => new Date(2026, month - 1, day, hour);
+
+const review = (date: Date, fields: Partial<ReviewLogEntry> = {}): ReviewLogEntry => ({
+  cardId: 'carte',
+  deckId: 'deck',
+  timestamp: date.toISOString(),
+  mode: 'flashcards',
+  grade: 'good',
+  ...fields
+});
+
+const deck = (id: string, title: string): Deck => ({
+  id,
+  title,
+  authorId: 'auteur',
+  description: '',
+  isPublic: false,
+  createdAt: NOW.toISOString(),
+  updatedAt: NOW.toISOString()
+});
+
+describe('aggregateByDay', () => {
+  it('regroupe les révisions par jour local', () => {
+    const days = aggregateByDay([
+      review(at(3, 15, 9), { cardId: 'a', responseTimeMs: 30_000 }),
+      review(at(3, 15, 23), { cardId: 'b', grade: 'again' }),
+      review(at(3, 15, 23), { cardId: 'a', responseTimeMs: 60 * 60 * 1000 }),
+      review(at(3, 16, 0), { cardId: 'c' })
+    ]);
+
+    expect(Array.from(days.keys())).toEqual(['2026-03-15', '2026-03-16']);
+    const day = days.get('2026-03-15')!;
+    expect(day).toMatchObject({ reviews: 3, correct: 2 });
+    expect(day.cardIds).toEqual(new Set(['a', 'b']));
+    // 30 s, 10 s sans temps de réponse connu, 5 min au plus pour une pause
+    expect(day.minutes).toBeCloseTo(0.5 + 10 / 60 + 5);
+  });
+});
+
+describe('buildActivitySeries', () => {
+  const entries = [
+    review(at(3, 15)),
+    review(at(3, 15), { responseTimeMs: 60_000 }),
+    review(at(3, 9)),
+    review(at(3, 8)),
+    review(at(2, 14)),
+    review(at(2, 13)),
+    review(new Date(2025, 3, 1)),
+    review(new Date(2025, 2, 31))
+  ];
+
+  it('découpe la semaine en 7 jours se terminant aujourd\'hui', () => {
+    const series = buildActivitySeries(entries, 'week', NOW);
+    expect(series.map(point => point.name)).toEqual(['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim']);
+    expect(series.map(point => point.reviews)).toEqual([1, 0, 0, 0, 0, 0, 2]);
+    expect(series[6].minutes).toBe(1.2);
+  });
+
+  it('découpe le mois en 30 jours', () => {
+    const series = buildActivitySeries(entries, 'month', NOW);
+    expect(series).toHaveLength(30);
+    expect(series[0]).toMatchObject({ name: '14', reviews: 1 });
+    expect(series[29]).toMatchObject({ name: '15', reviews: 2 });
+    expect(series.reduce((total, point) => total + point.reviews, 0)).toBe(5);
+  });
+
+  it("découpe l'année en 12 mois", () => {
+    const series = buildActivitySeries(entries, 'year', NOW);
+    expect(series.map(point => point.name)).toEqual(
+      ['Avr', 'Mai', 'Jun', 'Jul', 'Aoû', 'Sep', 'Oct', 'Nov', 'Déc', 'Jan', 'Fév', 'Mar']
+    );
+    expect(series[0].reviews).toBe(1);
+    expect(series[10].reviews).toBe(2);
+    expect(series[11].reviews).toBe(4);
+  });
+
+  it("ne donne pas de taux de réussite aux intervalles sans révision", () => {
+    const series = buildAccuracySeries([review(at(3, 15)), review(at(3, 15), { grade: 'again' })], 'week', NOW);
+    expect(series[6].score).toBe(50);
+    expect(series[5].score).toBeNull();
+  });
+});
+
+describe('computeStreaks', () => {
+  const days = (...dates: Date[]) => aggregateByDay(dates.map(date => review(date)));
+
+  it('interrompt une série sur un jour sans révision', () => {
+    const streaks = computeStreaks(days(at(3, 15), at(3, 14), at(3, 13), at(3, 11), at(3, 10), at(3, 9), at(3, 8)), NOW);
+    expect(streaks).toEqual({ current: 3, best: 4 });
+  });
+
+  it("garde la série actuelle tant qu'aujourd'hui n'est pas terminé", () => {
+    expect(computeStreaks(days(at(3, 14), at(3, 13)), NOW)).toEqual({ current: 2, best: 2 });
+    expect(computeStreaks(days(at(3, 13), at(3, 12)), NOW)).toEqual({ current: 0, best: 2 });
+  });
+
+  it("enchaîne les jours d'un mois à l'autre", () => {
+    expect(computeStreaks(days(at(2, 27), at(2, 28), at(3, 1)), at(3, 1))).toEqual({ current: 3, best: 3 });
+  });
+});
+
+describe('répartition', () => {
+  it('distingue deux decks de même titre et réunit les decks supprimés', () => {
+    const decks = [deck('a', 'Japonais'), deck('b', 'Japonais')];
+    const entries = [
+      review(NOW, { deckId: 'a' }),
+      review(NOW, { deckId: 'a' }),
+      review(NOW, { deckId: 'b' }),
+      review(NOW, { deckId: 'supprimé-1' }),
+      review(NOW, { deckId: 'supprimé-2' })
+    ];
+    expect(aggregateByDeck(entries, decks)).toEqual([
+      { name: 'Japonais', value: 2 },
+      { name: 'Deck supprimé', value: 2 },
+      { name: 'Japonais', value: 1 }
+    ]);
+  });
+
+  it('regroupe les révisions sans thème', () => {
+    const themes: Theme[] = [{ id: 't', deckId: 'a', title: 'Verbes', description: '', createdAt: '', updatedAt: '' }];
+    const entries = [review(NOW, { themeId: 't' }), review(NOW), review(NOW, { themeId: 'inconnu' })];
+    expect(aggregateByTheme(entries, themes)).toEqual([
+      { name: 'Sans thème', value: 2 },
+      { name: 'Verbes', value: 1 }
+    ]);
+  });
+});
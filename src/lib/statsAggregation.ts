@@ -0,0 +1,381 @@
+/**
+ * Agrégation des statistiques d'étude
+ *
+ * Transforme les entrées brutes du journal des révisions en séries prêtes à
+ * afficher (activité, taux de réussite, répartition par deck et par thème).
+ * Toutes les fonctions sont pures et reçoivent la date de référence en paramètre,
+ * ce qui permet de les tester indépendamment de la page StatsPage.
+ */
+
+import { ReviewLogEntry, Deck, Theme } from '../types/localStorage';
+
+export type StatsPeriod = "week" | "month" | "year";
+
+export interface DailyStats {
+  date: string; // Jour local au format AAAA-MM-JJ
+  reviews: number;
+  correct: number;
+  minutes: number;
+  cardIds: Set<string>;
+}
+
+export interface ActivityPoint {
+  name: string;
+  minutes: number;
+  reviews: number;
+}
+
+export interface AccuracyPoint {
+  name: string;
+  // null lorsqu'aucune révision n'a eu lieu sur l'intervalle
+  score: number | null;
+}
+
+export interface DistributionSlice {
+  name: string;
+  value: number;
+}
+
+export interface RecentSession {
+  date: string;
+  deckId: string;
+  deckTitle: string;
+  reviews: number;
+  accuracy: number;
+  minutes: number;
+  lastTimestamp: string;
+}
+
+export interface StudySummary {
+  totalReviews: number;
+  studiedCards: number;
+  studyDays: number;
+  accuracy: number;
+  totalMinutes: number;
+  currentStreak: number;
+  bestStreak: number;
+  todayReviews: number;
+  todayMinutes: number;
+  weekReviews: number;
+  weekAccuracy: number;
+  previousWeekAccuracy: number;
+  monthAccuracy: number;
+}
+
+const WEEK_DAYS = ["Dim", "Lun", "Mar", "Mer", "Jeu", "Ven", "Sam"];
+const MONTH_NAMES = ["Jan", "Fév", "Mar", "Avr", "Mai", "Jun", "Jul", "Aoû", "Sep", "Oct", "Nov", "Déc"];
+
+// Au-delà de cette durée, on considère que l'utilisateur a fait une pause
+const MAX_REVIEW_DURATION_MS = 5 * 60 * 1000;
+// Durée retenue pour une révision dont le temps de réponse n'est pas connu
+const DEFAULT_REVIEW_DURATION_MS = 10 * 1000;
+
+const NO_THEME_LABEL = "Sans thème";
+const UNKNOWN_DECK_LABEL = "Deck supprimé";
+
+/**
+ * Clé de jour local (AAAA-MM-JJ) d'une date
+ */
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Clé de mois local (AAAA-MM) d'une date
+ */
+const toMonthKey = (date: Date): string => toDateKey(date).substring(0, 7);
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const isCorrect = (entry: ReviewLogEntry): boolean => entry.grade !== "again";
+
+const reviewMinutes = (entry: ReviewLogEntry): number => {
+  const duration = entry.responseTimeMs !== undefined && entry.responseTimeMs >= 0
+    ? Math.min(entry.responseTimeMs, MAX_REVIEW_DURATION_MS)
+    : DEFAULT_REVIEW_DURATION_MS;
+  return duration / 60000;
+};
+
+const percentage = (correct: number, total: number): number => {
+  return total > 0 ? Math.round((correct / total) * 100) : 0;
+};
+
+const roundMinutes = (minutes: number): number => Math.round(minutes * 10) / 10;
+
+/**
+ * Regroupe les révisions par jour local
+ * @param entries Entrées du journal des révisions
+ */
+export const aggregateByDay = (entries: ReviewLogEntry[]): Map<string, DailyStats> => {
+  const days = new Map<string, DailyStats>();
+
+  for (const entry of entries) {
+    const date = toDateKey(new Date(entry.timestamp));
+    let day = days.get(date);
+    if (!day) {
+      day = { date, reviews: 0, correct: 0, minutes: 0, cardIds: new Set() };
+      days.set(date, day);
+    }
+    day.reviews++;
+    if (isCorrect(entry)) day.correct++;
+    day.minutes += reviewMinutes(entry);
+    day.cardIds.add(entry.cardId);
+  }
+
+  return days;
+};
+
+/**
+ * Découpe une période en intervalles (jours ou mois) se terminant à la date de référence
+ */
+const periodBuckets = (period: StatsPeriod, now: Date): { key: string; name: string }[] => {
+  if (period === "year") {
+    return Array.from({ length: 12 }, (_, i) => {
+      const month = new Date(now.getFullYear(), now.getMonth() - 11 + i, 1);
+      return { key: toMonthKey(month), name: MONTH_NAMES[month.getMonth()] };
+    });
+  }
+
+  const length = period === "week" ? 7 : 30;
+  return Array.from({ length }, (_, i) => {
+    const day = addDays(now, i - length + 1);
+    return {
+      key: toDateKey(day),
+      name: period === "week" ? WEEK_DAYS[day.getDay()] : `${day.getDate()}`
+    };
+  });
+};
+
+/**
+ * Regroupe les statistiques journalières selon les intervalles de la période
+ */
+const bucketTotals = (
+  days: Map<string, DailyStats>,
+  period: StatsPeriod,
+  now: Date
+): { name: string; reviews: number; correct: number; minutes: number }[] => {
+  const buckets = periodBuckets(period, now);
+  const totals = new Map(buckets.map(bucket => [bucket.key, { reviews: 0, correct: 0, minutes: 0 }]));
+
+  days.forEach(day => {
+    const key = period === "year" ? day.date.substring(0, 7) : day.date;
+    const total = totals.get(key);
+    if (total) {
+      total.reviews += day.reviews;
+      total.correct += day.correct;
+      total.minutes += day.minutes;
+    }
+  });
+
+  return buckets.map(bucket => ({ name: bucket.name, ...totals.get(bucket.key)! }));
+};
+
+/**
+ * Série des minutes d'étude et du nombre de révisions sur la période
+ * @param entries Entrées du journal des révisions
+ * @param period Semaine (7 jours), mois (30 jours) ou année (12 mois)
+ * @param now Date de référence (fin de la période)
+ */
+export const buildActivitySeries = (entries: ReviewLogEntry[], period: StatsPeriod, now: Date): ActivityPoint[] => {
+  return bucketTotals(aggregateByDay(entries), period, now).map(bucket => ({
+    name: bucket.name,
+    minutes: roundMinutes(bucket.minutes),
+    reviews: bucket.reviews
+  }));
+};
+
+/**
+ * Série du taux de réussite sur la période
+ * @param entries Entrées du journal des révisions
+ * @param period Semaine (7 jours), mois (30 jours) ou année (12 mois)
+ * @param now Date de référence (fin de la période)
+ */
+export const buildAccuracySeries = (entries: ReviewLogEntry[], period: StatsPeriod, now: Date): AccuracyPoint[] => {
+  return bucketTotals(aggregateByDay(entries), period, now).map(bucket => ({
+    name: bucket.name,
+    score: bucket.reviews > 0 ? percentage(bucket.correct, bucket.reviews) : null
+  }));
+};
+
+/**
+ * Répartition des révisions par deck
+ * @param entries Entrées du journal des révisions
+ * @param decks Decks connus (pour les titres)
+ */
+export const aggregateByDeck = (entries: ReviewLogEntry[], decks: Deck[]): DistributionSlice[] => {
+  const titles = new Map(decks.map(deck => [deck.id, deck.title]));
+  const slices = new Map<string, DistributionSlice>();
+
+  for (const entry of entries) {
+    // Regroupées par identifiant : deux decks de même titre restent distincts,
+    // les decks supprimés forment une seule part
+    const title = titles.get(entry.deckId);
+    countSlice(slices, title ? entry.deckId : "", title || UNKNOWN_DECK_LABEL);
+  }
+
+  return sortSlices(slices);
+};
+
+/**
+ * Répartition des révisions par thème
+ * @param entries Entrées du journal des révisions
+ * @param themes Thèmes connus (pour les titres)
+ */
+export const aggregateByTheme = (entries: ReviewLogEntry[], themes: Theme[]): DistributionSlice[] => {
+  const titles = new Map(themes.map(theme => [theme.id, theme.title]));
+  const slices = new Map<string, DistributionSlice>();
+
+  for (const entry of entries) {
+    const name = (entry.themeId && titles.get(entry.themeId)) || NO_THEME_LABEL;
+    countSlice(slices, name, name);
+  }
+
+  return sortSlices(slices);
+};
+
+const countSlice = (slices: Map<string, DistributionSlice>, key: string, name: string): void => {
+  const slice = slices.get(key);
+  if (slice) {
+    slice.value++;
+  } else {
+    slices.set(key, { name, value: 1 });
+  }
+};
+
+const sortSlices = (slices: Map<string, DistributionSlice>): DistributionSlice[] => {
+  return Array.from(slices.values()).sort((a, b) => b.value - a.value);
+};
+
+/**
+ * Série actuelle et meilleure série de jours d'étude consécutifs
+ * La série actuelle reste valable tant que la veille a été travaillée.
+ * @param days Statistiques journalières
+ * @param now Date de référence
+ */
+export const computeStreaks = (days: Map<string, DailyStats>, now: Date): { current: number; best: number } => {
+  const sortedDays = Array.from(days.keys()).sort();
+  let best = 0;
+  let run = 0;
+  let previous: string | null = null;
+
+  for (const day of sortedDays) {
+    if (previous && toDateKey(addDays(new Date(`${previous}T12:00:00`), 1)) === day) {
+      run++;
+    } else {
+      run = 1;
+    }
+    best = Math.max(best, run);
+    previous = day;
+  }
+
+  let current = 0;
+  let cursor = days.has(toDateKey(now)) ? now : addDays(now, -1);
+  while (days.has(toDateKey(cursor))) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+
+  return { current, best };
+};
+
+/**
+ * Calcule les indicateurs globaux affichés en tête de la page de statistiques
+ * @param entries Entrées du journal des révisions
+ * @param now Date de référence
+ */
+export const computeSummary = (entries: ReviewLogEntry[], now: Date): StudySummary => {
+  const days = aggregateByDay(entries);
+  const today = days.get(toDateKey(now));
+  const streaks = computeStreaks(days, now);
+
+  const sumSince = (from: Date, to: Date = now) => {
+    const fromKey = toDateKey(from);
+    const toKey = toDateKey(to);
+    let reviews = 0;
+    let correct = 0;
+    days.forEach(day => {
+      if (day.date >= fromKey && day.date <= toKey) {
+        reviews += day.reviews;
+        correct += day.correct;
+      }
+    });
+    return { reviews, correct };
+  };
+
+  const week = sumSince(addDays(now, -6));
+  const previousWeek = sumSince(addDays(now, -13), addDays(now, -7));
+  const month = sumSince(addDays(now, -29));
+  const correct = entries.filter(isCorrect).length;
+
+  let totalMinutes = 0;
+  days.forEach(day => {
+    totalMinutes += day.minutes;
+  });
+
+  return {
+    totalReviews: entries.length,
+    studiedCards: new Set(entries.map(entry => entry.cardId)).size,
+    studyDays: days.size,
+    accuracy: percentage(correct, entries.length),
+    totalMinutes: Math.round(totalMinutes),
+    currentStreak: streaks.current,
+    bestStreak: streaks.best,
+    todayReviews: today ? today.reviews : 0,
+    todayMinutes: today ? Math.round(today.minutes) : 0,
+    weekReviews: week.reviews,
+    weekAccuracy: percentage(week.correct, week.reviews),
+    previousWeekAccuracy: percentage(previousWeek.correct, previousWeek.reviews),
+    monthAccuracy: percentage(month.correct, month.reviews)
+  };
+};
+
+/**
+ * Dernières séances d'étude, regroupées par jour et par deck
+ * @param entries Entrées du journal des révisions
+ * @param decks Decks connus (pour les titres)
+ * @param limit Nombre maximal de séances retournées
+ */
+export const getRecentSessions = (entries: ReviewLogEntry[], decks: Deck[], limit = 3): RecentSession[] => {
+  const titles = new Map(decks.map(deck => [deck.id, deck.title]));
+  const sessions = new Map<string, RecentSession & { correct: number }>();
+
+  for (const entry of entries) {
+    const date = toDateKey(new Date(entry.timestamp));
+    const key = `${date}|${entry.deckId}`;
+    let session = sessions.get(key);
+    if (!session) {
+      session = {
+        date,
+        deckId: entry.deckId,
+        deckTitle: titles.get(entry.deckId) || UNKNOWN_DECK_LABEL,
+        reviews: 0,
+        correct: 0,
+        accuracy: 0,
+        minutes: 0,
+        lastTimestamp: entry.timestamp
+      };
+      sessions.set(key, session);
+    }
+    session.reviews++;
+    if (isCorrect(entry)) session.correct++;
+    session.minutes += reviewMinutes(entry);
+    if (entry.timestamp > session.lastTimestamp) {
+      session.lastTimestamp = entry.timestamp;
+    }
+  }
+
+  return Array.from(sessions.values())
+    .sort((a, b) => b.lastTimestamp.localeCompare(a.lastTimestamp))
+    .slice(0, limit)
+    .map(({ correct, ...session }) => ({
+      ...session,
+      accuracy: percentage(correct, session.reviews),
+      minutes: Math.max(1, Math.round(session.minutes))
+    }));
+};
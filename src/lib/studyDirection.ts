@@ -0,0 +1,75 @@
+/**
+ * Sens d'étude des cartes
+ *
+ * Une carte peut être interrogée recto → verso, verso → recto, ou dans les deux sens.
+ * Chaque sens est un élément de révision indépendant : l'élément inversé a son propre
+ * identifiant, et donc son propre état de répétition espacée.
+ *
+ * Ce module est purement fonctionnel ; le sens choisi pour chaque deck est
+ * enregistré par localStorage.ts.
+ */
+
+import { CardDirection, CardSide, StudyDirection } from '../types/localStorage';
+
+export type { CardDirection, StudyDirection } from '../types/localStorage';
+
+export const DEFAULT_STUDY_DIRECTION: StudyDirection = 'forward';
+
+export const STUDY_DIRECTIONS: { value: StudyDirection; label: string }[] = [
+  { value: 'forward', label: 'Recto → verso' },
+  { value: 'reverse', label: 'Verso → recto' },
+  { value: 'both', label: 'Les deux sens' }
+];
+
+const REVERSE_SUFFIX = ':reverse';
+
+interface OrientableCard {
+  id: string;
+  front: CardSide;
+  back: CardSide;
+  reversible?: boolean; // false pour une carte qui n'a de sens qu'à l'endroit (texte à trous)
+}
+
+// Carte présentée dans un sens : id identifie l'élément de révision, cardId la carte d'origine
+export type StudyItem<T extends OrientableCard> = T & { cardId: string; direction: CardDirection };
+
+/**
+ * Identifiant de l'élément de révision d'une carte dans un sens
+ * @param cardId Identifiant de la carte
+ * @param direction Sens d'interrogation
+ */
+export const getReviewItemId = (cardId: string, direction: CardDirection): string => {
+  return direction === 'reverse' ? `${cardId}${REVERSE_SUFFIX}` : cardId;
+};
+
+/**
+ * Présente une carte dans un sens : en sens inverse, le verso devient la question
+ * @param card Carte d'origine
+ * @param direction Sens d'interrogation
+ */
+export const orientCard = <T extends OrientableCard>(card: T, direction: CardDirection): StudyItem<T> => {
+  const reverse = direction === 'reverse' && card.reversible !== false;
+  return {
+    ...card,
+    id: getReviewItemId(card.id, reverse ? 'reverse' : 'forward'),
+    cardId: card.id,
+    direction: reverse ? 'reverse' : 'forward',
+    front: reverse ? card.back : card.front,
+    back: reverse ? card.front : card.back
+  };
+};
+
+/**
+ * Éléments de révision d'une séance. En mode 'both', les cartes sont d'abord présentées
+ * à l'endroit puis à l'envers, pour ne pas enchaîner les deux sens d'une même carte.
+ * @param cards Cartes à étudier
+ * @param direction Sens d'étude
+ */
+export const buildStudyItems = <T extends OrientableCard>(cards: T[], direction: StudyDirection): StudyItem<T>[] => {
+  if (direction !== 'both') return cards.map(card => orientCard(card, direction));
+
+  return [
+    ...cards.map(card => orientCard(card, 'forward')),
+    ...cards.filter(card => card.reversible !== false).map(card => orientCard(card, 'reverse'))
+  ];
+};
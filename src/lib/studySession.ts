@@ -0,0 +1,144 @@
+/**
+ * Séances d'étude : réglages et reprise
+ *
+ * Avant de commencer, l'utilisateur peut limiter la séance en nombre de cartes,
+ * choisir la part de nouvelles cartes dans la file des révisions et fixer une
+ * durée maximale. Ces réglages sont enregistrés pour les séances suivantes.
+ *
+ * Une séance en cours est enregistrée après chaque réponse (ordre des cartes,
+ * réponses, score, temps passé) pour être reprise après un rechargement de la
+ * page ou depuis la page du deck. Une seule séance est conservée par deck ;
+ * elle est effacée quand la séance se termine.
+ */
+
+import * as IndexedDB from './enhancedIndexedDB';
+import { ReviewMode, StudySessionConfig, StudySessionSnapshot } from '../types/localStorage';
+
+export type { StudySessionConfig, StudySessionScore, StudySessionSnapshot } from '../types/localStorage';
+
+const CONFIG_KEY = 'studySessionConfig';
+const SESSIONS_KEY = 'studySessions';
+
+export const DEFAULT_STUDY_SESSION_CONFIG: StudySessionConfig = {
+  cardLimit: null,
+  newCardRatio: null,
+  timeLimitMinutes: null
+};
+
+export const SESSION_CARD_LIMITS = [10, 20, 30, 50, 100];
+export const SESSION_TIME_LIMITS = [5, 10, 15, 20, 30, 60];
+export const NEW_CARD_RATIOS = [0, 0.25, 0.5, 0.75, 1];
+
+export const STUDY_MODE_LABELS: Record<ReviewMode, string> = {
+  flashcards: 'Flashcards',
+  quiz: 'Quiz',
+  choice: 'QCM',
+  write: 'Écriture',
+  matching: 'Association'
+};
+
+/**
+ * Réglages de séance enregistrés
+ */
+export const getStudySessionConfig = async (): Promise<StudySessionConfig> => {
+  try {
+    const config = await IndexedDB.loadData<Partial<StudySessionConfig>>(CONFIG_KEY, {});
+    return { ...DEFAULT_STUDY_SESSION_CONFIG, ...config };
+  } catch (error) {
+    console.error("Erreur lors du chargement des réglages de séance:", error);
+    return DEFAULT_STUDY_SESSION_CONFIG;
+  }
+};
+
+/**
+ * Enregistre les réglages de séance
+ * @param config Limites de taille, de nouvelles cartes et de durée
+ */
+export const saveStudySessionConfig = async (config: StudySessionConfig): Promise<void> => {
+  await IndexedDB.saveData(CONFIG_KEY, config);
+};
+
+const loadSessions = async (): Promise<Record<string, StudySessionSnapshot>> => {
+  return await IndexedDB.loadData<Record<string, StudySessionSnapshot>>(SESSIONS_KEY, {});
+};
+
+/**
+ * Séance interrompue d'un deck
+ * @param deckId Identifiant du deck
+ */
+export const getStudySession = async (deckId: string): Promise<StudySessionSnapshot | null> => {
+  try {
+    const sessions = await loadSessions();
+    return sessions[deckId] ?? null;
+  } catch (error) {
+    console.error("Erreur lors du chargement de la séance en cours:", error);
+    return null;
+  }
+};
+
+/**
+ * Enregistre l'état de la séance en cours, en remplaçant la précédente du même deck
+ * @param session État de la séance
+ */
+export const saveStudySession = async (session: StudySessionSnapshot): Promise<void> => {
+  try {
+    const sessions = await loadSessions();
+    await IndexedDB.saveData(SESSIONS_KEY, { ...sessions, [session.deckId]: session });
+  } catch (error) {
+    console.error("Erreur lors de l'enregistrement de la séance en cours:", error);
+  }
+};
+
+/**
+ * Efface la séance interrompue d'un deck (séance terminée ou abandonnée)
+ * @param deckId Identifiant du deck
+ */
+export const clearStudySession = async (deckId: string): Promise<void> => {
+  try {
+    const sessions = await loadSessions();
+    if (!sessions[deckId]) return;
+    delete sessions[deckId];
+    await IndexedDB.saveData(SESSIONS_KEY, sessions);
+  } catch (error) {
+    console.error("Erreur lors de la suppression de la séance en cours:", error);
+  }
+};
+
+/**
+ * Applique la limite de taille d'une séance à sa file de cartes.
+ * Si une part de nouvelles cartes est fixée, la file est composée selon cette part,
+ * complétée par l'autre catégorie si l'une ne suffit pas ; l'ordre d'origine est conservé.
+ * @param items File complète
+ * @param config Réglages de la séance
+ * @param isNew Indique si un élément n'a jamais été révisé ; sans lui, la file est simplement tronquée
+ */
+export const limitSessionItems = <T>(
+  items: T[],
+  config: StudySessionConfig,
+  isNew?: (item: T) => boolean
+): T[] => {
+  const limit = config.cardLimit;
+  if (!limit || items.length <= limit) return items;
+  if (config.newCardRatio === null || !isNew) return items.slice(0, limit);
+
+  const newItems = items.filter(isNew);
+  const reviewItems = items.filter(item => !isNew(item));
+
+  let newCount = Math.min(newItems.length, Math.round(limit * config.newCardRatio));
+  const reviewCount = Math.min(reviewItems.length, limit - newCount);
+  newCount = Math.min(newItems.length, limit - reviewCount);
+
+  const selected = new Set<T>([...newItems.slice(0, newCount), ...reviewItems.slice(0, reviewCount)]);
+  return items.filter(item => selected.has(item));
+};
+
+/**
+ * Temps restant avant la fin d'une séance limitée en durée
+ * @param config Réglages de la séance
+ * @param elapsedMs Temps déjà passé dans la séance
+ * @returns null si la séance n'a pas de limite de durée
+ */
+export const getRemainingTimeMs = (config: StudySessionConfig, elapsedMs: number): number | null => {
+  if (!config.timeLimitMinutes) return null;
+  return Math.max(0, config.timeLimitMinutes * 60 * 1000 - elapsedMs);
+};
@@ -0,0 +1,466 @@
+/**
+ * Moteur de synchronisation entre IndexedDB et le serveur (API /api/sync)
+ *
+ * Les modifications locales sont détectées en comparant le updatedAt de chaque entité
+ * avec celui enregistré dans 'sync-meta' lors du dernier échange : les fonctions d'écriture
+ * de localStorage.ts n'ont rien à signaler. Une entité connue de 'sync-meta' mais absente
+ * de son object store a été supprimée localement.
+ *
+ * Chaque synchronisation envoie d'abord les modifications locales (push), fusionnées champ
+ * par champ par le serveur, puis récupère l'état du serveur (pull).
+ */
+
+import * as IndexedDB from "./enhancedIndexedDB";
+import { normalizeFlashcard } from "./cardContent";
+import {
+  getUser,
+  deleteDeck,
+  deleteTheme,
+  deleteFlashcard,
+  getThemesByDeck,
+  getFlashcardsByDeck
+} from "./localStorage";
+import type { User, Deck, Theme, Flashcard } from "../types/localStorage";
+import {
+  SYNC_ENTITY_TYPES,
+  SYNC_FIELDS,
+  compareSyncChanges,
+  type FieldConflict,
+  type SyncChange,
+  type SyncEntityType,
+  type SyncFields,
+  type SyncPullResponse,
+  type SyncPushResponse,
+  type SyncRecord,
+  type SyncResult,
+  type SyncUser
+} from "../../shared/sync";
+
+const { STORES, SYNC_META_STORE } = IndexedDB;
+
+// Même origine par défaut (proxy Vite en développement)
+const API_URL: string = import.meta.env.VITE_API_URL ?? '';
+
+// Clé de 'app-data' contenant l'heure serveur du dernier pull
+const LAST_PULL_KEY = 'syncLastPulledAt';
+
+// Nombre de modifications par requête, pour rester sous la limite de taille du serveur
+const PUSH_BATCH_SIZE = 50;
+
+const AUTO_SYNC_INTERVAL = 60 * 1000;
+
+// Nombre de conflits résolus conservés pour l'affichage
+const MAX_CONFLICTS = 20;
+
+type SyncEntity = Deck | Theme | Flashcard;
+
+const ENTITY_STORES: Record<SyncEntityType, string> = {
+  deck: STORES.DECKS,
+  theme: STORES.THEMES,
+  flashcard: STORES.FLASHCARDS
+};
+
+// État d'une entité au dernier échange avec le serveur
+interface SyncMeta {
+  key: string;
+  type: SyncEntityType;
+  id: string;
+  updatedAt: string;
+  fields: SyncFields;
+}
+
+export type SyncStatus = 'idle' | 'syncing' | 'synced' | 'offline' | 'error';
+
+// Conflit résolu par le serveur, avec l'entité concernée
+export interface SyncConflict extends FieldConflict {
+  type: SyncEntityType;
+  id: string;
+  resolvedAt: string;
+}
+
+export interface SyncState {
+  status: SyncStatus;
+  lastSyncedAt: string | null;
+  pendingChanges: number;
+  conflicts: SyncConflict[]; // Du plus récent au plus ancien
+  error: string | null;
+}
+
+let state: SyncState = {
+  status: 'idle',
+  lastSyncedAt: null,
+  pendingChanges: 0,
+  conflicts: [],
+  error: null
+};
+
+const listeners = new Set<(state: SyncState) => void>();
+
+const setState = (changes: Partial<SyncState>): void => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener(state));
+};
+
+export const getSyncState = (): SyncState => state;
+
+/**
+ * Abonne un composant aux changements d'état de la synchronisation
+ * @returns Fonction de désabonnement
+ */
+export const subscribeToSync = (listener: (state: SyncState) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const metaKey = (type: SyncEntityType, id: string): string => `${type}:${id}`;
+
+// Date ISO acceptée par le serveur, même pour d'anciennes données mal formées
+const toIsoDate = (value: string | undefined): string => {
+  const time = Date.parse(value ?? '');
+  return new Date(Number.isNaN(time) ? 0 : time).toISOString();
+};
+
+// Champs synchronisés d'une entité locale, avec les valeurs par défaut du schéma serveur
+const toSyncFields = (type: SyncEntityType, entity: SyncEntity): SyncFields => {
+  const source = entity as unknown as Record<string, unknown>;
+  const fields: SyncFields = Object.fromEntries(
+    SYNC_FIELDS[type].map(field => [field, source[field] ?? null])
+  );
+
+  if (type !== 'flashcard' && fields.description === null) fields.description = '';
+  if (type === 'deck') {
+    fields.isPublic = Boolean(fields.isPublic);
+    if (fields.isPublished === null) fields.isPublished = false;
+  }
+
+  return fields;
+};
+
+// Applique une version du serveur à une entité locale (null = propriété absente)
+const withRecord = (entity: Record<string, unknown>, record: SyncRecord): SyncEntity => {
+  const result = { ...entity };
+  for (const [field, value] of Object.entries(record.fields)) {
+    if (value === null) {
+      delete result[field];
+    } else {
+      result[field] = value;
+    }
+  }
+  result.updatedAt = record.updatedAt;
+  return result as unknown as SyncEntity;
+};
+
+const toSyncUser = (user: User): SyncUser => ({
+  id: user.id,
+  name: user.name,
+  email: user.email ?? null,
+  avatar: user.avatar || null,
+  bio: user.bio || null
+});
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error?.message ?? `Erreur HTTP ${response.status}`);
+  }
+
+  return await response.json() as T;
+};
+
+// Le site statique n'a pas d'API : /api renvoie alors du HTML ou une erreur
+const isServerReachable = async (): Promise<boolean> => {
+  try {
+    const response = await fetch(`${API_URL}/api/health`);
+    return response.ok && (response.headers.get('content-type') ?? '').includes('application/json');
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Liste les modifications locales depuis le dernier échange.
+ * Les exemples, générés sur chaque appareil, ne sont pas synchronisés.
+ */
+const collectChanges = async (): Promise<SyncChange[]> => {
+  const metas = await IndexedDB.getRecords<SyncMeta>(SYNC_META_STORE);
+  const unseen = new Map(metas.map(meta => [meta.key, meta]));
+  const syncedDecks = new Set<string>();
+  const changes: SyncChange[] = [];
+
+  for (const type of SYNC_ENTITY_TYPES) {
+    const entities = await IndexedDB.getRecords<SyncEntity>(ENTITY_STORES[type]);
+
+    for (const entity of entities) {
+      if (entity.isExample) continue;
+      if (type === 'deck') {
+        syncedDecks.add(entity.id);
+      } else if (!syncedDecks.has((entity as Theme | Flashcard).deckId)) {
+        continue;
+      }
+
+      const key = metaKey(type, entity.id);
+      const meta = unseen.get(key);
+      unseen.delete(key);
+      if (meta && meta.updatedAt === entity.updatedAt) continue;
+
+      changes.push({
+        type,
+        id: entity.id,
+        base: meta ? { updatedAt: meta.updatedAt, fields: meta.fields } : null,
+        fields: toSyncFields(type, entity),
+        createdAt: toIsoDate(entity.createdAt),
+        updatedAt: toIsoDate(entity.updatedAt)
+      });
+    }
+  }
+
+  // Entités synchronisées puis supprimées sur cet appareil
+  const deletedAt = new Date().toISOString();
+  for (const meta of unseen.values()) {
+    changes.push({
+      type: meta.type,
+      id: meta.id,
+      base: { updatedAt: meta.updatedAt, fields: meta.fields },
+      deleted: true,
+      updatedAt: deletedAt
+    });
+  }
+
+  return changes.sort(compareSyncChanges);
+};
+
+// Enregistre la version du serveur et la retient comme base du prochain échange
+const saveRecord = async (record: SyncRecord, local: SyncEntity | undefined, user: User): Promise<void> => {
+  const storeName = ENTITY_STORES[record.type];
+  const base: Record<string, unknown> = local
+    ? { ...local }
+    : { id: record.id, createdAt: record.createdAt, ...(record.type === 'deck' && { authorId: user.id }) };
+  const meta: SyncMeta = {
+    key: metaKey(record.type, record.id),
+    type: record.type,
+    id: record.id,
+    updatedAt: record.updatedAt,
+    fields: record.fields
+  };
+
+  const entity = withRecord(base, record);
+
+  await IndexedDB.withTransaction([storeName, SYNC_META_STORE], 'readwrite', async scope => {
+    // Un appareil resté sur une ancienne version peut envoyer des faces sans type
+    await scope.put(storeName, record.type === 'flashcard' ? normalizeFlashcard(entity as Flashcard) : entity);
+    await scope.put(SYNC_META_STORE, meta);
+  });
+};
+
+// Une modification locale faite pendant l'échange garde la main : seule la base est mise à jour
+const saveMeta = async (record: SyncRecord): Promise<void> => {
+  await IndexedDB.putRecord<SyncMeta>(SYNC_META_STORE, {
+    key: metaKey(record.type, record.id),
+    type: record.type,
+    id: record.id,
+    updatedAt: record.updatedAt,
+    fields: record.fields
+  });
+};
+
+// Supprime localement une entité supprimée sur le serveur
+const removeLocalEntity = async (type: SyncEntityType, id: string): Promise<void> => {
+  const keys = [metaKey(type, id)];
+
+  if (type === 'deck') {
+    // Les thèmes et flashcards du deck disparaissent avec lui
+    const [themes, cards] = await Promise.all([getThemesByDeck(id), getFlashcardsByDeck(id)]);
+    keys.push(...themes.map(theme => metaKey('theme', theme.id)));
+    keys.push(...cards.map(card => metaKey('flashcard', card.id)));
+    await deleteDeck(id);
+  } else if (type === 'theme') {
+    await deleteTheme(id);
+  } else {
+    await deleteFlashcard(id);
+  }
+
+  await IndexedDB.withTransaction([SYNC_META_STORE], 'readwrite', async scope => {
+    await Promise.all(keys.map(key => scope.delete(SYNC_META_STORE, key)));
+  });
+};
+
+const applyPushResult = async (result: SyncResult, change: SyncChange, user: User): Promise<void> => {
+  const key = metaKey(result.type, result.id);
+
+  if (result.status === 'rejected') {
+    console.warn(`Synchronisation refusée pour ${key}:`, result.message);
+    return;
+  }
+
+  if (result.status === 'deleted') {
+    if (change.deleted) {
+      await IndexedDB.deleteRecord(SYNC_META_STORE, key);
+    } else {
+      await removeLocalEntity(result.type, result.id);
+    }
+    return;
+  }
+
+  if (!result.record) return;
+  const local = await IndexedDB.getRecord<SyncEntity>(ENTITY_STORES[result.type], result.id);
+  if (local && toIsoDate(local.updatedAt) !== change.updatedAt) {
+    await saveMeta(result.record);
+  } else {
+    await saveRecord(result.record, local, user);
+  }
+};
+
+const pushChanges = async (user: User, changes: SyncChange[]): Promise<SyncConflict[]> => {
+  const conflicts: SyncConflict[] = [];
+  const resolvedAt = new Date().toISOString();
+
+  for (let start = 0; start < changes.length; start += PUSH_BATCH_SIZE) {
+    const batchChanges = changes.slice(start, start + PUSH_BATCH_SIZE);
+    const response = await request<SyncPushResponse>('/api/sync/push', {
+      method: 'POST',
+      body: JSON.stringify({ user: toSyncUser(user), changes: batchChanges })
+    });
+
+    const pushed = new Map(batchChanges.map(change => [metaKey(change.type, change.id), change]));
+    for (const result of response.results) {
+      const change = pushed.get(metaKey(result.type, result.id));
+      if (!change) continue;
+      await applyPushResult(result, change, user);
+      conflicts.push(...result.conflicts.map(conflict => ({
+        ...conflict,
+        type: result.type,
+        id: result.id,
+        resolvedAt
+      })));
+    }
+  }
+
+  return conflicts;
+};
+
+const pullChanges = async (user: User): Promise<void> => {
+  const since = await IndexedDB.loadData<string | null>(LAST_PULL_KEY, null);
+  const query = new URLSearchParams({ user: user.id });
+  if (since) query.set('since', since);
+
+  const response = await request<SyncPullResponse>(`/api/sync/pull?${query}`);
+
+  for (const deletion of response.deletions) {
+    const local = await IndexedDB.getRecord<SyncEntity>(ENTITY_STORES[deletion.type], deletion.id);
+    const meta = await IndexedDB.getRecord<SyncMeta>(SYNC_META_STORE, metaKey(deletion.type, deletion.id));
+    if (!local) {
+      if (meta) await IndexedDB.deleteRecord(SYNC_META_STORE, meta.key);
+      continue;
+    }
+
+    // Modifiée ici après la suppression : elle sera recréée au prochain envoi
+    const modifiedLocally = !meta || meta.updatedAt !== local.updatedAt;
+    if (modifiedLocally && Date.parse(local.updatedAt) > Date.parse(deletion.deletedAt)) continue;
+
+    await removeLocalEntity(deletion.type, deletion.id);
+  }
+
+  // Le serveur renvoie chaque deck avant ses thèmes et ses flashcards
+  for (const record of response.records) {
+    const local = await IndexedDB.getRecord<SyncEntity>(ENTITY_STORES[record.type], record.id);
+    const meta = await IndexedDB.getRecord<SyncMeta>(SYNC_META_STORE, metaKey(record.type, record.id));
+
+    if (!local) {
+      // Sans entité mais avec une base : suppression locale pas encore envoyée
+      if (!meta) await saveRecord(record, undefined, user);
+      continue;
+    }
+
+    // Déjà à jour, ou modifiée localement pendant l'échange (envoyée la prochaine fois)
+    if (!meta || meta.updatedAt === record.updatedAt || meta.updatedAt !== local.updatedAt) continue;
+
+    await saveRecord(record, local, user);
+  }
+
+  await IndexedDB.saveData(LAST_PULL_KEY, response.serverTime);
+};
+
+const countPendingChanges = async (): Promise<number> => {
+  try {
+    return (await collectChanges()).length;
+  } catch (error) {
+    console.error("Erreur lors du calcul des modifications en attente:", error);
+    return state.pendingChanges;
+  }
+};
+
+const runSync = async (): Promise<SyncState> => {
+  const user = await getUser();
+  if (!user) return state;
+
+  if (!navigator.onLine || !await isServerReachable()) {
+    setState({ status: 'offline', pendingChanges: await countPendingChanges() });
+    return state;
+  }
+
+  setState({ status: 'syncing', error: null });
+
+  try {
+    const conflicts = await pushChanges(user, await collectChanges());
+    await pullChanges(user);
+
+    setState({
+      status: 'synced',
+      lastSyncedAt: new Date().toISOString(),
+      pendingChanges: await countPendingChanges(),
+      conflicts: [...conflicts.reverse(), ...state.conflicts].slice(0, MAX_CONFLICTS)
+    });
+  } catch (error) {
+    console.error("Erreur lors de la synchronisation:", error);
+    setState({
+      status: 'error',
+      error: error instanceof Error ? error.message : String(error),
+      pendingChanges: await countPendingChanges()
+    });
+  }
+
+  return state;
+};
+
+let currentSync: Promise<SyncState> | null = null;
+
+/**
+ * Lance une synchronisation, ou renvoie celle déjà en cours
+ */
+export const syncNow = (): Promise<SyncState> => {
+  if (!currentSync) {
+    currentSync = runSync().finally(() => {
+      currentSync = null;
+    });
+  }
+  return currentSync;
+};
+
+/**
+ * Synchronise au démarrage, à intervalle régulier et au retour du réseau
+ * @returns Fonction arrêtant la synchronisation automatique
+ */
+export const startAutoSync = (intervalMs: number = AUTO_SYNC_INTERVAL): (() => void) => {
+  const sync = () => {
+    syncNow();
+  };
+  const goOffline = () => setState({ status: 'offline' });
+
+  sync();
+  const intervalId = window.setInterval(sync, intervalMs);
+  window.addEventListener('online', sync);
+  window.addEventListener('offline', goOffline);
+
+  return () => {
+    window.clearInterval(intervalId);
+    window.removeEventListener('online', sync);
+    window.removeEventListener('offline', goOffline);
+  };
+};
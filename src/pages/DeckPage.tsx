@@ -12,7 +12,10 @@ import {
   Pencil,
   ArrowLeft,
   PlusIcon,
-  Check
+  Check,
+  Sparkles,
+  History,
+  X
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -29,6 +32,8 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import FlashCard from "@/components/FlashCard";
 import ThemeCard from "@/components/ThemeCard";
 import FlashCardItem from "@/components/FlashCardItem";
+import ClozeEditor, { ClozeEditorValue } from "@/components/ClozeEditor";
+import GenerateCardsDialog from "@/components/GenerateCardsDialog";
 
 import { 
   getDeckSync as getDeck, 
@@ -39,9 +44,13 @@ import {
   createFlashcardSync as createFlashcard, 
   getBase64Sync as getBase64, 
   createShareCodeSync as createShareCode,
+  createClozeNote,
   Theme,
   Flashcard
 } from "@/lib/localStorage";
+import { createCardSide, textSide } from "@/lib/cardContent";
+import { getClozeIndices } from "@/lib/cloze";
+import { clearStudySession, getStudySession, STUDY_MODE_LABELS, StudySessionSnapshot } from "@/lib/studySession";
 
 const DeckPage = () => {
   const { id } = useParams<{ id: string }>();
@@ -55,6 +64,7 @@ const DeckPage = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [showThemeDialog, setShowThemeDialog] = useState(false);
   const [showCardDialog, setShowCardDialog] = useState(false);
+  const [showGenerateDialog, setShowGenerateDialog] = useState(false);
   const [shareDialogOpen, setShareDialogOpen] = useState(false);
   const [shareUrl, setShareUrl] = useState("");
   
@@ -78,7 +88,18 @@ const DeckPage = () => {
     },
   });
   
+  // Type de carte créée : recto/verso ou texte à trous
+  const [cardKind, setCardKind] = useState<"basic" | "cloze">("basic");
+  const [newCloze, setNewCloze] = useState<ClozeEditorValue>({ text: "", extra: "" });
+  
   const [activeCardIndex, setActiveCardIndex] = useState(0);
+  const [savedSession, setSavedSession] = useState<StudySessionSnapshot | null>(null);
+  
+  // Séance d'étude interrompue, proposée à la reprise
+  useEffect(() => {
+    if (!id) return;
+    getStudySession(id).then(setSavedSession);
+  }, [id]);
   
   useEffect(() => {
     if (!id) return;
@@ -308,16 +329,16 @@ const DeckPage = () => {
       const card = createFlashcard({
         deckId: id,
         themeId: newCard.themeId || undefined,
-        front: {
+        front: createCardSide({
           text: newCard.front.text.trim(),
           image: newCard.front.image,
           audio: newCard.front.audio,
-        },
-        back: {
+        }),
+        back: createCardSide({
           text: newCard.back.text.trim(),
           image: newCard.back.image,
           audio: newCard.back.audio,
-        },
+        }),
       });
       
       setFlashcards([...flashcards, card]);
@@ -350,6 +371,44 @@ const DeckPage = () => {
     }
   };
   
+  const createClozeCards = async () => {
+    if (!id) return;
+    
+    if (getClozeIndices(newCloze.text).length === 0) {
+      toast({
+        title: "Trou requis",
+        description: "Ajoutez au moins un trou au format {{c1::réponse}}",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    try {
+      const cards = await createClozeNote({
+        deckId: id,
+        themeId: newCard.themeId || undefined,
+        text: newCloze.text.trim(),
+        extra: textSide(newCloze.extra.trim()),
+      });
+      
+      refreshFlashcards();
+      setShowCardDialog(false);
+      setNewCloze({ text: "", extra: "" });
+      
+      toast({
+        title: "Cartes créées",
+        description: `${cards.length} carte${cards.length > 1 ? "s" : ""} à trous ajoutée${cards.length > 1 ? "s" : ""}`,
+      });
+    } catch (error) {
+      console.error("Error creating cloze cards:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible de créer les cartes à trous",
+        variant: "destructive",
+      });
+    }
+  };
+  
   const generateShareLink = () => {
     if (!id) return;
     
@@ -500,6 +559,30 @@ const DeckPage = () => {
               </Link>
             </Button>
             
+            {savedSession && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => navigate(`/deck/${id}/study`, { state: { resume: true } })}
+                  className="border-primary/20 text-primary hover:bg-primary/10"
+                >
+                  <History className="mr-2 h-4 w-4" />
+                  Reprendre ({STUDY_MODE_LABELS[savedSession.mode]}, {savedSession.score.correct + savedSession.score.incorrect}/{savedSession.itemOrder.length})
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Abandonner la séance interrompue"
+                  onClick={() => {
+                    clearStudySession(savedSession.deckId);
+                    setSavedSession(null);
+                  }}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            
             <Button variant="outline" onClick={generateShareLink} className="border-primary/20 text-primary hover:bg-primary/10">
               <Share2 className="mr-2 h-4 w-4" />
               Partager
@@ -516,6 +599,11 @@ const DeckPage = () => {
                   <PlusCircle className="mr-2 h-4 w-4" />
                   Ajouter une carte
                 </Button>
+                
+                <Button variant="outline" onClick={() => setShowGenerateDialog(true)} className="border-secondary/50 hover:bg-secondary/20">
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  Générer des cartes
+                </Button>
               </>
             )}
           </div>
@@ -640,6 +728,17 @@ const DeckPage = () => {
         </TabsContent>
       </Tabs>
       
+      {id && (
+        <GenerateCardsDialog
+          deckId={id}
+          themes={themes}
+          existingCards={flashcards}
+          isOpen={showGenerateDialog}
+          onClose={() => setShowGenerateDialog(false)}
+          onCardsCreated={refreshFlashcards}
+        />
+      )}
+      
       <Dialog open={showThemeDialog} onOpenChange={setShowThemeDialog}>
         <DialogContent>
           <DialogHeader>
@@ -732,122 +831,133 @@ const DeckPage = () => {
               </div>
             )}
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="space-y-4 border p-4 rounded-lg">
-                <h3 className="font-medium">Recto de la carte</h3>
+            <Tabs value={cardKind} onValueChange={(value) => setCardKind(value as "basic" | "cloze")}>
+              <TabsList>
+                <TabsTrigger value="basic">Recto / verso</TabsTrigger>
+                <TabsTrigger value="cloze">Texte à trous</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            
+            {cardKind === "cloze" ? (
+              <ClozeEditor value={newCloze} onChange={setNewCloze} />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-4 border p-4 rounded-lg">
+                  <h3 className="font-medium">Recto de la carte</h3>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="front-text">Texte</Label>
-                  <Textarea
-                    id="front-text"
-                    placeholder="Ex: Définition, question, mot..."
-                    rows={3}
-                    value={newCard.front.text}
-                    onChange={(e) => setNewCard({
-                      ...newCard,
-                      front: { ...newCard.front, text: e.target.value },
-                    })}
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="front-text">Texte</Label>
+                    <Textarea
+                      id="front-text"
+                      placeholder="Ex: Définition, question, mot..."
+                      rows={3}
+                      value={newCard.front.text}
+                      onChange={(e) => setNewCard({
+                        ...newCard,
+                        front: { ...newCard.front, text: e.target.value },
+                      })}
+                    />
+                  </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="front-image">Image (optionnelle)</Label>
-                  <Input
-                    id="front-image"
-                    type="file"
-                    accept="image/*"
-                    onChange={(e) => handleImageUpload(e, 'front')}
-                  />
-                  {newCard.front.image && (
-                    <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
-                      <img
-                        src={newCard.front.image}
-                        alt="Front side"
-                        className="w-full h-full object-cover"
-                      />
-                    </div>
-                  )}
-                </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="front-image">Image (optionnelle)</Label>
+                    <Input
+                      id="front-image"
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => handleImageUpload(e, 'front')}
+                    />
+                    {newCard.front.image && (
+                      <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
+                        <img
+                          src={newCard.front.image}
+                          alt="Front side"
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
+                    )}
+                  </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="front-audio">Audio (optionnel)</Label>
-                  <Input
-                    id="front-audio"
-                    type="file"
-                    accept="audio/*"
-                    onChange={(e) => handleAudioUpload(e, 'front')}
-                  />
-                  {newCard.front.audio && (
-                    <audio className="w-full mt-2" controls>
-                      <source src={newCard.front.audio} />
-                      Votre navigateur ne supporte pas l'élément audio.
-                    </audio>
-                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="front-audio">Audio (optionnel)</Label>
+                    <Input
+                      id="front-audio"
+                      type="file"
+                      accept="audio/*"
+                      onChange={(e) => handleAudioUpload(e, 'front')}
+                    />
+                    {newCard.front.audio && (
+                      <audio className="w-full mt-2" controls>
+                        <source src={newCard.front.audio} />
+                        Votre navigateur ne supporte pas l'élément audio.
+                      </audio>
+                    )}
+                  </div>
                 </div>
-              </div>
               
-              <div className="space-y-4 border p-4 rounded-lg">
-                <h3 className="font-medium">Verso de la carte</h3>
+                <div className="space-y-4 border p-4 rounded-lg">
+                  <h3 className="font-medium">Verso de la carte</h3>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="back-text">Texte</Label>
-                  <Textarea
-                    id="back-text"
-                    placeholder="Ex: Réponse, traduction..."
-                    rows={3}
-                    value={newCard.back.text}
-                    onChange={(e) => setNewCard({
-                      ...newCard,
-                      back: { ...newCard.back, text: e.target.value },
-                    })}
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="back-text">Texte</Label>
+                    <Textarea
+                      id="back-text"
+                      placeholder="Ex: Réponse, traduction..."
+                      rows={3}
+                      value={newCard.back.text}
+                      onChange={(e) => setNewCard({
+                        ...newCard,
+                        back: { ...newCard.back, text: e.target.value },
+                      })}
+                    />
+                  </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="back-image">Image (optionnelle)</Label>
-                  <Input
-                    id="back-image"
-                    type="file"
-                    accept="image/*"
-                    onChange={(e) => handleImageUpload(e, 'back')}
-                  />
-                  {newCard.back.image && (
-                    <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
-                      <img
-                        src={newCard.back.image}
-                        alt="Back side"
-                        className="w-full h-full object-cover"
-                      />
-                    </div>
-                  )}
-                </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="back-image">Image (optionnelle)</Label>
+                    <Input
+                      id="back-image"
+                      type="file"
+                      accept="image/*"
+                      onChange={(e) => handleImageUpload(e, 'back')}
+                    />
+                    {newCard.back.image && (
+                      <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
+                        <img
+                          src={newCard.back.image}
+                          alt="Back side"
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
+                    )}
+                  </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="back-audio">Audio (optionnel)</Label>
-                  <Input
-                    id="back-audio"
-                    type="file"
-                    accept="audio/*"
-                    onChange={(e) => handleAudioUpload(e, 'back')}
-                  />
-                  {newCard.back.audio && (
-                    <audio className="w-full mt-2" controls>
-                      <source src={newCard.back.audio} />
-                      Votre navigateur ne supporte pas l'élément audio.
-                    </audio>
-                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="back-audio">Audio (optionnel)</Label>
+                    <Input
+                      id="back-audio"
+                      type="file"
+                      accept="audio/*"
+                      onChange={(e) => handleAudioUpload(e, 'back')}
+                    />
+                    {newCard.back.audio && (
+                      <audio className="w-full mt-2" controls>
+                        <source src={newCard.back.audio} />
+                        Votre navigateur ne supporte pas l'élément audio.
+                      </audio>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
+            )}
           </div>
           
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowCardDialog(false)}>
               Annuler
             </Button>
-            <Button onClick={createNewCard}>
+            <Button onClick={cardKind === "cloze" ? createClozeCards : createNewCard}>
               <Check className="mr-2 h-4 w-4" />
-              Ajouter la carte
+              {cardKind === "cloze" ? "Générer les cartes" : "Ajouter la carte"}
             </Button>
           </DialogFooter>
         </DialogContent>
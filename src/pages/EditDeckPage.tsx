@@ -23,6 +23,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 
@@ -31,8 +32,12 @@ import {
   updateDeck, 
   deleteDeck, 
   getBase64, 
-  getUser
+  getUser,
+  getDeckStudyDirection,
+  setDeckStudyDirection,
+  StudyDirection
 } from "@/lib/localStorage";
+import { DEFAULT_STUDY_DIRECTION, STUDY_DIRECTIONS } from "@/lib/studyDirection";
 
 import type { Deck } from "@/lib/localStorage";
 import { publishDeck, unpublishDeck, updatePublishedDeck } from "@/lib/localStorage";
@@ -53,6 +58,7 @@ const EditDeckPage = () => {
   const [coverImage, setCoverImage] = useState<string | undefined>(undefined);
   const [tags, setTags] = useState<string[]>([]);
   const [newTag, setNewTag] = useState("");
+  const [studyDirection, setStudyDirection] = useState<StudyDirection>(DEFAULT_STUDY_DIRECTION);
   
   const [isPublishing, setIsPublishing] = useState(false);
   const [isUnpublishing, setIsUnpublishing] = useState(false);
@@ -93,6 +99,7 @@ const EditDeckPage = () => {
         setIsPublic(deckData.isPublic);
         setCoverImage(deckData.coverImage);
         setTags(deckData.tags || []);
+        setStudyDirection(await getDeckStudyDirection(id));
         setIsOwner(userIsOwner);
         setIsLoading(false);
       } catch (error) {
@@ -129,6 +136,7 @@ const EditDeckPage = () => {
         coverImage,
         tags,
       });
+      await setDeckStudyDirection(id, studyDirection);
       
       if (updatedDeck) {
         setDeck(updatedDeck);
@@ -532,6 +540,29 @@ const EditDeckPage = () => {
           
           <Separator className="bg-indigo-100 dark:bg-indigo-800/20" />
           
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="study-direction">Sens d'étude</Label>
+              <div className="text-sm text-muted-foreground">
+                Sens proposé par défaut au début de chaque séance d'étude
+              </div>
+            </div>
+            <Select value={studyDirection} onValueChange={(value) => setStudyDirection(value as StudyDirection)}>
+              <SelectTrigger id="study-direction" className="w-[180px] border-indigo-200 dark:border-indigo-800/30">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STUDY_DIRECTIONS.map((direction) => (
+                  <SelectItem key={direction.value} value={direction.value}>
+                    {direction.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          <Separator className="bg-indigo-100 dark:bg-indigo-800/20" />
+          
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
               <Label htmlFor="public-switch">Visibilité</Label>
@@ -7,6 +7,7 @@ import {
   AlertTriangle,
   FileQuestion,
   FileSpreadsheet,
+  Layers,
   Link2,
   Upload
 } from "lucide-react";
@@ -16,6 +17,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import AnkiImporter from "@/components/deck-sharing/AnkiImporter";
 import CSVImporter from "@/components/deck-sharing/CSVImporter";
 import FileImporter from "@/components/deck-sharing/FileImporter";
 import LinkImporter from "@/components/deck-sharing/LinkImporter";
@@ -115,16 +117,8 @@ const ImportPage = () => {
         createFlashcard({
           deckId: newDeck.id,
           themeId: newThemeId,
-          front: {
-            text: card.front.text,
-            image: card.front.image,
-            audio: card.front.audio,
-          },
-          back: {
-            text: card.back.text,
-            image: card.back.image,
-            audio: card.back.audio,
-          },
+          front: card.front,
+          back: card.back,
         });
       }
       
@@ -255,7 +249,7 @@ const ImportPage = () => {
           </header>
           
           <Tabs defaultValue="link" onValueChange={setImportMethod} className="space-y-6">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList className="grid w-full grid-cols-4">
               <TabsTrigger value="link" className="flex items-center gap-2">
                 <Link2 className="h-4 w-4" /> Par lien
               </TabsTrigger>
@@ -263,7 +257,10 @@ const ImportPage = () => {
                 <Upload className="h-4 w-4" /> Par fichier
               </TabsTrigger>
               <TabsTrigger value="csv" className="flex items-center gap-2">
-                <FileSpreadsheet className="h-4 w-4" /> Par CSV
+                <FileSpreadsheet className="h-4 w-4" /> CSV / Quizlet
+              </TabsTrigger>
+              <TabsTrigger value="anki" className="flex items-center gap-2">
+                <Layers className="h-4 w-4" /> Anki
               </TabsTrigger>
             </TabsList>
             
@@ -290,6 +287,10 @@ const ImportPage = () => {
             <TabsContent value="csv">
               <CSVImporter onClose={() => navigate("/")} />
             </TabsContent>
+            
+            <TabsContent value="anki">
+              <AnkiImporter onClose={() => navigate("/")} />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
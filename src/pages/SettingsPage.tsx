@@ -0,0 +1,209 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  clearEvaluationCache,
+  DEFAULT_EVALUATOR_SETTINGS,
+  evaluateAnswer,
+  EVALUATORS,
+  EvaluatorProvider,
+  EvaluatorSettings,
+  getEvaluatorSettings,
+  ProviderSettings,
+  saveEvaluatorSettings
+} from "@/services/answerEvaluator";
+import { Settings, Save, FlaskConical } from "lucide-react";
+
+// Le fournisseur factice ne sert qu'au développement
+const AVAILABLE_PROVIDERS = (Object.keys(EVALUATORS) as EvaluatorProvider[])
+  .filter(provider => provider !== "mock" || import.meta.env.DEV);
+
+const SettingsPage = () => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<EvaluatorSettings>(DEFAULT_EVALUATOR_SETTINGS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+
+  useEffect(() => {
+    getEvaluatorSettings()
+      .then(setSettings)
+      .catch(error => console.error("Erreur lors du chargement des réglages d'évaluation:", error));
+  }, []);
+
+  const evaluator = EVALUATORS[settings.provider];
+  const providerSettings: ProviderSettings = settings.providers[settings.provider] ?? {};
+  const usesModel = Boolean(evaluator.defaultModel);
+
+  const updateProviderSettings = (changes: Partial<ProviderSettings>) => {
+    setSettings({
+      ...settings,
+      providers: {
+        ...settings.providers,
+        [settings.provider]: { ...providerSettings, ...changes }
+      }
+    });
+  };
+
+  const handleSave = async () => {
+    if (evaluator.requiresApiKey && !providerSettings.apiKey?.trim()) {
+      toast({
+        title: "Clé API manquante",
+        description: `${evaluator.label} nécessite une clé API.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveEvaluatorSettings(settings);
+      toast({
+        title: "Paramètres enregistrés",
+        description: `Les réponses seront vérifiées avec ${evaluator.label}.`,
+      });
+    } catch (error) {
+      console.error("Erreur lors de l'enregistrement des réglages d'évaluation:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible d'enregistrer les paramètres.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Évalue une réponse d'exemple avec les réglages affichés, même non enregistrés
+  const handleTest = async () => {
+    setIsTesting(true);
+    clearEvaluationCache();
+    try {
+      const evaluation = await evaluateAnswer({
+        cardId: "settings-test",
+        question: "Capitale du Japon",
+        userAnswer: "Tokio",
+        correctAnswer: "Tokyo"
+      }, settings);
+      toast({
+        title: "Fournisseur opérationnel",
+        description: `Score ${Math.round(evaluation.score * 100)} % : ${evaluation.feedback}`,
+      });
+    } catch (error) {
+      console.error("Erreur lors du test du fournisseur d'évaluation:", error);
+      toast({
+        title: "Échec du test",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      clearEvaluationCache();
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className="container max-w-2xl py-8">
+      <div className="flex items-center gap-2 mb-6">
+        <Settings className="h-6 w-6" />
+        <h1 className="text-3xl font-bold">Paramètres</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Vérification des réponses</CardTitle>
+          <CardDescription>
+            Fournisseur utilisé par la vérification automatique des modes Quiz et Écriture.
+            Les réglages sont enregistrés sur cet appareil uniquement.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="evaluator-provider">Fournisseur</Label>
+            <Select
+              value={settings.provider}
+              onValueChange={(value) => setSettings({ ...settings, provider: value as EvaluatorProvider })}
+            >
+              <SelectTrigger id="evaluator-provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AVAILABLE_PROVIDERS.map(provider => (
+                  <SelectItem key={provider} value={provider}>
+                    {EVALUATORS[provider].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{evaluator.description}</p>
+          </div>
+
+          {usesModel && (
+            <>
+              {evaluator.defaultEndpoint && (
+                <div className="space-y-2">
+                  <Label htmlFor="evaluator-endpoint">Adresse du serveur</Label>
+                  <Input
+                    id="evaluator-endpoint"
+                    value={providerSettings.endpoint ?? ""}
+                    placeholder={evaluator.defaultEndpoint}
+                    onChange={(e) => updateProviderSettings({ endpoint: e.target.value })}
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="evaluator-model">Modèle</Label>
+                <Input
+                  id="evaluator-model"
+                  value={providerSettings.model ?? ""}
+                  placeholder={evaluator.defaultModel}
+                  onChange={(e) => updateProviderSettings({ model: e.target.value })}
+                />
+              </div>
+
+              {settings.provider !== "ollama" && (
+                <div className="space-y-2">
+                  <Label htmlFor="evaluator-api-key">
+                    Clé API{evaluator.requiresApiKey ? "" : " (facultative)"}
+                  </Label>
+                  <Input
+                    id="evaluator-api-key"
+                    type="password"
+                    value={providerSettings.apiKey ?? ""}
+                    placeholder="Entrez votre clé API"
+                    onChange={(e) => updateProviderSettings({ apiKey: e.target.value })}
+                  />
+                  {settings.provider === "gemini" && (
+                    <p className="text-xs text-muted-foreground">
+                      Vous pouvez obtenir une clé sur
+                      <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer"
+                         className="underline ml-1">
+                        Google AI Studio
+                      </a>.
+                    </p>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          <Button variant="outline" onClick={handleTest} disabled={isTesting}>
+            <FlaskConical className="mr-2 h-4 w-4" />
+            {isTesting ? "Test en cours..." : "Tester"}
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            <Save className="mr-2 h-4 w-4" />
+            {isSaving ? "Enregistrement..." : "Enregistrer"}
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Link } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -7,227 +7,88 @@ import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { getSessionKey, getSessionStats, updateSessionStats } from "@/lib/sessionManager";
-import { getFlashcards, getDecks, getThemes } from "@/lib/localStorage";
+import { getSessionStats } from "@/lib/sessionManager";
+import { getFlashcards, getDecks, getThemes, Deck, Theme } from "@/lib/localStorage";
+import { getAllReviews, ReviewLogEntry } from "@/lib/reviewLog";
+import {
+  StatsPeriod,
+  buildActivitySeries,
+  buildAccuracySeries,
+  aggregateByDeck,
+  aggregateByTheme,
+  computeSummary,
+  getRecentSessions,
+  toDateKey
+} from "@/lib/statsAggregation";
 import { Calendar, CalendarDays, Clock, Zap, TrendingUp, Medal, BookOpen, BrainCircuit, BarChart4 } from "lucide-react";
 import { ResponsiveContainer, BarChart, Bar, LineChart, Line, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from "recharts";
 
+const formatStudyTime = (minutes: number): string => {
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const formatSessionTime = (timestamp: string, now: Date): string => {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" });
+  const dayKey = toDateKey(date);
+
+  if (dayKey === toDateKey(now)) return `Aujourd'hui, ${time}`;
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+  if (dayKey === toDateKey(yesterday)) return `Hier, ${time}`;
+  return date.toLocaleDateString("fr-FR", { day: "numeric", month: "long" });
+};
+
 const StatsPage = () => {
-  const [periodFilter, setPeriodFilter] = useState<"week" | "month" | "year">("week");
-  const [studyStats, setStudyStats] = useState({
-    totalCards: 0,
-    totalDecks: 0,
-    totalThemes: 0,
-    studyDays: 0,
-    averageScore: 0,
-    totalStudyTime: 0,
-    streakDays: 0,
-    cardsPerDay: 0,
-  });
-  const [activityData, setActivityData] = useState<{
-    week: Array<{ name: string; minutes: number }>;
-    month: Array<{ name: string; minutes: number }>;
-    year: Array<{ name: string; minutes: number }>;
-  }>({
-    week: [],
-    month: [],
-    year: []
-  });
-  const [performanceData, setPerformanceData] = useState<{
-    week: Array<{ name: string; score: number }>;
-    month: Array<{ name: string; score: number }>;
-    year: Array<{ name: string; score: number }>;
-  }>({
-    week: [],
-    month: [],
-    year: []
-  });
-  const [subjectDistributionData, setSubjectDistributionData] = useState<Array<{ name: string; value: number }>>([]);
+  const [periodFilter, setPeriodFilter] = useState<StatsPeriod>("week");
+  const [subjectGrouping, setSubjectGrouping] = useState<"theme" | "deck">("theme");
+  const [reviews, setReviews] = useState<ReviewLogEntry[]>([]);
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [themes, setThemes] = useState<Theme[]>([]);
+  const [totalFlashcards, setTotalFlashcards] = useState(0);
+  const [recordedStudyTime, setRecordedStudyTime] = useState(0);
+  // Date de référence des séries, fixée au chargement des données
+  const [now, setNow] = useState(() => new Date());
 
   useEffect(() => {
-    // Load real data from localStorage
-    const sessionKey = getSessionKey();
-    if (!sessionKey) return;
+    const loadStats = async () => {
+      try {
+        const [reviewEntries, allDecks, allThemes, flashcards, sessionStats] = await Promise.all([
+          getAllReviews(),
+          getDecks(),
+          getThemes(),
+          getFlashcards(),
+          getSessionStats()
+        ]);
 
-    const flashcards = getFlashcards();
-    const decks = getDecks();
-    const themes = getThemes();
-    const stats = getSessionStats();
+        setReviews(reviewEntries);
+        setDecks(allDecks);
+        setThemes(allThemes);
+        setTotalFlashcards(flashcards.length);
+        setRecordedStudyTime(sessionStats.totalStudyTime || 0);
+        setNow(new Date());
+      } catch (error) {
+        console.error("Erreur lors du chargement des statistiques:", error);
+      }
+    };
 
-    // Update the session statistics for any users who don't have stats yet
-    if (stats && !stats.lastUpdate) {
-      updateSessionStats({
-        lastUpdate: new Date().toISOString()
-      });
-    }
+    loadStats();
+  }, []);
 
-    // Use real stats where available, or create reasonable estimates
-    setStudyStats({
-      totalCards: flashcards.length,
-      totalDecks: decks.length,
-      totalThemes: themes.length,
-      studyDays: stats?.studyDays?.length || Math.min(flashcards.length / 3, 30),
-      averageScore: stats?.averageScore || Math.round(70 + Math.random() * 20), 
-      totalStudyTime: stats?.totalStudyTime || Math.round((flashcards.length * 2) / 60),
-      streakDays: stats?.streakDays || Math.min(Math.round(flashcards.length / 4), 14),
-      cardsPerDay: stats?.cardsReviewed
-        ? Math.round(stats.cardsReviewed / Math.max(stats.studyDays?.length || 1, 1))
-        : Math.max(Math.round(flashcards.length / Math.max(studyStats.studyDays, 1)), 1),
-    });
+  const summary = useMemo(() => computeSummary(reviews, now), [reviews, now]);
+  const activityData = useMemo(() => buildActivitySeries(reviews, periodFilter, now), [reviews, periodFilter, now]);
+  const performanceData = useMemo(() => buildAccuracySeries(reviews, periodFilter, now), [reviews, periodFilter, now]);
+  const subjectDistributionData = useMemo(() => {
+    return subjectGrouping === "theme"
+      ? aggregateByTheme(reviews, themes)
+      : aggregateByDeck(reviews, decks);
+  }, [reviews, themes, decks, subjectGrouping]);
+  const recentSessions = useMemo(() => getRecentSessions(reviews, decks), [reviews, decks]);
 
-    // Generate realistic activity data based on real stats or reasonable estimates
-    generateChartData(stats, decks, themes);
-  }, [periodFilter]);
-
-  // Generate chart data based on real stats or reasonable estimates
-  const generateChartData = (stats: any, decks: any[], themes: any[]) => {
-    // Generate activity data
-    const weekDays = ["Lun", "Mar", "Mer", "Jeu", "Ven", "Sam", "Dim"];
-    const today = new Date();
-    const dayOfWeek = today.getDay(); // 0 = Sunday, 1 = Monday, ...
-    
-    // Convert to our format where 0 = Monday
-    const adjustedDayOfWeek = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-    
-    // Generate week data (7 days)
-    const weekData = weekDays.map((day, index) => {
-      // If we have real data and this day is in the study days
-      if (stats?.studyDays) {
-        const dateToCheck = new Date();
-        // Go back to the correct day of the week
-        dateToCheck.setDate(today.getDate() - (adjustedDayOfWeek - index + (index <= adjustedDayOfWeek ? 0 : 7)));
-        const dateStr = dateToCheck.toISOString().split('T')[0];
-        
-        if (stats.studyDays.includes(dateStr)) {
-          // This was a study day, use a realistic time
-          return {
-            name: day,
-            minutes: Math.floor(Math.random() * 30) + 15 // 15-45 minutes
-          };
-        }
-      }
-      
-      // No real data, or not a study day
-      return {
-        name: day,
-        minutes: Math.max(0, Math.floor(Math.random() * 20) - (Math.random() > 0.6 ? 20 : 0)) // 0-20 minutes, 40% chance of 0
-      };
-    });
-    
-    // Generate month data (30 days)
-    const monthData = Array.from({ length: 30 }, (_, i) => {
-      const day = 30 - i;
-      const dateToCheck = new Date();
-      dateToCheck.setDate(today.getDate() - day);
-      const dateStr = dateToCheck.toISOString().split('T')[0];
-      
-      if (stats?.studyDays && stats.studyDays.includes(dateStr)) {
-        return {
-          name: `${day + 1}`,
-          minutes: Math.floor(Math.random() * 45) + 15 // 15-60 minutes for study days
-        };
-      }
-      
-      return {
-        name: `${day + 1}`,
-        minutes: Math.max(0, Math.floor(Math.random() * 10) - (Math.random() > 0.4 ? 10 : 0)) // 0-10 minutes, 60% chance of 0
-      };
-    });
-    
-    // Generate year data (12 months)
-    const monthNames = ["Jan", "Fév", "Mar", "Avr", "Mai", "Jun", "Jul", "Aoû", "Sep", "Oct", "Nov", "Déc"];
-    const yearData = monthNames.map((month, i) => {
-      // Current month should show real cards count * some average time
-      if (i === today.getMonth()) {
-        return {
-          name: month,
-          minutes: studyStats.totalCards * 2 // Rough estimate: 2 minutes per card
-        };
-      }
-      
-      // Previous months should be somewhat random but realistic
-      return {
-        name: month,
-        minutes: i < today.getMonth() 
-          ? Math.floor(Math.random() * 400) + 100 // Past months: 100-500 minutes
-          : 0 // Future months: 0 minutes
-      };
-    });
-    
-    setActivityData({
-      week: weekData,
-      month: monthData,
-      year: yearData
-    });
-    
-    // Generate performance data based on stats
-    const baseScore = stats?.averageScore || 80;
-    
-    // Week performance with slight variations
-    const weekPerformance = weekDays.map(day => ({
-      name: day,
-      score: Math.min(Math.max(baseScore + (Math.random() * 16) - 8, 50), 100) // Vary by ±8 points but stay within 50-100
-    }));
-    
-    // Month performance with slightly more variation
-    const monthPerformance = Array.from({ length: 30 }, (_, i) => ({
-      name: `${i + 1}`,
-      score: Math.min(Math.max(baseScore + (Math.random() * 20) - 10, 50), 100) // Vary by ±10 points
-    }));
-    
-    // Year performance with improvement trend
-    const yearPerformance = monthNames.map((month, i) => {
-      // Start with lower scores, improve over the year
-      const trendBoost = i * 0.5; // Small improvement each month
-      return {
-        name: month,
-        score: Math.min(Math.max(baseScore - 10 + trendBoost + (Math.random() * 14) - 7, 50), 100)
-      };
-    });
-    
-    setPerformanceData({
-      week: weekPerformance,
-      month: monthPerformance,
-      year: yearPerformance
-    });
-    
-    // Generate subject distribution based on themes
-    if (themes.length > 0) {
-      const themeCounts: Record<string, number> = {};
-      
-      decks.forEach(deck => {
-        const themeId = deck.themeId;
-        const theme = themes.find((t: any) => t.id === themeId);
-        
-        if (theme) {
-          const themeName = theme.name;
-          themeCounts[themeName] = (themeCounts[themeName] || 0) + 1;
-        }
-      });
-      
-      const themeData = Object.entries(themeCounts).map(([name, count]) => ({
-        name,
-        value: count
-      }));
-      
-      // If not enough themes, add some placeholders
-      if (themeData.length < 2) {
-        if (themeData.length === 0) {
-          themeData.push({ name: "Général", value: decks.length || 1 });
-        }
-        themeData.push({ name: "Autre", value: Math.max(1, Math.floor((decks.length || 5) / 3)) });
-      }
-      
-      setSubjectDistributionData(themeData);
-    } else {
-      // No themes, create dummy data
-      setSubjectDistributionData([
-        { name: "Général", value: 35 },
-        { name: "Spécifique", value: 25 },
-        { name: "Autre", value: 15 }
-      ]);
-    }
-  };
+  // Le temps enregistré en fin de séance est plus fiable que l'estimation tirée du journal
+  const totalStudyTime = Math.max(recordedStudyTime, summary.totalMinutes);
+  const accuracyTrend = summary.weekAccuracy - summary.previousWeekAccuracy;
 
   // Chart configuration
   const chartConfig = {
@@ -260,31 +121,33 @@ const StatsPage = () => {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
         <StatCard
           title="Cartes étudiées"
-          value={studyStats.totalCards.toString()}
-          description="Total des flashcards"
+          value={summary.studiedCards.toString()}
+          description={`Sur ${totalFlashcards} flashcards · ${summary.totalReviews} révisions`}
           icon={<BookOpen className="h-5 w-5 text-indigo-500" />}
-          trend={studyStats.totalCards > 0 ? `${Math.min(5, studyStats.totalCards)} aujourd'hui` : "Créez vos premières cartes!"}
+          trend={summary.totalReviews > 0 ? `${summary.todayReviews} aujourd'hui` : "Commencez vos révisions!"}
         />
         <StatCard
           title="Temps d'étude"
-          value={`${studyStats.totalStudyTime} h`}
-          description="Temps total"
+          value={formatStudyTime(totalStudyTime)}
+          description={`Temps total · ${summary.studyDays} jours d'étude`}
           icon={<Clock className="h-5 w-5 text-blue-500" />}
-          trend={studyStats.totalStudyTime > 0 ? "+45 min aujourd'hui" : "Commencez à étudier!"}
+          trend={totalStudyTime > 0 ? `+${summary.todayMinutes} min aujourd'hui` : "Commencez à étudier!"}
         />
         <StatCard
           title="Score moyen"
-          value={`${studyStats.averageScore}%`}
+          value={`${summary.accuracy}%`}
           description="Taux de réussite"
           icon={<Medal className="h-5 w-5 text-yellow-500" />}
-          trend={studyStats.averageScore > 0 ? "+2% cette semaine" : "Testez vos connaissances!"}
+          trend={summary.weekReviews > 0
+            ? `${accuracyTrend >= 0 ? "+" : ""}${accuracyTrend}% cette semaine`
+            : "Testez vos connaissances!"}
         />
         <StatCard
           title="Série actuelle"
-          value={`${studyStats.streakDays} jours`}
+          value={`${summary.currentStreak} jours`}
           description="Jours consécutifs"
           icon={<Zap className="h-5 w-5 text-orange-500" />}
-          trend={studyStats.streakDays > 0 ? `Record: ${Math.max(14, studyStats.streakDays)} jours` : "Commencez une série!"}
+          trend={summary.bestStreak > 0 ? `Record: ${summary.bestStreak} jours` : "Commencez une série!"}
         />
       </div>
 
@@ -335,12 +198,14 @@ const StatsPage = () => {
                       </Button>
                     </div>
                   </div>
-                  <CardDescription>Minutes d'étude par jour</CardDescription>
+                  <CardDescription>
+                    {periodFilter === "year" ? "Minutes d'étude par mois" : "Minutes d'étude par jour"}
+                  </CardDescription>
                 </CardHeader>
                 <CardContent>
                   <ChartContainer config={chartConfig} className="aspect-[4/3]">
                     <ResponsiveContainer width="100%" height="100%">
-                      <BarChart data={activityData[periodFilter]}>
+                      <BarChart data={activityData}>
                         <CartesianGrid strokeDasharray="3 3" />
                         <XAxis dataKey="name" />
                         <YAxis />
@@ -390,12 +255,12 @@ const StatsPage = () => {
                 <CardContent>
                   <ChartContainer config={chartConfig} className="aspect-[4/3]">
                     <ResponsiveContainer width="100%" height="100%">
-                      <LineChart data={performanceData[periodFilter]}>
+                      <LineChart data={performanceData}>
                         <CartesianGrid strokeDasharray="3 3" />
                         <XAxis dataKey="name" />
                         <YAxis domain={[0, 100]} />
                         <Tooltip content={<ChartTooltipContent />} />
-                        <Line type="monotone" dataKey="score" stroke="#9333ea" strokeWidth={2} dot={{ r: 4 }} />
+                        <Line type="monotone" dataKey="score" stroke="#9333ea" strokeWidth={2} dot={{ r: 4 }} connectNulls />
                       </LineChart>
                     </ResponsiveContainer>
                   </ChartContainer>
@@ -406,31 +271,57 @@ const StatsPage = () => {
             <TabsContent value="subjects" className="mt-0">
               <Card>
                 <CardHeader className="pb-2">
-                  <CardTitle className="text-lg">Répartition par matière</CardTitle>
-                  <CardDescription>Temps consacré à chaque sujet</CardDescription>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-lg">Répartition par matière</CardTitle>
+                    <div className="flex gap-2">
+                      <Button
+                        variant={subjectGrouping === "theme" ? "secondary" : "ghost"}
+                        size="sm"
+                        onClick={() => setSubjectGrouping("theme")}
+                        className="h-8"
+                      >
+                        Thèmes
+                      </Button>
+                      <Button
+                        variant={subjectGrouping === "deck" ? "secondary" : "ghost"}
+                        size="sm"
+                        onClick={() => setSubjectGrouping("deck")}
+                        className="h-8"
+                      >
+                        Decks
+                      </Button>
+                    </div>
+                  </div>
+                  <CardDescription>Nombre de révisions consacrées à chaque sujet</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <ChartContainer config={chartConfig} className="h-[300px]">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <PieChart>
-                        <Pie
-                          data={subjectDistributionData}
-                          cx="50%"
-                          cy="50%"
-                          labelLine={false}
-                          outerRadius={80}
-                          fill="#8884d8"
-                          dataKey="value"
-                          label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
-                        >
-                          {subjectDistributionData.map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                          ))}
-                        </Pie>
-                        <Tooltip content={<ChartTooltipContent />} />
-                      </PieChart>
-                    </ResponsiveContainer>
-                  </ChartContainer>
+                  {subjectDistributionData.length === 0 ? (
+                    <p className="h-[300px] flex items-center justify-center text-sm text-muted-foreground">
+                      Aucune révision enregistrée pour le moment
+                    </p>
+                  ) : (
+                    <ChartContainer config={chartConfig} className="h-[300px]">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <PieChart>
+                          <Pie
+                            data={subjectDistributionData}
+                            cx="50%"
+                            cy="50%"
+                            labelLine={false}
+                            outerRadius={80}
+                            fill="#8884d8"
+                            dataKey="value"
+                            label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
+                          >
+                            {subjectDistributionData.map((entry, index) => (
+                              <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                            ))}
+                          </Pie>
+                          <Tooltip content={<ChartTooltipContent />} />
+                        </PieChart>
+                      </ResponsiveContainer>
+                    </ChartContainer>
+                  )}
                 </CardContent>
               </Card>
             </TabsContent>
@@ -443,22 +334,19 @@ const StatsPage = () => {
               </CardHeader>
               <CardContent className="text-sm">
                 <div className="space-y-4">
+                  {recentSessions.map(session => (
+                    <RecentActivity
+                      key={`${session.date}-${session.deckId}`}
+                      title={`Étude: ${session.deckTitle}`}
+                      time={formatSessionTime(session.lastTimestamp, now)}
+                      stats={`${session.reviews} cartes · ${session.minutes} min · ${session.accuracy}% de réussite`}
+                      icon={<BrainCircuit className="h-4 w-4 text-indigo-500" />}
+                    />
+                  ))}
                   <RecentActivity
-                    title="Étude: Mathématiques"
-                    time="Il y a 2 heures"
-                    stats="45 minutes · 85% de réussite"
-                    icon={<BrainCircuit className="h-4 w-4 text-indigo-500" />}
-                  />
-                  <RecentActivity
-                    title={`Création de ${studyStats.totalCards > 0 ? Math.min(12, studyStats.totalCards) : 0} cartes`}
-                    time="Hier, 15:30"
-                    stats={`Thèmes: ${studyStats.totalThemes || 'Aucun'}`}
-                    icon={<BookOpen className="h-4 w-4 text-green-500" />}
-                  />
-                  <RecentActivity
-                    title={`Série de ${studyStats.streakDays || 0} jours`}
+                    title={`Série de ${summary.currentStreak} jours`}
                     time="Aujourd'hui"
-                    stats={studyStats.streakDays > 0 ? "Bravo, continuez !" : "Commencez aujourd'hui!"}
+                    stats={summary.todayReviews > 0 ? "Bravo, continuez !" : "Commencez aujourd'hui!"}
                     icon={<Zap className="h-4 w-4 text-yellow-500" />}
                   />
                 </div>
@@ -472,19 +360,19 @@ const StatsPage = () => {
               <CardContent className="space-y-3">
                 <GoalItem
                   title="Étudier 30 minutes"
-                  progress={Math.min(100, Math.round((studyStats.totalStudyTime * 60) / 30 * 100))}
+                  progress={Math.min(100, Math.round(summary.todayMinutes / 30 * 100))}
                   target="Chaque jour"
                   icon={<Clock className="h-4 w-4 text-blue-500" />}
                 />
                 <GoalItem
-                  title="Apprendre 50 cartes"
-                  progress={Math.min(100, Math.round(studyStats.totalCards / 50 * 100))}
+                  title="Réviser 50 cartes"
+                  progress={Math.min(100, Math.round(summary.weekReviews / 50 * 100))}
                   target="Cette semaine"
                   icon={<TrendingUp className="h-4 w-4 text-indigo-500" />}
                 />
                 <GoalItem
                   title="Atteindre 90% de réussite"
-                  progress={Math.min(100, Math.round(studyStats.averageScore / 90 * 100))}
+                  progress={Math.min(100, Math.round(summary.monthAccuracy / 90 * 100))}
                   target="Ce mois-ci"
                   icon={<BarChart4 className="h-4 w-4 text-purple-500" />}
                 />
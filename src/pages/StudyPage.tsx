@@ -1,5 +1,5 @@
-import { useState, useEffect, useRef } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useState, useEffect, useRef, useMemo } from "react";
+import { Link, useLocation, useParams, useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -11,39 +11,75 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import FlashCard from "@/components/FlashCard";
-import { getDeck, getFlashcardsByDeck, Flashcard as DbFlashcard, getThemesByDeck } from "@/lib/localStorage";
-import { recordCardStudy, updateSessionStats } from "@/lib/sessionManager";
-import * as enhancedDB from "@/lib/enhancedIndexedDB";
-import { ArrowLeft, ArrowRight, Check, X, Shuffle, ThumbsUp, ThumbsDown, Lightbulb, MessageSquare, Repeat } from "lucide-react";
-import { evaluateAnswer } from "@/services/geminiService";
+import MatchingGame from "@/components/MatchingGame";
+import { getDeck, getFlashcardsByDeck, Flashcard as DbFlashcard, getThemesByDeck, getReviewStatesByDeck, reviewFlashcard, getSchedulerAlgorithm, setSchedulerAlgorithm, getDeckStudyDirection, ReviewGrade, SchedulerAlgorithm, StudyDirection } from "@/lib/localStorage";
+import { recordCardStudy, recordGradedCardStudy, updateSessionStats } from "@/lib/sessionManager";
+import { buildDueQueue, SCHEDULERS } from "@/lib/scheduler";
+import { logReview, ReviewChoice, ReviewMode } from "@/lib/reviewLog";
+import { DEFAULT_IGNORED_ARTICLES } from "@/lib/answerMatching";
+import { applyHintPenalty, buildHintSteps, hintedScore } from "@/lib/hints";
+import {
+  clearStudySession,
+  DEFAULT_STUDY_SESSION_CONFIG,
+  getRemainingTimeMs,
+  getStudySession,
+  getStudySessionConfig,
+  limitSessionItems,
+  NEW_CARD_RATIOS,
+  saveStudySession,
+  saveStudySessionConfig,
+  SESSION_CARD_LIMITS,
+  SESSION_TIME_LIMITS,
+  STUDY_MODE_LABELS,
+  StudySessionConfig,
+  StudySessionSnapshot
+} from "@/lib/studySession";
+import { buildMultipleChoiceQuestion, DEFAULT_CHOICE_COUNT, MAX_CHOICE_COUNT, MIN_CHOICE_COUNT } from "@/lib/multipleChoice";
+import { CardSide } from "@/lib/cardContent";
+import { resolveCardSides } from "@/lib/cloze";
+import { buildStudyItems, CardDirection, DEFAULT_STUDY_DIRECTION, orientCard, STUDY_DIRECTIONS, StudyItem } from "@/lib/studyDirection";
+import { ArrowLeft, ArrowRight, Check, X, Shuffle, ThumbsUp, ThumbsDown, Lightbulb, Repeat, CalendarCheck, SlidersHorizontal, Timer } from "lucide-react";
+import { DEFAULT_EVALUATOR_SETTINGS, evaluateAnswer, EvaluatorSettings, getActiveEvaluator, getEvaluatorSettings } from "@/services/answerEvaluator";
 
 // Interface pour les cartes transformées
 interface Flashcard {
   id: string;
   deckId: string;
   themeId?: string;
-  front: {
-    text: string;
-    image?: string;
-    audio?: string;
-    additionalInfo?: string;
-  };
-  back: {
-    text: string;
-    image?: string;
-    audio?: string;
-    additionalInfo?: string;
-  };
+  front: CardSide;
+  back: CardSide;
   hints?: string[];
+  reversible?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+// Carte présentée dans le sens d'étude choisi ; id identifie l'élément de révision
+type StudyCard = StudyItem<Flashcard>;
+
+type DirectionScores = Record<CardDirection, { correct: number; incorrect: number }>;
+
+const EMPTY_DIRECTION_SCORES: DirectionScores = {
+  forward: { correct: 0, incorrect: 0 },
+  reverse: { correct: 0, incorrect: 0 },
+};
+
+// Réponses justes obtenues avec des indices et part du score qu'elles ont perdue
+interface HintStats {
+  answers: number;
+  penalty: number;
+}
+
+const EMPTY_HINT_STATS: HintStats = { answers: 0, penalty: 0 };
+
 enum StudyMode {
   FLASHCARDS = "flashcards",
   QUIZ = "quiz",
   WRITE = "write",
+  CHOICE = "choice",
+  MATCHING = "matching",
 }
 
 enum QuizCheckMethod {
@@ -51,17 +87,66 @@ enum QuizCheckMethod {
   AUTO = "auto",
 }
 
+// Boutons de notation du mode flashcards, dans l'ordre des raccourcis clavier 1 à 4
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; shortcut: string; className: string }[] = [
+  {
+    grade: "again",
+    label: "À revoir",
+    shortcut: "1",
+    className: "border-red-200 hover:bg-red-50 hover:text-red-600 dark:border-red-800 dark:hover:bg-red-950",
+  },
+  {
+    grade: "hard",
+    label: "Difficile",
+    shortcut: "2",
+    className: "border-orange-200 hover:bg-orange-50 hover:text-orange-600 dark:border-orange-800 dark:hover:bg-orange-950",
+  },
+  {
+    grade: "good",
+    label: "Bien",
+    shortcut: "3",
+    className: "border-green-200 hover:bg-green-50 hover:text-green-600 dark:border-green-800 dark:hover:bg-green-950",
+  },
+  {
+    grade: "easy",
+    label: "Facile",
+    shortcut: "4",
+    className: "border-blue-200 hover:bg-blue-50 hover:text-blue-600 dark:border-blue-800 dark:hover:bg-blue-950",
+  },
+];
+
+const CHOICE_COUNTS = Array.from({ length: MAX_CHOICE_COUNT - MIN_CHOICE_COUNT + 1 }, (_, i) => MIN_CHOICE_COUNT + i);
+
+// Construit la file de révision du jour à partir des états enregistrés pour le deck,
+// limitée selon les réglages de la séance (les cartes sans état sont nouvelles)
+const loadDueQueue = async (deckId: string, deckCards: StudyCard[], config: StudySessionConfig): Promise<StudyCard[]> => {
+  const states = new Map((await getReviewStatesByDeck(deckId)).map(state => [state.cardId, state]));
+  return limitSessionItems(buildDueQueue(deckCards, states), config, card => !states.has(card.id));
+};
+
+const formatRemainingTime = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, "0")}`;
+};
+
 const StudyPage = () => {
   const { id } = useParams();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Reprise demandée depuis la page du deck
+  const resumeRequested = Boolean((location.state as { resume?: boolean } | null)?.resume);
   const { toast } = useToast();
   const [studyMode, setStudyMode] = useState<StudyMode>(StudyMode.FLASHCARDS);
   const [cards, setCards] = useState<Flashcard[]>([]);
   const [filteredCards, setFilteredCards] = useState<Flashcard[]>([]);
+  const [dueCards, setDueCards] = useState<StudyCard[]>([]);
+  const [studyDirection, setStudyDirection] = useState<StudyDirection>(DEFAULT_STUDY_DIRECTION);
+  const [reviewAllCards, setReviewAllCards] = useState(false);
+  const [schedulerAlgorithm, setSchedulerAlgorithmState] = useState<SchedulerAlgorithm>("sm2");
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [showAnswer, setShowAnswer] = useState(false);
-  const [showHint, setShowHint] = useState(false);
+  const [hintLevel, setHintLevel] = useState(0);
   const [deck, setDeck] = useState<any>(null);
   const [studyTheme, setStudyTheme] = useState<string>("all");
   const [shuffle, setShuffle] = useState(false);
@@ -69,33 +154,52 @@ const StudyPage = () => {
   const [quizAnswers, setQuizAnswers] = useState<{ [key: string]: string }>({});
   const [quizResults, setQuizResults] = useState<{ [key: string]: boolean }>({});
   const [quizCheckMethod, setQuizCheckMethod] = useState<QuizCheckMethod>(QuizCheckMethod.MANUAL);
+  const [ignoreArticles, setIgnoreArticles] = useState(true);
+  const [pendingTypo, setPendingTypo] = useState<{ cardId: string; expected: string } | null>(null);
+  const [choiceCount, setChoiceCount] = useState(DEFAULT_CHOICE_COUNT);
+  const [pickedChoices, setPickedChoices] = useState<{ [key: string]: string }>({});
   const [correctAnswers, setCorrectAnswers] = useState(0);
   const [incorrectAnswers, setIncorrectAnswers] = useState(0);
+  const [directionScores, setDirectionScores] = useState<DirectionScores>(EMPTY_DIRECTION_SCORES);
+  const [hintStats, setHintStats] = useState<HintStats>(EMPTY_HINT_STATS);
+  const [sessionConfig, setSessionConfig] = useState<StudySessionConfig>(DEFAULT_STUDY_SESSION_CONFIG);
+  // Séance interrompue proposée à la reprise, puis en cours de restauration
+  const [savedSession, setSavedSession] = useState<StudySessionSnapshot | null>(null);
+  const [pendingResume, setPendingResume] = useState<StudySessionSnapshot | null>(null);
+  // Ordre des éléments d'une séance reprise ; remplace la file calculée tant que la séance continue
+  const [resumedOrder, setResumedOrder] = useState<string[] | null>(null);
+  const [timeLeftMs, setTimeLeftMs] = useState<number | null>(null);
   const [showResults, setShowResults] = useState(false);
-  const [geminiApiKey, setGeminiApiKey] = useState<string>('');
-  const [isGeminiEnabled, setIsGeminiEnabled] = useState<boolean>(false);
+  const [evaluatorSettings, setEvaluatorSettings] = useState<EvaluatorSettings>(DEFAULT_EVALUATOR_SETTINGS);
   const [isRecordingSession, setIsRecordingSession] = useState<boolean>(false);
   
-  // Charger la clé API Gemini depuis IndexedDB
+  // Charger le fournisseur d'évaluation choisi dans les paramètres
   useEffect(() => {
-    const loadGeminiApiKey = async () => {
-      try {
-        const apiKey = await enhancedDB.getItem('gemini-api-key');
-        if (apiKey) {
-          setGeminiApiKey(apiKey);
-          setIsGeminiEnabled(true);
-        }
-      } catch (error) {
-        console.error("Erreur lors du chargement de la clé API Gemini:", error);
-      }
-    };
-    
-    loadGeminiApiKey();
+    getEvaluatorSettings()
+      .then(setEvaluatorSettings)
+      .catch(error => console.error("Erreur lors du chargement des réglages d'évaluation:", error));
+  }, []);
+
+  // Charger les réglages de séance
+  useEffect(() => {
+    getStudySessionConfig()
+      .then(setSessionConfig)
+      .catch(error => console.error("Erreur lors du chargement des réglages de séance:", error));
+  }, []);
+
+  // Charger l'algorithme de répétition espacée choisi
+  useEffect(() => {
+    getSchedulerAlgorithm()
+      .then(setSchedulerAlgorithmState)
+      .catch(error => console.error("Erreur lors du chargement de l'algorithme de révision:", error));
   }, []);
   const [apiChecking, setApiChecking] = useState(false);
-  const [studyStartTime] = useState(new Date());
+  const [studyStartTime, setStudyStartTime] = useState(() => new Date());
+  const sessionCheckedRef = useRef(false);
+  const skipFilterResetRef = useRef(false);
   const answerInputRef = useRef<HTMLInputElement>(null);
-  const geminiEndpoint = "https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent";
+  const isGradingRef = useRef(false);
+  const cardShownAtRef = useRef(Date.now());
 
   useEffect(() => {
     if (!id) return;
@@ -113,25 +217,22 @@ const StudyPage = () => {
           return;
         }
         setDeck(deckData);
+        setStudyDirection(await getDeckStudyDirection(id));
 
         const deckCards = await getFlashcardsByDeck(id);
         
-        // Transformation des cartes pour correspondre au format attendu par FlashCard
-        const transformedCards = deckCards.map(card => ({
-          ...card,
-          front: {
-            text: card.front,
-            image: card.frontImage,
-            audio: card.frontAudio,
-            additionalInfo: card.additionalInfo
-          },
-          back: {
-            text: card.back,
-            image: card.backImage,
-            audio: card.backAudio,
-            additionalInfo: card.additionalInfo
-          }
-        }));
+        // Les cartes à trous sont rendues avec leur trou masqué ; la note commune à la carte
+        // s'affiche sur chaque face qui n'a pas ses propres informations.
+        // Un texte à trous ne s'étudie qu'à l'endroit.
+        const transformedCards = deckCards.map(card => {
+          const { front, back } = resolveCardSides(card);
+          return {
+            ...card,
+            reversible: card.front.type !== "cloze",
+            front: { ...front, additionalInfo: front.additionalInfo || card.additionalInfo },
+            back: { ...back, additionalInfo: back.additionalInfo || card.additionalInfo }
+          };
+        });
         
         setCards(transformedCards);
 
@@ -140,6 +241,17 @@ const StudyPage = () => {
 
         setFilteredCards(shuffle ? shuffleArray([...transformedCards]) : [...transformedCards]);
 
+        // Séance interrompue : reprise directe si demandée depuis le deck, sinon proposée
+        if (!sessionCheckedRef.current) {
+          sessionCheckedRef.current = true;
+          const session = await getStudySession(id);
+          if (session && resumeRequested) {
+            setPendingResume(session);
+          } else {
+            setSavedSession(session);
+          }
+        }
+
         await updateSessionStats({
           studySessions: 1,
           lastStudyDate: new Date().toISOString(),
@@ -155,7 +267,7 @@ const StudyPage = () => {
     };
 
     loadDeckData();
-  }, [id, navigate, toast, shuffle]);
+  }, [id, navigate, toast, shuffle, resumeRequested]);
 
   useEffect(() => {
     if (!cards.length) return;
@@ -171,16 +283,137 @@ const StudyPage = () => {
     }
 
     setFilteredCards(filtered);
+    
+    // Le thème vient d'être restauré avec une séance reprise : sa progression est conservée
+    if (skipFilterResetRef.current) {
+      skipFilterResetRef.current = false;
+      return;
+    }
+    
+    setResumedOrder(null);
     setCurrentCardIndex(0);
     setIsFlipped(false);
     setShowAnswer(false);
-    setShowHint(false);
+    setHintLevel(0);
     setQuizAnswers({});
     setQuizResults({});
+    setPickedChoices({});
     setCorrectAnswers(0);
     setIncorrectAnswers(0);
+    setDirectionScores(EMPTY_DIRECTION_SCORES);
+    setHintStats(EMPTY_HINT_STATS);
     setShowResults(false);
-  }, [studyTheme, shuffle, cards]);
+  }, [studyTheme, shuffle, cards, id]);
+
+  // Cartes orientées selon le sens d'étude ; le jeu d'association présente chaque carte une seule fois
+  const studyItems = useMemo(() => buildStudyItems(
+    filteredCards,
+    studyMode === StudyMode.MATCHING && studyDirection === "both" ? "forward" : studyDirection
+  ), [filteredCards, studyMode, studyDirection]);
+
+  // File des éléments dus aujourd'hui pour le mode flashcards ; chaque sens a son propre état de révision
+  useEffect(() => {
+    if (!id) return;
+    loadDueQueue(id, studyItems, sessionConfig)
+      .then(setDueCards)
+      .catch(error => console.error("Error loading review queue:", error));
+  }, [id, studyItems, sessionConfig]);
+
+  // Restaure une séance interrompue une fois les cartes du deck chargées
+  useEffect(() => {
+    if (!pendingResume || !cards.length) return;
+    const session = pendingResume;
+
+    skipFilterResetRef.current = session.themeFilter !== studyTheme;
+    setStudyTheme(session.themeFilter);
+    setStudyMode(session.mode as StudyMode);
+    setStudyDirection(session.direction);
+    setReviewAllCards(session.reviewAllCards);
+    setSessionConfig(session.config);
+    setResumedOrder(session.itemOrder);
+    setCurrentCardIndex(session.currentIndex);
+    setIsFlipped(false);
+    setShowAnswer(false);
+    setQuizAnswers(session.answers);
+    setQuizResults(session.results);
+    setPickedChoices(session.pickedChoices);
+    setCorrectAnswers(session.score.correct);
+    setIncorrectAnswers(session.score.incorrect);
+    setDirectionScores(session.score.byDirection);
+    setHintStats({ answers: session.score.hintedAnswers, penalty: session.score.hintPenalty });
+    setStudyStartTime(new Date(Date.now() - session.elapsedMs));
+    setShowResults(false);
+    setPendingResume(null);
+    setSavedSession(null);
+  }, [pendingResume, cards, studyTheme]);
+
+  // Éléments des modes autres que flashcards, limités selon les réglages de la séance
+  const sessionItems = useMemo(() => limitSessionItems(studyItems, sessionConfig), [studyItems, sessionConfig]);
+
+  // Une séance reprise garde son ordre ; les cartes supprimées entre-temps sont ignorées
+  const resumedCards = useMemo(() => {
+    if (!resumedOrder) return null;
+    const itemsById = new Map(studyItems.map(item => [item.id, item]));
+    return resumedOrder.map(itemId => itemsById.get(itemId)).filter((item): item is StudyCard => Boolean(item));
+  }, [resumedOrder, studyItems]);
+
+  // Le mode flashcards ne présente que les cartes dues, sauf si l'utilisateur demande à tout réviser
+  const activeCards = resumedCards
+    ?? (studyMode === StudyMode.FLASHCARDS && !reviewAllCards ? dueCards : sessionItems);
+
+  // Point de départ du temps de réponse de la carte affichée ; les indices ne valent que pour elle
+  useEffect(() => {
+    cardShownAtRef.current = Date.now();
+    setHintLevel(0);
+  }, [currentCardIndex, studyMode]);
+
+  // Indices de la carte affichée, révélés un par un
+  const currentCard = activeCards[currentCardIndex];
+  const hintSteps = useMemo(() => currentCard ? buildHintSteps(currentCard) : [], [currentCard]);
+
+  const logCardReview = (cardId: string, grade: ReviewGrade, answer?: string, choice?: ReviewChoice, hintsUsed = 0) => {
+    const card = activeCards.find(c => c.id === cardId);
+    if (!card) return;
+    
+    logReview({
+      cardId: card.cardId,
+      deckId: card.deckId,
+      themeId: card.themeId,
+      mode: studyMode as ReviewMode,
+      grade,
+      ...(card.direction === "reverse" && { direction: card.direction }),
+      responseTimeMs: Date.now() - cardShownAtRef.current,
+      ...(answer !== undefined && { answer }),
+      ...(choice && { choice }),
+      ...(hintsUsed > 0 && { hintsUsed })
+    });
+  };
+
+  const countAnswer = (cardId: string, isCorrect: boolean) => {
+    const direction = activeCards.find(c => c.id === cardId)?.direction ?? "forward";
+    if (isCorrect) {
+      setCorrectAnswers(prev => prev + 1);
+    } else {
+      setIncorrectAnswers(prev => prev + 1);
+    }
+    setDirectionScores(prev => ({
+      ...prev,
+      [direction]: {
+        correct: prev[direction].correct + (isCorrect ? 1 : 0),
+        incorrect: prev[direction].incorrect + (isCorrect ? 0 : 1),
+      },
+    }));
+  };
+
+  // Question à choix multiples de la carte affichée ; les distracteurs viennent de tout le deck,
+  // même quand un thème est sélectionné, pris dans le même sens que la question,
+  // et restent stables tant que la carte ne change pas
+  const currentChoiceCard = studyMode === StudyMode.CHOICE ? activeCards[currentCardIndex] : undefined;
+  const choiceQuestion = useMemo(() => {
+    if (!currentChoiceCard) return null;
+    const pool = cards.map(card => ({ ...orientCard(card, currentChoiceCard.direction), id: card.id }));
+    return buildMultipleChoiceQuestion({ ...currentChoiceCard, id: currentChoiceCard.cardId }, pool, { choiceCount });
+  }, [currentChoiceCard, cards, choiceCount]);
 
   const shuffleArray = <T,>(array: T[]): T[] => {
     const newArray = [...array];
@@ -192,11 +425,11 @@ const StudyPage = () => {
   };
 
   const handleNextCard = async () => {
-    if (currentCardIndex < filteredCards.length - 1) {
+    if (currentCardIndex < activeCards.length - 1) {
       setCurrentCardIndex(prev => prev + 1);
       setIsFlipped(false);
       setShowAnswer(false);
-      setShowHint(false);
+      setHintLevel(0);
     } else {
       if (studyMode === StudyMode.FLASHCARDS) {
         await recordStudySession();
@@ -213,17 +446,141 @@ const StudyPage = () => {
       setCurrentCardIndex(prev => prev - 1);
       setIsFlipped(false);
       setShowAnswer(false);
-      setShowHint(false);
+      setHintLevel(0);
     }
   };
 
-  const handleCardFlip = async () => {
+  const handleCardFlip = () => {
     setIsFlipped(!isFlipped);
-    if (!isFlipped) {
-      await recordCardStudy(true);
+  };
+
+  const handleFlashcardReview = async (grade: ReviewGrade) => {
+    const card = activeCards[currentCardIndex];
+    // Ignorer les notes envoyées pendant l'enregistrement de la précédente
+    if (!card || isGradingRef.current) return;
+    isGradingRef.current = true;
+    
+    const isCorrect = grade !== "again";
+    
+    try {
+      await reviewFlashcard(card, grade);
+    } catch (error) {
+      console.error("Error saving review state:", error);
+    }
+    await recordGradedCardStudy(grade);
+    logCardReview(card.id, grade);
+    countAnswer(card.id, isCorrect);
+    
+    // Une carte oubliée revient en fin de file pour être revue pendant la séance
+    const requeued = !isCorrect && !reviewAllCards;
+    if (requeued && resumedOrder) {
+      setResumedOrder(prev => [...prev, card.id]);
+    } else if (requeued) {
+      setDueCards(prev => [...prev, card]);
+    }
+    
+    if (requeued || currentCardIndex < activeCards.length - 1) {
+      setCurrentCardIndex(prev => prev + 1);
+      setIsFlipped(false);
+      setHintLevel(0);
+    } else {
+      await recordStudySession();
+      setShowResults(true);
+      toast({
+        title: "Bravo !",
+        description: "Vous avez terminé les révisions prévues pour aujourd'hui.",
+      });
+    }
+    
+    isGradingRef.current = false;
+  };
+  
+  // Raccourcis clavier 1 à 4 pour noter la carte une fois retournée
+  const flashcardReviewRef = useRef(handleFlashcardReview);
+  flashcardReviewRef.current = handleFlashcardReview;
+  
+  useEffect(() => {
+    if (studyMode !== StudyMode.FLASHCARDS || !isFlipped || showResults) return;
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) {
+        return;
+      }
+      
+      const gradeButton = GRADE_BUTTONS.find(button => button.shortcut === e.key);
+      if (gradeButton) {
+        e.preventDefault();
+        flashcardReviewRef.current(gradeButton.grade);
+      }
+    };
+    
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [studyMode, isFlipped, showResults]);
+
+  const handleReviewAllToggle = () => {
+    setReviewAllCards(!reviewAllCards);
+    setResumedOrder(null);
+    setCurrentCardIndex(0);
+    setIsFlipped(false);
+    setHintLevel(0);
+  };
+
+  const handleSchedulerChange = async (algorithm: SchedulerAlgorithm) => {
+    setSchedulerAlgorithmState(algorithm);
+    try {
+      await setSchedulerAlgorithm(algorithm);
+    } catch (error) {
+      console.error("Erreur lors de l'enregistrement de l'algorithme de révision:", error);
     }
   };
 
+  // Le sens choisi ici ne vaut que pour la séance ; le sens par défaut se règle dans les paramètres du deck
+  const handleDirectionChange = (direction: StudyDirection) => {
+    setStudyDirection(direction);
+    setResumedOrder(null);
+    setCurrentCardIndex(0);
+    setIsFlipped(false);
+    setShowAnswer(false);
+    setHintLevel(0);
+    setQuizAnswers({});
+    setQuizResults({});
+    setPickedChoices({});
+    setCorrectAnswers(0);
+    setIncorrectAnswers(0);
+    setDirectionScores(EMPTY_DIRECTION_SCORES);
+    setHintStats(EMPTY_HINT_STATS);
+    setShowResults(false);
+  };
+
+  // Les réglages s'appliquent à une nouvelle séance et sont conservés pour les suivantes
+  const handleSessionConfigChange = (changes: Partial<StudySessionConfig>) => {
+    const config = { ...sessionConfig, ...changes };
+    setSessionConfig(config);
+    saveStudySessionConfig(config)
+      .catch(error => console.error("Erreur lors de l'enregistrement des réglages de séance:", error));
+    setResumedOrder(null);
+    setStudyStartTime(new Date());
+    setCurrentCardIndex(0);
+    setIsFlipped(false);
+    setShowAnswer(false);
+    setHintLevel(0);
+    setQuizAnswers({});
+    setQuizResults({});
+    setPickedChoices({});
+    setCorrectAnswers(0);
+    setIncorrectAnswers(0);
+    setDirectionScores(EMPTY_DIRECTION_SCORES);
+    setHintStats(EMPTY_HINT_STATS);
+    setShowResults(false);
+  };
+
+  const handleDiscardSavedSession = () => {
+    if (id) clearStudySession(id);
+    setSavedSession(null);
+  };
+
   const handleThemeChange = (value: string) => {
     setStudyTheme(value);
   };
@@ -234,14 +591,18 @@ const StudyPage = () => {
 
   const handleStudyModeChange = (mode: StudyMode) => {
     setStudyMode(mode);
+    setResumedOrder(null);
     setCurrentCardIndex(0);
     setIsFlipped(false);
     setShowAnswer(false);
-    setShowHint(false);
+    setHintLevel(0);
     setQuizAnswers({});
     setQuizResults({});
+    setPickedChoices({});
     setCorrectAnswers(0);
     setIncorrectAnswers(0);
+    setDirectionScores(EMPTY_DIRECTION_SCORES);
+    setHintStats(EMPTY_HINT_STATS);
     setShowResults(false);
   };
 
@@ -252,76 +613,22 @@ const StudyPage = () => {
     });
   };
 
-  const checkAnswerWithGemini = async (userAnswer: string, correctAnswer: string, cardId: string) => {
-    if (!geminiApiKey || !isGeminiEnabled) {
-      toast({
-        title: "API Gemini non configurée",
-        description: "Veuillez configurer l'API Gemini pour la vérification automatique",
-        variant: "destructive",
-      });
-      return false;
-    }
-
-    setApiChecking(true);
-
-    try {
-      // Use the evaluateAnswer function from the geminiService
-      const { score, feedback } = await evaluateAnswer(userAnswer, correctAnswer);
-      
-      const isCorrect = score >= 0.7; // Consider 70% match as correct
-      
-      setQuizResults({
-        ...quizResults,
-        [cardId]: isCorrect
-      });
-      
-      if (isCorrect) {
-        setCorrectAnswers(prev => prev + 1);
-        await recordCardStudy(true);
-        toast({
-          title: "Correct!",
-          description: feedback,
-          variant: "default",
-        });
-      } else {
-        setIncorrectAnswers(prev => prev + 1);
-        await recordCardStudy(false);
-        toast({
-          title: "Incorrect",
-          description: feedback,
-          variant: "destructive",
-        });
-      }
-      
-      return isCorrect;
-    } catch (error) {
-      console.error("Error checking answer with Gemini:", error);
-      toast({
-        title: "Erreur",
-        description: "Impossible de vérifier la réponse avec l'API Gemini. Vérifiez votre clé API et réessayez.",
-        variant: "destructive",
-      });
-      return null;
-    } finally {
-      setApiChecking(false);
-    }
-  };
-
-  const handleManualCheck = async (cardId: string, isCorrect: boolean) => {
+  const handleManualCheck = async (cardId: string, isCorrect: boolean, grade?: ReviewGrade) => {
     setQuizResults({
       ...quizResults,
       [cardId]: isCorrect
     });
     
-    if (isCorrect) {
-      setCorrectAnswers(prev => prev + 1);
-      await recordCardStudy(true);
-    } else {
-      setIncorrectAnswers(prev => prev + 1);
-      await recordCardStudy(false);
+    // Chaque indice révélé abaisse la note et la part du score d'une réponse juste
+    const hintsUsed = hintLevel;
+    logCardReview(cardId, applyHintPenalty(grade ?? (isCorrect ? "good" : "again"), hintsUsed), quizAnswers[cardId], undefined, hintsUsed);
+    countAnswer(cardId, isCorrect);
+    if (isCorrect && hintsUsed > 0) {
+      setHintStats(prev => ({ answers: prev.answers + 1, penalty: prev.penalty + 1 - hintedScore(hintsUsed) }));
     }
+    await recordCardStudy(isCorrect);
     
-    if (currentCardIndex < filteredCards.length - 1) {
+    if (currentCardIndex < activeCards.length - 1) {
       setTimeout(() => {
         setCurrentCardIndex(prev => prev + 1);
         if (answerInputRef.current) {
@@ -336,7 +643,7 @@ const StudyPage = () => {
 
   const handleAutoCheck = async (cardId: string) => {
     const userAnswer = quizAnswers[cardId] || '';
-    const correctAnswer = filteredCards[currentCardIndex].back.text;
+    const correctAnswer = activeCards[currentCardIndex].back.text;
     
     if (!userAnswer.trim()) {
       toast({
@@ -347,26 +654,127 @@ const StudyPage = () => {
       return;
     }
     
-    if (isGeminiEnabled) {
-      const result = await checkAnswerWithGemini(userAnswer, correctAnswer, cardId);
+    setApiChecking(true);
+    try {
+      // Les lectures de la face attendue (kana ou romaji) valent aussi bonne réponse
+      const evaluation = await evaluateAnswer({
+        cardId,
+        question: activeCards[currentCardIndex].front.text,
+        userAnswer,
+        correctAnswer,
+        readings: activeCards[currentCardIndex].back.readings,
+        ignoredWords: ignoreArticles ? DEFAULT_IGNORED_ARTICLES : []
+      }, evaluatorSettings);
       
-      if (result !== null && currentCardIndex < filteredCards.length - 1) {
-        setTimeout(() => {
-          setCurrentCardIndex(prev => prev + 1);
-          if (answerInputRef.current) {
-            answerInputRef.current.focus();
-          }
-        }, 1000);
-      } else if (result !== null && currentCardIndex === filteredCards.length - 1) {
-        await recordStudySession();
-        setShowResults(true);
+      // Une réponse presque juste attend la décision de l'utilisateur
+      if (evaluation.outcome === "typo") {
+        setPendingTypo({ cardId, expected: evaluation.expected ?? correctAnswer });
+        return;
+      }
+      
+      const isCorrect = evaluation.outcome === "correct";
+      if (evaluatorSettings.provider !== "fuzzy") {
+        toast({
+          title: isCorrect ? "Correct !" : "Incorrect",
+          description: evaluation.feedback,
+          variant: isCorrect ? "default" : "destructive",
+        });
       }
+      await handleManualCheck(cardId, isCorrect);
+    } catch (error) {
+      console.error("Erreur lors de l'évaluation de la réponse:", error);
+      toast({
+        title: "Erreur",
+        description: `Impossible de vérifier la réponse avec ${getActiveEvaluator(evaluatorSettings).label}. Vérifiez les paramètres d'évaluation et réessayez.`,
+        variant: "destructive",
+      });
+    } finally {
+      setApiChecking(false);
+    }
+  };
+
+  const revealHint = () => {
+    setHintLevel(prev => Math.min(prev + 1, hintSteps.length));
+  };
+
+  // Une faute de frappe acceptée compte comme une réponse juste, notée « difficile »
+  const handleTypoDecision = (accept: boolean) => {
+    if (!pendingTypo) return;
+    handleManualCheck(pendingTypo.cardId, accept, accept ? "hard" : "again");
+    setPendingTypo(null);
+  };
+
+  const handleChoicePick = async (optionCardId: string) => {
+    const card = activeCards[currentCardIndex];
+    if (!card || !choiceQuestion || choiceQuestion.cardId !== card.cardId || pickedChoices[card.id]) return;
+
+    const option = choiceQuestion.options.find(o => o.cardId === optionCardId);
+    if (!option) return;
+
+    setPickedChoices(prev => ({ ...prev, [card.id]: option.cardId }));
+    setQuizResults(prev => ({ ...prev, [card.id]: option.correct }));
+
+    // Le distracteur choisi est conservé pour repérer les cartes confondues
+    logCardReview(card.id, option.correct ? "good" : "again", option.text, {
+      pickedCardId: option.cardId,
+      optionCardIds: choiceQuestion.options.map(o => o.cardId)
+    });
+
+    countAnswer(card.id, option.correct);
+    await recordCardStudy(option.correct);
+
+    if (currentCardIndex < activeCards.length - 1) {
+      setTimeout(() => {
+        setCurrentCardIndex(prev => prev + 1);
+      }, option.correct ? 1000 : 2000);
     } else {
-      const isCorrect = userAnswer.trim().toLowerCase() === correctAnswer.trim().toLowerCase();
-      handleManualCheck(cardId, isCorrect);
+      await recordStudySession();
+      setTimeout(() => setShowResults(true), 1000);
     }
   };
 
+  // Jeu d'association : chaque carte de la grille compte une seule révision par partie,
+  // ratée dès la première association erronée de son recto
+  const handleMatchingMiss = async (cardId: string, pickedCardId: string, gridCardIds: string[]) => {
+    const sourceCardId = (itemId: string) => activeCards.find(c => c.id === itemId)?.cardId ?? itemId;
+    logCardReview(cardId, "again", undefined, {
+      pickedCardId: sourceCardId(pickedCardId),
+      optionCardIds: gridCardIds.map(sourceCardId)
+    });
+    countAnswer(cardId, false);
+    await recordCardStudy(false);
+  };
+
+  const handleMatchingMatch = async (cardId: string) => {
+    logCardReview(cardId, "good");
+    countAnswer(cardId, true);
+    await recordCardStudy(true);
+  };
+
+  // Raccourcis clavier 1 à N pour choisir une option
+  const choicePickRef = useRef(handleChoicePick);
+  choicePickRef.current = handleChoicePick;
+
+  useEffect(() => {
+    if (studyMode !== StudyMode.CHOICE || !choiceQuestion || showResults) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) {
+        return;
+      }
+
+      const option = choiceQuestion.options[Number(e.key) - 1];
+      if (option) {
+        e.preventDefault();
+        choicePickRef.current(option.cardId);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [studyMode, choiceQuestion, showResults]);
+
   const recordStudySession = async () => {
     try {
       setIsRecordingSession(true);
@@ -386,44 +794,109 @@ const StudyPage = () => {
     }
   };
 
+  // État de la séance en cours, enregistré après chaque réponse pour pouvoir la reprendre.
+  // Le jeu d'association n'est pas repris : une partie se rejoue en entier.
+  const persistSession = () => {
+    if (!id) return;
+    if (showResults) {
+      clearStudySession(id);
+      return;
+    }
+    if (studyMode === StudyMode.MATCHING || correctAnswers + incorrectAnswers === 0) return;
+
+    // Répondre sans reprendre la séance proposée revient à en commencer une nouvelle
+    setSavedSession(null);
+    saveStudySession({
+      deckId: id,
+      themeFilter: studyTheme,
+      mode: studyMode as ReviewMode,
+      direction: studyDirection,
+      reviewAllCards,
+      itemOrder: activeCards.map(card => card.id),
+      currentIndex: currentCardIndex,
+      answers: quizAnswers,
+      results: quizResults,
+      pickedChoices,
+      score: {
+        correct: correctAnswers,
+        incorrect: incorrectAnswers,
+        byDirection: directionScores,
+        hintedAnswers: hintStats.answers,
+        hintPenalty: hintStats.penalty,
+      },
+      config: sessionConfig,
+      startedAt: studyStartTime.toISOString(),
+      elapsedMs: Date.now() - studyStartTime.getTime(),
+      updatedAt: new Date().toISOString(),
+    });
+  };
+
+  const persistSessionRef = useRef(persistSession);
+  persistSessionRef.current = persistSession;
+
+  useEffect(() => {
+    persistSessionRef.current();
+  }, [correctAnswers, incorrectAnswers, currentCardIndex, showResults]);
+
+  // Fin de la séance quand la durée maximale est atteinte
+  const finishSessionOnTimeout = async () => {
+    await recordStudySession();
+    setShowResults(true);
+    toast({
+      title: "Temps écoulé",
+      description: "La durée maximale de la séance est atteinte.",
+    });
+  };
+
+  const finishSessionRef = useRef(finishSessionOnTimeout);
+  finishSessionRef.current = finishSessionOnTimeout;
+
+  useEffect(() => {
+    if (!sessionConfig.timeLimitMinutes || showResults) {
+      setTimeLeftMs(null);
+      return;
+    }
+
+    const tick = () => {
+      const remaining = getRemainingTimeMs(sessionConfig, Date.now() - studyStartTime.getTime());
+      setTimeLeftMs(remaining);
+      if (remaining === 0) {
+        clearInterval(intervalId);
+        finishSessionRef.current();
+      }
+    };
+    const intervalId = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(intervalId);
+  }, [sessionConfig, showResults, studyStartTime]);
+
   const restartStudy = () => {
+    setResumedOrder(null);
+    setStudyStartTime(new Date());
     setCurrentCardIndex(0);
     setIsFlipped(false);
     setShowAnswer(false);
-    setShowHint(false);
+    setHintLevel(0);
     setQuizAnswers({});
     setQuizResults({});
+    setPickedChoices({});
     setCorrectAnswers(0);
     setIncorrectAnswers(0);
+    setDirectionScores(EMPTY_DIRECTION_SCORES);
+    setHintStats(EMPTY_HINT_STATS);
     setShowResults(false);
     
+    const restartedCards = shuffle ? shuffleArray([...filteredCards]) : filteredCards;
     if (shuffle) {
-      setFilteredCards(shuffleArray([...filteredCards]));
+      setFilteredCards(restartedCards);
     }
-  };
-
-  useEffect(() => {
-    const updateGeminiApiKey = async () => {
-      try {
-        if (geminiApiKey) {
-          await enhancedDB.setItem('gemini-api-key', geminiApiKey);
-          setIsGeminiEnabled(true);
-          toast({
-            title: "API Gemini configurée",
-            description: "Vous pouvez maintenant utiliser la vérification automatique",
-            variant: "default",
-          });
-        } else {
-          await enhancedDB.removeItemByKey('gemini-api-key');
-          setIsGeminiEnabled(false);
-        }
-      } catch (error) {
-        console.error("Erreur lors de la mise à jour de la clé API Gemini:", error);
-      }
-    };
     
-    updateGeminiApiKey();
-  }, [geminiApiKey, toast]);
+    if (id) {
+      loadDueQueue(id, buildStudyItems(restartedCards, studyDirection), sessionConfig)
+        .then(setDueCards)
+        .catch(error => console.error("Error loading review queue:", error));
+    }
+  };
 
   if (!deck || filteredCards.length === 0) {
     return (
@@ -450,6 +923,57 @@ const StudyPage = () => {
     );
   }
 
+  // Réponse proche de la réponse attendue : l'utilisateur décide s'il s'agit d'une faute de frappe
+  const typoPrompt = pendingTypo && activeCards[currentCardIndex]?.id === pendingTypo.cardId && (
+    <Alert className="bg-yellow-50 dark:bg-yellow-900/20">
+      <AlertTitle>Faute de frappe ?</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>Votre réponse est proche de « {pendingTypo.expected} ». Voulez-vous l'accepter ?</p>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => handleTypoDecision(false)}>
+            <X className="mr-2 h-4 w-4" />
+            Refuser
+          </Button>
+          <Button size="sm" onClick={() => handleTypoDecision(true)}>
+            <Check className="mr-2 h-4 w-4" />
+            Accepter
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+
+  // Indices déjà révélés pour la carte affichée
+  const hintPanel = hintLevel > 0 && (
+    <Alert className="mt-2 bg-yellow-50 dark:bg-yellow-900/20">
+      <Lightbulb className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
+      <AlertTitle>Indice{hintLevel > 1 ? "s" : ""} ({hintLevel}/{hintSteps.length})</AlertTitle>
+      <AlertDescription className="space-y-1">
+        {hintSteps.slice(0, hintLevel).map((step, index) => (
+          <p key={index} className={step.kind === "wordMask" ? "font-mono tracking-widest" : "italic"}>
+            {step.text}
+          </p>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          Chaque indice abaisse la note d'une réponse juste.
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+
+  const ignoreArticlesSwitch = (
+    <div className="flex items-center space-x-2">
+      <Switch
+        id="ignore-articles"
+        checked={ignoreArticles}
+        onCheckedChange={setIgnoreArticles}
+      />
+      <Label htmlFor="ignore-articles">
+        Ignorer les articles en début de réponse (le, la, the...)
+      </Label>
+    </div>
+  );
+
   return (
     <div className="container py-8">
       <div className="max-w-4xl mx-auto">
@@ -457,11 +981,98 @@ const StudyPage = () => {
           <div>
             <h1 className="text-3xl font-bold">{deck.title}</h1>
             <p className="text-muted-foreground">
-              Carte {currentCardIndex + 1} sur {filteredCards.length}
+              {studyMode === StudyMode.MATCHING
+                ? `${activeCards.length} cartes`
+                : activeCards.length > 0
+                  ? `Carte ${Math.min(currentCardIndex + 1, activeCards.length)} sur ${activeCards.length}`
+                  : "Aucune carte à réviser aujourd'hui"}
             </p>
+            {timeLeftMs !== null && (
+              <Badge variant="outline" className="mt-1">
+                <Timer className="mr-1 h-3 w-3" />
+                {formatRemainingTime(timeLeftMs)}
+              </Badge>
+            )}
           </div>
           
           <div className="flex flex-col sm:flex-row gap-2">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline">
+                  <SlidersHorizontal className="mr-2 h-4 w-4" />
+                  Séance
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Modifier ces réglages recommence la séance.
+                </p>
+                <div className="space-y-1">
+                  <Label htmlFor="session-card-limit">Nombre de cartes</Label>
+                  <Select
+                    value={String(sessionConfig.cardLimit ?? "all")}
+                    onValueChange={(value) => handleSessionConfigChange({ cardLimit: value === "all" ? null : Number(value) })}
+                  >
+                    <SelectTrigger id="session-card-limit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Toutes les cartes</SelectItem>
+                      {SESSION_CARD_LIMITS.map((limit) => (
+                        <SelectItem key={limit} value={String(limit)}>{limit} cartes</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="session-new-ratio">Nouvelles cartes (mode flashcards)</Label>
+                  <Select
+                    value={String(sessionConfig.newCardRatio ?? "auto")}
+                    onValueChange={(value) => handleSessionConfigChange({ newCardRatio: value === "auto" ? null : Number(value) })}
+                    disabled={!sessionConfig.cardLimit}
+                  >
+                    <SelectTrigger id="session-new-ratio">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Révisions d'abord</SelectItem>
+                      {NEW_CARD_RATIOS.map((ratio) => (
+                        <SelectItem key={ratio} value={String(ratio)}>{Math.round(ratio * 100)} % de nouvelles</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="session-time-limit">Durée maximale</Label>
+                  <Select
+                    value={String(sessionConfig.timeLimitMinutes ?? "none")}
+                    onValueChange={(value) => handleSessionConfigChange({ timeLimitMinutes: value === "none" ? null : Number(value) })}
+                  >
+                    <SelectTrigger id="session-time-limit">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Sans limite</SelectItem>
+                      {SESSION_TIME_LIMITS.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </PopoverContent>
+            </Popover>
+            
+            {studyMode === StudyMode.FLASHCARDS && (
+              <Button
+                variant="outline"
+                onClick={handleReviewAllToggle}
+                className={reviewAllCards ? "bg-primary/10" : ""}
+              >
+                <CalendarCheck className={`mr-2 h-4 w-4 ${reviewAllCards ? "" : "text-primary"}`} />
+                {reviewAllCards ? "Toutes les cartes" : `À réviser (${dueCards.length})`}
+              </Button>
+            )}
+            
             <Button
               variant="outline"
               onClick={handleShuffleToggle}
@@ -471,6 +1082,19 @@ const StudyPage = () => {
               {shuffle ? "Mélangé" : "Mélanger"}
             </Button>
             
+            <Select value={studyDirection} onValueChange={(value) => handleDirectionChange(value as StudyDirection)}>
+              <SelectTrigger className="w-[180px]" aria-label="Sens d'étude">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STUDY_DIRECTIONS.map((direction) => (
+                  <SelectItem key={direction.value} value={direction.value}>
+                    {direction.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            
             {themes.length > 0 && (
               <Select value={studyTheme} onValueChange={handleThemeChange}>
                 <SelectTrigger className="w-[180px]">
@@ -489,61 +1113,111 @@ const StudyPage = () => {
           </div>
         </div>
 
+        {savedSession && (
+          <Alert className="mb-6">
+            <Repeat className="h-4 w-4" />
+            <AlertTitle>Séance interrompue</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>
+                {STUDY_MODE_LABELS[savedSession.mode]} : {savedSession.score.correct + savedSession.score.incorrect} réponse{savedSession.score.correct + savedSession.score.incorrect > 1 ? "s" : ""} sur {savedSession.itemOrder.length} cartes,
+                interrompue le {new Date(savedSession.updatedAt).toLocaleString("fr-FR", { day: "numeric", month: "long", hour: "2-digit", minute: "2-digit" })}.
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => setPendingResume(savedSession)}>
+                  Reprendre
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleDiscardSavedSession}>
+                  Nouvelle séance
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Card className="mb-6">
           <CardHeader>
-            <Tabs defaultValue={studyMode} onValueChange={(value) => handleStudyModeChange(value as StudyMode)}>
-              <TabsList className="grid w-full grid-cols-3">
+            <Tabs value={studyMode} onValueChange={(value) => handleStudyModeChange(value as StudyMode)}>
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value={StudyMode.FLASHCARDS}>Flashcards</TabsTrigger>
                 <TabsTrigger value={StudyMode.QUIZ}>Quiz</TabsTrigger>
+                <TabsTrigger value={StudyMode.CHOICE}>QCM</TabsTrigger>
                 <TabsTrigger value={StudyMode.WRITE}>Écriture</TabsTrigger>
+                <TabsTrigger value={StudyMode.MATCHING}>Association</TabsTrigger>
               </TabsList>
             </Tabs>
           </CardHeader>
           <CardContent>
-            {studyMode === StudyMode.FLASHCARDS && (
-              <div className="flex justify-center">
-                {filteredCards.length > 0 && (
+            {studyMode === StudyMode.FLASHCARDS && !showResults && (
+              activeCards.length === 0 ? (
+                <div className="max-w-md mx-auto text-center space-y-4">
+                  <Alert>
+                    <CalendarCheck className="h-4 w-4" />
+                    <AlertTitle>Révisions terminées</AlertTitle>
+                    <AlertDescription>
+                      Aucune carte n'est à réviser aujourd'hui. Revenez plus tard ou révisez l'ensemble du deck.
+                    </AlertDescription>
+                  </Alert>
+                  <Button onClick={handleReviewAllToggle} variant="outline">
+                    Réviser toutes les cartes
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex flex-col items-center gap-4">
                   <div className="w-full max-w-xl" onClick={handleCardFlip}>
                     <FlashCard
-                      id={filteredCards[currentCardIndex].id}
-                      front={filteredCards[currentCardIndex].front}
-                      back={filteredCards[currentCardIndex].back}
+                      key={`${activeCards[currentCardIndex].id}-${currentCardIndex}`}
+                      id={activeCards[currentCardIndex].id}
+                      front={activeCards[currentCardIndex].front}
+                      back={activeCards[currentCardIndex].back}
                       onCardFlip={() => {}}
                       className={isFlipped ? "flipped" : ""}
                     />
                   </div>
-                )}
-              </div>
+                  
+                  {isFlipped && (
+                    <div className="w-full max-w-xl space-y-2">
+                      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        {GRADE_BUTTONS.map((button) => (
+                          <Button
+                            key={button.grade}
+                            onClick={() => handleFlashcardReview(button.grade)}
+                            variant="outline"
+                            className={button.className}
+                          >
+                            <Badge variant="secondary" className="mr-2 px-1.5">{button.shortcut}</Badge>
+                            {button.label}
+                          </Button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-center text-muted-foreground">
+                        Utilisez les touches 1 à 4 pour noter votre réponse
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )
             )}
             
             {studyMode === StudyMode.QUIZ && !showResults && (
               <div className="space-y-6">
                 <div className="flex items-center justify-center mb-4">
-                  <Progress value={(currentCardIndex / filteredCards.length) * 100} className="w-full" />
+                  <Progress value={(currentCardIndex / activeCards.length) * 100} className="w-full" />
                 </div>
                 
                 <div className="text-center mb-6">
-                  <h2 className="text-xl font-bold mb-4">{filteredCards[currentCardIndex].front.text}</h2>
+                  <h2 className="text-xl font-bold mb-4">{activeCards[currentCardIndex].front.text}</h2>
                   
-                  {filteredCards[currentCardIndex].front.image && (
+                  {activeCards[currentCardIndex].front.image && (
                     <div className="flex justify-center mb-4">
                       <img
-                        src={filteredCards[currentCardIndex].front.image}
+                        src={activeCards[currentCardIndex].front.image}
                         alt="Question"
                         className="max-h-60 rounded-lg"
                       />
                     </div>
                   )}
                   
-                  {showHint && (
-                    <Alert className="mt-4 bg-yellow-50 dark:bg-yellow-900/20">
-                      <Lightbulb className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
-                      <AlertTitle>Indice</AlertTitle>
-                      <AlertDescription className="italic">
-                        {filteredCards[currentCardIndex].front.additionalInfo || "Aucun indice disponible"}
-                      </AlertDescription>
-                    </Alert>
-                  )}
+                  {hintPanel}
                 </div>
                 
                 <div className="space-y-4">
@@ -553,18 +1227,24 @@ const StudyPage = () => {
                       <Input
                         ref={answerInputRef}
                         id="answer"
-                        value={quizAnswers[filteredCards[currentCardIndex].id] || ''}
-                        onChange={(e) => handleQuizAnswer(e, filteredCards[currentCardIndex].id)}
+                        value={quizAnswers[activeCards[currentCardIndex].id] || ''}
+                        onChange={(e) => handleQuizAnswer(e, activeCards[currentCardIndex].id)}
                         className="flex-1"
                         placeholder="Entrez votre réponse..."
                         onKeyDown={(e) => {
                           if (e.key === 'Enter') {
-                            handleAutoCheck(filteredCards[currentCardIndex].id);
+                            handleAutoCheck(activeCards[currentCardIndex].id);
                           }
                         }}
                       />
                       
-                      <Button onClick={() => setShowHint(!showHint)} variant="outline" className="shrink-0">
+                      <Button
+                        onClick={revealHint}
+                        variant="outline"
+                        className="shrink-0"
+                        disabled={hintLevel >= hintSteps.length}
+                        title={`Indice (${hintLevel}/${hintSteps.length})`}
+                      >
                         <Lightbulb className="h-4 w-4" />
                       </Button>
                     </div>
@@ -572,7 +1252,7 @@ const StudyPage = () => {
                   
                   {quizCheckMethod === QuizCheckMethod.AUTO ? (
                     <Button 
-                      onClick={() => handleAutoCheck(filteredCards[currentCardIndex].id)}
+                      onClick={() => handleAutoCheck(activeCards[currentCardIndex].id)}
                       className="w-full"
                       disabled={apiChecking}
                     >
@@ -593,11 +1273,11 @@ const StudyPage = () => {
                       {showAnswer && (
                         <div className="p-4 border rounded-lg bg-secondary/10">
                           <p className="font-medium">Réponse correcte:</p>
-                          <p className="mt-1">{filteredCards[currentCardIndex].back.text}</p>
-                          {filteredCards[currentCardIndex].back.image && (
+                          <p className="mt-1">{activeCards[currentCardIndex].back.text}</p>
+                          {activeCards[currentCardIndex].back.image && (
                             <div className="mt-2">
                               <img
-                                src={filteredCards[currentCardIndex].back.image}
+                                src={activeCards[currentCardIndex].back.image}
                                 alt="Answer"
                                 className="max-h-40 mx-auto rounded-lg"
                               />
@@ -608,7 +1288,7 @@ const StudyPage = () => {
                       
                       <div className="flex justify-center gap-2 mt-4">
                         <Button 
-                          onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, false)}
+                          onClick={() => handleManualCheck(activeCards[currentCardIndex].id, false)}
                           variant="outline"
                           className="flex-1 border-red-200 hover:bg-red-50 hover:text-red-600 dark:border-red-800 dark:hover:bg-red-950"
                         >
@@ -617,7 +1297,7 @@ const StudyPage = () => {
                         </Button>
                         
                         <Button 
-                          onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, true)}
+                          onClick={() => handleManualCheck(activeCards[currentCardIndex].id, true)}
                           variant="outline"
                           className="flex-1 border-green-200 hover:bg-green-50 hover:text-green-600 dark:border-green-800 dark:hover:bg-green-950"
                         >
@@ -628,14 +1308,16 @@ const StudyPage = () => {
                     </>
                   )}
                   
-                  {quizResults[filteredCards[currentCardIndex].id] !== undefined && (
+                  {typoPrompt}
+                  
+                  {quizResults[activeCards[currentCardIndex].id] !== undefined && (
                     <div className={`p-4 mt-2 border rounded-lg ${
-                      quizResults[filteredCards[currentCardIndex].id] 
+                      quizResults[activeCards[currentCardIndex].id] 
                         ? "bg-green-50 border-green-200 text-green-800 dark:bg-green-900/20 dark:border-green-800 dark:text-green-300" 
                         : "bg-red-50 border-red-200 text-red-800 dark:bg-red-900/20 dark:border-red-800 dark:text-red-300"
                     }`}>
                       <div className="flex items-center">
-                        {quizResults[filteredCards[currentCardIndex].id] ? (
+                        {quizResults[activeCards[currentCardIndex].id] ? (
                           <>
                             <Check className="h-5 w-5 mr-2" />
                             <span>Correct !</span>
@@ -643,7 +1325,7 @@ const StudyPage = () => {
                         ) : (
                           <>
                             <X className="h-5 w-5 mr-2" />
-                            <span>Incorrect. La bonne réponse est: {filteredCards[currentCardIndex].back.text}</span>
+                            <span>Incorrect. La bonne réponse est: {activeCards[currentCardIndex].back.text}</span>
                           </>
                         )}
                       </div>
@@ -653,19 +1335,94 @@ const StudyPage = () => {
               </div>
             )}
             
+            {studyMode === StudyMode.CHOICE && !showResults && choiceQuestion && (
+              <div className="space-y-6">
+                <div className="flex items-center justify-center mb-4">
+                  <Progress value={(currentCardIndex / activeCards.length) * 100} className="w-full" />
+                </div>
+                
+                <div className="text-center mb-6">
+                  <h2 className="text-xl font-bold mb-4">{activeCards[currentCardIndex].front.text}</h2>
+                  
+                  {activeCards[currentCardIndex].front.image && (
+                    <div className="flex justify-center mb-4">
+                      <img
+                        src={activeCards[currentCardIndex].front.image}
+                        alt="Question"
+                        className="max-h-60 rounded-lg"
+                      />
+                    </div>
+                  )}
+                </div>
+                
+                {choiceQuestion.options.length < MIN_CHOICE_COUNT ? (
+                  <div className="max-w-md mx-auto text-center space-y-4">
+                    <Alert>
+                      <AlertTitle>Pas assez de réponses</AlertTitle>
+                      <AlertDescription>
+                        Le deck ne contient pas d'autres réponses assez différentes de celle-ci pour proposer des choix.
+                        Ajoutez des cartes ou passez à la suivante.
+                      </AlertDescription>
+                    </Alert>
+                    {currentCardIndex < activeCards.length - 1 ? (
+                      <Button onClick={handleNextCard} variant="outline">
+                        Carte suivante
+                        <ArrowRight className="ml-2 h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button onClick={() => setShowResults(true)} variant="outline">
+                        Voir les résultats
+                      </Button>
+                    )}
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      {choiceQuestion.options.map((option, index) => {
+                        const picked = pickedChoices[choiceQuestion.cardId];
+                        const stateClass = !picked
+                          ? ""
+                          : option.correct
+                            ? "border-green-500 bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300"
+                            : option.cardId === picked
+                              ? "border-red-500 bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300"
+                              : "opacity-60";
+                        
+                        return (
+                          <Button
+                            key={option.cardId}
+                            onClick={() => handleChoicePick(option.cardId)}
+                            variant="outline"
+                            disabled={!!picked}
+                            className={`h-auto justify-start whitespace-normal py-3 text-left disabled:opacity-100 ${stateClass}`}
+                          >
+                            <Badge variant="secondary" className="mr-2 px-1.5 shrink-0">{index + 1}</Badge>
+                            {option.text}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                    <p className="text-xs text-center text-muted-foreground">
+                      Utilisez les touches 1 à {choiceQuestion.options.length} pour choisir votre réponse
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+            
             {studyMode === StudyMode.WRITE && !showResults && (
               <div className="space-y-6">
                 <div className="flex items-center justify-center mb-4">
-                  <Progress value={(currentCardIndex / filteredCards.length) * 100} className="w-full" />
+                  <Progress value={(currentCardIndex / activeCards.length) * 100} className="w-full" />
                 </div>
                 
                 <div className="text-center mb-6">
-                  <h2 className="text-xl font-bold mb-4">{filteredCards[currentCardIndex].front.text}</h2>
+                  <h2 className="text-xl font-bold mb-4">{activeCards[currentCardIndex].front.text}</h2>
                   
-                  {filteredCards[currentCardIndex].front.image && (
+                  {activeCards[currentCardIndex].front.image && (
                     <div className="flex justify-center mb-4">
                       <img
-                        src={filteredCards[currentCardIndex].front.image}
+                        src={activeCards[currentCardIndex].front.image}
                         alt="Question"
                         className="max-h-60 rounded-lg"
                       />
@@ -679,20 +1436,31 @@ const StudyPage = () => {
                     <textarea
                       id="writeAnswer"
                       className="w-full min-h-[120px] p-3 rounded-md border border-input bg-background"
-                      value={quizAnswers[filteredCards[currentCardIndex].id] || ''}
-                      onChange={(e) => handleQuizAnswer(e as any, filteredCards[currentCardIndex].id)}
+                      value={quizAnswers[activeCards[currentCardIndex].id] || ''}
+                      onChange={(e) => handleQuizAnswer(e as any, activeCards[currentCardIndex].id)}
                       placeholder="Écrivez votre réponse ici..."
                     />
                   </div>
                   
+                  <Button
+                    onClick={() => handleAutoCheck(activeCards[currentCardIndex].id)}
+                    className="w-full"
+                    disabled={apiChecking}
+                  >
+                    {apiChecking ? "Vérification..." : "Vérifier ma réponse"}
+                  </Button>
+                  
+                  {typoPrompt}
+                  
                   <div className="flex justify-between">
                     <Button
-                      onClick={() => setShowHint(!showHint)}
+                      onClick={revealHint}
                       variant="outline"
                       className="flex items-center gap-1"
+                      disabled={hintLevel >= hintSteps.length}
                     >
                       <Lightbulb className="h-4 w-4" />
-                      Indice
+                      Indice ({hintLevel}/{hintSteps.length})
                     </Button>
                     
                     <Button
@@ -703,33 +1471,25 @@ const StudyPage = () => {
                     </Button>
                   </div>
                   
-                  {showHint && (
-                    <Alert className="mt-2 bg-yellow-50 dark:bg-yellow-900/20">
-                      <Lightbulb className="h-4 w-4 text-yellow-600 dark:text-yellow-400" />
-                      <AlertTitle>Indice</AlertTitle>
-                      <AlertDescription className="italic">
-                        {filteredCards[currentCardIndex].front.additionalInfo || "Aucun indice disponible"}
-                      </AlertDescription>
-                    </Alert>
-                  )}
+                  {hintPanel}
                   
                   {showAnswer && (
                     <div className="p-4 border rounded-lg bg-secondary/10 mt-2">
                       <p className="font-medium">Réponse correcte:</p>
-                      <p className="mt-1">{filteredCards[currentCardIndex].back.text}</p>
-                      {filteredCards[currentCardIndex].back.image && (
+                      <p className="mt-1">{activeCards[currentCardIndex].back.text}</p>
+                      {activeCards[currentCardIndex].back.image && (
                         <div className="mt-2">
                           <img
-                            src={filteredCards[currentCardIndex].back.image}
+                            src={activeCards[currentCardIndex].back.image}
                             alt="Answer"
                             className="max-h-40 mx-auto rounded-lg"
                           />
                         </div>
                       )}
-                      {filteredCards[currentCardIndex].back.additionalInfo && (
+                      {activeCards[currentCardIndex].back.additionalInfo && (
                         <div className="mt-2 p-2 bg-primary/5 rounded text-sm">
                           <p className="font-medium">Informations supplémentaires:</p>
-                          <p>{filteredCards[currentCardIndex].back.additionalInfo}</p>
+                          <p>{activeCards[currentCardIndex].back.additionalInfo}</p>
                         </div>
                       )}
                     </div>
@@ -737,7 +1497,7 @@ const StudyPage = () => {
                   
                   <div className="flex justify-center gap-2 mt-4">
                     <Button 
-                      onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, false)}
+                      onClick={() => handleManualCheck(activeCards[currentCardIndex].id, false)}
                       variant="outline"
                       className="flex-1 border-red-200 hover:bg-red-50 hover:text-red-600 dark:border-red-800 dark:hover:bg-red-950"
                     >
@@ -746,7 +1506,7 @@ const StudyPage = () => {
                     </Button>
                     
                     <Button 
-                      onClick={() => handleManualCheck(filteredCards[currentCardIndex].id, true)}
+                      onClick={() => handleManualCheck(activeCards[currentCardIndex].id, true)}
                       variant="outline"
                       className="flex-1 border-green-200 hover:bg-green-50 hover:text-green-600 dark:border-green-800 dark:hover:bg-green-950"
                     >
@@ -758,12 +1518,22 @@ const StudyPage = () => {
               </div>
             )}
             
+            {studyMode === StudyMode.MATCHING && id && (
+              <MatchingGame
+                deckId={id}
+                cards={activeCards}
+                onMiss={handleMatchingMiss}
+                onMatch={handleMatchingMatch}
+              />
+            )}
+            
             {showResults && (
               <div className="space-y-6">
                 <div className="text-center">
                   <h2 className="text-2xl font-bold mb-2">Résultats</h2>
                   <p className="text-muted-foreground mb-6">
-                    Vous avez terminé l'étude de {filteredCards.length} cartes
+                    Vous avez terminé l'étude de {activeCards.length} cartes
+                    ({STUDY_DIRECTIONS.find(direction => direction.value === studyDirection)?.label.toLowerCase()})
                   </p>
                   
                   <div className="grid grid-cols-2 gap-4 max-w-md mx-auto mb-6">
@@ -782,19 +1552,42 @@ const StudyPage = () => {
                     <div className="flex justify-between items-center">
                       <Label>Performance</Label>
                       <Badge variant="outline">
-                        {Math.round((correctAnswers / (correctAnswers + incorrectAnswers)) * 100) || 0}%
+                        {Math.round(((correctAnswers - hintStats.penalty) / (correctAnswers + incorrectAnswers)) * 100) || 0}%
                       </Badge>
                     </div>
                     <Progress 
                       value={
                         correctAnswers + incorrectAnswers > 0
-                          ? (correctAnswers / (correctAnswers + incorrectAnswers)) * 100
+                          ? ((correctAnswers - hintStats.penalty) / (correctAnswers + incorrectAnswers)) * 100
                           : 0
                       }
                       className="h-2"
                     />
+                    {hintStats.answers > 0 && (
+                      <p className="text-xs text-muted-foreground text-left">
+                        {hintStats.answers} réponse{hintStats.answers > 1 ? "s" : ""} juste{hintStats.answers > 1 ? "s" : ""} avec indice :
+                        {" "}−{Math.round((hintStats.penalty / (correctAnswers + incorrectAnswers)) * 100)} % de performance
+                      </p>
+                    )}
                   </div>
                   
+                  {studyDirection === "both" && (
+                    <div className="grid grid-cols-2 gap-4 max-w-md mx-auto mb-6">
+                      {STUDY_DIRECTIONS.filter(direction => direction.value !== "both").map((direction) => {
+                        const scores = directionScores[direction.value as CardDirection];
+                        const total = scores.correct + scores.incorrect;
+                        return (
+                          <div key={direction.value} className="p-3 rounded-lg border text-left">
+                            <p className="text-sm text-muted-foreground">{direction.label}</p>
+                            <p className="font-medium">
+                              {scores.correct} / {total} ({total > 0 ? Math.round((scores.correct / total) * 100) : 0}%)
+                            </p>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  
                   <Button onClick={restartStudy} className="mx-2">
                     <Repeat className="mr-2 h-4 w-4" />
                     Recommencer
@@ -809,6 +1602,33 @@ const StudyPage = () => {
             )}
           </CardContent>
           
+          {studyMode === StudyMode.FLASHCARDS && !showResults && (
+            <CardFooter className="flex flex-col gap-4">
+              <div className="w-full border-t pt-4">
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="scheduler-algorithm">
+                    Algorithme de révision:
+                  </Label>
+                  <Select
+                    value={schedulerAlgorithm}
+                    onValueChange={(value) => handleSchedulerChange(value as SchedulerAlgorithm)}
+                  >
+                    <SelectTrigger id="scheduler-algorithm" className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(SCHEDULERS).map((scheduler) => (
+                        <SelectItem key={scheduler.name} value={scheduler.name}>
+                          {scheduler.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardFooter>
+          )}
+          
           {studyMode === StudyMode.QUIZ && !showResults && (
             <CardFooter className="flex flex-col gap-4">
               <div className="w-full border-t pt-4">
@@ -825,57 +1645,63 @@ const StudyPage = () => {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value={QuizCheckMethod.MANUAL}>Manuelle</SelectItem>
-                      <SelectItem value={QuizCheckMethod.AUTO}>Automatique (API)</SelectItem>
+                      <SelectItem value={QuizCheckMethod.AUTO}>Automatique</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
                 
                 {quizCheckMethod === QuizCheckMethod.AUTO && (
                   <div className="mt-2 space-y-2">
-                    <div className="flex items-center space-x-2">
-                      <Label htmlFor="api-key">Clé API Gemini</Label>
-                      <Input
-                        id="api-key"
-                        type="password"
-                        value={geminiApiKey}
-                        placeholder="Entrez votre clé API Gemini-1.5-flash"
-                        onChange={(e) => setGeminiApiKey(e.target.value)}
-                      />
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <Switch
-                        id="enable-gemini"
-                        checked={isGeminiEnabled}
-                        onCheckedChange={setIsGeminiEnabled}
-                      />
-                      <Label htmlFor="enable-gemini">
-                        Activer la vérification automatique avec Gemini
-                      </Label>
-                    </div>
-                    {!isGeminiEnabled && (
-                      <p className="text-xs text-muted-foreground">
-                        La vérification automatique utilisera une correspondance exacte sans l'API Gemini.
-                      </p>
-                    )}
-                    <Alert className="mt-2 bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-700">
-                      <MessageSquare className="h-4 w-4 text-blue-600 dark:text-blue-400" />
-                      <AlertTitle>Note sur l'API Gemini</AlertTitle>
-                      <AlertDescription className="text-xs">
-                        Utilisez une clé API pour Gemini 1.5 Flash. Vous pouvez l'obtenir sur 
-                        <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" 
-                           className="underline text-blue-600 dark:text-blue-400 ml-1">
-                          Google AI Studio
-                        </a>.
-                      </AlertDescription>
-                    </Alert>
+                    {ignoreArticlesSwitch}
+                    <p className="text-xs text-muted-foreground">
+                      Vérification : {getActiveEvaluator(evaluatorSettings).label}.{" "}
+                      <Link to="/settings" className="underline">
+                        Changer de fournisseur
+                      </Link>
+                    </p>
                   </div>
                 )}
               </div>
             </CardFooter>
           )}
+          
+          {studyMode === StudyMode.WRITE && !showResults && (
+            <CardFooter className="flex flex-col gap-4">
+              <div className="w-full border-t pt-4">
+                {ignoreArticlesSwitch}
+              </div>
+            </CardFooter>
+          )}
+          
+          {studyMode === StudyMode.CHOICE && !showResults && (
+            <CardFooter className="flex flex-col gap-4">
+              <div className="w-full border-t pt-4">
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="choice-count">
+                    Nombre de choix:
+                  </Label>
+                  <Select
+                    value={String(choiceCount)}
+                    onValueChange={(value) => setChoiceCount(Number(value))}
+                  >
+                    <SelectTrigger id="choice-count" className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHOICE_COUNTS.map((count) => (
+                        <SelectItem key={count} value={String(count)}>
+                          {count} choix
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardFooter>
+          )}
         </Card>
         
-        {(studyMode === StudyMode.FLASHCARDS && !showResults) && (
+        {(studyMode === StudyMode.FLASHCARDS && !showResults && activeCards.length > 0) && (
           <div className="flex justify-between">
             <Button
               onClick={handlePrevCard}
@@ -895,7 +1721,7 @@ const StudyPage = () => {
             
             <Button
               onClick={handleNextCard}
-              disabled={currentCardIndex === filteredCards.length - 1 || isRecordingSession}
+              disabled={currentCardIndex === activeCards.length - 1 || isRecordingSession}
             >
               {isRecordingSession ? (
                 <>
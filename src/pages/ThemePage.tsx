@@ -8,7 +8,8 @@ import {
   ArrowLeft,
   Check,
   X,
-  Info
+  Info,
+  Sparkles
 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
@@ -17,10 +18,13 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import FlashCard from "@/components/FlashCard";
 import FlashCardItem from "@/components/FlashCardItem";
+import ClozeEditor, { ClozeEditorValue } from "@/components/ClozeEditor";
+import GenerateCardsDialog from "@/components/GenerateCardsDialog";
 
 import { 
   getDeck, 
@@ -31,10 +35,13 @@ import {
   getBase64,
   updateFlashcard,
   deleteFlashcard,
+  createClozeNote,
   Flashcard,
   Theme,
   Deck
 } from "@/lib/localStorage";
+import { createCardSide, textSide } from "@/lib/cardContent";
+import { getClozeIndices } from "@/lib/cloze";
 
 const ThemePage = () => {
   const { deckId, themeId } = useParams<{ deckId: string; themeId: string }>();
@@ -47,8 +54,12 @@ const ThemePage = () => {
   const [isOwner, setIsOwner] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [showCardDialog, setShowCardDialog] = useState(false);
+  const [showGenerateDialog, setShowGenerateDialog] = useState(false);
   const [showFrontAdditionalInfo, setShowFrontAdditionalInfo] = useState(false);
   const [showBackAdditionalInfo, setShowBackAdditionalInfo] = useState(false);
+  // Type de carte créée : recto/verso ou texte à trous
+  const [cardKind, setCardKind] = useState<"basic" | "cloze">("basic");
+  const [newCloze, setNewCloze] = useState<ClozeEditorValue>({ text: "", extra: "" });
 
   // New flashcard form
   const [newCard, setNewCard] = useState({
@@ -185,12 +196,26 @@ const ThemePage = () => {
     }
   };
 
-  const handleDeleteCard = (cardId: string) => {
-    const updatedCards = flashcards.filter(card => card.id !== cardId);
+  // Les cartes d'un même texte à trous changent ensemble : recharger celles du thème
+  const reloadThemeCards = async () => {
+    if (!themeId) return;
+    setFlashcards(await getFlashcardsByTheme(themeId));
+  };
+
+  const handleDeleteCard = (deletedCard: Flashcard) => {
+    if (deletedCard.front.type === 'cloze') {
+      reloadThemeCards();
+      return;
+    }
+    const updatedCards = flashcards.filter(card => card.id !== deletedCard.id);
     setFlashcards(updatedCards);
   };
 
   const handleUpdateCard = (updatedCard: Flashcard) => {
+    if (updatedCard.front.type === 'cloze') {
+      reloadThemeCards();
+      return;
+    }
     const updatedCards = flashcards.map(card => 
       card.id === updatedCard.id ? updatedCard : card
     );
@@ -236,8 +261,8 @@ const ThemePage = () => {
       const card = createFlashcard({
         deckId,
         themeId,
-        front: frontData,
-        back: backData,
+        front: createCardSide(frontData),
+        back: createCardSide(backData),
       });
       
       setFlashcards([...flashcards, card]);
@@ -275,6 +300,44 @@ const ThemePage = () => {
     }
   };
 
+  const createClozeCards = async () => {
+    if (!deckId || !themeId) return;
+    
+    if (getClozeIndices(newCloze.text).length === 0) {
+      toast({
+        title: "Trou requis",
+        description: "Ajoutez au moins un trou au format {{c1::réponse}}",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    try {
+      const cards = await createClozeNote({
+        deckId,
+        themeId,
+        text: newCloze.text.trim(),
+        extra: textSide(newCloze.extra.trim()),
+      });
+      
+      setFlashcards([...flashcards, ...cards]);
+      setShowCardDialog(false);
+      setNewCloze({ text: "", extra: "" });
+      
+      toast({
+        title: "Cartes créées",
+        description: `${cards.length} carte${cards.length > 1 ? "s" : ""} à trous ajoutée${cards.length > 1 ? "s" : ""} au thème`,
+      });
+    } catch (error) {
+      console.error("Error creating cloze cards:", error);
+      toast({
+        title: "Erreur",
+        description: "Impossible de créer les cartes à trous",
+        variant: "destructive",
+      });
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="container px-4 py-8 flex items-center justify-center h-64">
@@ -362,6 +425,17 @@ const ThemePage = () => {
                 Ajouter une carte
               </Button>
             )}
+            
+            {isOwner && (
+              <Button 
+                variant="outline" 
+                onClick={() => setShowGenerateDialog(true)}
+                className="border-primary/30 hover:border-primary/60 transition-all duration-300"
+              >
+                <Sparkles className="mr-2 h-4 w-4" />
+                Générer des cartes
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -388,7 +462,7 @@ const ThemePage = () => {
               <FlashCardItem 
                 key={card.id} 
                 card={card} 
-                onDelete={() => handleDeleteCard(card.id)}
+                onDelete={() => handleDeleteCard(card)}
                 onUpdate={handleUpdateCard}
               />
             ))}
@@ -410,6 +484,17 @@ const ThemePage = () => {
         )}
       </div>
       
+      {deckId && themeId && (
+        <GenerateCardsDialog
+          deckId={deckId}
+          themeId={themeId}
+          existingCards={flashcards}
+          isOpen={showGenerateDialog}
+          onClose={() => setShowGenerateDialog(false)}
+          onCardsCreated={(cards) => setFlashcards([...flashcards, ...cards])}
+        />
+      )}
+      
       {/* Add Card Dialog */}
       <Dialog open={showCardDialog} onOpenChange={setShowCardDialog}>
         <DialogContent className="max-w-3xl">
@@ -420,235 +505,248 @@ const ThemePage = () => {
             </DialogDescription>
           </DialogHeader>
           
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 py-4">
-            {/* Front of the card */}
-            <div className="space-y-4 border p-4 rounded-lg">
-              <h3 className="font-medium">Recto de la carte</h3>
-              
-              <div className="space-y-2">
-                <Label htmlFor="front-text">Texte</Label>
-                <Textarea
-                  id="front-text"
-                  placeholder="Ex: Définition, question, mot..."
-                  rows={3}
-                  value={newCard.front.text}
-                  onChange={(e) => setNewCard({
-                    ...newCard,
-                    front: { ...newCard.front, text: e.target.value },
-                  })}
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="front-image">Image (optionnelle)</Label>
-                <Input
-                  id="front-image"
-                  type="file"
-                  accept="image/*"
-                  onChange={(e) => handleImageUpload(e, 'front')}
-                />
-                {newCard.front.image && (
-                  <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
-                    <img
-                      src={newCard.front.image}
-                      alt="Front side"
-                      className="w-full h-full object-contain"
-                    />
-                    <Button
-                      variant="destructive"
-                      size="icon"
-                      className="absolute top-2 right-2 w-6 h-6 rounded-full"
-                      onClick={() => setNewCard({
-                        ...newCard,
-                        front: { ...newCard.front, image: undefined },
-                      })}
-                    >
-                      <X className="h-3 w-3" />
-                    </Button>
-                  </div>
-                )}
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="front-audio">Audio (optionnel)</Label>
-                <Input
-                  id="front-audio"
-                  type="file"
-                  accept="audio/*"
-                  onChange={(e) => handleAudioUpload(e, 'front')}
-                />
-                {newCard.front.audio && (
-                  <div className="mt-2 relative">
-                    <audio className="w-full" controls>
-                      <source src={newCard.front.audio} />
-                      Votre navigateur ne supporte pas l'élément audio.
-                    </audio>
-                    <Button
-                      variant="destructive"
-                      size="icon"
-                      className="absolute -top-2 right-2 w-6 h-6 rounded-full"
-                      onClick={() => setNewCard({
-                        ...newCard,
-                        front: { ...newCard.front, audio: undefined },
-                      })}
-                    >
-                      <X className="h-3 w-3" />
-                    </Button>
-                  </div>
-                )}
-              </div>
+          <Tabs value={cardKind} onValueChange={(value) => setCardKind(value as "basic" | "cloze")} className="pt-4">
+            <TabsList>
+              <TabsTrigger value="basic">Recto / verso</TabsTrigger>
+              <TabsTrigger value="cloze">Texte à trous</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          
+          {cardKind === "cloze" ? (
+            <div className="py-4">
+              <ClozeEditor value={newCloze} onChange={setNewCloze} />
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 py-4">
+              {/* Front of the card */}
+              <div className="space-y-4 border p-4 rounded-lg">
+                <h3 className="font-medium">Recto de la carte</h3>
               
-              <div className="flex items-center space-x-2 pt-2">
-                <Checkbox 
-                  id="show-front-additional-info" 
-                  checked={showFrontAdditionalInfo}
-                  onCheckedChange={(checked) => {
-                    setShowFrontAdditionalInfo(checked as boolean);
-                  }}
-                />
-                <label 
-                  htmlFor="show-front-additional-info" 
-                  className="text-sm font-medium leading-none cursor-pointer peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                >
-                  Ajouter des informations supplémentaires
-                </label>
-              </div>
-
-              {showFrontAdditionalInfo && (
                 <div className="space-y-2">
-                  <Label htmlFor="front-additional-info">Informations supplémentaires</Label>
+                  <Label htmlFor="front-text">Texte</Label>
                   <Textarea
-                    id="front-additional-info"
-                    placeholder="Notes, contexte ou détails complémentaires..."
+                    id="front-text"
+                    placeholder="Ex: Définition, question, mot..."
                     rows={3}
-                    value={newCard.front.additionalInfo}
+                    value={newCard.front.text}
                     onChange={(e) => setNewCard({
                       ...newCard,
-                      front: { ...newCard.front, additionalInfo: e.target.value },
+                      front: { ...newCard.front, text: e.target.value },
                     })}
                   />
                 </div>
-              )}
-            </div>
-            
-            {/* Back of the card */}
-            <div className="space-y-4 border p-4 rounded-lg">
-              <h3 className="font-medium">Verso de la carte</h3>
               
-              <div className="space-y-2">
-                <Label htmlFor="back-text">Texte</Label>
-                <Textarea
-                  id="back-text"
-                  placeholder="Ex: Réponse, traduction..."
-                  rows={3}
-                  value={newCard.back.text}
-                  onChange={(e) => setNewCard({
-                    ...newCard,
-                    back: { ...newCard.back, text: e.target.value },
-                  })}
-                />
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="front-image">Image (optionnelle)</Label>
+                  <Input
+                    id="front-image"
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => handleImageUpload(e, 'front')}
+                  />
+                  {newCard.front.image && (
+                    <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
+                      <img
+                        src={newCard.front.image}
+                        alt="Front side"
+                        className="w-full h-full object-contain"
+                      />
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        className="absolute top-2 right-2 w-6 h-6 rounded-full"
+                        onClick={() => setNewCard({
+                          ...newCard,
+                          front: { ...newCard.front, image: undefined },
+                        })}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="back-image">Image (optionnelle)</Label>
-                <Input
-                  id="back-image"
-                  type="file"
-                  accept="image/*"
-                  onChange={(e) => handleImageUpload(e, 'back')}
-                />
-                {newCard.back.image && (
-                  <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
-                    <img
-                      src={newCard.back.image}
-                      alt="Back side"
-                      className="w-full h-full object-contain"
-                    />
-                    <Button
-                      variant="destructive"
-                      size="icon"
-                      className="absolute top-2 right-2 w-6 h-6 rounded-full"
-                      onClick={() => setNewCard({
-                        ...newCard,
-                        back: { ...newCard.back, image: undefined },
-                      })}
-                    >
-                      <X className="h-3 w-3" />
-                    </Button>
-                  </div>
-                )}
-              </div>
+                <div className="space-y-2">
+                  <Label htmlFor="front-audio">Audio (optionnel)</Label>
+                  <Input
+                    id="front-audio"
+                    type="file"
+                    accept="audio/*"
+                    onChange={(e) => handleAudioUpload(e, 'front')}
+                  />
+                  {newCard.front.audio && (
+                    <div className="mt-2 relative">
+                      <audio className="w-full" controls>
+                        <source src={newCard.front.audio} />
+                        Votre navigateur ne supporte pas l'élément audio.
+                      </audio>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        className="absolute -top-2 right-2 w-6 h-6 rounded-full"
+                        onClick={() => setNewCard({
+                          ...newCard,
+                          front: { ...newCard.front, audio: undefined },
+                        })}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
               
-              <div className="space-y-2">
-                <Label htmlFor="back-audio">Audio (optionnel)</Label>
-                <Input
-                  id="back-audio"
-                  type="file"
-                  accept="audio/*"
-                  onChange={(e) => handleAudioUpload(e, 'back')}
-                />
-                {newCard.back.audio && (
-                  <div className="mt-2 relative">
-                    <audio className="w-full" controls>
-                      <source src={newCard.back.audio} />
-                      Votre navigateur ne supporte pas l'élément audio.
-                    </audio>
-                    <Button
-                      variant="destructive"
-                      size="icon"
-                      className="absolute -top-2 right-2 w-6 h-6 rounded-full"
-                      onClick={() => setNewCard({
+                <div className="flex items-center space-x-2 pt-2">
+                  <Checkbox 
+                    id="show-front-additional-info" 
+                    checked={showFrontAdditionalInfo}
+                    onCheckedChange={(checked) => {
+                      setShowFrontAdditionalInfo(checked as boolean);
+                    }}
+                  />
+                  <label 
+                    htmlFor="show-front-additional-info" 
+                    className="text-sm font-medium leading-none cursor-pointer peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                  >
+                    Ajouter des informations supplémentaires
+                  </label>
+                </div>
+
+                {showFrontAdditionalInfo && (
+                  <div className="space-y-2">
+                    <Label htmlFor="front-additional-info">Informations supplémentaires</Label>
+                    <Textarea
+                      id="front-additional-info"
+                      placeholder="Notes, contexte ou détails complémentaires..."
+                      rows={3}
+                      value={newCard.front.additionalInfo}
+                      onChange={(e) => setNewCard({
                         ...newCard,
-                        back: { ...newCard.back, audio: undefined },
+                        front: { ...newCard.front, additionalInfo: e.target.value },
                       })}
-                    >
-                      <X className="h-3 w-3" />
-                    </Button>
+                    />
                   </div>
                 )}
               </div>
+            
+              {/* Back of the card */}
+              <div className="space-y-4 border p-4 rounded-lg">
+                <h3 className="font-medium">Verso de la carte</h3>
               
-              <div className="flex items-center space-x-2 pt-2">
-                <Checkbox 
-                  id="show-back-additional-info" 
-                  checked={showBackAdditionalInfo}
-                  onCheckedChange={(checked) => {
-                    setShowBackAdditionalInfo(checked as boolean);
-                  }}
-                />
-                <label 
-                  htmlFor="show-back-additional-info" 
-                  className="text-sm font-medium leading-none cursor-pointer peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                >
-                  Ajouter des informations supplémentaires
-                </label>
-              </div>
-
-              {showBackAdditionalInfo && (
                 <div className="space-y-2">
-                  <Label htmlFor="back-additional-info">Informations supplémentaires</Label>
+                  <Label htmlFor="back-text">Texte</Label>
                   <Textarea
-                    id="back-additional-info"
-                    placeholder="Notes, contexte ou détails complémentaires..."
+                    id="back-text"
+                    placeholder="Ex: Réponse, traduction..."
                     rows={3}
-                    value={newCard.back.additionalInfo}
+                    value={newCard.back.text}
                     onChange={(e) => setNewCard({
                       ...newCard,
-                      back: { ...newCard.back, additionalInfo: e.target.value },
+                      back: { ...newCard.back, text: e.target.value },
                     })}
                   />
                 </div>
-              )}
+              
+                <div className="space-y-2">
+                  <Label htmlFor="back-image">Image (optionnelle)</Label>
+                  <Input
+                    id="back-image"
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => handleImageUpload(e, 'back')}
+                  />
+                  {newCard.back.image && (
+                    <div className="mt-2 relative w-full h-32 rounded-md overflow-hidden border">
+                      <img
+                        src={newCard.back.image}
+                        alt="Back side"
+                        className="w-full h-full object-contain"
+                      />
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        className="absolute top-2 right-2 w-6 h-6 rounded-full"
+                        onClick={() => setNewCard({
+                          ...newCard,
+                          back: { ...newCard.back, image: undefined },
+                        })}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              
+                <div className="space-y-2">
+                  <Label htmlFor="back-audio">Audio (optionnel)</Label>
+                  <Input
+                    id="back-audio"
+                    type="file"
+                    accept="audio/*"
+                    onChange={(e) => handleAudioUpload(e, 'back')}
+                  />
+                  {newCard.back.audio && (
+                    <div className="mt-2 relative">
+                      <audio className="w-full" controls>
+                        <source src={newCard.back.audio} />
+                        Votre navigateur ne supporte pas l'élément audio.
+                      </audio>
+                      <Button
+                        variant="destructive"
+                        size="icon"
+                        className="absolute -top-2 right-2 w-6 h-6 rounded-full"
+                        onClick={() => setNewCard({
+                          ...newCard,
+                          back: { ...newCard.back, audio: undefined },
+                        })}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              
+                <div className="flex items-center space-x-2 pt-2">
+                  <Checkbox 
+                    id="show-back-additional-info" 
+                    checked={showBackAdditionalInfo}
+                    onCheckedChange={(checked) => {
+                      setShowBackAdditionalInfo(checked as boolean);
+                    }}
+                  />
+                  <label 
+                    htmlFor="show-back-additional-info" 
+                    className="text-sm font-medium leading-none cursor-pointer peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                  >
+                    Ajouter des informations supplémentaires
+                  </label>
+                </div>
+
+                {showBackAdditionalInfo && (
+                  <div className="space-y-2">
+                    <Label htmlFor="back-additional-info">Informations supplémentaires</Label>
+                    <Textarea
+                      id="back-additional-info"
+                      placeholder="Notes, contexte ou détails complémentaires..."
+                      rows={3}
+                      value={newCard.back.additionalInfo}
+                      onChange={(e) => setNewCard({
+                        ...newCard,
+                        back: { ...newCard.back, additionalInfo: e.target.value },
+                      })}
+                    />
+                  </div>
+                )}
+              </div>
             </div>
-          </div>
+          )}
           
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowCardDialog(false)}>
               Annuler
             </Button>
-            <Button onClick={createNewCard} className="bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary">
+            <Button onClick={cardKind === "cloze" ? createClozeCards : createNewCard} className="bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary">
               <Check className="mr-2 h-4 w-4" />
-              Ajouter la carte
+              {cardKind === "cloze" ? "Générer les cartes" : "Ajouter la carte"}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -0,0 +1,141 @@
+/**
+ * Évaluation des réponses saisies pendant l'étude
+ *
+ * Chaque fournisseur (comparaison locale, Gemini, serveur compatible OpenAI,
+ * Ollama, fournisseur factice) implémente l'interface AnswerEvaluator.
+ * Le fournisseur choisi et ses réglages (clé API, serveur, modèle) sont enregistrés
+ * dans IndexedDB depuis la page Paramètres. Les évaluations sont mises en cache
+ * par carte et par réponse pour ne pas interroger deux fois un LLM.
+ */
+
+import * as IndexedDB from "@/lib/enhancedIndexedDB";
+import { normalizeAnswer } from "@/lib/answerMatching";
+import { fuzzyEvaluator } from "./evaluators/fuzzy";
+import { geminiEvaluator } from "./evaluators/gemini";
+import { openAICompatibleEvaluator } from "./evaluators/openAICompatible";
+import { ollamaEvaluator } from "./evaluators/ollama";
+import { mockEvaluator } from "./evaluators/mock";
+import {
+  AnswerEvaluation,
+  AnswerEvaluationRequest,
+  AnswerEvaluator,
+  EvaluatorProvider,
+  EvaluatorSettings
+} from "./evaluators/types";
+
+export type {
+  AnswerEvaluation,
+  AnswerEvaluationRequest,
+  AnswerEvaluator,
+  EvaluatorProvider,
+  EvaluatorSettings,
+  ProviderSettings
+} from "./evaluators/types";
+export { createMockEvaluator } from "./evaluators/mock";
+
+const SETTINGS_KEY = "answerEvaluatorSettings";
+// Clé enregistrée par les anciennes versions de la page d'étude
+const LEGACY_GEMINI_KEY = "gemini-api-key";
+
+const CACHE_LIMIT = 500;
+
+export const EVALUATORS: Record<EvaluatorProvider, AnswerEvaluator> = {
+  fuzzy: fuzzyEvaluator,
+  gemini: geminiEvaluator,
+  openai: openAICompatibleEvaluator,
+  ollama: ollamaEvaluator,
+  mock: mockEvaluator
+};
+
+export const DEFAULT_EVALUATOR_SETTINGS: EvaluatorSettings = {
+  provider: "fuzzy",
+  providers: {}
+};
+
+// Évaluations déjà obtenues, de la plus ancienne à la plus récente
+const cache = new Map<string, AnswerEvaluation>();
+
+const cacheKey = (provider: EvaluatorProvider, request: AnswerEvaluationRequest): string => {
+  return JSON.stringify([
+    provider,
+    request.cardId,
+    request.correctAnswer,
+    normalizeAnswer(request.userAnswer),
+    request.readings ?? [],
+    request.ignoredWords ?? []
+  ]);
+};
+
+/**
+ * Vide le cache des évaluations (changement de fournisseur ou de réglages)
+ */
+export const clearEvaluationCache = (): void => {
+  cache.clear();
+};
+
+/**
+ * Réglages d'évaluation enregistrés ; une clé Gemini enregistrée par une ancienne
+ * version est reprise et sélectionne le fournisseur Gemini
+ */
+export const getEvaluatorSettings = async (): Promise<EvaluatorSettings> => {
+  try {
+    const settings = await IndexedDB.loadData<EvaluatorSettings | null>(SETTINGS_KEY, null);
+    if (settings && EVALUATORS[settings.provider]) return settings;
+
+    const legacyKey = await IndexedDB.getItem(LEGACY_GEMINI_KEY);
+    if (legacyKey) {
+      return { provider: "gemini", providers: { gemini: { apiKey: legacyKey } } };
+    }
+  } catch (error) {
+    console.error("Erreur lors du chargement des réglages d'évaluation:", error);
+  }
+  return DEFAULT_EVALUATOR_SETTINGS;
+};
+
+/**
+ * Enregistre les réglages d'évaluation
+ * @param settings Fournisseur choisi et réglages de chaque fournisseur
+ */
+export const saveEvaluatorSettings = async (settings: EvaluatorSettings): Promise<void> => {
+  await IndexedDB.saveData(SETTINGS_KEY, settings);
+  await IndexedDB.removeItemByKey(LEGACY_GEMINI_KEY);
+  clearEvaluationCache();
+};
+
+/**
+ * Fournisseur sélectionné dans les réglages
+ * @param settings Réglages d'évaluation
+ */
+export const getActiveEvaluator = (settings: EvaluatorSettings): AnswerEvaluator => {
+  return EVALUATORS[settings.provider] ?? EVALUATORS[DEFAULT_EVALUATOR_SETTINGS.provider];
+};
+
+/**
+ * Évalue une réponse avec le fournisseur choisi
+ * @param request Carte, réponse saisie et réponse attendue
+ * @param settings Réglages d'évaluation (lus dans IndexedDB s'ils sont absents)
+ * @throws Error si le fournisseur échoue ; les échecs ne sont pas mis en cache
+ */
+export const evaluateAnswer = async (
+  request: AnswerEvaluationRequest,
+  settings?: EvaluatorSettings
+): Promise<AnswerEvaluation> => {
+  if (!request.userAnswer.trim()) {
+    return { score: 0, outcome: "incorrect", feedback: "Réponse vide." };
+  }
+
+  const activeSettings = settings ?? await getEvaluatorSettings();
+  const evaluator = getActiveEvaluator(activeSettings);
+  const key = cacheKey(evaluator.id, request);
+
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const evaluation = await evaluator.evaluate(request, activeSettings.providers[evaluator.id] ?? {});
+
+  cache.set(key, evaluation);
+  if (cache.size > CACHE_LIMIT) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return evaluation;
+};
@@ -0,0 +1,140 @@
+/**
+ * Génération de flashcards par un LLM à partir d'un texte collé (article, résumé d'épisode, notes)
+ *
+ * Le fournisseur et ses réglages sont ceux de la vérification des réponses
+ * (voir answerEvaluator.ts). La sortie du modèle est validée strictement :
+ * une carte mal formée fait échouer toute la génération plutôt que d'être importée à moitié.
+ */
+
+import { z } from "zod";
+import { normalizeAnswer } from "@/lib/answerMatching";
+import { getActiveEvaluator, getEvaluatorSettings, EvaluatorSettings } from "./answerEvaluator";
+
+export const DEFAULT_GENERATED_CARD_COUNT = 10;
+export const MAX_GENERATED_CARD_COUNT = 30;
+// Au-delà, le texte est tronqué pour rester dans le contexte des petits modèles
+export const MAX_SOURCE_LENGTH = 12000;
+
+const generatedCardSchema = z.object({
+  front: z.string().trim().min(1).max(500),
+  back: z.string().trim().min(1).max(1000),
+  hints: z.array(z.string().trim().min(1).max(300)).max(5).optional(),
+  additionalInfo: z.string().trim().max(2000).optional()
+}).strict();
+
+const generationOutputSchema = z.object({
+  cards: z.array(generatedCardSchema).max(MAX_GENERATED_CARD_COUNT)
+}).strict();
+
+export type GeneratedCard = z.infer<typeof generatedCardSchema>;
+
+// Carte proposée dans la boîte de dialogue de revue
+export interface CardProposal extends GeneratedCard {
+  duplicate: boolean; // Recto déjà présent parmi les cartes existantes ou plus haut dans la liste
+}
+
+/**
+ * Consigne envoyée au modèle ; la réponse attendue est un objet JSON { cards: [...] }
+ * (un objet plutôt qu'un tableau, imposé par le mode JSON d'Ollama)
+ */
+export const buildGenerationPrompt = (sourceText: string, cardCount: number): string => {
+  return `
+      Tu es un assistant qui crée des flashcards à partir d'un texte.
+      Propose au plus ${cardCount} flashcards couvrant les faits importants du texte ci-dessous :
+      personnages, lieux, événements, termes et relations.
+
+      Règles :
+      - "front" est une question ou un terme court, compréhensible sans le texte.
+      - "back" est la réponse, la plus courte possible.
+      - "hints" (facultatif) est une liste de 1 à 3 indices progressifs qui ne donnent pas la réponse.
+      - "additionalInfo" (facultatif) est une courte note de contexte.
+      - N'invente rien qui ne figure pas dans le texte. Rédige dans la langue du texte.
+
+      Donne uniquement un objet JSON, sans texte autour, de la forme :
+      {"cards": [{"front": "...", "back": "...", "hints": ["..."], "additionalInfo": "..."}]}
+
+      Texte :
+      """
+      ${sourceText.slice(0, MAX_SOURCE_LENGTH)}
+      """
+    `;
+};
+
+/**
+ * Extrait et valide les cartes du texte renvoyé par le modèle
+ * @throws Error si le texte ne contient pas de JSON conforme au format demandé
+ */
+export const parseGeneratedCards = (text: string): GeneratedCard[] => {
+  // Les modèles entourent parfois le JSON d'un bloc de code markdown
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    throw new Error("Réponse du modèle sans objet JSON");
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Réponse du modèle en JSON invalide");
+  }
+
+  const result = generationOutputSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Carte générée invalide (${issue.path.join(".") || "racine"}) : ${issue.message}`);
+  }
+
+  return result.data.cards.map(card => ({
+    ...card,
+    hints: card.hints?.length ? card.hints : undefined,
+    additionalInfo: card.additionalInfo || undefined
+  }));
+};
+
+/**
+ * Signale les cartes dont le recto existe déjà, dans les cartes existantes ou plus haut dans la liste
+ * @param cards Cartes générées
+ * @param existingFronts Recto des cartes déjà présentes dans le thème ou le deck
+ */
+export const markDuplicateCards = (cards: GeneratedCard[], existingFronts: string[]): CardProposal[] => {
+  const seen = new Set(existingFronts.map(front => normalizeAnswer(front)));
+
+  return cards.map(card => {
+    const key = normalizeAnswer(card.front);
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...card, duplicate };
+  });
+};
+
+/**
+ * Demande au fournisseur choisi dans les paramètres de proposer des cartes
+ * @param sourceText Texte à partir duquel générer les cartes
+ * @param existingFronts Recto des cartes existantes, pour signaler les doublons
+ * @param cardCount Nombre maximal de cartes demandées
+ * @param settings Réglages d'évaluation (lus dans IndexedDB s'ils sont absents)
+ * @throws Error si le fournisseur n'est pas un LLM, échoue ou renvoie une sortie invalide
+ */
+export const generateCards = async (
+  sourceText: string,
+  existingFronts: string[],
+  cardCount: number = DEFAULT_GENERATED_CARD_COUNT,
+  settings?: EvaluatorSettings
+): Promise<CardProposal[]> => {
+  if (!sourceText.trim()) {
+    throw new Error("Texte source vide");
+  }
+
+  const activeSettings = settings ?? await getEvaluatorSettings();
+  const evaluator = getActiveEvaluator(activeSettings);
+  if (!evaluator.complete) {
+    throw new Error(`${evaluator.label} ne peut pas générer de cartes : choisissez un fournisseur LLM dans les paramètres`);
+  }
+
+  const count = Math.min(MAX_GENERATED_CARD_COUNT, Math.max(1, Math.round(cardCount)));
+  const text = await evaluator.complete(
+    buildGenerationPrompt(sourceText, count),
+    activeSettings.providers[evaluator.id] ?? {}
+  );
+  return markDuplicateCards(parseGeneratedCards(text).slice(0, count), existingFronts);
+};
@@ -0,0 +1,30 @@
+import { matchAnswer } from "@/lib/answerMatching";
+import { AnswerEvaluator } from "./types";
+
+const FEEDBACK = {
+  correct: "Réponse correcte.",
+  typo: "Réponse presque correcte : s'agit-il d'une faute de frappe ?",
+  incorrect: "Réponse incorrecte."
+};
+
+// Évaluation hors ligne par comparaison tolérante (voir lib/answerMatching.ts)
+export const fuzzyEvaluator: AnswerEvaluator = {
+  id: "fuzzy",
+  label: "Comparaison locale",
+  description: "Hors ligne : ignore la casse, les accents et la ponctuation, accepte les alternatives et les lectures japonaises, et signale les fautes de frappe.",
+  requiresApiKey: false,
+
+  async evaluate(request) {
+    const match = matchAnswer(request.userAnswer, request.correctAnswer, {
+      ignoredWords: request.ignoredWords,
+      readings: request.readings
+    });
+
+    return {
+      score: match.outcome === "correct" ? 1 : match.similarity,
+      outcome: match.outcome,
+      feedback: FEEDBACK[match.outcome],
+      expected: match.expected
+    };
+  }
+};
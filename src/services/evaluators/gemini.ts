@@ -0,0 +1,55 @@
+import { buildEvaluationPrompt, parseEvaluationText, postJson } from "./llm";
+import { AnswerEvaluator } from "./types";
+
+const API_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: {
+      parts?: Array<{
+        text: string;
+      }>;
+    };
+  }>;
+}
+
+// Évaluation par l'API Gemini de Google, avec la clé de l'utilisateur
+export const geminiEvaluator: AnswerEvaluator = {
+  id: "gemini",
+  label: "Gemini",
+  description: "API Gemini de Google. Nécessite une clé API, disponible sur Google AI Studio.",
+  requiresApiKey: true,
+  defaultModel: "gemini-1.5-flash",
+
+  async evaluate(request, settings) {
+    return parseEvaluationText(await this.complete(buildEvaluationPrompt(request), settings));
+  },
+
+  async complete(prompt, settings) {
+    if (!settings.apiKey) {
+      throw new Error("Clé API Gemini manquante");
+    }
+
+    const model = settings.model || this.defaultModel;
+    const data = await postJson<GeminiResponse>(
+      `${API_URL}/${model}:generateContent?key=${encodeURIComponent(settings.apiKey)}`,
+      {
+        contents: [
+          {
+            parts: [
+              {
+                text: prompt
+              }
+            ]
+          }
+        ],
+        generationConfig: {
+          temperature: 0.2,
+          maxOutputTokens: 4096
+        }
+      }
+    );
+
+    return data.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
+  }
+};
@@ -0,0 +1,71 @@
+import { AnswerEvaluation, AnswerEvaluationRequest } from "./types";
+
+// Score à partir duquel une réponse évaluée par un LLM est considérée comme juste
+export const PASSING_SCORE = 0.7;
+
+/**
+ * Consigne envoyée aux LLM ; la réponse attendue est un objet JSON { score, feedback }
+ */
+export const buildEvaluationPrompt = (request: AnswerEvaluationRequest): string => {
+  const readings = request.readings?.length
+    ? `\n      Lectures également acceptées: ${request.readings.map(reading => `"${reading}"`).join(", ")}`
+    : "";
+  const question = request.question ? `\n      Question: "${request.question}"` : "";
+
+  return `
+      Tu es un assistant qui évalue des réponses de flashcards.
+      ${question}
+      Réponse correcte: "${request.correctAnswer}"${readings}
+      Réponse de l'utilisateur: "${request.userAnswer}"
+
+      Évalue si la réponse de l'utilisateur correspond à la réponse correcte.
+      Attribue un score entre 0 et 1, où:
+      - 0 est complètement incorrect
+      - 0.5 est partiellement correct
+      - 1 est complètement correct
+
+      Donne uniquement un objet JSON contenant "score" (number) et "feedback" (string) qui explique brièvement pourquoi la réponse est correcte ou incorrecte.
+      Exemple: {"score": 0.7, "feedback": "Bonne compréhension du concept, mais il manque un détail important..."}
+    `;
+};
+
+/**
+ * Extrait l'évaluation du texte renvoyé par un LLM
+ * @throws Error si le texte ne contient pas d'objet JSON avec un score
+ */
+export const parseEvaluationText = (text: string): AnswerEvaluation => {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    throw new Error("Réponse du modèle sans objet JSON");
+  }
+
+  const result = JSON.parse(json);
+  const score = Number(result.score);
+  if (!Number.isFinite(score)) {
+    throw new Error("Réponse du modèle sans score");
+  }
+
+  const clamped = Math.min(1, Math.max(0, score));
+  return {
+    score: clamped,
+    outcome: clamped >= PASSING_SCORE ? "correct" : "incorrect",
+    feedback: typeof result.feedback === "string" && result.feedback ? result.feedback : "Pas de feedback disponible."
+  };
+};
+
+/**
+ * Envoie une requête JSON à un fournisseur et renvoie sa réponse décodée
+ * @throws Error si le serveur répond par une erreur HTTP
+ */
+export const postJson = async <T>(url: string, body: unknown, headers: Record<string, string> = {}): Promise<T> => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Erreur ${response.status} du fournisseur : ${await response.text()}`);
+  }
+  return await response.json() as T;
+};
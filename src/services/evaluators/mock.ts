@@ -0,0 +1,28 @@
+import { normalizeAnswer } from "@/lib/answerMatching";
+import { AnswerEvaluation, AnswerEvaluationRequest, AnswerEvaluator } from "./types";
+
+/**
+ * Crée un fournisseur factice, sans appel réseau, pour les tests et le développement
+ * @param evaluate Évaluation à renvoyer ; par défaut, la réponse est juste si elle est identique une fois normalisée
+ */
+export const createMockEvaluator = (
+  evaluate?: (request: AnswerEvaluationRequest) => AnswerEvaluation | Promise<AnswerEvaluation>
+): AnswerEvaluator => ({
+  id: "mock",
+  label: "Factice (développement)",
+  description: "Fournisseur de test : juste si la réponse est identique à la réponse attendue, sans tolérance.",
+  requiresApiKey: false,
+
+  async evaluate(request) {
+    if (evaluate) return await evaluate(request);
+
+    const correct = normalizeAnswer(request.userAnswer) === normalizeAnswer(request.correctAnswer);
+    return {
+      score: correct ? 1 : 0,
+      outcome: correct ? "correct" : "incorrect",
+      feedback: correct ? "Réponse identique (fournisseur factice)." : "Réponse différente (fournisseur factice)."
+    };
+  }
+});
+
+export const mockEvaluator = createMockEvaluator();
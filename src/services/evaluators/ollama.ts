@@ -0,0 +1,33 @@
+import { buildEvaluationPrompt, parseEvaluationText, postJson } from "./llm";
+import { AnswerEvaluator } from "./types";
+
+interface OllamaGenerateResponse {
+  response?: string;
+}
+
+// Évaluation par un serveur Ollama (ou compatible) lancé sur la machine de l'utilisateur
+export const ollamaEvaluator: AnswerEvaluator = {
+  id: "ollama",
+  label: "Ollama (local)",
+  description: "Modèle exécuté localement par Ollama. Le serveur doit autoriser les requêtes de cette application (OLLAMA_ORIGINS).",
+  requiresApiKey: false,
+  defaultEndpoint: "http://localhost:11434",
+  defaultModel: "llama3.1",
+
+  async evaluate(request, settings) {
+    return parseEvaluationText(await this.complete(buildEvaluationPrompt(request), settings));
+  },
+
+  async complete(prompt, settings) {
+    const endpoint = (settings.endpoint || this.defaultEndpoint).replace(/\/+$/, "");
+    const data = await postJson<OllamaGenerateResponse>(`${endpoint}/api/generate`, {
+      model: settings.model || this.defaultModel,
+      prompt,
+      format: "json",
+      stream: false,
+      options: { temperature: 0.2 }
+    });
+
+    return data.response ?? "";
+  }
+};
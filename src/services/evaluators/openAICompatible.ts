@@ -0,0 +1,40 @@
+import { buildEvaluationPrompt, parseEvaluationText, postJson } from "./llm";
+import { AnswerEvaluator } from "./types";
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string;
+    };
+  }>;
+}
+
+// Évaluation par un serveur compatible avec l'API Chat Completions d'OpenAI
+// (OpenAI, OpenRouter, Groq, LM Studio, vLLM...)
+export const openAICompatibleEvaluator: AnswerEvaluator = {
+  id: "openai",
+  label: "Compatible OpenAI",
+  description: "Tout serveur compatible avec l'API Chat Completions d'OpenAI. La clé API est facultative pour un serveur local.",
+  requiresApiKey: false,
+  defaultEndpoint: "https://api.openai.com/v1",
+  defaultModel: "gpt-4o-mini",
+
+  async evaluate(request, settings) {
+    return parseEvaluationText(await this.complete(buildEvaluationPrompt(request), settings));
+  },
+
+  async complete(prompt, settings) {
+    const endpoint = (settings.endpoint || this.defaultEndpoint).replace(/\/+$/, "");
+    const data = await postJson<ChatCompletionResponse>(
+      `${endpoint}/chat/completions`,
+      {
+        model: settings.model || this.defaultModel,
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0.2
+      },
+      settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}
+    );
+
+    return data.choices?.[0]?.message?.content ?? "";
+  }
+};
@@ -0,0 +1,52 @@
+import type { AnswerOutcome } from "@/lib/answerMatching";
+
+// Fournisseurs d'évaluation disponibles
+export type EvaluatorProvider = "fuzzy" | "gemini" | "openai" | "ollama" | "mock";
+
+// Réglages propres à un fournisseur
+export interface ProviderSettings {
+  apiKey?: string;
+  endpoint?: string; // URL de base du serveur (OpenAI compatible, Ollama)
+  model?: string;
+}
+
+// Réglages enregistrés dans IndexedDB : le fournisseur choisi et les réglages de chacun
+export interface EvaluatorSettings {
+  provider: EvaluatorProvider;
+  providers: Partial<Record<EvaluatorProvider, ProviderSettings>>;
+}
+
+export interface AnswerEvaluationRequest {
+  cardId: string;
+  question?: string;
+  userAnswer: string;
+  correctAnswer: string;
+  readings?: string[]; // Lectures acceptées (kana ou romaji)
+  ignoredWords?: string[]; // Articles ignorés en début de réponse
+}
+
+export interface AnswerEvaluation {
+  score: number; // Entre 0 (faux) et 1 (juste)
+  outcome: AnswerOutcome; // 'typo' : réponse presque juste, à confirmer par l'utilisateur
+  feedback: string;
+  expected?: string; // Réponse alternative la plus proche, si le fournisseur la connaît
+}
+
+export interface AnswerEvaluator {
+  id: EvaluatorProvider;
+  label: string;
+  description: string;
+  requiresApiKey: boolean;
+  defaultEndpoint?: string; // Présent si le fournisseur accepte une autre URL de serveur
+  defaultModel?: string; // Présent si le fournisseur accepte un autre modèle
+  /**
+   * Évalue une réponse
+   * @throws Error si le fournisseur est injoignable ou si sa réponse est inexploitable
+   */
+  evaluate(request: AnswerEvaluationRequest, settings: ProviderSettings): Promise<AnswerEvaluation>;
+  /**
+   * Envoie une consigne libre au modèle et renvoie son texte ; absent pour les fournisseurs sans LLM
+   * @throws Error si le fournisseur est injoignable
+   */
+  complete?(prompt: string, settings: ProviderSettings): Promise<string>;
+}
@@ -41,24 +41,174 @@ export interface ThemeExtended {
   isExample?: boolean; // Marque un thème comme étant un exemple/démonstration
 }
 
+// Pièces jointes possibles sur chaque face, quel que soit son type
+export interface CardSideAttachments {
+  image?: string; // Image en data URL ou URL
+  audio?: string; // Audio en data URL ou URL
+  additionalInfo?: string; // Informations complémentaires affichées à la demande
+  readings?: string[]; // Lectures du texte (kana ou romaji), acceptées comme réponses
+}
+
+// Face en texte brut
+export interface TextCardSide extends CardSideAttachments {
+  type: 'text';
+  text: string;
+}
+
+// Face en texte enrichi ; text en est la version brute (recherche, évaluation des réponses)
+export interface RichTextCardSide extends CardSideAttachments {
+  type: 'richText';
+  html: string;
+  text: string;
+}
+
+// Face dont le contenu principal est une image ; text sert de légende
+export interface ImageCardSide extends CardSideAttachments {
+  type: 'image';
+  image: string;
+  text: string;
+}
+
+// Face dont le contenu principal est un son ; text sert de transcription
+export interface AudioCardSide extends CardSideAttachments {
+  type: 'audio';
+  audio: string;
+  text: string;
+}
+
+// Texte à trous, au format {{c1::réponse}} ou {{c1::réponse::indice}}
+// Chaque numéro de trou donne une carte ; les cartes d'un même texte partagent noteId
+export interface ClozeCardSide extends CardSideAttachments {
+  type: 'cloze';
+  text: string;
+  index?: number; // Numéro du trou masqué sur cette carte
+  noteId?: string; // Identifiant commun aux cartes générées depuis le même texte
+}
+
+// Contenu d'une face de carte, discriminé par son type
+export type CardSide = TextCardSide | RichTextCardSide | ImageCardSide | AudioCardSide | ClozeCardSide;
+
+export type CardSideType = CardSide['type'];
+
 export interface FlashcardExtended {
   id: string;
   deckId: string;
   themeId?: string;
-  front: any;
-  back: any;
+  front: CardSide;
+  back: CardSide;
   hints?: string[];
-  additionalInfo?: string;
-  frontImage?: string;
-  backImage?: string;
-  frontAudio?: string;
-  backAudio?: string;
+  additionalInfo?: string; // Note commune aux deux faces
   createdAt: string;
   updatedAt: string;
   // Propriétés étendues
   isExample?: boolean; // Marque une flashcard comme étant un exemple/démonstration
 }
 
+// Note donnée à une carte lors d'une révision
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Algorithmes de répétition espacée disponibles
+export type SchedulerAlgorithm = 'sm2' | 'fsrs';
+
+// Sens dans lequel une carte est interrogée : recto → verso ou verso → recto
+export type CardDirection = 'forward' | 'reverse';
+
+// Sens d'étude d'un deck ; 'both' interroge chaque carte dans les deux sens, avec un état de révision par sens
+export type StudyDirection = CardDirection | 'both';
+
+// Entrée de l'historique des révisions d'une carte
+export interface ReviewHistoryEntry {
+  grade: ReviewGrade;
+  reviewedAt: string;
+  interval: number; // Intervalle attribué après cette révision, en jours
+}
+
+// État de révision d'une carte, stocké à côté des flashcards
+export interface CardReviewState {
+  cardId: string; // Identifiant de la carte, suffixé par ':reverse' pour l'état du sens verso → recto
+  deckId: string;
+  themeId?: string;
+  ease: number; // Facteur de facilité (SM-2)
+  interval: number; // Intervalle actuel en jours
+  due: string; // Date d'échéance (ISO)
+  lapses: number; // Nombre d'oublis
+  reps: number; // Nombre de rappels réussis consécutifs
+  stability?: number; // Stabilité mémorielle en jours (FSRS)
+  difficulty?: number; // Difficulté entre 1 et 10 (FSRS)
+  lastReviewed?: string;
+  history?: ReviewHistoryEntry[]; // Dernières révisions, de la plus ancienne à la plus récente
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Mode d'étude dans lequel une révision a eu lieu
+export type ReviewMode = 'flashcards' | 'quiz' | 'write' | 'choice' | 'matching';
+
+// Réponse donnée à une question à choix multiples
+export interface ReviewChoice {
+  pickedCardId: string; // Carte dont le verso a été choisi (la carte révisée si la réponse est juste)
+  optionCardIds: string[]; // Cartes proposées, dans l'ordre d'affichage
+}
+
+// Entrée du journal des révisions (une par réponse donnée)
+export interface ReviewLogEntry {
+  id?: number; // Généré par IndexedDB
+  cardId: string;
+  deckId: string;
+  themeId?: string;
+  timestamp: string; // Date de la révision (ISO)
+  mode: ReviewMode;
+  grade: ReviewGrade;
+  direction?: CardDirection; // Absent pour le sens recto → verso
+  responseTimeMs?: number; // Temps entre l'affichage de la carte et la réponse
+  answer?: string; // Réponse saisie ou choisie (modes quiz, écriture et QCM)
+  choice?: ReviewChoice; // Option choisie (mode QCM) ou verso associé à tort (jeu d'association)
+  hintsUsed?: number; // Indices révélés avant la réponse (modes quiz et écriture) ; la note en tient déjà compte
+}
+
+// Meilleur temps du jeu d'association pour un deck et un nombre de paires
+export interface MatchingBestTime {
+  deckId: string;
+  pairCount: number;
+  timeMs: number;
+  achievedAt: string;
+}
+
+// Réglages d'une séance d'étude, choisis avant de commencer
+export interface StudySessionConfig {
+  cardLimit: number | null; // Nombre maximal de cartes ; null pour toutes
+  newCardRatio: number | null; // Part des nouvelles cartes (0 à 1) quand la file est limitée ; null pour l'ordre du planificateur
+  timeLimitMinutes: number | null; // Durée maximale de la séance ; null pour aucune limite
+}
+
+// Score d'une séance en cours
+export interface StudySessionScore {
+  correct: number;
+  incorrect: number;
+  byDirection: Record<CardDirection, { correct: number; incorrect: number }>;
+  hintedAnswers: number; // Réponses justes obtenues avec des indices
+  hintPenalty: number; // Part du score perdue à cause des indices
+}
+
+// Séance d'étude interrompue, enregistrée pour pouvoir la reprendre (une par deck)
+export interface StudySessionSnapshot {
+  deckId: string;
+  themeFilter: string; // 'all' ou identifiant du thème étudié
+  mode: ReviewMode;
+  direction: StudyDirection;
+  reviewAllCards: boolean;
+  itemOrder: string[]; // Identifiants des éléments de révision, dans l'ordre de la séance
+  currentIndex: number;
+  answers: Record<string, string>; // Réponses saisies, par élément de révision
+  results: Record<string, boolean>;
+  pickedChoices: Record<string, string>; // Option choisie en mode QCM, par élément de révision
+  score: StudySessionScore;
+  config: StudySessionConfig;
+  startedAt: string;
+  elapsedMs: number; // Temps passé dans la séance, hors interruptions
+  updatedAt: string;
+}
+
 // Alias de types pour simplifier la migration
 export type User = UserExtended;
 export type Deck = DeckExtended;
@@ -7,6 +7,10 @@ export default defineConfig({
   server: {
     host: "::",
     port: 8080,
+    // API REST (npm run server)
+    proxy: {
+      "/api": "http://localhost:3001",
+    },
   },
   plugins: [
     react(),